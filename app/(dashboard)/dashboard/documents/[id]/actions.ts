@@ -1,7 +1,28 @@
 'use server';
 
 import { revalidatePath } from 'next/cache';
-import { startQuizGeneration } from '@/app/api/quizzes/generate/route';
+import { z } from 'zod';
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { documents, flashcardDecks, studyArtifacts } from '@/lib/db/schema';
+import {
+  getDocumentById,
+  getNextStudyArtifactVersion,
+  getUser,
+  hasChunksForDocument,
+} from '@/lib/db/queries';
+import { MAX_FOCUS_LENGTH } from '@/lib/generation';
+import {
+  enqueueFlashcardGeneration,
+  enqueueStudyArtifactGeneration,
+  enqueueSummaryGeneration,
+} from '@/lib/sqs/client';
+import { isStudyArtifactKind } from '@/lib/study-artifacts';
+import { checkFlashcardGenerationLimit, getPlanConfig } from '@/lib/subscriptions/usage';
+import {
+  parseQuizGenerationOptions,
+  startQuizGeneration,
+} from '@/app/api/quizzes/generate/route';
 
 export type GenerateQuizState = { error?: string; quizId?: number };
 
@@ -16,9 +37,23 @@ export async function generateQuiz(
     return { error: 'Invalid document ID' };
   }
 
+  // Optional generation settings; the documents list retry button sends none
+  const questionTypes = formData.getAll('questionTypes');
+  const bloomLevels = formData.getAll('bloomLevels');
+  const options = parseQuizGenerationOptions({
+    questionTypes: questionTypes.length > 0 ? questionTypes : undefined,
+    difficulty: formData.get('difficulty') ?? undefined,
+    bloomLevels: bloomLevels.length > 0 ? bloomLevels : undefined,
+    focus: formData.get('focus') ?? undefined,
+    mode: formData.get('fullCoverage') ? 'full_coverage' : undefined,
+  });
+  if ('error' in options) {
+    return { error: options.error };
+  }
+
   try {
     // Start quiz generation (non-blocking)
-    const result = await startQuizGeneration(documentId);
+    const result = await startQuizGeneration(documentId, options);
 
     if ('error' in result) {
       return { error: result.error };
@@ -33,3 +68,206 @@ export async function generateQuiz(
     return { error: 'Failed to start quiz generation. Please try again.' };
   }
 }
+
+export type RegenerateSummaryState = { error?: string; success?: boolean };
+
+export async function regenerateSummary(
+  _prevState: RegenerateSummaryState,
+  formData: FormData
+): Promise<RegenerateSummaryState> {
+  const documentId = parseInt(formData.get('documentId') as string);
+  if (isNaN(documentId)) {
+    return { error: 'Invalid document ID' };
+  }
+
+  const user = await getUser();
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  const document = await getDocumentById(documentId);
+  if (!document || document.userId !== user.id) {
+    return { error: 'Document not found' };
+  }
+
+  if (document.status !== 'ready') {
+    return { error: 'Document must finish processing before its summary can be regenerated.' };
+  }
+
+  if (document.summaryStatus === 'generating') {
+    return { error: 'Summary is already being generated.' };
+  }
+
+  try {
+    await db
+      .update(documents)
+      .set({ summaryStatus: 'generating' })
+      .where(eq(documents.id, documentId));
+    await enqueueSummaryGeneration(documentId);
+
+    revalidatePath(`/dashboard/documents/${documentId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error starting summary regeneration:', error);
+    await db
+      .update(documents)
+      .set({ summaryStatus: 'failed' })
+      .where(eq(documents.id, documentId));
+    return { error: 'Failed to start summary regeneration. Please try again.' };
+  }
+}
+
+export type RequestStudyArtifactState = { error?: string; artifactId?: number };
+
+/**
+ * Queue a new version of a study artifact; earlier versions are kept
+ */
+export async function requestStudyArtifact(
+  _prevState: RequestStudyArtifactState,
+  formData: FormData
+): Promise<RequestStudyArtifactState> {
+  const documentId = parseInt(formData.get('documentId') as string);
+  if (isNaN(documentId)) {
+    return { error: 'Invalid document ID' };
+  }
+
+  const kind = formData.get('kind');
+  if (!isStudyArtifactKind(kind)) {
+    return { error: 'Invalid study artifact type' };
+  }
+
+  const user = await getUser();
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  const document = await getDocumentById(documentId);
+  if (!document || document.userId !== user.id) {
+    return { error: 'Document not found' };
+  }
+
+  if (document.status !== 'ready') {
+    return { error: 'Document must finish processing before study materials can be generated.' };
+  }
+
+  const [inProgress] = await db
+    .select({ id: studyArtifacts.id })
+    .from(studyArtifacts)
+    .where(
+      and(
+        eq(studyArtifacts.documentId, documentId),
+        eq(studyArtifacts.kind, kind),
+        eq(studyArtifacts.status, 'generating')
+      )
+    )
+    .limit(1);
+  if (inProgress) {
+    return { error: 'This study material is already being generated.' };
+  }
+
+  try {
+    const version = await getNextStudyArtifactVersion(documentId, kind);
+    const [artifact] = await db
+      .insert(studyArtifacts)
+      .values({ documentId, kind, version, status: 'generating' })
+      .returning();
+
+    try {
+      await enqueueStudyArtifactGeneration(artifact.id, documentId);
+    } catch (error) {
+      await db
+        .update(studyArtifacts)
+        .set({ status: 'failed' })
+        .where(eq(studyArtifacts.id, artifact.id));
+      throw error;
+    }
+
+    revalidatePath(`/dashboard/documents/${documentId}`);
+
+    return { artifactId: artifact.id };
+  } catch (error) {
+    console.error('Error starting study artifact generation:', error);
+    return { error: 'Failed to start generating study material. Please try again.' };
+  }
+}
+
+export type CreateFlashcardDeckState = { error?: string; deckId?: number };
+
+const createFlashcardDeckSchema = z.object({
+  documentId: z.coerce.number().int(),
+  cardCount: z.coerce.number().int().min(5),
+  focus: z.string().trim().max(MAX_FOCUS_LENGTH).optional(),
+});
+
+/**
+ * Create a flashcard deck for a document and queue its generation
+ */
+export async function createFlashcardDeck(
+  _prevState: CreateFlashcardDeckState,
+  formData: FormData
+): Promise<CreateFlashcardDeckState> {
+  const result = createFlashcardDeckSchema.safeParse({
+    documentId: formData.get('documentId'),
+    cardCount: formData.get('cardCount'),
+    focus: formData.get('focus') || undefined,
+  });
+  if (!result.success) {
+    return { error: 'Choose at least 5 cards and a focus under 200 characters' };
+  }
+  const { documentId, cardCount, focus } = result.data;
+
+  const user = await getUser();
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  const document = await getDocumentById(documentId);
+  if (!document) {
+    return { error: 'Document not found' };
+  }
+
+  if (document.status !== 'ready' || !(await hasChunksForDocument(documentId))) {
+    return { error: 'Document must finish processing before flashcards can be generated.' };
+  }
+
+  const plan = getPlanConfig(user);
+  if (cardCount > plan.cardsPerDeck) {
+    return { error: `Decks on the ${plan.name} plan can have at most ${plan.cardsPerDeck} cards.` };
+  }
+
+  const limitCheck = await checkFlashcardGenerationLimit(user);
+  if (!limitCheck.allowed) {
+    return { error: limitCheck.error || 'Flashcard generation limit reached' };
+  }
+
+  try {
+    const [deck] = await db
+      .insert(flashcardDecks)
+      .values({
+        userId: user.id,
+        documentId,
+        title: `Flashcards: ${document.filename}`,
+        status: 'generating',
+        focus: focus || null,
+      })
+      .returning();
+
+    try {
+      await enqueueFlashcardGeneration(deck.id, documentId, cardCount);
+    } catch (error) {
+      await db
+        .update(flashcardDecks)
+        .set({ status: 'failed' })
+        .where(eq(flashcardDecks.id, deck.id));
+      throw error;
+    }
+
+    revalidatePath('/dashboard/flashcards');
+
+    return { deckId: deck.id };
+  } catch (error) {
+    console.error('Error starting flashcard generation:', error);
+    return { error: 'Failed to start flashcard generation. Please try again.' };
+  }
+}
@@ -1,18 +1,50 @@
 'use client';
 
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, FileText, Play, Loader2 } from 'lucide-react';
+import { ArrowLeft, BookOpen, FileText, Layers, Play, Loader2, RefreshCw, Sparkles } from 'lucide-react';
 import Link from 'next/link';
-import { useParams } from 'next/navigation';
+import { useParams, useSearchParams } from 'next/navigation';
 import useSWR from 'swr';
-import { Suspense, ReactElement } from 'react';
+import { Suspense, ReactElement, useActionState, useEffect, useRef, useState } from 'react';
+import {
+  BLOOM_LEVELS,
+  BLOOM_LEVEL_LABELS,
+  DIFFICULTIES,
+  DIFFICULTY_LABELS,
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+} from '@/lib/questions';
+import { formatHeadingPath } from '@/lib/headings';
+import {
+  STUDY_ARTIFACT_KINDS,
+  STUDY_ARTIFACT_LABELS,
+  type OutlineNode,
+  type StudyArtifactContent,
+  type StudyArtifactKind,
+} from '@/lib/study-artifacts';
+import {
+  createFlashcardDeck,
+  generateQuiz,
+  regenerateSummary,
+  requestStudyArtifact,
+  type CreateFlashcardDeckState,
+  type GenerateQuizState,
+  type RegenerateSummaryState,
+  type RequestStudyArtifactState,
+} from './actions';
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
 interface SummarySection {
   title: string;
   points: string[];
+  pageStart?: number;
+  pageEnd?: number;
+  slideStart?: number;
+  slideEnd?: number;
 }
 
 interface Document {
@@ -22,10 +54,23 @@ interface Document {
   pageCount: number | null;
   createdAt: string;
   summary: SummarySection[] | string[] | null; // Support both old (string[]) and new (SummarySection[]) formats
+  summaryStatus: string | null; // 'generating' | 'ready' | 'failed', null for documents summarized before regeneration existed
   quizId: number | null;
   quizStatus: string | null;
+  quizFocus: string | null;
 }
 
+interface StudyArtifact {
+  id: number;
+  kind: string;
+  version: number;
+  status: string; // 'generating' | 'ready' | 'failed'
+  content: StudyArtifactContent | null;
+  createdAt: string;
+}
+
+type StudyTab = 'summary' | StudyArtifactKind;
+
 // Helper function to parse markdown bold syntax and render it
 function parseBoldText(text: string) {
   const parts: (string | ReactElement)[] = [];
@@ -55,6 +100,18 @@ function parseBoldText(text: string) {
   return parts.length > 0 ? parts : text;
 }
 
+// Page or slide range a summary section was drawn from, e.g. "Pages 3–7"
+function sectionRangeLabel(section: SummarySection): string | null {
+  const [unit, start, end] =
+    section.slideStart !== undefined
+      ? ['Slide', section.slideStart, section.slideEnd ?? section.slideStart]
+      : section.pageStart !== undefined
+        ? ['Page', section.pageStart, section.pageEnd ?? section.pageStart]
+        : [null, 0, 0];
+  if (!unit) return null;
+  return start === end ? `${unit} ${start}` : `${unit}s ${start}–${end}`;
+}
+
 // Check if summary is in new format (sections) or old format (flat array)
 function isSectionFormat(summary: any): summary is SummarySection[] {
   return (
@@ -66,9 +123,615 @@ function isSectionFormat(summary: any): summary is SummarySection[] {
   );
 }
 
+/**
+ * Form for generating another quiz from the document with a chosen question mix
+ */
+interface Segment {
+  text: string;
+  page?: number;
+  slide?: number;
+  title?: string; // Slide title (PPTX)
+  headingPath?: string[];
+}
+
+interface DocumentContent {
+  url: string | null;
+  mimeType: string;
+  filename: string;
+  segments: Segment[];
+}
+
+interface SourceChunk {
+  id: number;
+  text: string;
+}
+
+interface ViewerTarget {
+  chunkId: string | null;
+  page: number | null;
+  slide: number | null;
+  quote: string | null;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Finds a passage in text, tolerating differences in whitespace and case
+ * Long passages are matched on their opening words.
+ */
+function findPassage(text: string, passage: string): { start: number; end: number } | null {
+  const words = passage.split(/\s+/).filter(Boolean);
+  for (const length of [Math.min(words.length, 40), Math.min(words.length, 8)]) {
+    if (length === 0) continue;
+    const pattern = new RegExp(words.slice(0, length).map(escapeRegExp).join('\\s+'), 'i');
+    const match = pattern.exec(text);
+    if (match) {
+      return { start: match.index, end: match.index + match[0].length };
+    }
+  }
+  return null;
+}
+
+/**
+ * Extracted text per page or slide, with the original file alongside for PDFs
+ * Jumps to and highlights the passage a question link points at.
+ */
+function DocumentViewer({ documentId, target }: { documentId: number; target: ViewerTarget }) {
+  const { data: content, isLoading } = useSWR<DocumentContent>(
+    `/api/documents/${documentId}/content`,
+    fetcher
+  );
+  // Without a quote, fall back to the opening of the cited chunk
+  const { data: chunk } = useSWR<SourceChunk>(
+    target.chunkId && !target.quote ? `/api/documents/${documentId}/chunks/${target.chunkId}` : null,
+    fetcher
+  );
+  const [mode, setMode] = useState<'text' | 'original'>('text');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const targetRef = useRef<HTMLDivElement>(null);
+
+  const passage = target.quote ?? (chunk?.text ? chunk.text.slice(0, 200) : null);
+  const segments = content?.segments ?? [];
+  const isPdf = content?.mimeType === 'application/pdf' || content?.filename.toLowerCase().endsWith('.pdf');
+  const unit = segments.some((s) => s.slide !== undefined) ? 'Slide' : 'Page';
+
+  const targetIndex = (() => {
+    const atLocation = (s: Segment) =>
+      (target.slide !== null && s.slide === target.slide) ||
+      (target.page !== null && s.page === target.page);
+    // A page can hold several sections, so prefer the one containing the passage
+    const exact = passage
+      ? segments.findIndex((s) => atLocation(s) && findPassage(s.text, passage) !== null)
+      : -1;
+    if (exact !== -1) return exact;
+    const byLocation = segments.findIndex(atLocation);
+    if (byLocation !== -1 || !passage) return byLocation;
+    return segments.findIndex((s) => findPassage(s.text, passage) !== null);
+  })();
+  const hasTarget = targetIndex !== -1;
+
+  useEffect(() => {
+    if (mode !== 'text' || !hasTarget || !containerRef.current || !targetRef.current) return;
+    containerRef.current.scrollTop = targetRef.current.offsetTop - containerRef.current.offsetTop;
+    containerRef.current.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [mode, hasTarget, targetIndex, passage]);
+
+  const renderText = (text: string, highlight: boolean) => {
+    const match = highlight && passage ? findPassage(text, passage) : null;
+    if (!match) return text;
+    return (
+      <>
+        {text.slice(0, match.start)}
+        <mark className="bg-yellow-200 rounded px-0.5">{text.slice(match.start, match.end)}</mark>
+        {text.slice(match.end)}
+      </>
+    );
+  };
+
+  const pdfPage = target.page ?? segments[targetIndex]?.page;
+
+  return (
+    <Card className={hasTarget ? 'border-orange-200' : ''}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center">
+            <BookOpen className="h-5 w-5 mr-2" />
+            Document
+            {hasTarget && segments[targetIndex] && (
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                · showing{' '}
+                {segments[targetIndex].slide !== undefined
+                  ? `slide ${segments[targetIndex].slide}`
+                  : segments[targetIndex].page !== undefined
+                  ? `page ${segments[targetIndex].page}`
+                  : 'source passage'}
+              </span>
+            )}
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant={mode === 'text' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setMode('text')}
+            >
+              {unit === 'Slide' ? 'Slides' : 'Text'}
+            </Button>
+            {content?.url && isPdf ? (
+              <Button
+                variant={mode === 'original' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setMode('original')}
+              >
+                Original
+              </Button>
+            ) : content?.url ? (
+              <Button variant="outline" size="sm" asChild>
+                <a href={content.url} target="_blank" rel="noopener noreferrer">
+                  Download original
+                </a>
+              </Button>
+            ) : null}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center space-x-2 text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>Loading document...</span>
+          </div>
+        ) : mode === 'original' && content?.url ? (
+          <iframe
+            src={pdfPage ? `${content.url}#page=${pdfPage}` : content.url}
+            title={content.filename}
+            className="w-full h-[600px] rounded border border-gray-200"
+          />
+        ) : segments.length > 0 ? (
+          <div ref={containerRef} className="max-h-[600px] overflow-y-auto space-y-4 pr-2">
+            {segments.map((segment, index) => {
+              const isTarget = index === targetIndex;
+              return (
+                <div
+                  key={index}
+                  ref={isTarget ? targetRef : undefined}
+                  className={`rounded border p-4 ${
+                    isTarget ? 'border-orange-300 bg-orange-50/40' : 'border-gray-200'
+                  }`}
+                >
+                  {(segment.page !== undefined || segment.slide !== undefined || segment.headingPath) && (
+                    <p className="text-xs font-medium text-gray-500 mb-2">
+                      {[
+                        segment.slide !== undefined
+                          ? `Slide ${segment.slide}`
+                          : segment.page !== undefined
+                          ? `Page ${segment.page}`
+                          : null,
+                        formatHeadingPath(segment.headingPath),
+                      ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </p>
+                  )}
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+                    {renderText(segment.text, isTarget || !hasTarget)}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No extracted text is available for this document.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RegenerateSummaryButton({
+  documentId,
+  onQueued,
+}: {
+  documentId: number;
+  onQueued: () => void;
+}) {
+  const [state, formAction, isPending] = useActionState<RegenerateSummaryState, FormData>(
+    regenerateSummary,
+    {}
+  );
+
+  useEffect(() => {
+    if (state.success) {
+      onQueued();
+    }
+  }, [state.success, onQueued]);
+
+  return (
+    <form action={formAction} className="flex items-center gap-2">
+      <input type="hidden" name="documentId" value={documentId} />
+      {state.error && <span className="text-xs text-red-600">{state.error}</span>}
+      <Button type="submit" variant="outline" size="sm" disabled={isPending}>
+        {isPending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <RefreshCw className="mr-2 h-4 w-4" />
+        )}
+        Regenerate
+      </Button>
+    </form>
+  );
+}
+
+function GenerateQuizForm({
+  documentId,
+  lastFocus,
+  onQueued,
+}: {
+  documentId: number;
+  lastFocus: string | null;
+  onQueued: () => void;
+}) {
+  const [state, formAction, isPending] = useActionState<GenerateQuizState, FormData>(
+    generateQuiz,
+    {}
+  );
+
+  useEffect(() => {
+    if (state.quizId) {
+      onQueued();
+    }
+  }, [state.quizId, onQueued]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center">
+          <Sparkles className="h-5 w-5 mr-2" />
+          Generate a New Quiz
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form action={formAction} className="space-y-4">
+          <input type="hidden" name="documentId" value={documentId} />
+          <div>
+            <Label htmlFor="focus">Focus (optional)</Label>
+            <Input
+              id="focus"
+              name="focus"
+              defaultValue={lastFocus ?? ''}
+              maxLength={200}
+              placeholder='e.g. "chapter 3 enzymes" or "only the proofs"'
+              className="mt-1"
+            />
+          </div>
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 mb-2">
+              Question types
+            </legend>
+            <div className="flex flex-wrap gap-4">
+              {QUESTION_TYPES.map((type) => (
+                <label key={type} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    name="questionTypes"
+                    value={type}
+                    defaultChecked={type === 'multiple_choice'}
+                  />
+                  <span>{QUESTION_TYPE_LABELS[type]}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 mb-2">
+              Difficulty
+            </legend>
+            <div className="flex flex-wrap gap-4">
+              {DIFFICULTIES.map((difficulty) => (
+                <label key={difficulty} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="difficulty"
+                    value={difficulty}
+                    defaultChecked={difficulty === 'medium'}
+                  />
+                  <span>{DIFFICULTY_LABELS[difficulty]}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 mb-2">
+              Cognitive levels
+            </legend>
+            <div className="flex flex-wrap gap-4">
+              {BLOOM_LEVELS.map((level) => (
+                <label key={level} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input type="checkbox" name="bloomLevels" value={level} defaultChecked />
+                  <span>{BLOOM_LEVEL_LABELS[level]}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <label className="flex items-start space-x-2 text-sm text-gray-700">
+            <input type="checkbox" name="fullCoverage" className="mt-1" />
+            <span>
+              Cover the whole document
+              <span className="block text-gray-500">
+                Generates from every section instead of the most relevant passages. Slower, best for long textbooks.
+              </span>
+            </span>
+          </label>
+          {state.error && <p className="text-sm text-red-500">{state.error}</p>}
+          <Button
+            type="submit"
+            disabled={isPending}
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+          >
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Starting...
+              </>
+            ) : (
+              'Generate Quiz'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function StudyArtifactButton({
+  documentId,
+  kind,
+  hasVersions,
+  onQueued,
+}: {
+  documentId: number;
+  kind: StudyArtifactKind;
+  hasVersions: boolean;
+  onQueued: () => void;
+}) {
+  const [state, formAction, isPending] = useActionState<RequestStudyArtifactState, FormData>(
+    requestStudyArtifact,
+    {}
+  );
+
+  useEffect(() => {
+    if (state.artifactId) {
+      onQueued();
+    }
+  }, [state.artifactId, onQueued]);
+
+  return (
+    <form action={formAction} className="flex items-center gap-2">
+      <input type="hidden" name="documentId" value={documentId} />
+      <input type="hidden" name="kind" value={kind} />
+      {state.error && <span className="text-xs text-red-600">{state.error}</span>}
+      <Button type="submit" variant="outline" size="sm" disabled={isPending}>
+        {isPending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : hasVersions ? (
+          <RefreshCw className="mr-2 h-4 w-4" />
+        ) : (
+          <Sparkles className="mr-2 h-4 w-4" />
+        )}
+        {hasVersions ? 'Regenerate' : 'Generate'}
+      </Button>
+    </form>
+  );
+}
+
+function OutlineList({ nodes, depth = 0 }: { nodes: OutlineNode[]; depth?: number }) {
+  return (
+    <ul className={depth === 0 ? 'space-y-4' : 'mt-2 ml-5 space-y-1.5'}>
+      {nodes.map((node, index) => (
+        <li key={index}>
+          <span
+            className={
+              depth === 0
+                ? 'font-semibold text-gray-900'
+                : 'text-gray-700 leading-relaxed text-[15px]'
+            }
+          >
+            {depth > 0 && <span className="text-orange-500 mr-2">•</span>}
+            {parseBoldText(node.title)}
+          </span>
+          {node.children.length > 0 && <OutlineList nodes={node.children} depth={depth + 1} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function StudyArtifactView({ content }: { content: StudyArtifactContent }) {
+  switch (content.kind) {
+    case 'tldr':
+      return <p className="text-gray-700 leading-relaxed text-[15px]">{parseBoldText(content.paragraph)}</p>;
+    case 'outline':
+      return <OutlineList nodes={content.items} />;
+    case 'glossary':
+      return (
+        <dl className="divide-y divide-gray-100">
+          {content.entries.map((entry, index) => (
+            <div key={index} className="py-3 sm:grid sm:grid-cols-4 sm:gap-4">
+              <dt className="font-semibold text-gray-900">{entry.term}</dt>
+              <dd className="mt-1 sm:mt-0 sm:col-span-3 text-gray-700 text-[15px] leading-relaxed">
+                {parseBoldText(entry.definition)}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      );
+    case 'exam_questions':
+      return (
+        <ol className="space-y-4 list-decimal ml-5">
+          {content.questions.map((item, index) => (
+            <li key={index} className="text-gray-900">
+              <p className="font-medium leading-relaxed">{parseBoldText(item.question)}</p>
+              {item.answer && (
+                <details className="mt-1 text-sm text-gray-600">
+                  <summary className="cursor-pointer text-orange-600">Show answer</summary>
+                  <p className="mt-1 leading-relaxed">{parseBoldText(item.answer)}</p>
+                </details>
+              )}
+            </li>
+          ))}
+        </ol>
+      );
+  }
+}
+
+/**
+ * One study artifact kind: the selected version (latest by default) and a picker for older ones
+ */
+function StudyArtifactPanel({
+  kind,
+  versions,
+}: {
+  kind: StudyArtifactKind;
+  versions: StudyArtifact[]; // Newest first
+}) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const selected = versions.find((v) => v.id === selectedId) ?? versions[0];
+  const label = STUDY_ARTIFACT_LABELS[kind];
+
+  if (!selected) {
+    return (
+      <p className="text-gray-500">
+        No {label} yet. Generate one from this document's content.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {versions.length > 1 && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <Label htmlFor={`${kind}-version`}>Version</Label>
+          <select
+            id={`${kind}-version`}
+            value={selected.id}
+            onChange={(e) => setSelectedId(Number(e.target.value))}
+            className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm"
+          >
+            {versions.map((v) => (
+              <option key={v.id} value={v.id}>
+                v{v.version} · {new Date(v.createdAt).toLocaleString()}
+                {v.status !== 'ready' ? ` (${v.status})` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {selected.status === 'generating' ? (
+        <div className="flex items-center space-x-2 text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Generating {label}...</span>
+        </div>
+      ) : selected.status === 'failed' || !selected.content ? (
+        <p className="text-sm text-red-600">
+          Generating this {label} failed. Try regenerating it.
+        </p>
+      ) : (
+        <StudyArtifactView content={selected.content} />
+      )}
+    </div>
+  );
+}
+
+function CreateFlashcardsForm({ documentId }: { documentId: number }) {
+  const [state, formAction, isPending] = useActionState<CreateFlashcardDeckState, FormData>(
+    createFlashcardDeck,
+    {}
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center">
+          <Layers className="h-5 w-5 mr-2" />
+          Create Flashcards
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form action={formAction} className="space-y-4">
+          <input type="hidden" name="documentId" value={documentId} />
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="cardCount">Cards</Label>
+              <Input
+                id="cardCount"
+                name="cardCount"
+                type="number"
+                min={5}
+                max={50}
+                defaultValue={20}
+                className="mt-1"
+              />
+            </div>
+            <div className="sm:col-span-3">
+              <Label htmlFor="flashcardFocus">Focus (optional)</Label>
+              <Input
+                id="flashcardFocus"
+                name="focus"
+                maxLength={200}
+                placeholder='e.g. "key definitions in chapter 2"'
+                className="mt-1"
+              />
+            </div>
+          </div>
+          {state.error && <p className="text-sm text-red-500">{state.error}</p>}
+          {state.deckId && (
+            <p className="text-sm text-gray-600">
+              Generating your deck.{' '}
+              <Link
+                href={`/dashboard/flashcards/${state.deckId}`}
+                className="text-orange-600 hover:underline"
+              >
+                Open it
+              </Link>{' '}
+              to study once it's ready.
+            </p>
+          )}
+          <Button type="submit" variant="outline" disabled={isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Starting...
+              </>
+            ) : (
+              'Generate Flashcards'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
 function DocumentDetail() {
   const params = useParams();
+  const searchParams = useSearchParams();
   const documentId = params.id as string;
+  const numberParam = (name: string) => {
+    const value = parseInt(searchParams.get(name) ?? '');
+    return isNaN(value) ? null : value;
+  };
+  const viewerTarget: ViewerTarget = {
+    chunkId: searchParams.get('chunk'),
+    page: numberParam('page'),
+    slide: numberParam('slide'),
+    quote: searchParams.get('quote'),
+  };
+  const hasViewerTarget =
+    viewerTarget.chunkId !== null ||
+    viewerTarget.page !== null ||
+    viewerTarget.slide !== null ||
+    viewerTarget.quote !== null;
   const { data: document, isLoading, mutate } = useSWR<Document>(
     `/api/documents/${documentId}`,
     fetcher,
@@ -76,13 +739,26 @@ function DocumentDetail() {
       refreshInterval: (data) => {
         // Poll every 2 seconds if document is processing or quiz is generating
         if (!data) return 0;
-        if (data.status === 'processing' || data.quizStatus === 'generating') {
+        if (
+          data.status === 'processing' ||
+          data.quizStatus === 'generating' ||
+          data.summaryStatus === 'generating'
+        ) {
           return 2000;
         }
         return 0; // Stop polling when ready
       },
     }
   );
+  const [activeTab, setActiveTab] = useState<StudyTab>('summary');
+  const { data: artifactData, mutate: mutateArtifacts } = useSWR<{ artifacts: StudyArtifact[] }>(
+    document?.status === 'ready' ? `/api/documents/${documentId}/artifacts` : null,
+    fetcher,
+    {
+      refreshInterval: (data) =>
+        data?.artifacts?.some((artifact) => artifact.status === 'generating') ? 2000 : 0,
+    }
+  );
 
   if (isLoading) {
     return (
@@ -115,6 +791,10 @@ function DocumentDetail() {
   const isProcessing = document.status === 'processing';
   const hasSummary = document.summary && Array.isArray(document.summary) && document.summary.length > 0;
   const isNewFormat = hasSummary && isSectionFormat(document.summary);
+  const summaryGenerating = document.summaryStatus === 'generating';
+  const artifactVersions = activeTab === 'summary'
+    ? []
+    : (artifactData?.artifacts ?? []).filter((artifact) => artifact.kind === activeTab);
   const quizReady = document.quizStatus === 'ready' && document.quizId;
   const quizGenerating = document.quizStatus === 'generating' || (!document.quizStatus && document.status === 'ready');
 
@@ -160,66 +840,143 @@ function DocumentDetail() {
         </div>
       </div>
 
+      {document.status === 'ready' && hasViewerTarget && (
+        <DocumentViewer documentId={document.id} target={viewerTarget} />
+      )}
+
       <Card>
-        <CardHeader>
-          <CardTitle className="text-base flex items-center">
-            <FileText className="h-5 w-5 mr-2" />
-            Summary
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          {isProcessing ? (
-            <div className="flex items-center space-x-2 text-gray-500">
-              <Loader2 className="h-4 w-4 animate-spin" />
-              <span>Processing document and generating summary...</span>
-            </div>
-          ) : hasSummary && isNewFormat ? (
-            <div className="space-y-6">
-              {(document.summary as SummarySection[]).map((section, sectionIndex) => (
-                <div 
-                  key={sectionIndex} 
-                  className="border-l-4 border-orange-500 pl-5 py-2 bg-orange-50/30 rounded-r-md"
+        <CardHeader className="space-y-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center">
+              <FileText className="h-5 w-5 mr-2" />
+              {activeTab === 'summary' ? 'Summary' : STUDY_ARTIFACT_LABELS[activeTab]}
+            </CardTitle>
+            {document.status === 'ready' && activeTab === 'summary' && !summaryGenerating && (
+              <RegenerateSummaryButton documentId={document.id} onQueued={mutate} />
+            )}
+            {document.status === 'ready' &&
+              activeTab !== 'summary' &&
+              artifactVersions[0]?.status !== 'generating' && (
+                <StudyArtifactButton
+                  key={activeTab}
+                  documentId={document.id}
+                  kind={activeTab}
+                  hasVersions={artifactVersions.length > 0}
+                  onQueued={mutateArtifacts}
+                />
+              )}
+          </div>
+          {document.status === 'ready' && (
+            <div className="flex flex-wrap gap-1 border-b border-gray-200">
+              {(['summary', ...STUDY_ARTIFACT_KINDS] as StudyTab[]).map((tab) => (
+                <button
+                  key={tab}
+                  type="button"
+                  onClick={() => setActiveTab(tab)}
+                  className={`px-3 py-1.5 text-sm -mb-px border-b-2 ${
+                    activeTab === tab
+                      ? 'border-orange-500 text-orange-600 font-medium'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
                 >
-                  <h3 className="text-base font-semibold text-gray-900 mb-3.5 tracking-tight">
-                    {section.title}
-                  </h3>
-                  <ul className="space-y-3">
-                    {section.points.map((point, pointIndex) => (
-                      <li key={pointIndex} className="flex items-start group">
-                        <span className="text-orange-500 mr-3 mt-1.5 font-bold text-lg leading-none">•</span>
-                        <span className="text-gray-700 flex-1 leading-relaxed text-[15px]">
-                          {parseBoldText(point)}
-                        </span>
-                      </li>
-                    ))}
-                  </ul>
-                </div>
+                  {tab === 'summary' ? 'Summary' : STUDY_ARTIFACT_LABELS[tab]}
+                </button>
               ))}
             </div>
-          ) : hasSummary ? (
-            // Fallback for old format (flat array)
-            <ul className="space-y-3">
-              {(document.summary as string[]).map((point, index) => (
-                <li key={index} className="flex items-start">
-                  <span className="text-orange-500 mr-3 mt-1.5 font-bold text-lg leading-none">•</span>
-                  <span className="text-gray-700 flex-1 leading-relaxed text-[15px]">
-                    {parseBoldText(point)}
-                  </span>
-                </li>
-              ))}
-            </ul>
+          )}
+        </CardHeader>
+        <CardContent>
+          {activeTab !== 'summary' ? (
+            <StudyArtifactPanel key={activeTab} kind={activeTab} versions={artifactVersions} />
           ) : (
-            <div className="text-gray-500">
-              <p>Summary is not available for this document.</p>
-              {document.status === 'ready' && (
-                <p className="text-sm mt-2">
-                  The summary may still be generating, or generation may have failed.
+            <>
+              {document.summaryStatus === 'failed' && hasSummary && (
+                <p className="text-sm text-red-600 mb-4">
+                  Regenerating the summary failed. Showing the previous summary.
                 </p>
               )}
-            </div>
+              {isProcessing ? (
+                <div className="flex items-center space-x-2 text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>Processing document and generating summary...</span>
+                </div>
+              ) : summaryGenerating ? (
+                <div className="flex items-center space-x-2 text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>Regenerating summary...</span>
+                </div>
+              ) : hasSummary && isNewFormat ? (
+                <div className="space-y-6">
+                  {(document.summary as SummarySection[]).map((section, sectionIndex) => (
+                    <div 
+                      key={sectionIndex} 
+                      className="border-l-4 border-orange-500 pl-5 py-2 bg-orange-50/30 rounded-r-md"
+                    >
+                      <div className="flex items-baseline justify-between gap-3 mb-3.5">
+                        <h3 className="text-base font-semibold text-gray-900 tracking-tight">
+                          {section.title}
+                        </h3>
+                        {sectionRangeLabel(section) && (
+                          <span className="text-xs text-gray-500 whitespace-nowrap">
+                            {sectionRangeLabel(section)}
+                          </span>
+                        )}
+                      </div>
+                      <ul className="space-y-3">
+                        {section.points.map((point, pointIndex) => (
+                          <li key={pointIndex} className="flex items-start group">
+                            <span className="text-orange-500 mr-3 mt-1.5 font-bold text-lg leading-none">•</span>
+                            <span className="text-gray-700 flex-1 leading-relaxed text-[15px]">
+                              {parseBoldText(point)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              ) : hasSummary ? (
+                // Fallback for old format (flat array)
+                <ul className="space-y-3">
+                  {(document.summary as string[]).map((point, index) => (
+                    <li key={index} className="flex items-start">
+                      <span className="text-orange-500 mr-3 mt-1.5 font-bold text-lg leading-none">•</span>
+                      <span className="text-gray-700 flex-1 leading-relaxed text-[15px]">
+                        {parseBoldText(point)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-gray-500">
+                  <p>Summary is not available for this document.</p>
+                  {document.status === 'ready' && (
+                    <p className="text-sm mt-2">
+                      {document.summaryStatus === 'failed'
+                        ? 'Summary generation failed. Try regenerating it.'
+                        : 'The summary may still be generating, or generation may have failed.'}
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
           )}
         </CardContent>
       </Card>
+
+      {document.status === 'ready' && !hasViewerTarget && (
+        <DocumentViewer documentId={document.id} target={viewerTarget} />
+      )}
+
+      {document.status === 'ready' && !quizGenerating && (
+        <GenerateQuizForm
+          documentId={document.id}
+          lastFocus={document.quizFocus}
+          onQueued={mutate}
+        />
+      )}
+
+      {document.status === 'ready' && <CreateFlashcardsForm documentId={document.id} />}
     </div>
   );
 }
@@ -19,6 +19,11 @@ type UsageStats = {
     limit: number;
     remaining: number;
   };
+  flashcardGenerations: {
+    used: number;
+    limit: number;
+    remaining: number;
+  };
   periodEnd: string | null;
 };
 
@@ -284,7 +289,7 @@ function UsageStats() {
 
   if (!usageStats) return null;
 
-  const { quizGenerations, plan, periodEnd } = usageStats;
+  const { quizGenerations, flashcardGenerations, plan, periodEnd } = usageStats;
   const isFree = plan === 'free';
   const quizLimitReached = quizGenerations.remaining === 0;
 
@@ -336,6 +341,26 @@ function UsageStats() {
             </p>
           )}
         </div>
+        {flashcardGenerations && (
+          <div className="mt-3">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-gray-600">Flashcard Decks</span>
+              <span className="text-xs font-medium text-gray-900">
+                {flashcardGenerations.used} / {isFree ? flashcardGenerations.limit : `${flashcardGenerations.limit} per period`}
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className={`h-2 rounded-full ${
+                  flashcardGenerations.remaining === 0 ? 'bg-red-500' : 'bg-orange-500'
+                }`}
+                style={{
+                  width: `${Math.min(100, (flashcardGenerations.used / flashcardGenerations.limit) * 100)}%`,
+                }}
+              />
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,264 @@
+'use server';
+
+import { z } from 'zod';
+import { db } from '@/lib/db/drizzle';
+import { flashcardDecks, flashcards } from '@/lib/db/schema';
+import { getUser, getFlashcardDeckById, getNextFlashcardPosition } from '@/lib/db/queries';
+import { eq, and } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+
+const jsonField = z.string().transform((val, ctx) => {
+  try {
+    return JSON.parse(val) as unknown;
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid JSON' });
+    return z.NEVER;
+  }
+});
+
+const cardSchema = z.object({
+  front: z.string().trim().min(1),
+  back: z.string().trim().min(1),
+});
+
+const updateCardSchema = cardSchema.extend({
+  cardId: z.string().transform(Number),
+});
+
+function revalidateDeck(deckId: number) {
+  revalidatePath(`/dashboard/flashcards/${deckId}`);
+  revalidatePath(`/dashboard/flashcards/${deckId}/edit`);
+}
+
+export async function addFlashcard(
+  prevState: { error?: string },
+  formData: FormData
+) {
+  const user = await getUser();
+  if (!user) {
+    return { error: 'User is not authenticated' };
+  }
+
+  const deckId = parseInt(formData.get('deckId') as string);
+
+  // Verify deck belongs to user
+  const deck = await getFlashcardDeckById(deckId);
+  if (!deck || deck.userId !== user.id) {
+    return { error: 'Unauthorized' };
+  }
+
+  const result = cardSchema.safeParse({
+    front: formData.get('front'),
+    back: formData.get('back'),
+  });
+
+  if (!result.success) {
+    return { error: 'Both sides of the card need text' };
+  }
+
+  try {
+    await db.insert(flashcards).values({
+      deckId,
+      front: result.data.front,
+      back: result.data.back,
+      position: await getNextFlashcardPosition(deckId),
+    });
+
+    revalidateDeck(deckId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error adding flashcard:', error);
+    return { error: 'Failed to add card' };
+  }
+}
+
+export async function updateFlashcard(
+  prevState: { error?: string },
+  formData: FormData
+) {
+  const user = await getUser();
+  if (!user) {
+    return { error: 'User is not authenticated' };
+  }
+
+  const deckId = parseInt(formData.get('deckId') as string);
+
+  // Verify deck belongs to user
+  const deck = await getFlashcardDeckById(deckId);
+  if (!deck || deck.userId !== user.id) {
+    return { error: 'Unauthorized' };
+  }
+
+  const result = updateCardSchema.safeParse({
+    cardId: formData.get('cardId'),
+    front: formData.get('front'),
+    back: formData.get('back'),
+  });
+
+  if (!result.success) {
+    return { error: 'Both sides of the card need text' };
+  }
+
+  const { cardId, front, back } = result.data;
+
+  try {
+    const updated = await db
+      .update(flashcards)
+      .set({ front, back })
+      .where(and(eq(flashcards.id, cardId), eq(flashcards.deckId, deckId)))
+      .returning({ id: flashcards.id });
+
+    if (updated.length === 0) {
+      return { error: 'Card not found' };
+    }
+
+    revalidateDeck(deckId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating flashcard:', error);
+    return { error: 'Failed to update card' };
+  }
+}
+
+export async function deleteFlashcard(
+  prevState: { error?: string },
+  formData: FormData
+) {
+  const user = await getUser();
+  if (!user) {
+    return { error: 'User is not authenticated' };
+  }
+
+  const deckId = parseInt(formData.get('deckId') as string);
+  const cardId = parseInt(formData.get('cardId') as string);
+
+  // Verify deck belongs to user
+  const deck = await getFlashcardDeckById(deckId);
+  if (!deck || deck.userId !== user.id) {
+    return { error: 'Unauthorized' };
+  }
+
+  try {
+    await db
+      .delete(flashcards)
+      .where(and(eq(flashcards.id, cardId), eq(flashcards.deckId, deckId)));
+
+    revalidateDeck(deckId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting flashcard:', error);
+    return { error: 'Failed to delete card' };
+  }
+}
+
+const reorderFlashcardsSchema = z.object({
+  deckId: z.string().transform(Number),
+  cardIds: jsonField.pipe(z.array(z.number().int())),
+});
+
+export async function reorderFlashcards(
+  prevState: { error?: string },
+  formData: FormData
+) {
+  const user = await getUser();
+  if (!user) {
+    return { error: 'User is not authenticated' };
+  }
+
+  const result = reorderFlashcardsSchema.safeParse({
+    deckId: formData.get('deckId'),
+    cardIds: formData.get('cardIds'),
+  });
+
+  if (!result.success) {
+    return { error: 'Invalid form data' };
+  }
+
+  const { deckId, cardIds } = result.data;
+
+  // Verify deck belongs to user
+  const deck = await getFlashcardDeckById(deckId);
+  if (!deck || deck.userId !== user.id) {
+    return { error: 'Unauthorized' };
+  }
+
+  // The new order must be a permutation of the deck's current cards
+  const deckCards = await db
+    .select({ id: flashcards.id })
+    .from(flashcards)
+    .where(eq(flashcards.deckId, deckId));
+  const currentIds = new Set(deckCards.map((c) => c.id));
+
+  if (
+    cardIds.length !== currentIds.size ||
+    new Set(cardIds).size !== cardIds.length ||
+    !cardIds.every((id) => currentIds.has(id))
+  ) {
+    return { error: 'Cards changed while reordering. Reload and try again.' };
+  }
+
+  try {
+    await db.transaction(async (tx) => {
+      for (const [position, cardId] of cardIds.entries()) {
+        await tx
+          .update(flashcards)
+          .set({ position })
+          .where(and(eq(flashcards.id, cardId), eq(flashcards.deckId, deckId)));
+      }
+    });
+
+    revalidateDeck(deckId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error reordering flashcards:', error);
+    return { error: 'Failed to reorder cards' };
+  }
+}
+
+const renameDeckSchema = z.object({
+  deckId: z.string().transform(Number),
+  title: z.string().trim().min(1).max(255),
+});
+
+export async function renameFlashcardDeck(
+  prevState: { error?: string },
+  formData: FormData
+) {
+  const user = await getUser();
+  if (!user) {
+    return { error: 'User is not authenticated' };
+  }
+
+  const result = renameDeckSchema.safeParse({
+    deckId: formData.get('deckId'),
+    title: formData.get('title'),
+  });
+
+  if (!result.success) {
+    return { error: 'Deck title must be between 1 and 255 characters' };
+  }
+
+  const { deckId, title } = result.data;
+
+  // Verify deck belongs to user
+  const deck = await getFlashcardDeckById(deckId);
+  if (!deck || deck.userId !== user.id) {
+    return { error: 'Unauthorized' };
+  }
+
+  try {
+    await db.update(flashcardDecks).set({ title }).where(eq(flashcardDecks.id, deckId));
+
+    revalidateDeck(deckId);
+    revalidatePath('/dashboard/flashcards');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error renaming flashcard deck:', error);
+    return { error: 'Failed to rename deck' };
+  }
+}
@@ -0,0 +1,442 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, Save, Trash2, Plus, Edit, GripVertical } from 'lucide-react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import useSWR, { mutate } from 'swr';
+import { Suspense, startTransition, useActionState, useCallback, useEffect, useState } from 'react';
+import { SourceLink } from '@/components/quiz/source-link';
+import {
+  addFlashcard,
+  deleteFlashcard,
+  renameFlashcardDeck,
+  reorderFlashcards,
+  updateFlashcard,
+} from './actions';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+interface Flashcard {
+  id: number;
+  front: string;
+  back: string;
+  position: number;
+  sourceRef: {
+    page?: number;
+    slide?: number;
+    slideTitle?: string;
+    headingPath?: string[];
+    text?: string;
+    chunkId?: number;
+  } | null;
+}
+
+interface FlashcardDeck {
+  id: number;
+  documentId: number;
+  title: string;
+  status: string;
+  cards: Flashcard[];
+}
+
+function CardFields({
+  front,
+  back,
+  idPrefix,
+}: {
+  front: string;
+  back: string;
+  idPrefix: string;
+}) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-front`}>Front</Label>
+        <Textarea
+          id={`${idPrefix}-front`}
+          name="front"
+          defaultValue={front}
+          required
+          className="mt-1"
+          rows={3}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-back`}>Back</Label>
+        <Textarea
+          id={`${idPrefix}-back`}
+          name="back"
+          defaultValue={back}
+          required
+          className="mt-1"
+          rows={3}
+        />
+      </div>
+    </div>
+  );
+}
+
+function FlashcardEditor({
+  card,
+  number,
+  deck,
+  onGrab,
+}: {
+  card: Flashcard;
+  number: number;
+  deck: FlashcardDeck;
+  onGrab: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [updateState, updateAction, isUpdating] = useActionState(updateFlashcard, { error: '' });
+  const [deleteState, deleteAction, isDeleting] = useActionState(deleteFlashcard, { error: '' });
+
+  useEffect(() => {
+    if ('success' in updateState && updateState.success) {
+      setIsEditing(false);
+      mutate(`/api/flashcards/${deck.id}`);
+    }
+  }, [deck.id, updateState]);
+
+  useEffect(() => {
+    if ('success' in deleteState && deleteState.success) {
+      mutate(`/api/flashcards/${deck.id}`);
+    }
+  }, [deck.id, deleteState]);
+
+  const handleSave = (formData: FormData) => {
+    formData.append('cardId', card.id.toString());
+    formData.append('deckId', deck.id.toString());
+
+    updateAction(formData);
+  };
+
+  const handleDelete = (formData: FormData) => {
+    if (!confirm('Are you sure you want to delete this card?')) {
+      return;
+    }
+    formData.append('cardId', card.id.toString());
+    formData.append('deckId', deck.id.toString());
+
+    deleteAction(formData);
+  };
+
+  if (!isEditing) {
+    return (
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <span
+                onMouseDown={onGrab}
+                className="cursor-grab text-gray-400 hover:text-gray-600"
+                title="Drag to reorder"
+              >
+                <GripVertical className="h-4 w-4" />
+              </span>
+              <CardTitle className="text-base">Card {number}</CardTitle>
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                <Edit className="h-4 w-4" />
+              </Button>
+              <form action={handleDelete}>
+                <Button type="submit" variant="outline" size="sm" disabled={isDeleting}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </form>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="p-3 bg-gray-50 rounded">
+              <p className="text-xs font-medium text-gray-500 mb-1">Front</p>
+              <p className="text-gray-900 whitespace-pre-wrap">{card.front}</p>
+            </div>
+            <div className="p-3 bg-orange-50/50 rounded">
+              <p className="text-xs font-medium text-gray-500 mb-1">Back</p>
+              <p className="text-gray-800 whitespace-pre-wrap">{card.back}</p>
+            </div>
+          </div>
+          {card.sourceRef && (
+            <div className="text-xs text-gray-500">
+              <SourceLink documentId={deck.documentId} sourceRef={card.sourceRef} />
+            </div>
+          )}
+          {deleteState?.error && <p className="text-sm text-red-500">{deleteState.error}</p>}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Edit Card {number}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form action={handleSave} className="space-y-4">
+          <CardFields front={card.front} back={card.back} idPrefix={String(card.id)} />
+
+          {updateState?.error && <p className="text-sm text-red-500">{updateState.error}</p>}
+
+          <div className="flex space-x-2">
+            <Button
+              type="submit"
+              disabled={isUpdating}
+              className="bg-orange-500 hover:bg-orange-600 text-white"
+            >
+              {isUpdating ? (
+                'Saving...'
+              ) : (
+                <>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save
+                </>
+              )}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Form for writing a card by hand; new cards are appended to the end of the deck
+ */
+function AddFlashcardForm({ deckId, onDone }: { deckId: number; onDone: () => void }) {
+  const [state, formAction, isPending] = useActionState(addFlashcard, { error: '' });
+
+  useEffect(() => {
+    if ('success' in state && state.success) {
+      mutate(`/api/flashcards/${deckId}`);
+      onDone();
+    }
+  }, [deckId, state, onDone]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">New Card</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form action={formAction} className="space-y-4">
+          <input type="hidden" name="deckId" value={deckId} />
+          <CardFields front="" back="" idPrefix="new" />
+
+          {state?.error && <p className="text-sm text-red-500">{state.error}</p>}
+
+          <div className="flex space-x-2">
+            <Button
+              type="submit"
+              disabled={isPending}
+              className="bg-orange-500 hover:bg-orange-600 text-white"
+            >
+              {isPending ? (
+                'Adding...'
+              ) : (
+                <>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Card
+                </>
+              )}
+            </Button>
+            <Button type="button" variant="outline" onClick={onDone}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RenameDeckForm({ deck }: { deck: FlashcardDeck }) {
+  const [state, formAction, isPending] = useActionState(renameFlashcardDeck, { error: '' });
+
+  useEffect(() => {
+    if ('success' in state && state.success) {
+      mutate(`/api/flashcards/${deck.id}`);
+    }
+  }, [deck.id, state]);
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <form action={formAction} className="flex flex-wrap items-center gap-3">
+          <input type="hidden" name="deckId" value={deck.id} />
+          <Label htmlFor="deck-title">Title</Label>
+          <Input
+            id="deck-title"
+            name="title"
+            defaultValue={deck.title}
+            maxLength={255}
+            required
+            className="flex-1 min-w-48"
+          />
+          <Button type="submit" variant="outline" size="sm" disabled={isPending}>
+            <Save className="mr-1 h-4 w-4" />
+            Rename
+          </Button>
+        </form>
+        {state?.error && <p className="text-sm text-red-500 mt-2">{state.error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+function FlashcardDeckEdit() {
+  const params = useParams();
+  const deckId = params.id as string;
+  const { data: deck, isLoading, mutate: mutateDeck } = useSWR<FlashcardDeck>(
+    `/api/flashcards/${deckId}`,
+    fetcher
+  );
+  const [isAdding, setIsAdding] = useState(false);
+  const closeAddForm = useCallback(() => setIsAdding(false), []);
+  // Cards only become draggable while grabbed by their handle so text inside stays selectable
+  const [grabbedId, setGrabbedId] = useState<number | null>(null);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [reorderState, reorderAction] = useActionState(reorderFlashcards, { error: '' });
+
+  useEffect(() => {
+    if (reorderState?.error) {
+      mutateDeck();
+    }
+  }, [reorderState, mutateDeck]);
+
+  if (isLoading) {
+    return (
+      <Card className="animate-pulse">
+        <CardContent className="p-6">
+          <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!deck || !('cards' in deck)) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          <p className="text-gray-500">Deck not found</p>
+          <Button asChild variant="outline" className="mt-4">
+            <Link href="/dashboard/flashcards">Back to Flashcards</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const handleDrop = (targetId: number) => {
+    if (draggedId === null || draggedId === targetId) return;
+
+    // Dropping onto a card takes its slot, pushing it down (or up when dragging downwards)
+    const ids = deck.cards.map((c) => c.id);
+    const from = ids.indexOf(draggedId);
+    const to = ids.indexOf(targetId);
+    ids.splice(to, 0, ...ids.splice(from, 1));
+
+    const byId = new Map(deck.cards.map((c) => [c.id, c]));
+    mutateDeck({ ...deck, cards: ids.map((id) => byId.get(id)!) }, { revalidate: false });
+
+    const formData = new FormData();
+    formData.append('deckId', deck.id.toString());
+    formData.append('cardIds', JSON.stringify(ids));
+    startTransition(() => reorderAction(formData));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link
+            href={`/dashboard/flashcards/${deckId}`}
+            className="text-sm text-gray-600 hover:text-gray-900 flex items-center mb-2"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to Deck
+          </Link>
+          <h1 className="text-lg lg:text-2xl font-medium text-gray-900">Edit: {deck.title}</h1>
+          <p className="text-sm text-gray-600 mt-1">{deck.cards.length} cards</p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setIsAdding(true)} disabled={isAdding}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Card
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href={`/dashboard/flashcards/${deckId}`}>Done Editing</Link>
+          </Button>
+        </div>
+      </div>
+
+      <RenameDeckForm key={deck.title} deck={deck} />
+
+      {isAdding && <AddFlashcardForm deckId={deck.id} onDone={closeAddForm} />}
+
+      {reorderState?.error && <p className="text-sm text-red-500">{reorderState.error}</p>}
+
+      <div className="space-y-4">
+        {deck.cards.map((card, index) => (
+          <div
+            key={card.id}
+            draggable={grabbedId === card.id}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggedId(card.id);
+            }}
+            onDragOver={(e) => {
+              if (draggedId !== null) e.preventDefault();
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(card.id);
+            }}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setGrabbedId(null);
+            }}
+            onMouseUp={() => setGrabbedId(null)}
+            className={draggedId === card.id ? 'opacity-50' : ''}
+          >
+            <FlashcardEditor
+              card={card}
+              number={index + 1}
+              deck={deck}
+              onGrab={() => setGrabbedId(card.id)}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function FlashcardDeckEditPage() {
+  return (
+    <section className="flex-1 p-4 lg:p-8">
+      <Suspense
+        fallback={
+          <Card className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+            </CardContent>
+          </Card>
+        }
+      >
+        <FlashcardDeckEdit />
+      </Suspense>
+    </section>
+  );
+}
@@ -0,0 +1,275 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ArrowLeft, ChevronLeft, ChevronRight, Edit, Loader2, RotateCcw, Shuffle } from 'lucide-react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import useSWR from 'swr';
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import { SourceLink } from '@/components/quiz/source-link';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+interface Flashcard {
+  id: number;
+  front: string;
+  back: string;
+  position: number;
+  sourceRef: {
+    page?: number;
+    slide?: number;
+    slideTitle?: string;
+    headingPath?: string[];
+    text?: string;
+    chunkId?: number;
+  } | null;
+}
+
+interface FlashcardDeck {
+  id: number;
+  documentId: number;
+  title: string;
+  status: string;
+  createdAt: string;
+  cards: Flashcard[];
+}
+
+/**
+ * A card that turns over on click; the back carries the link to the card's source
+ */
+function FlipCard({
+  card,
+  documentId,
+  flipped,
+  onFlip,
+}: {
+  card: Flashcard;
+  documentId: number;
+  flipped: boolean;
+  onFlip: () => void;
+}) {
+  const face =
+    'absolute inset-0 flex flex-col items-center justify-center rounded-xl border bg-white p-8 text-center shadow-sm [backface-visibility:hidden]';
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={onFlip}
+      className="h-72 cursor-pointer [perspective:1000px]"
+      aria-label={flipped ? 'Show front' : 'Show back'}
+    >
+      <div
+        className={`relative h-full w-full transition-transform duration-500 [transform-style:preserve-3d] ${
+          flipped ? '[transform:rotateY(180deg)]' : ''
+        }`}
+      >
+        <div className={face}>
+          <p className="text-xl font-medium text-gray-900 whitespace-pre-wrap">{card.front}</p>
+          <p className="absolute bottom-4 text-xs text-gray-400">Click or press space to flip</p>
+        </div>
+        <div className={`${face} border-orange-200 bg-orange-50/40 [transform:rotateY(180deg)]`}>
+          <p className="text-lg text-gray-800 whitespace-pre-wrap">{card.back}</p>
+          {card.sourceRef && (
+            <div className="absolute bottom-4 text-xs" onClick={(e) => e.stopPropagation()}>
+              <SourceLink documentId={documentId} sourceRef={card.sourceRef} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function FlashcardStudy() {
+  const params = useParams();
+  const deckId = params.id as string;
+  const { data: deck, isLoading } = useSWR<FlashcardDeck>(`/api/flashcards/${deckId}`, fetcher, {
+    refreshInterval: (data) => (data?.status === 'generating' ? 2000 : 0),
+  });
+  // Study order as card IDs, so edits elsewhere don't reshuffle mid-session
+  const [order, setOrder] = useState<number[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+
+  const cards = deck?.cards ?? [];
+  const byId = new Map(cards.map((card) => [card.id, card]));
+  const studyCards = order
+    ? order.map((id) => byId.get(id)).filter((card): card is Flashcard => card !== undefined)
+    : cards;
+  const current = studyCards[Math.min(index, studyCards.length - 1)];
+
+  const go = useCallback(
+    (delta: number) => {
+      setIndex((i) => Math.max(0, Math.min(studyCards.length - 1, i + delta)));
+      setFlipped(false);
+    },
+    [studyCards.length]
+  );
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === ' ') {
+        e.preventDefault();
+        setFlipped((f) => !f);
+      } else if (e.key === 'ArrowRight') {
+        go(1);
+      } else if (e.key === 'ArrowLeft') {
+        go(-1);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [go]);
+
+  const shuffle = () => {
+    const ids = cards.map((card) => card.id);
+    for (let i = ids.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [ids[i], ids[j]] = [ids[j], ids[i]];
+    }
+    setOrder(ids);
+    setIndex(0);
+    setFlipped(false);
+  };
+
+  const restart = () => {
+    setOrder(null);
+    setIndex(0);
+    setFlipped(false);
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="animate-pulse">
+        <CardContent className="p-6">
+          <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+          <div className="h-72 bg-gray-200 rounded"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!deck || !('cards' in deck)) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          <p className="text-gray-500">Deck not found</p>
+          <Button asChild variant="outline" className="mt-4">
+            <Link href="/dashboard/flashcards">Back to Flashcards</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link
+            href="/dashboard/flashcards"
+            className="text-sm text-gray-600 hover:text-gray-900 flex items-center mb-2"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to Flashcards
+          </Link>
+          <h1 className="text-lg lg:text-2xl font-medium text-gray-900">{deck.title}</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            {cards.length} card{cards.length !== 1 ? 's' : ''}
+          </p>
+        </div>
+        {deck.status === 'ready' && (
+          <Button variant="outline" asChild>
+            <Link href={`/dashboard/flashcards/${deck.id}/edit`}>
+              <Edit className="mr-2 h-4 w-4" />
+              Edit Deck
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      {deck.status === 'generating' ? (
+        <Card>
+          <CardContent className="p-8 flex items-center justify-center text-gray-500">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Generating flashcards...
+          </CardContent>
+        </Card>
+      ) : deck.status === 'failed' ? (
+        <Card>
+          <CardContent className="p-8 text-center text-red-500">
+            Flashcard generation failed. Generate a new deck from the document page.
+          </CardContent>
+        </Card>
+      ) : !current ? (
+        <Card>
+          <CardContent className="p-8 text-center text-gray-500">
+            This deck has no cards.{' '}
+            <Link href={`/dashboard/flashcards/${deck.id}/edit`} className="text-orange-600 hover:underline">
+              Add some
+            </Link>
+            .
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="max-w-2xl mx-auto space-y-4">
+          <FlipCard
+            key={current.id}
+            card={current}
+            documentId={deck.documentId}
+            flipped={flipped}
+            onFlip={() => setFlipped((f) => !f)}
+          />
+          <div className="flex items-center justify-between">
+            <Button variant="outline" onClick={() => go(-1)} disabled={index === 0}>
+              <ChevronLeft className="mr-1 h-4 w-4" />
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600">
+              Card {Math.min(index, studyCards.length - 1) + 1} of {studyCards.length}
+            </span>
+            <Button
+              variant="outline"
+              onClick={() => go(1)}
+              disabled={index >= studyCards.length - 1}
+            >
+              Next
+              <ChevronRight className="ml-1 h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex justify-center space-x-2">
+            <Button variant="ghost" size="sm" onClick={shuffle}>
+              <Shuffle className="mr-2 h-4 w-4" />
+              Shuffle
+            </Button>
+            <Button variant="ghost" size="sm" onClick={restart}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Restart in order
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function FlashcardStudyPage() {
+  return (
+    <section className="flex-1 p-4 lg:p-8">
+      <Suspense
+        fallback={
+          <Card className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+            </CardContent>
+          </Card>
+        }
+      >
+        <FlashcardStudy />
+      </Suspense>
+    </section>
+  );
+}
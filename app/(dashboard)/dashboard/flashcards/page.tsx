@@ -0,0 +1,117 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Layers, Loader2, XCircle, FileText } from 'lucide-react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { Suspense } from 'react';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+interface FlashcardDeck {
+  id: number;
+  documentId: number;
+  title: string;
+  status: string;
+  focus: string | null;
+  createdAt: string;
+}
+
+function DeckList() {
+  const { data: decks, isLoading } = useSWR<FlashcardDeck[]>('/api/flashcards', fetcher, {
+    // Poll while any deck is still being generated
+    refreshInterval: (data) =>
+      Array.isArray(data) && data.some((deck) => deck.status === 'generating') ? 2000 : 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2, 3].map((i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="p-4">
+              <div className="h-6 bg-gray-200 rounded w-1/3 mb-2"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (!Array.isArray(decks) || decks.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center">
+          <Layers className="h-12 w-12 text-orange-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No flashcard decks yet</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Open a document and generate flashcards from it.
+          </p>
+          <Button asChild className="bg-orange-500 hover:bg-orange-600 text-white">
+            <Link href="/dashboard/documents">
+              <FileText className="mr-2 h-4 w-4" />
+              Go to Documents
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {decks.map((deck) => (
+        <Card key={deck.id}>
+          <CardContent className="p-4 flex items-center justify-between">
+            <div className="flex items-center space-x-3 min-w-0">
+              <Layers className="h-5 w-5 text-orange-500 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{deck.title}</p>
+                <p className="text-xs text-gray-500">
+                  Created {new Date(deck.createdAt).toLocaleDateString()}
+                  {deck.focus && <> · Focus: {deck.focus}</>}
+                </p>
+              </div>
+            </div>
+            {deck.status === 'generating' ? (
+              <span className="flex items-center text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Generating...
+              </span>
+            ) : deck.status === 'failed' ? (
+              <span className="flex items-center text-sm text-red-500">
+                <XCircle className="h-4 w-4 mr-2" />
+                Generation failed
+              </span>
+            ) : (
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/dashboard/flashcards/${deck.id}/edit`}>Edit</Link>
+                </Button>
+                <Button size="sm" className="bg-orange-500 hover:bg-orange-600 text-white" asChild>
+                  <Link href={`/dashboard/flashcards/${deck.id}`}>Study</Link>
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+export default function FlashcardsPage() {
+  return (
+    <section className="flex-1 p-4 lg:p-8">
+      <div className="mb-6">
+        <h1 className="text-lg lg:text-2xl font-medium text-gray-900">Flashcards</h1>
+        <p className="text-sm text-gray-600 mt-1">Decks generated from your documents</p>
+      </div>
+      <Suspense fallback={<div className="h-24 bg-gray-100 rounded-lg animate-pulse" />}>
+        <DeckList />
+      </Suspense>
+    </section>
+  );
+}
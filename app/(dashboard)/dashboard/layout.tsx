@@ -10,7 +10,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu';
-import { Home, Settings, Menu, FileText, Upload, Sparkles, X } from 'lucide-react';
+import { Home, Settings, Menu, FileText, Upload, Sparkles, X, Layers, Repeat } from 'lucide-react';
 
 export default function DashboardLayout({
   children
@@ -23,6 +23,8 @@ export default function DashboardLayout({
   const navItems = [
     { href: '/dashboard', icon: Home, label: 'Dashboard' },
     { href: '/dashboard/documents', icon: FileText, label: 'Documents' },
+    { href: '/dashboard/flashcards', icon: Layers, label: 'Flashcards' },
+    { href: '/dashboard/review', icon: Repeat, label: 'Review' },
     { href: '/dashboard/general', icon: Settings, label: 'General' }
   ];
 
@@ -0,0 +1,159 @@
+'use server';
+
+import { z } from 'zod';
+import { db } from '@/lib/db/drizzle';
+import { quizzes } from '@/lib/db/schema';
+import { getUser, getQuizById } from '@/lib/db/queries';
+import { eq } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+
+const updateQuizSettingsSchema = z.object({
+  quizId: z.string().transform(Number),
+  deliveryMode: z.enum(['standard', 'exam']),
+});
+
+export async function updateQuizSettings(
+  prevState: { error?: string },
+  formData: FormData
+) {
+  const user = await getUser();
+  if (!user) {
+    return { error: 'User is not authenticated' };
+  }
+
+  const result = updateQuizSettingsSchema.safeParse({
+    quizId: formData.get('quizId'),
+    deliveryMode: formData.get('deliveryMode'),
+  });
+
+  if (!result.success) {
+    return { error: 'Invalid form data' };
+  }
+
+  const { quizId, deliveryMode } = result.data;
+
+  // Verify quiz belongs to user
+  const quiz = await getQuizById(quizId);
+  if (!quiz || quiz.userId !== user.id) {
+    return { error: 'Unauthorized' };
+  }
+
+  try {
+    await db
+      .update(quizzes)
+      .set({ deliveryMode })
+      .where(eq(quizzes.id, quizId));
+
+    revalidatePath(`/dashboard/quizzes/${quizId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating quiz settings:', error);
+    return { error: 'Failed to update quiz settings' };
+  }
+}
+
+const MAX_TIME_LIMIT_MINUTES = 300;
+
+const updateQuizTimingSchema = z.object({
+  quizId: z.string().transform(Number),
+  // Blank means untimed
+  timeLimitMinutes: z
+    .string()
+    .trim()
+    .transform((value) => (value === '' ? null : Number(value)))
+    .pipe(z.number().int().min(1).max(MAX_TIME_LIMIT_MINUTES).nullable()),
+  forwardOnly: z.boolean(),
+});
+
+export async function updateQuizTiming(
+  prevState: { error?: string },
+  formData: FormData
+) {
+  const user = await getUser();
+  if (!user) {
+    return { error: 'User is not authenticated' };
+  }
+
+  const result = updateQuizTimingSchema.safeParse({
+    quizId: formData.get('quizId'),
+    timeLimitMinutes: formData.get('timeLimitMinutes') ?? '',
+    forwardOnly: formData.get('forwardOnly') === 'on',
+  });
+
+  if (!result.success) {
+    return { error: `Time limit must be a whole number of minutes between 1 and ${MAX_TIME_LIMIT_MINUTES}` };
+  }
+
+  const { quizId, timeLimitMinutes, forwardOnly } = result.data;
+
+  // Verify quiz belongs to user
+  const quiz = await getQuizById(quizId);
+  if (!quiz || quiz.userId !== user.id) {
+    return { error: 'Unauthorized' };
+  }
+
+  try {
+    // Attempts already running keep the deadline they started with
+    await db
+      .update(quizzes)
+      .set({ timeLimitMinutes, forwardOnly })
+      .where(eq(quizzes.id, quizId));
+
+    revalidatePath(`/dashboard/quizzes/${quizId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating quiz timing:', error);
+    return { error: 'Failed to update quiz timing' };
+  }
+}
+
+const updateQuizShuffleSchema = z.object({
+  quizId: z.string().transform(Number),
+  shuffleQuestions: z.boolean(),
+  shuffleChoices: z.boolean(),
+});
+
+export async function updateQuizShuffle(
+  prevState: { error?: string },
+  formData: FormData
+) {
+  const user = await getUser();
+  if (!user) {
+    return { error: 'User is not authenticated' };
+  }
+
+  const result = updateQuizShuffleSchema.safeParse({
+    quizId: formData.get('quizId'),
+    shuffleQuestions: formData.get('shuffleQuestions') === 'on',
+    shuffleChoices: formData.get('shuffleChoices') === 'on',
+  });
+
+  if (!result.success) {
+    return { error: 'Invalid form data' };
+  }
+
+  const { quizId, shuffleQuestions, shuffleChoices } = result.data;
+
+  // Verify quiz belongs to user
+  const quiz = await getQuizById(quizId);
+  if (!quiz || quiz.userId !== user.id) {
+    return { error: 'Unauthorized' };
+  }
+
+  try {
+    // Attempts already running keep the order they were dealt
+    await db
+      .update(quizzes)
+      .set({ shuffleQuestions, shuffleChoices })
+      .where(eq(quizzes.id, quizId));
+
+    revalidatePath(`/dashboard/quizzes/${quizId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating quiz shuffle:', error);
+    return { error: 'Failed to update quiz shuffle' };
+  }
+}
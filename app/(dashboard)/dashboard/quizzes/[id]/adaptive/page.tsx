@@ -0,0 +1,520 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, CheckCircle, Eye, Loader2, Sparkles, Target, XCircle } from 'lucide-react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import useSWR from 'swr';
+import { Suspense, useEffect, useState } from 'react';
+import { AnswerInput } from '@/components/quiz/answer-input';
+import { AnswerReview } from '@/components/quiz/answer-review';
+import { SourceLink } from '@/components/quiz/source-link';
+import { MASTERY_THRESHOLD, masteryLabel, type TopicMastery } from '@/lib/adaptive';
+import type { AnswerKey, SubmittedAnswer } from '@/lib/questions';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+const SESSION_LENGTHS = [5, 10, 20];
+
+interface SourceRef {
+  page?: number;
+  slide?: number;
+  slideTitle?: string;
+  headingPath?: string[];
+  text?: string;
+  chunkId?: number;
+}
+
+// Served questions arrive without their answer key; checking an answer reveals it
+interface Question {
+  id: number;
+  type: string;
+  prompt: string;
+  choices: string[] | null;
+}
+
+interface Quiz {
+  id: number;
+  title: string;
+  status: string;
+  documentId: number;
+  deliveryMode: 'standard' | 'exam';
+}
+
+interface MasteryReport {
+  mastery: TopicMastery[];
+  answeredCount: number;
+}
+
+interface CheckedAnswer {
+  result: {
+    correct: boolean;
+    credit?: number;
+    feedback?: string;
+    rubricScores?: { criterion: string; points: number; awarded: number }[];
+  };
+  credit: number;
+  answer: AnswerKey | null;
+  explanation: string | null;
+  sourceRef: SourceRef | null;
+}
+
+interface Served {
+  question: Question;
+  topic: string;
+  answer?: SubmittedAnswer;
+  checked?: CheckedAnswer;
+}
+
+async function postJson(url: string, body: unknown) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+}
+
+function MasteryList({ mastery }: { mastery: TopicMastery[] }) {
+  return (
+    <div className="space-y-3">
+      {mastery.map((entry) => (
+        <div key={entry.topic} className="text-sm">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-gray-800 truncate mr-4">{entry.topic}</span>
+            <span
+              className={`flex-shrink-0 ${
+                entry.mastery < MASTERY_THRESHOLD ? 'text-orange-600' : 'text-green-600'
+              }`}
+            >
+              {masteryLabel(entry.mastery)} · {Math.round(entry.mastery * 100)}%
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded">
+            <div
+              className={`h-2 rounded ${
+                entry.mastery < MASTERY_THRESHOLD ? 'bg-orange-400' : 'bg-green-500'
+              }`}
+              style={{ width: `${Math.round(entry.mastery * 100)}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {entry.answered > 0
+              ? `${entry.answered} answer${entry.answered !== 1 ? 's' : ''} across ${entry.questionCount} question${entry.questionCount !== 1 ? 's' : ''}`
+              : `Not practised yet · ${entry.questionCount} question${entry.questionCount !== 1 ? 's' : ''}`}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Offers fresh questions for a weak topic that has run out of them
+ * Generation is only ever queued from here, since it counts toward the plan's limit.
+ */
+function GenerateTopicOffer({ quizId, topic }: { quizId: string; topic: string }) {
+  const [queuing, setQueuing] = useState(false);
+  const [queued, setQueued] = useState<number | null>(null);
+  const [offerError, setOfferError] = useState<string | null>(null);
+
+  const generate = async () => {
+    setQueuing(true);
+    setOfferError(null);
+    try {
+      const data = await postJson(`/api/quizzes/${quizId}/adaptive/generate`, { topic });
+      setQueued(data.count);
+    } catch (err) {
+      setOfferError(err instanceof Error ? err.message : 'Failed to generate questions');
+    } finally {
+      setQueuing(false);
+    }
+  };
+
+  return (
+    <div className="p-3 rounded border border-orange-200 bg-orange-50 text-sm text-orange-900 space-y-2">
+      {queued !== null ? (
+        <p>
+          Generating {queued} new question{queued !== 1 ? 's' : ''} on {topic}. They are added to
+          your practice as soon as they are ready.
+        </p>
+      ) : (
+        <div className="flex items-center justify-between">
+          <span className="mr-4">
+            You have practised every question on {topic}. New questions count toward your
+            plan&apos;s question generation limit.
+          </span>
+          <Button variant="outline" size="sm" onClick={generate} disabled={queuing}>
+            {queuing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Sparkles className="mr-2 h-4 w-4" />
+            )}
+            Generate more
+          </Button>
+        </div>
+      )}
+      {offerError && <p className="text-red-500">{offerError}</p>}
+    </div>
+  );
+}
+
+function AdaptivePractice() {
+  const params = useParams();
+  const quizId = params.id as string;
+  const { data: quiz, isLoading } = useSWR<Quiz>(`/api/quizzes/${quizId}`, fetcher);
+  const { data: report, mutate: refreshMastery } = useSWR<MasteryReport>(
+    quiz?.status === 'ready' ? `/api/quizzes/${quizId}/adaptive` : null,
+    fetcher
+  );
+
+  const [sessionLength, setSessionLength] = useState(10);
+  const [phase, setPhase] = useState<'start' | 'question' | 'waiting' | 'done'>('start');
+  const [served, setServed] = useState<Served[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [attemptId, setAttemptId] = useState<number | null>(null);
+  // Weakest topic with no unserved questions left, while nothing is generating for the quiz
+  const [exhaustedTopic, setExhaustedTopic] = useState<string | null>(null);
+
+  const current = served[served.length - 1];
+
+  const finish = async (session: Served[]) => {
+    setPhase('done');
+    if (session.length === 0) {
+      return;
+    }
+    try {
+      const answers: Record<number, SubmittedAnswer> = {};
+      for (const entry of session) {
+        if (entry.answer !== undefined) {
+          answers[entry.question.id] = entry.answer;
+        }
+      }
+      const attempt = await postJson(`/api/quizzes/${quizId}/attempts`, {
+        answers,
+        mode: 'adaptive',
+      });
+      setAttemptId(attempt.id);
+      refreshMastery();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the session');
+    }
+  };
+
+  const fetchNext = async (session: Served[]) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await postJson(`/api/quizzes/${quizId}/adaptive/next`, {
+        session: session.map((entry) => ({
+          questionId: entry.question.id,
+          credit: entry.checked?.credit ?? 0,
+        })),
+      });
+      // The offer stays up for the rest of the session so its queued confirmation is not lost
+      setExhaustedTopic((shown) => shown ?? (data.generating ? null : data.exhaustedTopic));
+      if (data.question) {
+        setServed([...session, { question: data.question, topic: data.topic }]);
+        setPhase('question');
+      } else if (data.generating) {
+        // Fresh questions for a weak topic are on the way; poll until they land
+        setPhase('waiting');
+      } else {
+        await finish(session);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the next question');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    if (phase !== 'waiting') return;
+    const timer = setTimeout(() => fetchNext(served), 3000);
+    return () => clearTimeout(timer);
+  }, [phase, served]);
+
+  const check = async () => {
+    if (!current) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const checked: CheckedAnswer = await postJson(`/api/quizzes/${quizId}/check`, {
+        questionId: current.question.id,
+        answer: current.answer ?? null,
+      });
+      setServed([...served.slice(0, -1), { ...current, checked }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check answer');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const next = () => {
+    if (served.length >= sessionLength) {
+      finish(served);
+    } else {
+      fetchNext(served);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="animate-pulse">
+        <CardContent className="p-6">
+          <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!quiz || quiz.status !== 'ready') {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          <p className="text-gray-500">{!quiz ? 'Quiz not found' : 'Quiz is not ready'}</p>
+          <Button asChild variant="outline" className="mt-4">
+            <Link href={`/dashboard/quizzes/${quizId}`}>Back to Quiz</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (quiz.deliveryMode === 'exam') {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          <p className="text-gray-500">
+            Adaptive practice shows answers as you go, so it is not available in exam mode.
+          </p>
+          <Button asChild variant="outline" className="mt-4">
+            <Link href={`/dashboard/quizzes/${quizId}`}>Back to Quiz</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const correctCount = served.filter((entry) => entry.checked?.result.correct).length;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          href={`/dashboard/quizzes/${quizId}`}
+          className="text-sm text-gray-600 hover:text-gray-900 flex items-center mb-2"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Quiz
+        </Link>
+        <h1 className="text-lg lg:text-2xl font-medium text-gray-900">{quiz.title}</h1>
+        <p className="text-sm text-gray-600 mt-1">
+          Adaptive practice
+          {phase !== 'start' && phase !== 'done' && (
+            <> · Question {served.length} of up to {sessionLength}</>
+          )}
+        </p>
+      </div>
+
+      {phase === 'start' && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center">
+              <Target className="h-4 w-4 mr-2 text-orange-500" />
+              Practise your weak spots
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Questions are picked from the topics you have struggled with in past attempts. When a
+              weak topic runs out of questions, you can choose to generate new ones for it.
+            </p>
+            {report && report.mastery.length > 0 && <MasteryList mastery={report.mastery} />}
+            <div className="flex items-center justify-between pt-2">
+              <label className="text-sm text-gray-600 flex items-center space-x-2">
+                <span>Questions</span>
+                <select
+                  value={sessionLength}
+                  onChange={(e) => setSessionLength(Number(e.target.value))}
+                  className="border rounded px-2 py-1 bg-white"
+                >
+                  {SESSION_LENGTHS.map((length) => (
+                    <option key={length} value={length}>
+                      {length}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <Button
+                onClick={() => fetchNext([])}
+                disabled={busy}
+                className="bg-orange-500 hover:bg-orange-600 text-white"
+              >
+                {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Start session
+              </Button>
+            </div>
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </CardContent>
+        </Card>
+      )}
+
+      {phase === 'waiting' && (
+        <Card>
+          <CardContent className="p-8 flex items-center justify-center text-gray-500">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Generating new questions for your weakest topic...
+          </CardContent>
+        </Card>
+      )}
+
+      {phase === 'question' && current && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-normal text-gray-500">Topic: {current.topic}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {exhaustedTopic && (
+              <GenerateTopicOffer quizId={quizId} topic={exhaustedTopic} />
+            )}
+            <p className="text-gray-900 font-medium text-lg">{current.question.prompt}</p>
+            <AnswerInput
+              question={current.question}
+              value={current.answer}
+              onChange={(value) => setServed([...served.slice(0, -1), { ...current, answer: value }])}
+              disabled={current.checked !== undefined || busy}
+            />
+
+            {current.checked && (
+              <div className="space-y-3">
+                <p
+                  className={`flex items-center text-sm font-medium ${
+                    current.checked.result.correct ? 'text-green-700' : 'text-red-700'
+                  }`}
+                >
+                  {current.checked.result.correct ? (
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                  ) : (
+                    <XCircle className="h-4 w-4 mr-2" />
+                  )}
+                  {current.checked.result.correct ? 'Correct' : 'Not quite'}
+                </p>
+                <AnswerReview
+                  question={{ ...current.question, answer: current.checked.answer }}
+                  userAnswer={current.answer}
+                  showUserAnswer
+                  result={current.checked.result}
+                />
+                {current.checked.explanation && (
+                  <p className="text-sm text-gray-600">{current.checked.explanation}</p>
+                )}
+                {current.checked.sourceRef && (
+                  <div className="text-xs">
+                    <SourceLink documentId={quiz.documentId} sourceRef={current.checked.sourceRef} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Button variant="ghost" onClick={() => finish(served)} disabled={busy}>
+                End session
+              </Button>
+              <div className="flex items-center space-x-3">
+                {error && <p className="text-sm text-red-500">{error}</p>}
+                {current.checked ? (
+                  <Button
+                    onClick={next}
+                    disabled={busy}
+                    className="bg-orange-500 hover:bg-orange-600 text-white"
+                  >
+                    {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    {served.length >= sessionLength ? 'Finish' : 'Next question'}
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={check}
+                    disabled={busy}
+                    className="bg-orange-500 hover:bg-orange-600 text-white"
+                  >
+                    {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    Check answer
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {phase === 'done' && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Session complete</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {served.length > 0
+                ? `You answered ${correctCount} of ${served.length} question${served.length !== 1 ? 's' : ''} correctly. Mastery estimates include this session.`
+                : 'No questions left to practise in this quiz.'}
+            </p>
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            {exhaustedTopic && (
+              <GenerateTopicOffer quizId={quizId} topic={exhaustedTopic} />
+            )}
+            {report && report.mastery.length > 0 && <MasteryList mastery={report.mastery} />}
+            <div className="flex justify-center space-x-2 pt-2">
+              {attemptId !== null && (
+                <Button variant="outline" asChild>
+                  <Link href={`/dashboard/quizzes/${quizId}/attempts/${attemptId}`}>
+                    <Eye className="mr-2 h-4 w-4" />
+                    Review answers
+                  </Link>
+                </Button>
+              )}
+              <Button
+                className="bg-orange-500 hover:bg-orange-600 text-white"
+                onClick={() => {
+                  setServed([]);
+                  setAttemptId(null);
+                  setError(null);
+                  setExhaustedTopic(null);
+                  setPhase('start');
+                }}
+              >
+                Practise again
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export default function AdaptivePracticePage() {
+  return (
+    <section className="flex-1 p-4 lg:p-8">
+      <Suspense
+        fallback={
+          <Card className="animate-pulse">
+            <CardContent className="p-6">
+              <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+            </CardContent>
+          </Card>
+        }
+      >
+        <AdaptivePractice />
+      </Suspense>
+    </section>
+  );
+}
@@ -2,24 +2,31 @@
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, CheckCircle, XCircle } from 'lucide-react';
+import { ArrowLeft, CheckCircle, CircleDot, Loader2, XCircle } from 'lucide-react';
 import Link from 'next/link';
 import { useParams } from 'next/navigation';
 import useSWR from 'swr';
-import { Suspense } from 'react';
+import { Suspense, useState } from 'react';
+import { AnswerReview } from '@/components/quiz/answer-review';
+import { SourceLink, sourceLocationLabel } from '@/components/quiz/source-link';
+import type { AnswerKey, SubmittedAnswer } from '@/lib/questions';
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
 interface Question {
   id: number;
+  type: string;
   prompt: string;
   choices: string[] | null;
-  answer: number | null;
+  answer: AnswerKey | null;
   explanation: string | null;
   sourceRef: {
     page?: number;
     slide?: number;
+    slideTitle?: string;
+    headingPath?: string[];
     text?: string;
+    chunkId?: number;
   } | null;
 }
 
@@ -28,17 +35,41 @@ interface Quiz {
   title: string;
   status: string;
   createdAt: string;
-  questions: Question[];
+  documentId: number;
+}
+
+interface QuestionResult {
+  questionId: number;
+  answer: SubmittedAnswer | null;
+  correct: boolean;
+  credit?: number; // Partial credit (0-1) for rubric-graded questions
+  pending?: boolean;
+  feedback?: string;
+  rubricScores?: { criterion: string; points: number; awarded: number }[];
 }
 
 interface QuizAttempt {
   id: number;
   quizId: number;
   userId: number;
-  answers: Record<number, number>;
+  answers: Record<number, SubmittedAnswer>;
   score: number;
-  completedAt: string;
+  status: 'in_progress' | 'grading' | 'graded' | 'failed';
+  mode: 'standard' | 'adaptive' | 'practice';
+  startedAt: string | null; // Set for timed attempts
+  questionTimes: Record<number, number> | null; // Seconds spent per question, timed attempts only
+  results: QuestionResult[] | null; // Null for legacy client-scored attempts
+  gradingVersion: number | null;
+  completedAt: string | null; // Null while in progress
   createdAt: string;
+  questions: Question[]; // Includes the answer key, revealed only after grading
+  locked?: boolean; // Past attempts are withheld while a timed attempt is running
+}
+
+function formatDuration(seconds: number): string {
+  const rounded = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(rounded / 60);
+  return minutes > 0 ? `${minutes}m ${rounded % 60}s` : `${rounded}s`;
 }
 
 function ViewAttempt() {
@@ -51,10 +82,34 @@ function ViewAttempt() {
     fetcher
   );
   
-  const { data: attempt, isLoading: attemptLoading } = useSWR<QuizAttempt>(
+  const { data: attempt, isLoading: attemptLoading, mutate } = useSWR<QuizAttempt>(
     `/api/quizzes/${quizId}/attempts/${attemptId}`,
-    fetcher
+    fetcher,
+    {
+      // Poll while the worker grades short answers
+      refreshInterval: (data) => (data?.status === 'grading' ? 2000 : 0),
+    }
   );
+  const [retrying, setRetrying] = useState(false);
+  const [retryError, setRetryError] = useState<string | null>(null);
+
+  const retryGrading = async () => {
+    setRetrying(true);
+    setRetryError(null);
+    try {
+      const response = await fetch(`/api/quizzes/${quizId}/attempts/${attemptId}`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setRetryError(data.error || 'Failed to retry grading');
+        return;
+      }
+      mutate();
+    } finally {
+      setRetrying(false);
+    }
+  };
 
   if (quizLoading || attemptLoading) {
     return (
@@ -83,18 +138,48 @@ function ViewAttempt() {
     );
   }
 
-  // Calculate correct answers count
-  const totalQuestions = quiz.questions.length;
-  let correctAnswers = 0;
+  if (attempt.locked) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          <p className="text-gray-500">
+            Past attempts can be reviewed once your timed attempt is submitted.
+          </p>
+          <Button asChild className="mt-4 bg-orange-500 hover:bg-orange-600 text-white">
+            <Link href={`/dashboard/quizzes/${quizId}/take`}>Resume Quiz</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (attempt.status === 'in_progress') {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          <p className="text-gray-500">This attempt is still in progress.</p>
+          <Button asChild className="mt-4 bg-orange-500 hover:bg-orange-600 text-white">
+            <Link href={`/dashboard/quizzes/${quizId}/take`}>Resume Quiz</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
 
-  quiz.questions.forEach((question) => {
-    const userAnswer = attempt.answers[question.id];
-    if (userAnswer !== undefined && question.answer !== null) {
-      if (userAnswer === question.answer) {
-        correctAnswers++;
-      }
+  // Prefer the server-side breakdown; legacy attempts fall back to comparing against the answer key
+  const resultsById = new Map((attempt.results || []).map((r) => [r.questionId, r]));
+  const isQuestionCorrect = (question: Question) => {
+    const result = resultsById.get(question.id);
+    if (result) {
+      return result.correct;
     }
-  });
+    const userAnswer = attempt.answers[question.id];
+    return userAnswer !== undefined && question.answer !== null && userAnswer === question.answer;
+  };
+
+  const totalQuestions = attempt.questions.length;
+  const correctAnswers = attempt.questions.filter(isQuestionCorrect).length;
+  const isGrading = attempt.status === 'grading';
 
   return (
     <div className="space-y-6">
@@ -112,7 +197,17 @@ function ViewAttempt() {
               {quiz.title}
             </h1>
             <p className="text-sm text-gray-600 mt-1">
-              Attempt completed on {new Date(attempt.completedAt).toLocaleString()}
+              {attempt.mode === 'practice'
+                ? 'Practice session'
+                : attempt.mode === 'adaptive'
+                ? 'Adaptive session'
+                : 'Attempt'}{' '}
+              {attempt.completedAt && (
+                <>completed on {new Date(attempt.completedAt).toLocaleString()}</>
+              )}
+              {attempt.startedAt && attempt.completedAt && (
+                <> • Took {formatDuration((Date.parse(attempt.completedAt) - Date.parse(attempt.startedAt)) / 1000)}</>
+              )}
             </p>
           </div>
         </div>
@@ -125,33 +220,75 @@ function ViewAttempt() {
         <CardContent className="space-y-4">
           <div className="text-center py-8">
             <div className="text-6xl font-bold text-orange-500 mb-2">
-              {attempt.score}%
+              {isGrading ? (
+                <Loader2 className="h-14 w-14 animate-spin mx-auto" />
+              ) : (
+                `${attempt.score}%`
+              )}
             </div>
             <p className="text-gray-600">
-              You got {correctAnswers} out of {totalQuestions} questions correct
+              {isGrading
+                ? 'Grading your written answers...'
+                : `You got ${correctAnswers} out of ${totalQuestions} questions correct`}
             </p>
           </div>
 
+          {attempt.status === 'failed' && (
+            <div className="p-4 rounded border border-red-200 bg-red-50 text-sm text-red-800 flex items-center justify-between">
+              <span>
+                Written answers could not be graded, so they currently score zero.
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={retryGrading}
+                disabled={retrying}
+              >
+                {retrying ? 'Retrying...' : 'Retry Grading'}
+              </Button>
+            </div>
+          )}
+          {retryError && <p className="text-sm text-red-500">{retryError}</p>}
+
           <div className="space-y-4">
-            {quiz.questions.map((question, index) => {
+            {attempt.questions.map((question, index) => {
               const userAnswer = attempt.answers[question.id];
-              const isCorrect =
-                userAnswer !== undefined &&
-                question.answer !== null &&
-                userAnswer === question.answer;
+              const result = resultsById.get(question.id);
+              const isCorrect = isQuestionCorrect(question);
+              const isPartial = !isCorrect && result?.credit !== undefined && result.credit > 0;
 
               return (
                 <Card
                   key={question.id}
-                  className={isCorrect ? 'border-green-200' : 'border-red-200'}
+                  className={
+                    result?.pending
+                      ? 'border-gray-200'
+                      : isCorrect
+                      ? 'border-green-200'
+                      : isPartial
+                      ? 'border-orange-200'
+                      : 'border-red-200'
+                  }
                 >
                   <CardHeader>
                     <div className="flex items-center justify-between">
                       <CardTitle className="text-base">
                         Question {index + 1}
+                        {attempt.questionTimes?.[question.id] !== undefined && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">
+                            {formatDuration(attempt.questionTimes[question.id])}
+                          </span>
+                        )}
                       </CardTitle>
-                      {isCorrect ? (
+                      {result?.pending ? (
+                        <Loader2 className="h-5 w-5 text-gray-400 animate-spin" />
+                      ) : isCorrect ? (
                         <CheckCircle className="h-5 w-5 text-green-500" />
+                      ) : isPartial ? (
+                        <span className="flex items-center text-sm text-orange-600">
+                          <CircleDot className="h-5 w-5 mr-1" />
+                          {Math.round((result?.credit ?? 0) * 100)}% credit
+                        </span>
                       ) : (
                         <XCircle className="h-5 w-5 text-red-500" />
                       )}
@@ -160,42 +297,27 @@ function ViewAttempt() {
                   <CardContent className="space-y-4">
                     <p className="text-gray-900 font-medium">{question.prompt}</p>
 
-                    {question.choices && question.choices.length > 0 && (
-                      <div className="space-y-2">
-                        {question.choices.map((choice, choiceIndex) => {
-                          const isUserAnswer = userAnswer === choiceIndex;
-                          const isCorrectAnswer = question.answer === choiceIndex;
+                    <AnswerReview
+                      question={question}
+                      userAnswer={userAnswer}
+                      showUserAnswer
+                      result={result}
+                    />
 
-                          return (
-                            <div
-                              key={choiceIndex}
-                              className={`p-3 rounded border ${
-                                isCorrectAnswer
-                                  ? 'bg-green-50 border-green-200'
-                                  : isUserAnswer && !isCorrectAnswer
-                                  ? 'bg-red-50 border-red-200'
-                                  : 'bg-gray-50 border-gray-200'
-                              }`}
-                            >
-                              <div className="flex items-start">
-                                <span className="font-medium mr-2">
-                                  {String.fromCharCode(65 + choiceIndex)}.
-                                </span>
-                                <span>{choice}</span>
-                                {isCorrectAnswer && (
-                                  <span className="ml-auto text-green-600 font-medium">
-                                    ✓ Correct
-                                  </span>
-                                )}
-                                {isUserAnswer && !isCorrectAnswer && (
-                                  <span className="ml-auto text-red-600 font-medium">
-                                    ✗ Your answer
-                                  </span>
-                                )}
-                              </div>
-                            </div>
-                          );
-                        })}
+                    {!isCorrect && !result?.pending && question.sourceRef && (
+                      <div className="p-3 rounded border border-orange-200 bg-orange-50 text-sm text-orange-900 flex items-center justify-between">
+                        <span>
+                          The answer is explained
+                          {sourceLocationLabel(question.sourceRef)
+                            ? ` on ${sourceLocationLabel(question.sourceRef)}`
+                            : ' in the source'}
+                          .
+                        </span>
+                        <SourceLink
+                          documentId={quiz.documentId}
+                          sourceRef={question.sourceRef}
+                          label="Review the passage"
+                        />
                       </div>
                     )}
 
@@ -210,12 +332,18 @@ function ViewAttempt() {
                       </div>
                     )}
 
-                    {question.sourceRef && question.sourceRef.text && (
-                      <div className="text-xs text-gray-500">
-                        <div className="mt-2 p-2 bg-gray-50 rounded">
-                          <p className="font-medium mb-1">Source:</p>
-                          <p className="text-xs">{question.sourceRef.text}</p>
-                        </div>
+                    {question.sourceRef && (
+                      <div className="text-xs text-gray-500 space-y-1">
+                        {question.sourceRef.text && (
+                          <div className="mt-2 p-2 bg-gray-50 rounded">
+                            <p className="font-medium mb-1">Source:</p>
+                            <p className="text-xs">{question.sourceRef.text}</p>
+                          </div>
+                        )}
+                        {/* Wrong answers get the prominent link above instead */}
+                        {(isCorrect || result?.pending) && (
+                          <SourceLink documentId={quiz.documentId} sourceRef={question.sourceRef} />
+                        )}
                       </div>
                     )}
                   </CardContent>
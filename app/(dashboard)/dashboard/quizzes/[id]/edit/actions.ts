@@ -2,26 +2,184 @@
 
 import { z } from 'zod';
 import { db } from '@/lib/db/drizzle';
-import { questions } from '@/lib/db/schema';
-import { getUser, getQuizById } from '@/lib/db/queries';
-import { eq, and } from 'drizzle-orm';
+import { questions, quizzes } from '@/lib/db/schema';
+import {
+  currentQuestionsOf,
+  getUser,
+  getQuizById,
+  getNextQuestionPosition,
+} from '@/lib/db/queries';
+import {
+  BLOOM_LEVELS,
+  DIFFICULTIES,
+  QUESTION_TYPES,
+  getQuestionType,
+  validateAnswerKey,
+} from '@/lib/questions';
+import { enqueueQuestionGeneration } from '@/lib/sqs/client';
+import { checkQuestionGenerationLimit, getPlanConfig } from '@/lib/subscriptions/usage';
+import { eq, and, sql } from 'drizzle-orm';
 import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
 
+const jsonField = z.string().transform((val, ctx) => {
+  try {
+    return JSON.parse(val) as unknown;
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid JSON' });
+    return z.NEVER;
+  }
+});
+
 const updateQuestionSchema = z.object({
   questionId: z.string().transform(Number),
   prompt: z.string().min(1),
-  choices: z.string().transform((val) => {
-    try {
-      return JSON.parse(val);
-    } catch {
-      return [];
-    }
-  }),
-  answer: z.string().transform(Number),
+  choices: jsonField.pipe(z.array(z.string().min(1)).nullable()),
+  answer: jsonField,
   explanation: z.string().optional(),
 });
 
+const addQuestionSchema = z.object({
+  type: z.enum(QUESTION_TYPES),
+  prompt: z.string().min(1),
+  choices: jsonField.pipe(z.array(z.string().min(1)).nullable()),
+  answer: jsonField,
+  explanation: z.string().optional(),
+  difficulty: z.enum(DIFFICULTIES).optional(),
+  bloomLevel: z.enum(BLOOM_LEVELS).optional(),
+});
+
+export async function addQuestion(
+  prevState: { error?: string },
+  formData: FormData
+) {
+  const user = await getUser();
+  if (!user) {
+    return { error: 'User is not authenticated' };
+  }
+
+  const quizId = parseInt(formData.get('quizId') as string);
+
+  // Verify quiz belongs to user
+  const quiz = await getQuizById(quizId);
+  if (!quiz || quiz.userId !== user.id) {
+    return { error: 'Unauthorized' };
+  }
+
+  if (quiz.deliveryMode === 'exam') {
+    return { error: 'Turn off exam mode to edit questions' };
+  }
+
+  const result = addQuestionSchema.safeParse({
+    type: formData.get('type'),
+    prompt: formData.get('prompt'),
+    choices: formData.get('choices'),
+    answer: formData.get('answer'),
+    explanation: formData.get('explanation') || '',
+    difficulty: formData.get('difficulty') || undefined,
+    bloomLevel: formData.get('bloomLevel') || undefined,
+  });
+
+  if (!result.success) {
+    return { error: 'Invalid form data' };
+  }
+
+  const { type, prompt, choices, answer, explanation, difficulty, bloomLevel } = result.data;
+
+  const answerError = validateAnswerKey(type, choices, answer);
+  if (answerError) {
+    return { error: answerError };
+  }
+
+  try {
+    await db.insert(questions).values({
+      quizId,
+      type,
+      prompt,
+      choices,
+      answer,
+      explanation: explanation || null,
+      difficulty: difficulty ?? null,
+      bloomLevel: bloomLevel ?? null,
+      position: await getNextQuestionPosition(quizId),
+    });
+
+    revalidatePath(`/dashboard/quizzes/${quizId}`);
+    revalidatePath(`/dashboard/quizzes/${quizId}/edit`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error adding question:', error);
+    return { error: 'Failed to add question' };
+  }
+}
+
+const reorderQuestionsSchema = z.object({
+  quizId: z.string().transform(Number),
+  questionIds: jsonField.pipe(z.array(z.number().int())),
+});
+
+export async function reorderQuestions(
+  prevState: { error?: string },
+  formData: FormData
+) {
+  const user = await getUser();
+  if (!user) {
+    return { error: 'User is not authenticated' };
+  }
+
+  const result = reorderQuestionsSchema.safeParse({
+    quizId: formData.get('quizId'),
+    questionIds: formData.get('questionIds'),
+  });
+
+  if (!result.success) {
+    return { error: 'Invalid form data' };
+  }
+
+  const { quizId, questionIds } = result.data;
+
+  // Verify quiz belongs to user
+  const quiz = await getQuizById(quizId);
+  if (!quiz || quiz.userId !== user.id) {
+    return { error: 'Unauthorized' };
+  }
+
+  // The new order must be a permutation of the quiz's current questions
+  const quizQuestions = await db
+    .select({ id: questions.id })
+    .from(questions)
+    .where(currentQuestionsOf(quizId));
+  const currentIds = new Set(quizQuestions.map((q) => q.id));
+
+  if (
+    questionIds.length !== currentIds.size ||
+    new Set(questionIds).size !== questionIds.length ||
+    !questionIds.every((id) => currentIds.has(id))
+  ) {
+    return { error: 'Questions changed while reordering. Reload and try again.' };
+  }
+
+  try {
+    await db.transaction(async (tx) => {
+      for (const [position, questionId] of questionIds.entries()) {
+        await tx
+          .update(questions)
+          .set({ position })
+          .where(and(eq(questions.id, questionId), currentQuestionsOf(quizId)));
+      }
+    });
+
+    revalidatePath(`/dashboard/quizzes/${quizId}`);
+    revalidatePath(`/dashboard/quizzes/${quizId}/edit`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error reordering questions:', error);
+    return { error: 'Failed to reorder questions' };
+  }
+}
+
 export async function updateQuestion(
   prevState: { error?: string },
   formData: FormData
@@ -40,6 +198,11 @@ export async function updateQuestion(
     return { error: 'Unauthorized' };
   }
 
+  // The editor only sees a redacted answer key in exam mode
+  if (quiz.deliveryMode === 'exam') {
+    return { error: 'Turn off exam mode to edit questions' };
+  }
+
   const result = updateQuestionSchema.safeParse({
     questionId: formData.get('questionId'),
     prompt: formData.get('prompt'),
@@ -60,7 +223,7 @@ export async function updateQuestion(
       .select()
       .from(questions)
       .where(
-        and(eq(questions.id, questionId), eq(questions.quizId, quizId))
+        and(eq(questions.id, questionId), currentQuestionsOf(quizId))
       )
       .limit(1);
 
@@ -68,6 +231,12 @@ export async function updateQuestion(
       return { error: 'Question not found' };
     }
 
+    // Answer key shape depends on the question type, which is fixed at creation
+    const answerError = validateAnswerKey(getQuestionType(question), choices, answer);
+    if (answerError) {
+      return { error: answerError };
+    }
+
     // Update question
     await db
       .update(questions)
@@ -76,6 +245,8 @@ export async function updateQuestion(
         choices,
         answer,
         explanation: explanation || null,
+        // The owner has reviewed the question, so the generation-time check no longer applies
+        verification: null,
       })
       .where(eq(questions.id, questionId));
 
@@ -109,11 +280,17 @@ export async function deleteQuestion(
     return { error: 'Unauthorized' };
   }
 
+  if (quiz.deliveryMode === 'exam') {
+    return { error: 'Turn off exam mode to edit questions' };
+  }
+
   try {
+    // Retired rather than deleted so past attempts that answered it can still be reviewed
     await db
-      .delete(questions)
+      .update(questions)
+      .set({ status: 'retired' })
       .where(
-        and(eq(questions.id, questionId), eq(questions.quizId, quizId))
+        and(eq(questions.id, questionId), currentQuestionsOf(quizId))
       );
 
     revalidatePath(`/dashboard/quizzes/${quizId}`);
@@ -126,3 +303,152 @@ export async function deleteQuestion(
   }
 }
 
+
+export async function regenerateQuestion(
+  prevState: { error?: string },
+  formData: FormData
+) {
+  const user = await getUser();
+  if (!user) {
+    return { error: 'User is not authenticated' };
+  }
+
+  const quizId = parseInt(formData.get('quizId') as string);
+  const questionId = parseInt(formData.get('questionId') as string);
+
+  // Verify quiz belongs to user
+  const quiz = await getQuizById(quizId);
+  if (!quiz || quiz.userId !== user.id) {
+    return { error: 'Unauthorized' };
+  }
+
+  if (quiz.deliveryMode === 'exam') {
+    return { error: 'Turn off exam mode to edit questions' };
+  }
+
+  const [question] = await db
+    .select()
+    .from(questions)
+    .where(and(eq(questions.id, questionId), currentQuestionsOf(quizId)))
+    .limit(1);
+
+  if (!question) {
+    return { error: 'Question not found' };
+  }
+
+  if (question.status === 'regenerating') {
+    return { error: 'This question is already being regenerated' };
+  }
+
+  const limitCheck = await checkQuestionGenerationLimit(user);
+  if (!limitCheck.allowed) {
+    return { error: limitCheck.error || 'Quiz generation limit reached' };
+  }
+
+  await db
+    .update(questions)
+    .set({ status: 'regenerating' })
+    .where(eq(questions.id, questionId));
+
+  try {
+    await enqueueQuestionGeneration({ quizId, mode: 'regenerate', questionId });
+  } catch (error) {
+    console.error('Error enqueueing question regeneration:', error);
+    await db
+      .update(questions)
+      .set({ status: 'ready' })
+      .where(eq(questions.id, questionId));
+    return { error: 'Failed to queue question regeneration' };
+  }
+
+  revalidatePath(`/dashboard/quizzes/${quizId}/edit`);
+
+  return { success: true };
+}
+
+const generateMoreSchema = z.object({
+  quizId: z.string().transform(Number),
+  count: z.coerce.number().int().min(1).max(10),
+  exampleQuestionIds: z.array(z.coerce.number().int()),
+});
+
+export async function generateMoreQuestions(
+  prevState: { error?: string },
+  formData: FormData
+) {
+  const user = await getUser();
+  if (!user) {
+    return { error: 'User is not authenticated' };
+  }
+
+  const result = generateMoreSchema.safeParse({
+    quizId: formData.get('quizId'),
+    count: formData.get('count'),
+    exampleQuestionIds: formData.getAll('exampleQuestionIds'),
+  });
+
+  if (!result.success) {
+    return { error: 'Choose between 1 and 10 questions to generate' };
+  }
+
+  const { quizId, count } = result.data;
+
+  // Verify quiz belongs to user
+  const quiz = await getQuizById(quizId);
+  if (!quiz || quiz.userId !== user.id) {
+    return { error: 'Unauthorized' };
+  }
+
+  if (quiz.deliveryMode === 'exam') {
+    return { error: 'Turn off exam mode to edit questions' };
+  }
+
+  const quizQuestions = await db
+    .select({ id: questions.id })
+    .from(questions)
+    .where(currentQuestionsOf(quizId));
+
+  // No selection means "like all of these"
+  const quizQuestionIds = quizQuestions.map((q) => q.id);
+  const exampleQuestionIds =
+    result.data.exampleQuestionIds.length > 0
+      ? result.data.exampleQuestionIds.filter((id) => quizQuestionIds.includes(id))
+      : quizQuestionIds;
+
+  if (exampleQuestionIds.length === 0) {
+    return { error: 'Select at least one question to use as an example' };
+  }
+
+  const plan = getPlanConfig(user);
+  if (quizQuestions.length + quiz.pendingQuestionCount + count > plan.questionsPerQuiz) {
+    return {
+      error: `Quizzes on the ${plan.name} plan can have at most ${plan.questionsPerQuiz} questions.`,
+    };
+  }
+
+  const limitCheck = await checkQuestionGenerationLimit(user);
+  if (!limitCheck.allowed) {
+    return { error: limitCheck.error || 'Quiz generation limit reached' };
+  }
+
+  await db
+    .update(quizzes)
+    .set({ pendingQuestionCount: sql`${quizzes.pendingQuestionCount} + ${count}` })
+    .where(eq(quizzes.id, quizId));
+
+  try {
+    await enqueueQuestionGeneration({ quizId, mode: 'more', count, exampleQuestionIds });
+  } catch (error) {
+    console.error('Error enqueueing question generation:', error);
+    await db
+      .update(quizzes)
+      .set({ pendingQuestionCount: sql`GREATEST(${quizzes.pendingQuestionCount} - ${count}, 0)` })
+      .where(eq(quizzes.id, quizId));
+    return { error: 'Failed to queue question generation' };
+  }
+
+  revalidatePath(`/dashboard/quizzes/${quizId}`);
+  revalidatePath(`/dashboard/quizzes/${quizId}/edit`);
+
+  return { success: true };
+}
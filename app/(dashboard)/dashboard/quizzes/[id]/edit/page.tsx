@@ -4,26 +4,71 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { ArrowLeft, Save, Trash2, Plus } from 'lucide-react';
+import {
+  ArrowLeft,
+  Save,
+  Trash2,
+  Plus,
+  RefreshCw,
+  Loader2,
+  Sparkles,
+  GripVertical,
+  ShieldCheck,
+  ShieldAlert,
+} from 'lucide-react';
 import Link from 'next/link';
 import { useParams } from 'next/navigation';
 import useSWR, { mutate } from 'swr';
-import { Suspense, useEffect, useState } from 'react';
-import { updateQuestion, deleteQuestion } from './actions';
+import { Suspense, startTransition, useCallback, useEffect, useState } from 'react';
+import {
+  addQuestion,
+  reorderQuestions,
+  updateQuestion,
+  deleteQuestion,
+  regenerateQuestion,
+  generateMoreQuestions,
+} from './actions';
 import { useActionState } from 'react';
+import { AnswerReview } from '@/components/quiz/answer-review';
+import { QuestionTags } from '@/components/quiz/question-tags';
+import { SourceLink } from '@/components/quiz/source-link';
+import {
+  BLOOM_LEVELS,
+  BLOOM_LEVEL_LABELS,
+  DIFFICULTIES,
+  DIFFICULTY_LABELS,
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  getQuestionType,
+  isFlaggedForReview,
+  type AnswerKey,
+  type FillBlankAnswer,
+  type QuestionType,
+  type QuestionVerification,
+  type ShortAnswerKey,
+} from '@/lib/questions';
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
 interface Question {
   id: number;
+  type: string;
   prompt: string;
   choices: string[] | null;
-  answer: number | null;
+  answer: AnswerKey | null;
   explanation: string | null;
+  difficulty: string | null;
+  bloomLevel: string | null;
+  status: 'ready' | 'regenerating';
+  position: number;
+  verification: QuestionVerification | null;
   sourceRef: {
     page?: number;
     slide?: number;
+    slideTitle?: string;
+    headingPath?: string[];
     text?: string;
+    chunkId?: number;
   } | null;
 }
 
@@ -33,25 +78,359 @@ interface Quiz {
   status: string;
   createdAt: string;
   documentId: number;
+  deliveryMode: 'standard' | 'exam';
+  answersHidden: boolean; // Exam mode, or a timed attempt is running
+  pendingQuestionCount: number;
   questions: Question[];
 }
 
+interface QuestionDraft {
+  type: QuestionType;
+  prompt: string;
+  choices: string[];
+  answer: AnswerKey;
+  explanation: string;
+}
+
+function draftFromQuestion(question: Question): QuestionDraft {
+  const type = getQuestionType(question);
+  return {
+    type,
+    prompt: question.prompt,
+    choices: question.choices || ['', '', '', ''],
+    answer: question.answer ?? emptyAnswerFor(type),
+    explanation: question.explanation || '',
+  };
+}
+
+function emptyDraft(type: QuestionType): QuestionDraft {
+  return {
+    type,
+    prompt: '',
+    choices: ['', '', '', ''],
+    answer: emptyAnswerFor(type),
+    explanation: '',
+  };
+}
+
+function emptyAnswerFor(type: QuestionType): AnswerKey {
+  switch (type) {
+    case 'true_false':
+      return true;
+    case 'multi_select':
+      return [];
+    case 'fill_blank':
+      return { accepted: [], caseSensitive: false, ignorePunctuation: true };
+    case 'short_answer':
+      return { modelAnswer: '', rubric: [{ criterion: '', points: 1 }] };
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Type-specific inputs for a question's choices and answer key
+ */
+function QuestionFields({
+  draft,
+  onChange,
+  idPrefix,
+}: {
+  draft: QuestionDraft;
+  onChange: (draft: QuestionDraft) => void;
+  idPrefix: string;
+}) {
+  const hasChoices = draft.type === 'multiple_choice' || draft.type === 'multi_select';
+  const fillBlank = draft.type === 'fill_blank' ? (draft.answer as FillBlankAnswer) : null;
+  const shortAnswer = draft.type === 'short_answer' ? (draft.answer as ShortAnswerKey) : null;
+  const updateRubric = (rubric: ShortAnswerKey['rubric']) =>
+    onChange({ ...draft, answer: { ...shortAnswer!, rubric } });
+
+  return (
+    <>
+      <div>
+        <Label htmlFor={`prompt-${idPrefix}`}>
+          {draft.type === 'true_false' ? 'Statement' : 'Question'}
+        </Label>
+        <Input
+          id={`prompt-${idPrefix}`}
+          value={draft.prompt}
+          onChange={(e) => onChange({ ...draft, prompt: e.target.value })}
+          placeholder={draft.type === 'fill_blank' ? 'Use _____ to mark the blank' : undefined}
+          required
+        />
+      </div>
+
+      {hasChoices && (
+        <div>
+          <Label>
+            Choices{draft.type === 'multi_select' ? ' (mark every correct choice)' : ''}
+          </Label>
+          <div className="space-y-2 mt-2">
+            {draft.choices.map((choice, index) => {
+              const isCorrect =
+                draft.type === 'multi_select'
+                  ? Array.isArray(draft.answer) && draft.answer.includes(index)
+                  : draft.answer === index;
+              return (
+                <div key={index} className="flex items-center space-x-2">
+                  <span className="font-medium w-6">
+                    {String.fromCharCode(65 + index)}.
+                  </span>
+                  <Input
+                    value={choice}
+                    onChange={(e) => {
+                      const newChoices = [...draft.choices];
+                      newChoices[index] = e.target.value;
+                      onChange({ ...draft, choices: newChoices });
+                    }}
+                    required
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      if (draft.type === 'multi_select') {
+                        const selected = Array.isArray(draft.answer) ? draft.answer : [];
+                        onChange({
+                          ...draft,
+                          answer: selected.includes(index)
+                            ? selected.filter((i) => i !== index)
+                            : [...selected, index].sort((a, b) => a - b),
+                        });
+                      } else {
+                        onChange({ ...draft, answer: index });
+                      }
+                    }}
+                    className={isCorrect ? 'bg-green-100' : ''}
+                  >
+                    Correct
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {draft.type === 'true_false' && (
+        <div>
+          <Label>Answer</Label>
+          <div className="flex space-x-2 mt-2">
+            {[true, false].map((option) => (
+              <Button
+                key={String(option)}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => onChange({ ...draft, answer: option })}
+                className={draft.answer === option ? 'bg-green-100' : ''}
+              >
+                {option ? 'True' : 'False'}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {fillBlank && (
+        <div className="space-y-2">
+          <Label htmlFor={`accepted-${idPrefix}`}>Accepted answers (comma-separated)</Label>
+          <Input
+            id={`accepted-${idPrefix}`}
+            value={fillBlank.accepted.join(', ')}
+            onChange={(e) =>
+              onChange({
+                ...draft,
+                answer: { ...fillBlank, accepted: e.target.value.split(',').map((a) => a.trim()) },
+              })
+            }
+            required
+          />
+          <div className="flex space-x-4 text-sm text-gray-700">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={fillBlank.caseSensitive}
+                onChange={(e) =>
+                  onChange({ ...draft, answer: { ...fillBlank, caseSensitive: e.target.checked } })
+                }
+              />
+              <span>Case-sensitive</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={fillBlank.ignorePunctuation}
+                onChange={(e) =>
+                  onChange({ ...draft, answer: { ...fillBlank, ignorePunctuation: e.target.checked } })
+                }
+              />
+              <span>Ignore punctuation</span>
+            </label>
+          </div>
+        </div>
+      )}
+
+      {shortAnswer && (
+        <div className="space-y-2">
+          <Label htmlFor={`model-answer-${idPrefix}`}>Model answer</Label>
+          <Input
+            id={`model-answer-${idPrefix}`}
+            value={shortAnswer.modelAnswer}
+            onChange={(e) =>
+              onChange({ ...draft, answer: { ...shortAnswer, modelAnswer: e.target.value } })
+            }
+            required
+          />
+          <Label>Rubric</Label>
+          {shortAnswer.rubric.map((criterion, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <Input
+                value={criterion.criterion}
+                onChange={(e) =>
+                  updateRubric(
+                    shortAnswer.rubric.map((c, i) =>
+                      i === index ? { ...c, criterion: e.target.value } : c
+                    )
+                  )
+                }
+                placeholder="What a good answer must include"
+                required
+              />
+              <Input
+                type="number"
+                min={1}
+                value={criterion.points}
+                onChange={(e) =>
+                  updateRubric(
+                    shortAnswer.rubric.map((c, i) =>
+                      i === index ? { ...c, points: parseInt(e.target.value) || 0 } : c
+                    )
+                  )
+                }
+                className="w-20"
+                aria-label="Points"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => updateRubric(shortAnswer.rubric.filter((_, i) => i !== index))}
+                disabled={shortAnswer.rubric.length === 1}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => updateRubric([...shortAnswer.rubric, { criterion: '', points: 1 }])}
+          >
+            Add Criterion
+          </Button>
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor={`explanation-${idPrefix}`}>Explanation</Label>
+        <Input
+          id={`explanation-${idPrefix}`}
+          value={draft.explanation}
+          onChange={(e) => onChange({ ...draft, explanation: e.target.value })}
+        />
+      </div>
+    </>
+  );
+}
+
+const VERDICT_LABELS: Record<QuestionVerification['verdict'], string> = {
+  supported: 'Verified',
+  ambiguous: 'Ambiguous',
+  unsupported: 'Not in source',
+  incorrect: 'Answer disputed',
+};
+
+/**
+ * Confidence from the post-generation check against the source
+ */
+function VerificationBadge({ verification }: { verification: QuestionVerification | null }) {
+  if (!verification) {
+    return null;
+  }
+
+  const flagged = isFlaggedForReview(verification);
+  const Icon = flagged ? ShieldAlert : ShieldCheck;
+  return (
+    <span
+      className={`inline-flex items-center text-xs px-2 py-0.5 rounded border ${
+        flagged
+          ? 'bg-yellow-50 text-yellow-700 border-yellow-200'
+          : 'bg-green-50 text-green-700 border-green-200'
+      }`}
+      title="How confident the automatic check is that the marked answer matches the source"
+    >
+      <Icon className="h-3 w-3 mr-1" />
+      {VERDICT_LABELS[verification.verdict]} · {Math.round(verification.confidence * 100)}%
+    </span>
+  );
+}
+
+/**
+ * Serializes a draft into the form fields expected by the question server actions
+ */
+function appendDraft(formData: FormData, draft: QuestionDraft) {
+  const hasChoices = draft.type === 'multiple_choice' || draft.type === 'multi_select';
+  const answer =
+    draft.type === 'fill_blank'
+      ? {
+          ...(draft.answer as FillBlankAnswer),
+          accepted: (draft.answer as FillBlankAnswer).accepted.filter((a) => a.length > 0),
+        }
+      : draft.answer;
+
+  formData.append('prompt', draft.prompt);
+  formData.append('choices', JSON.stringify(hasChoices ? draft.choices : null));
+  formData.append('answer', JSON.stringify(answer));
+  formData.append('explanation', draft.explanation);
+}
+
 function QuestionEditor({
   question,
+  number,
   quizId,
+  documentId,
+  readOnly,
+  selected,
+  onToggleSelected,
+  onGrab,
 }: {
   question: Question;
+  number: number;
   quizId: number;
+  documentId: number;
+  readOnly: boolean;
+  selected: boolean;
+  onToggleSelected: () => void;
+  onGrab: () => void;
 }) {
-  const [prompt, setPrompt] = useState(question.prompt);
-  const [choices, setChoices] = useState<string[]>(
-    question.choices || ['', '', '', '']
-  );
-  const [answer, setAnswer] = useState(question.answer ?? 0);
-  const [explanation, setExplanation] = useState(question.explanation || '');
+  const [draft, setDraft] = useState<QuestionDraft>(() => draftFromQuestion(question));
   const [isEditing, setIsEditing] = useState(false);
   const [updateState, updateAction, isUpdating] = useActionState(updateQuestion, { error: '' });
   const [deleteState, deleteAction, isDeleting] = useActionState(deleteQuestion, { error: '' });
+  const [regenerateState, regenerateAction, isQueueing] = useActionState(regenerateQuestion, {
+    error: '',
+  });
+  const isRegenerating = question.status === 'regenerating';
+
+  useEffect(() => {
+    if ('success' in regenerateState && regenerateState.success) {
+      mutate(`/api/quizzes/${quizId}`);
+    }
+  }, [quizId, regenerateState]);
 
   useEffect(() => {
     if ('success' in updateState && updateState.success) {
@@ -69,10 +448,7 @@ function QuestionEditor({
   const handleSave = (formData: FormData) => {
     formData.append('questionId', question.id.toString());
     formData.append('quizId', quizId.toString());
-    formData.append('prompt', prompt);
-    formData.append('choices', JSON.stringify(choices));
-    formData.append('answer', answer.toString());
-    formData.append('explanation', explanation);
+    appendDraft(formData, draft);
 
     updateAction(formData);
   };
@@ -87,17 +463,69 @@ function QuestionEditor({
     deleteAction(formData);
   };
 
+  const handleRegenerate = (formData: FormData) => {
+    formData.append('questionId', question.id.toString());
+    formData.append('quizId', quizId.toString());
+
+    regenerateAction(formData);
+  };
+
   if (!isEditing) {
+    const flagged = isFlaggedForReview(question.verification);
     return (
-      <Card>
+      <Card
+        className={`${isRegenerating ? 'opacity-60' : ''} ${flagged ? 'border-yellow-300' : ''}`}
+      >
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle className="text-base">Question {question.id}</CardTitle>
+            <div className="flex items-start space-x-3">
+              <span
+                onMouseDown={onGrab}
+                className="mt-0.5 cursor-grab text-gray-400 hover:text-gray-600"
+                title="Drag to reorder"
+              >
+                <GripVertical className="h-4 w-4" />
+              </span>
+              <input
+                type="checkbox"
+                checked={selected}
+                onChange={onToggleSelected}
+                disabled={readOnly}
+                className="mt-1"
+                aria-label="Use as an example for new questions"
+              />
+              <div className="space-y-1">
+                <CardTitle className="text-base">Question {number}</CardTitle>
+                <div className="flex flex-wrap items-center gap-2">
+                  <QuestionTags question={question} />
+                  <VerificationBadge verification={question.verification} />
+                </div>
+              </div>
+            </div>
             <div className="flex space-x-2">
+              <form action={handleRegenerate}>
+                <Button
+                  type="submit"
+                  variant="outline"
+                  size="sm"
+                  disabled={readOnly || isRegenerating || isQueueing}
+                  title="Regenerate from the same source with the same type"
+                >
+                  {isRegenerating ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                </Button>
+              </form>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setIsEditing(true)}
+                onClick={() => {
+                  setDraft(draftFromQuestion(question));
+                  setIsEditing(true);
+                }}
+                disabled={readOnly || isRegenerating}
               >
                 Edit
               </Button>
@@ -106,7 +534,7 @@ function QuestionEditor({
                   type="submit"
                   variant="outline"
                   size="sm"
-                  disabled={isDeleting}
+                  disabled={readOnly || isDeleting}
                 >
                   <Trash2 className="h-4 w-4 text-red-500" />
                 </Button>
@@ -115,38 +543,24 @@ function QuestionEditor({
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
-          <p className="text-gray-900 font-medium">{question.prompt}</p>
-
-          {question.choices && question.choices.length > 0 && (
-            <div className="space-y-2">
-              {question.choices.map((choice, choiceIndex) => {
-                const isCorrect = question.answer !== null && choiceIndex === question.answer;
-                return (
-                  <div
-                    key={choiceIndex}
-                    className={`p-3 rounded border ${
-                      isCorrect
-                        ? 'bg-green-50 border-green-200'
-                        : 'bg-gray-50 border-gray-200'
-                    }`}
-                  >
-                    <div className="flex items-start">
-                      <span className="font-medium mr-2">
-                        {String.fromCharCode(65 + choiceIndex)}.
-                      </span>
-                      <span>{choice}</span>
-                      {isCorrect && (
-                        <span className="ml-auto text-green-600 font-medium">
-                          ✓ Correct
-                        </span>
-                      )}
-                    </div>
-                  </div>
-                );
-              })}
+          {regenerateState?.error && (
+            <p className="text-sm text-red-500">{regenerateState.error}</p>
+          )}
+          {isRegenerating && (
+            <p className="text-sm text-gray-500">Regenerating this question...</p>
+          )}
+          {flagged && (
+            <div className="p-3 rounded border border-yellow-200 bg-yellow-50 text-sm text-yellow-800">
+              Flagged for review
+              {question.verification?.issue ? `: ${question.verification.issue}` : ''}. Edit
+              the question to confirm it, or regenerate it.
             </div>
           )}
 
+          <p className="text-gray-900 font-medium">{question.prompt}</p>
+
+          <AnswerReview question={question} />
+
           {question.explanation && (
             <div className="p-3 bg-blue-50 rounded border border-blue-200">
               <p className="text-sm font-medium text-blue-900 mb-1">
@@ -164,12 +578,7 @@ function QuestionEditor({
                   <p className="text-xs">{question.sourceRef.text}</p>
                 </div>
               )}
-              {question.sourceRef.page && (
-                <span>Page {question.sourceRef.page}</span>
-              )}
-              {question.sourceRef.slide && (
-                <span>Slide {question.sourceRef.slide}</span>
-              )}
+              <SourceLink documentId={documentId} sourceRef={question.sourceRef} />
             </div>
           )}
         </CardContent>
@@ -180,59 +589,15 @@ function QuestionEditor({
   return (
     <Card>
       <CardHeader>
-        <CardTitle className="text-base">Edit Question {question.id}</CardTitle>
+        <CardTitle className="text-base">Edit Question {number}</CardTitle>
       </CardHeader>
       <CardContent>
         <form action={handleSave} className="space-y-4">
-          <div>
-            <Label htmlFor={`prompt-${question.id}`}>Question</Label>
-            <Input
-              id={`prompt-${question.id}`}
-              value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
-              required
-            />
-          </div>
-
-          <div>
-            <Label>Choices</Label>
-            <div className="space-y-2 mt-2">
-              {choices.map((choice, index) => (
-                <div key={index} className="flex items-center space-x-2">
-                  <span className="font-medium w-6">
-                    {String.fromCharCode(65 + index)}.
-                  </span>
-                  <Input
-                    value={choice}
-                    onChange={(e) => {
-                      const newChoices = [...choices];
-                      newChoices[index] = e.target.value;
-                      setChoices(newChoices);
-                    }}
-                    required
-                  />
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setAnswer(index)}
-                    className={answer === index ? 'bg-green-100' : ''}
-                  >
-                    Correct
-                  </Button>
-                </div>
-              ))}
-            </div>
-          </div>
-
-          <div>
-            <Label htmlFor={`explanation-${question.id}`}>Explanation</Label>
-            <Input
-              id={`explanation-${question.id}`}
-              value={explanation}
-              onChange={(e) => setExplanation(e.target.value)}
-            />
-          </div>
+          <QuestionFields
+            draft={draft}
+            onChange={setDraft}
+            idPrefix={String(question.id)}
+          />
 
           {updateState?.error && (
             <p className="text-sm text-red-500">{updateState.error}</p>
@@ -258,10 +623,7 @@ function QuestionEditor({
               variant="outline"
               onClick={() => {
                 setIsEditing(false);
-                setPrompt(question.prompt);
-                setChoices(question.choices || ['', '', '', '']);
-                setAnswer(question.answer ?? 0);
-                setExplanation(question.explanation || '');
+                setDraft(draftFromQuestion(question));
               }}
             >
               Cancel
@@ -273,13 +635,205 @@ function QuestionEditor({
   );
 }
 
+/**
+ * Form for writing a question by hand; new questions are appended to the end of the quiz
+ */
+function AddQuestionForm({ quizId, onDone }: { quizId: number; onDone: () => void }) {
+  const [draft, setDraft] = useState<QuestionDraft>(() => emptyDraft('multiple_choice'));
+  const [state, formAction, isPending] = useActionState(addQuestion, { error: '' });
+
+  useEffect(() => {
+    if ('success' in state && state.success) {
+      mutate(`/api/quizzes/${quizId}`);
+      onDone();
+    }
+  }, [quizId, state, onDone]);
+
+  const handleSubmit = (formData: FormData) => {
+    formData.append('quizId', quizId.toString());
+    formData.append('type', draft.type);
+    appendDraft(formData, draft);
+
+    formAction(formData);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">New Question</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form action={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="new-type">Type</Label>
+              <select
+                id="new-type"
+                value={draft.type}
+                onChange={(e) => setDraft(emptyDraft(e.target.value as QuestionType))}
+                className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              >
+                {QUESTION_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {QUESTION_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="new-difficulty">Difficulty</Label>
+              <select
+                id="new-difficulty"
+                name="difficulty"
+                defaultValue=""
+                className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              >
+                <option value="">Not set</option>
+                {DIFFICULTIES.map((difficulty) => (
+                  <option key={difficulty} value={difficulty}>
+                    {DIFFICULTY_LABELS[difficulty]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="new-bloom">Bloom level</Label>
+              <select
+                id="new-bloom"
+                name="bloomLevel"
+                defaultValue=""
+                className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              >
+                <option value="">Not set</option>
+                {BLOOM_LEVELS.map((level) => (
+                  <option key={level} value={level}>
+                    {BLOOM_LEVEL_LABELS[level]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <QuestionFields draft={draft} onChange={setDraft} idPrefix="new" />
+
+          {state?.error && <p className="text-sm text-red-500">{state.error}</p>}
+
+          <div className="flex space-x-2">
+            <Button
+              type="submit"
+              disabled={isPending}
+              className="bg-orange-500 hover:bg-orange-600 text-white"
+            >
+              {isPending ? (
+                'Adding...'
+              ) : (
+                <>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Question
+                </>
+              )}
+            </Button>
+            <Button type="button" variant="outline" onClick={onDone}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Queues extra questions modelled on the selected questions (or all of them)
+ */
+function GenerateMoreForm({
+  quiz,
+  selectedIds,
+  readOnly,
+}: {
+  quiz: Quiz;
+  selectedIds: number[];
+  readOnly: boolean;
+}) {
+  const [state, formAction, isPending] = useActionState(generateMoreQuestions, { error: '' });
+
+  useEffect(() => {
+    if ('success' in state && state.success) {
+      mutate(`/api/quizzes/${quiz.id}`);
+    }
+  }, [quiz.id, state]);
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <form action={formAction} className="flex flex-wrap items-center gap-3">
+          <input type="hidden" name="quizId" value={quiz.id} />
+          {selectedIds.map((id) => (
+            <input key={id} type="hidden" name="exampleQuestionIds" value={id} />
+          ))}
+          <Sparkles className="h-4 w-4 text-orange-500" />
+          <Label htmlFor="more-count">Generate</Label>
+          <Input
+            id="more-count"
+            name="count"
+            type="number"
+            min={1}
+            max={10}
+            defaultValue={3}
+            className="w-20"
+          />
+          <span className="text-sm text-gray-700">
+            more like{' '}
+            {selectedIds.length > 0
+              ? `the ${selectedIds.length} selected question${selectedIds.length !== 1 ? 's' : ''}`
+              : 'these'}
+          </span>
+          <Button type="submit" variant="outline" size="sm" disabled={readOnly || isPending}>
+            <Plus className="mr-1 h-4 w-4" />
+            Generate
+          </Button>
+          {quiz.pendingQuestionCount > 0 && (
+            <span className="flex items-center text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              Generating {quiz.pendingQuestionCount} question
+              {quiz.pendingQuestionCount !== 1 ? 's' : ''}...
+            </span>
+          )}
+        </form>
+        {state?.error && <p className="text-sm text-red-500 mt-2">{state.error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
 function QuizEdit() {
   const params = useParams();
   const quizId = params.id as string;
-  const { data: quiz, isLoading } = useSWR<Quiz>(
+  const { data: quiz, isLoading, mutate: mutateQuiz } = useSWR<Quiz>(
     `/api/quizzes/${quizId}`,
-    fetcher
+    fetcher,
+    {
+      // Poll while queued regenerations or new questions are in flight
+      refreshInterval: (data) =>
+        data &&
+        (data.pendingQuestionCount > 0 || data.questions.some((q) => q.status === 'regenerating'))
+          ? 2000
+          : 0,
+    }
   );
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const closeAddForm = useCallback(() => setIsAdding(false), []);
+  // Cards only become draggable while grabbed by their handle so text inside stays selectable
+  const [grabbedId, setGrabbedId] = useState<number | null>(null);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [reorderState, reorderAction] = useActionState(reorderQuestions, { error: '' });
+
+  useEffect(() => {
+    if (reorderState?.error) {
+      mutateQuiz();
+    }
+  }, [reorderState, mutateQuiz]);
 
   if (isLoading) {
     return (
@@ -304,6 +858,26 @@ function QuizEdit() {
     );
   }
 
+  const flaggedCount = quiz.questions.filter((q) => isFlaggedForReview(q.verification)).length;
+
+  const handleDrop = (targetId: number) => {
+    if (draggedId === null || draggedId === targetId) return;
+
+    // Dropping onto a card takes its slot, pushing it down (or up when dragging downwards)
+    const ids = quiz.questions.map((q) => q.id);
+    const from = ids.indexOf(draggedId);
+    const to = ids.indexOf(targetId);
+    ids.splice(to, 0, ...ids.splice(from, 1));
+
+    const byId = new Map(quiz.questions.map((q) => [q.id, q]));
+    mutateQuiz({ ...quiz, questions: ids.map((id) => byId.get(id)!) }, { revalidate: false });
+
+    const formData = new FormData();
+    formData.append('quizId', quiz.id.toString());
+    formData.append('questionIds', JSON.stringify(ids));
+    startTransition(() => reorderAction(formData));
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -320,22 +894,91 @@ function QuizEdit() {
           </h1>
           <p className="text-sm text-gray-600 mt-1">
             {quiz.questions.length} questions
+            {flaggedCount > 0 && (
+              <span className="text-yellow-700">
+                {' '}
+                · {flaggedCount} flagged for review
+              </span>
+            )}
           </p>
         </div>
-        <Button variant="outline" asChild>
-          <Link href={`/dashboard/quizzes/${quizId}`}>
-            Done Editing
-          </Link>
-        </Button>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsAdding(true)}
+            disabled={isAdding || quiz.answersHidden}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Question
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href={`/dashboard/quizzes/${quizId}`}>
+              Done Editing
+            </Link>
+          </Button>
+        </div>
       </div>
 
+      {quiz.answersHidden && (
+        <Card className="border-orange-200 bg-orange-50">
+          <CardContent className="p-4 text-sm text-orange-800">
+            {quiz.deliveryMode === 'exam'
+              ? 'Exam mode is on, so the answer key is hidden. Turn off exam mode on the quiz page to edit answers.'
+              : 'You have a timed attempt in progress, so the answer key is hidden until it is submitted.'}
+          </CardContent>
+        </Card>
+      )}
+
+      <GenerateMoreForm
+        quiz={quiz}
+        selectedIds={selectedIds.filter((id) => quiz.questions.some((q) => q.id === id))}
+        readOnly={quiz.answersHidden}
+      />
+
+      {isAdding && <AddQuestionForm quizId={quiz.id} onDone={closeAddForm} />}
+
+      {reorderState?.error && <p className="text-sm text-red-500">{reorderState.error}</p>}
+
       <div className="space-y-4">
-        {quiz.questions.map((question) => (
-          <QuestionEditor
+        {quiz.questions.map((question, index) => (
+          <div
             key={question.id}
-            question={question}
-            quizId={quiz.id}
-          />
+            draggable={grabbedId === question.id}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggedId(question.id);
+            }}
+            onDragOver={(e) => {
+              if (draggedId !== null) e.preventDefault();
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(question.id);
+            }}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setGrabbedId(null);
+            }}
+            onMouseUp={() => setGrabbedId(null)}
+            className={draggedId === question.id ? 'opacity-50' : ''}
+          >
+            <QuestionEditor
+              question={question}
+              number={index + 1}
+              quizId={quiz.id}
+              documentId={quiz.documentId}
+              readOnly={quiz.answersHidden}
+              selected={selectedIds.includes(question.id)}
+              onToggleSelected={() =>
+                setSelectedIds((ids) =>
+                  ids.includes(question.id)
+                    ? ids.filter((id) => id !== question.id)
+                    : [...ids, question.id]
+                )
+              }
+              onGrab={() => setGrabbedId(question.id)}
+            />
+          </div>
         ))}
       </div>
     </div>
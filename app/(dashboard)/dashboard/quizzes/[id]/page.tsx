@@ -2,33 +2,70 @@
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, Edit, Play, Eye, Clock } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { ArrowLeft, Edit, Play, Eye, Clock, Lock, Target, GraduationCap, Timer, Shuffle } from 'lucide-react';
 import Link from 'next/link';
 import { useParams } from 'next/navigation';
-import useSWR from 'swr';
-import { Suspense } from 'react';
+import useSWR, { mutate } from 'swr';
+import { Suspense, useActionState, useEffect, useState } from 'react';
+import { QuestionTags } from '@/components/quiz/question-tags';
+import { SourceLink } from '@/components/quiz/source-link';
+import {
+  BLOOM_LEVELS,
+  BLOOM_LEVEL_LABELS,
+  DIFFICULTIES,
+  DIFFICULTY_LABELS,
+} from '@/lib/questions';
+import { updateQuizSettings, updateQuizShuffle, updateQuizTiming } from './actions';
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
 interface Question {
   id: number;
+  type: string;
   prompt: string;
   choices: string[] | null;
-  answer: number | null;
+  answer: unknown;
   explanation: string | null;
+  difficulty: string | null;
+  bloomLevel: string | null;
   sourceRef: {
     page?: number;
     slide?: number;
+    slideTitle?: string;
+    headingPath?: string[];
     text?: string;
+    chunkId?: number;
+    chunkIndex?: number;
   } | null;
 }
 
+interface CoverageReport {
+  totalChunks: number;
+  coveredChunks: number;
+  sections: {
+    chunkStart: number;
+    chunkEnd: number;
+    chunkCount: number;
+    candidates: number;
+    selected: number;
+    failed?: boolean;
+  }[];
+}
+
 interface Quiz {
   id: number;
   title: string;
   status: string;
   createdAt: string;
   documentId: number;
+  focus: string | null;
+  coverage: CoverageReport | null;
+  deliveryMode: 'standard' | 'exam';
+  timeLimitMinutes: number | null;
+  forwardOnly: boolean;
+  shuffleQuestions: boolean;
+  shuffleChoices: boolean;
   questions: Question[];
 }
 
@@ -36,12 +73,363 @@ interface QuizAttempt {
   id: number;
   quizId: number;
   userId: number;
-  answers: Record<number, number>;
+  answers: Record<number, unknown>;
   score: number;
-  completedAt: string;
+  startedAt: string | null;
+  deadline: string | null;
+  status: 'in_progress' | 'grading' | 'graded' | 'failed';
+  mode: 'standard' | 'adaptive' | 'practice';
+  completedAt: string | null; // Null while in progress
   createdAt: string;
 }
 
+function DeliveryModeSetting({ quiz }: { quiz: Quiz }) {
+  const [state, formAction, isPending] = useActionState(updateQuizSettings, { error: '' });
+  const isExam = quiz.deliveryMode === 'exam';
+
+  useEffect(() => {
+    if ('success' in state && state.success) {
+      mutate(`/api/quizzes/${quiz.id}`);
+    }
+  }, [quiz.id, state]);
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="font-medium text-gray-900 flex items-center">
+              <Lock className="h-4 w-4 mr-2" />
+              Exam mode {isExam ? 'on' : 'off'}
+            </p>
+            <p className="text-sm text-gray-500 mt-1">
+              {isExam
+                ? 'Answers and explanations stay hidden until an attempt is submitted and graded.'
+                : 'Turn on to hide answers and explanations until an attempt is graded.'}
+            </p>
+            {state?.error && (
+              <p className="text-sm text-red-500 mt-1">{state.error}</p>
+            )}
+          </div>
+          <form action={formAction}>
+            <input type="hidden" name="quizId" value={quiz.id} />
+            <input type="hidden" name="deliveryMode" value={isExam ? 'standard' : 'exam'} />
+            <Button type="submit" variant="outline" size="sm" disabled={isPending}>
+              {isExam ? 'Turn off' : 'Turn on'}
+            </Button>
+          </form>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Time limit and forward-only rule for graded attempts
+ */
+function TimingSetting({ quiz }: { quiz: Quiz }) {
+  const [state, formAction, isPending] = useActionState(updateQuizTiming, { error: '' });
+
+  useEffect(() => {
+    if ('success' in state && state.success) {
+      mutate(`/api/quizzes/${quiz.id}`);
+    }
+  }, [quiz.id, state]);
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <form action={formAction} className="flex items-center justify-between gap-4">
+          <input type="hidden" name="quizId" value={quiz.id} />
+          <div>
+            <p className="font-medium text-gray-900 flex items-center">
+              <Timer className="h-4 w-4 mr-2" />
+              {quiz.timeLimitMinutes !== null
+                ? `Timed: ${quiz.timeLimitMinutes} minute${quiz.timeLimitMinutes !== 1 ? 's' : ''}`
+                : 'Untimed'}
+              {quiz.forwardOnly && ' • One question at a time'}
+            </p>
+            <p className="text-sm text-gray-500 mt-1">
+              Timed attempts are submitted automatically when time runs out.
+            </p>
+            {state?.error && <p className="text-sm text-red-500 mt-1">{state.error}</p>}
+          </div>
+          <div className="flex items-center gap-3 text-sm flex-shrink-0">
+            <label className="flex items-center gap-2">
+              <Input
+                type="number"
+                name="timeLimitMinutes"
+                min={1}
+                max={300}
+                placeholder="No limit"
+                defaultValue={quiz.timeLimitMinutes ?? ''}
+                className="w-24"
+              />
+              <span className="text-gray-600">min</span>
+            </label>
+            <label className="flex items-center gap-2 text-gray-600">
+              <input type="checkbox" name="forwardOnly" defaultChecked={quiz.forwardOnly} />
+              No going back
+            </label>
+            <Button type="submit" variant="outline" size="sm" disabled={isPending}>
+              Save
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ShuffleSetting({ quiz }: { quiz: Quiz }) {
+  const [state, formAction, isPending] = useActionState(updateQuizShuffle, { error: '' });
+
+  useEffect(() => {
+    if ('success' in state && state.success) {
+      mutate(`/api/quizzes/${quiz.id}`);
+    }
+  }, [quiz.id, state]);
+
+  const shuffled = [
+    quiz.shuffleQuestions && 'questions',
+    quiz.shuffleChoices && 'answer choices',
+  ].filter(Boolean);
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <form action={formAction} className="flex items-center justify-between gap-4">
+          <input type="hidden" name="quizId" value={quiz.id} />
+          <div>
+            <p className="font-medium text-gray-900 flex items-center">
+              <Shuffle className="h-4 w-4 mr-2" />
+              {shuffled.length > 0 ? `Shuffled: ${shuffled.join(' and ')}` : 'Fixed order'}
+            </p>
+            <p className="text-sm text-gray-500 mt-1">
+              Each graded attempt gets its own order, so answers can't be learned by position.
+              Practice and adaptive sessions keep the quiz order.
+            </p>
+            {state?.error && <p className="text-sm text-red-500 mt-1">{state.error}</p>}
+          </div>
+          <div className="flex items-center gap-3 text-sm flex-shrink-0">
+            <label className="flex items-center gap-2 text-gray-600">
+              <input type="checkbox" name="shuffleQuestions" defaultChecked={quiz.shuffleQuestions} />
+              Questions
+            </label>
+            <label className="flex items-center gap-2 text-gray-600">
+              <input type="checkbox" name="shuffleChoices" defaultChecked={quiz.shuffleChoices} />
+              Choices
+            </label>
+            <Button type="submit" variant="outline" size="sm" disabled={isPending}>
+              Save
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Question list with difficulty and Bloom level filters
+ */
+function QuestionList({ questions, documentId }: { questions: Question[]; documentId: number }) {
+  const [difficulty, setDifficulty] = useState('all');
+  const [bloomLevel, setBloomLevel] = useState('all');
+
+  const filtered = questions.filter(
+    (q) =>
+      (difficulty === 'all' || q.difficulty === difficulty) &&
+      (bloomLevel === 'all' || q.bloomLevel === bloomLevel)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">Questions</CardTitle>
+          <div className="flex items-center space-x-2 text-sm">
+            <select
+              value={difficulty}
+              onChange={(e) => setDifficulty(e.target.value)}
+              className="border rounded px-2 py-1 bg-white"
+              aria-label="Filter by difficulty"
+            >
+              <option value="all">All difficulties</option>
+              {DIFFICULTIES.map((d) => (
+                <option key={d} value={d}>
+                  {DIFFICULTY_LABELS[d]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={bloomLevel}
+              onChange={(e) => setBloomLevel(e.target.value)}
+              className="border rounded px-2 py-1 bg-white"
+              aria-label="Filter by cognitive level"
+            >
+              <option value="all">All levels</option>
+              {BLOOM_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {BLOOM_LEVEL_LABELS[level]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {filtered.length > 0 ? (
+          <ol className="space-y-3">
+            {filtered.map((question) => (
+              <li key={question.id} className="border-b border-gray-100 pb-3 last:border-0">
+                <p className="text-gray-900 mb-1">
+                  {questions.indexOf(question) + 1}. {question.prompt}
+                </p>
+                <div className="flex items-center gap-2">
+                  <QuestionTags question={question} />
+                  {question.sourceRef?.chunkIndex !== undefined && (
+                    <span className="text-xs text-gray-500">
+                      From chunk {question.sourceRef.chunkIndex + 1}
+                    </span>
+                  )}
+                  <SourceLink documentId={documentId} sourceRef={question.sourceRef} />
+                </div>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-sm text-gray-500">No questions match these filters.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Which parts of the document a full-coverage quiz drew its questions from
+ */
+function CoverageCard({ coverage }: { coverage: CoverageReport }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Coverage</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Questions come from {coverage.coveredChunks} of {coverage.totalChunks} document
+          chunks across {coverage.sections.length} section
+          {coverage.sections.length !== 1 ? 's' : ''}.
+        </p>
+        <div className="space-y-2">
+          {coverage.sections.map((section, index) => (
+            <div key={index} className="flex items-center text-sm">
+              <span className="w-40 text-gray-600">
+                Chunks {section.chunkStart + 1}–{section.chunkEnd + 1}
+              </span>
+              {section.failed ? (
+                <span className="text-red-500">Generation failed for this section</span>
+              ) : (
+                <>
+                  <div className="flex-1 h-2 bg-gray-100 rounded mr-3">
+                    <div
+                      className="h-2 bg-orange-400 rounded"
+                      style={{
+                        width: `${section.candidates > 0 ? (section.selected / section.candidates) * 100 : 0}%`,
+                      }}
+                    />
+                  </div>
+                  <span className="text-gray-600 w-32 text-right">
+                    {section.selected} of {section.candidates} candidates
+                  </span>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * One list of past attempts; graded and practice attempts are listed separately
+ */
+function AttemptHistory({
+  title,
+  label,
+  attempts,
+  isLoading,
+  quizId,
+  emptyState,
+}: {
+  title: string;
+  label: string;
+  attempts: QuizAttempt[] | undefined;
+  isLoading: boolean;
+  quizId: string;
+  emptyState: React.ReactNode;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : attempts && attempts.length > 0 ? (
+          <div className="space-y-4">
+            {attempts.map((attempt, index) => (
+              <Card key={attempt.id} className="border-gray-200">
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-4">
+                      <div className="flex items-center space-x-2">
+                        <div className="w-10 h-10 rounded-full bg-orange-100 flex items-center justify-center">
+                          <span className="text-orange-600 font-semibold">
+                            {attempt.status === 'grading' ? '...' : `${attempt.score}%`}
+                          </span>
+                        </div>
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {label} {attempts.length - index}
+                            {attempt.mode !== 'standard' && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full bg-orange-100 text-orange-700 text-xs font-normal">
+                                {attempt.mode === 'adaptive' ? 'Adaptive' : 'Practice'}
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-sm text-gray-500 flex items-center">
+                            <Clock className="h-3 w-3 mr-1" />
+                            {new Date(attempt.completedAt ?? attempt.createdAt).toLocaleString()}
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                    <Button variant="outline" size="sm" asChild>
+                      <Link href={`/dashboard/quizzes/${quizId}/attempts/${attempt.id}`}>
+                        <Eye className="mr-2 h-4 w-4" />
+                        View
+                      </Link>
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">{emptyState}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function QuizDetail() {
   const params = useParams();
   const quizId = params.id as string;
@@ -54,6 +442,11 @@ function QuizDetail() {
     fetcher
   );
 
+  // Expired timed attempts are auto-submitted server-side before the list is returned
+  const inProgress = Array.isArray(attempts)
+    ? attempts.find((attempt) => attempt.status === 'in_progress')
+    : undefined;
+
   if (isLoading) {
     return (
       <Card className="animate-pulse">
@@ -116,6 +509,7 @@ function QuizDetail() {
           <p className="text-sm text-gray-600 mt-1">
             {quiz.questions.length} questions • Created{' '}
             {new Date(quiz.createdAt).toLocaleDateString()}
+            {quiz.focus && <> • Focus: {quiz.focus}</>}
           </p>
         </div>
         <div className="flex space-x-2">
@@ -125,69 +519,92 @@ function QuizDetail() {
               Edit
             </Link>
           </Button>
+          {quiz.deliveryMode !== 'exam' && (
+            <>
+              <Button variant="outline" asChild>
+                <Link href={`/dashboard/quizzes/${quizId}/take?mode=practice`}>
+                  <GraduationCap className="mr-2 h-4 w-4" />
+                  Practice
+                </Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link href={`/dashboard/quizzes/${quizId}/adaptive`}>
+                  <Target className="mr-2 h-4 w-4" />
+                  Adaptive Practice
+                </Link>
+              </Button>
+            </>
+          )}
           <Button className="bg-orange-500 hover:bg-orange-600 text-white" asChild>
             <Link href={`/dashboard/quizzes/${quizId}/take`}>
               <Play className="mr-2 h-4 w-4" />
-              Take Quiz
+              {inProgress ? 'Resume Quiz' : 'Take Quiz'}
             </Link>
           </Button>
         </div>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-base">Quiz Attempt History</CardTitle>
-        </CardHeader>
-        <CardContent>
-          {attemptsLoading ? (
-            <div className="space-y-4">
-              {[1, 2, 3].map((i) => (
-                <div key={i} className="h-16 bg-gray-200 rounded animate-pulse"></div>
-              ))}
-            </div>
-          ) : attempts && attempts.length > 0 ? (
-            <div className="space-y-4">
-              {attempts.map((attempt, index) => (
-                <Card key={attempt.id} className="border-gray-200">
-                  <CardContent className="p-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-4">
-                        <div className="flex items-center space-x-2">
-                          <div className="w-10 h-10 rounded-full bg-orange-100 flex items-center justify-center">
-                            <span className="text-orange-600 font-semibold">
-                              {attempt.score}%
-                            </span>
-                          </div>
-                          <div>
-                            <p className="font-medium text-gray-900">
-                              Attempt {attempts.length - index}
-                            </p>
-                            <p className="text-sm text-gray-500 flex items-center">
-                              <Clock className="h-3 w-3 mr-1" />
-                              {new Date(attempt.completedAt).toLocaleString()}
-                            </p>
-                          </div>
-                        </div>
-                      </div>
-                      <Button variant="outline" size="sm" asChild>
-                        <Link href={`/dashboard/quizzes/${quizId}/attempts/${attempt.id}`}>
-                          <Eye className="mr-2 h-4 w-4" />
-                          View
-                        </Link>
-                      </Button>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+      {inProgress && (
+        <Card className="border-orange-200 bg-orange-50/40">
+          <CardContent className="p-4 flex items-center justify-between">
+            <div>
+              <p className="font-medium text-gray-900">Unfinished attempt</p>
+              <p className="text-sm text-gray-600 mt-1">
+                Started {new Date(inProgress.startedAt ?? inProgress.createdAt).toLocaleString()} •{' '}
+                {Object.keys(inProgress.answers || {}).length} of {quiz.questions.length} answered
+                {inProgress.deadline && (
+                  <> • Due by {new Date(inProgress.deadline).toLocaleTimeString()}</>
+                )}
+              </p>
             </div>
-          ) : (
-            <div className="text-center py-8 text-gray-500">
-              <p>No quiz attempts yet.</p>
-              <p className="text-sm mt-2">Take the quiz to see your results here!</p>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+            <Button className="bg-orange-500 hover:bg-orange-600 text-white" asChild>
+              <Link href={`/dashboard/quizzes/${quizId}/take`}>
+                <Play className="mr-2 h-4 w-4" />
+                Resume
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <DeliveryModeSetting quiz={quiz} />
+
+      <TimingSetting quiz={quiz} />
+
+      <ShuffleSetting quiz={quiz} />
+
+      <QuestionList questions={quiz.questions} documentId={quiz.documentId} />
+
+      {quiz.coverage && <CoverageCard coverage={quiz.coverage} />}
+
+      <AttemptHistory
+        title="Quiz Attempt History"
+        label="Attempt"
+        attempts={attempts?.filter(
+          (attempt) => attempt.mode === 'standard' && attempt.status !== 'in_progress'
+        )}
+        isLoading={attemptsLoading}
+        quizId={quizId}
+        emptyState={
+          <>
+            <p>No quiz attempts yet.</p>
+            <p className="text-sm mt-2">Take the quiz to see your results here!</p>
+          </>
+        }
+      />
+
+      {quiz.deliveryMode !== 'exam' && (
+        <AttemptHistory
+          title="Practice History"
+          label="Session"
+          attempts={attempts?.filter((attempt) => attempt.mode !== 'standard')}
+          isLoading={attemptsLoading}
+          quizId={quizId}
+          emptyState={
+            <p className="text-sm">Practice and adaptive sessions show up here, apart from graded attempts.</p>
+          }
+        />
+      )}
     </div>
   );
 }
@@ -2,24 +2,31 @@
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, CheckCircle, XCircle, RotateCcw } from 'lucide-react';
+import { ArrowLeft, CheckCircle, Loader2, RotateCcw, Timer, XCircle } from 'lucide-react';
 import Link from 'next/link';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import useSWR from 'swr';
-import { Suspense, useState, useEffect } from 'react';
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { AnswerInput } from '@/components/quiz/answer-input';
+import { AnswerReview } from '@/components/quiz/answer-review';
+import { SourceLink } from '@/components/quiz/source-link';
+import { hasAnswer, type AnswerKey, type SubmittedAnswer } from '@/lib/questions';
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
+// The take view never includes the answer key or explanations
 interface Question {
   id: number;
+  type: string;
   prompt: string;
   choices: string[] | null;
-  answer: number | null;
-  explanation: string | null;
   sourceRef: {
     page?: number;
     slide?: number;
+    slideTitle?: string;
+    headingPath?: string[];
     text?: string;
+    chunkId?: number;
   } | null;
 }
 
@@ -29,23 +36,184 @@ interface Quiz {
   status: string;
   createdAt: string;
   documentId: number;
+  deliveryMode: 'standard' | 'exam';
+  timeLimitMinutes: number | null;
+  forwardOnly: boolean;
+  questions: Question[];
+}
+
+// An in-progress attempt as returned by the start and save endpoints; questions and
+// choice indices follow the attempt's own order when the quiz shuffles
+interface StartedAttempt {
+  id: number;
+  deadline: string | null;
+  currentQuestionIndex: number;
+  answers: Record<number, SubmittedAnswer>;
   questions: Question[];
+  serverNow: string;
+}
+
+interface AttemptSummary {
+  id: number;
+  status: string;
+  deadline: string | null;
+}
+
+// Answers are saved this long after the last change
+const AUTOSAVE_DELAY_MS = 1000;
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// Practice mode reveals the key for one question at a time, right after it is answered
+interface CheckedAnswer {
+  result: {
+    correct: boolean;
+    credit?: number;
+    feedback?: string;
+    rubricScores?: { criterion: string; points: number; awarded: number }[];
+  };
+  answer: AnswerKey | null;
+  explanation: string | null;
+  sourceRef: Question['sourceRef'];
+}
+
+/**
+ * Immediate feedback for a checked answer in practice mode
+ */
+function PracticeFeedback({
+  question,
+  userAnswer,
+  checked,
+  documentId,
+}: {
+  question: Question;
+  userAnswer: SubmittedAnswer | undefined;
+  checked: CheckedAnswer;
+  documentId: number;
+}) {
+  return (
+    <div className="space-y-3">
+      <p
+        className={`flex items-center text-sm font-medium ${
+          checked.result.correct ? 'text-green-700' : 'text-red-700'
+        }`}
+      >
+        {checked.result.correct ? (
+          <CheckCircle className="h-4 w-4 mr-2" />
+        ) : (
+          <XCircle className="h-4 w-4 mr-2" />
+        )}
+        {checked.result.correct ? 'Correct' : 'Not quite'}
+      </p>
+      <AnswerReview
+        question={{ ...question, answer: checked.answer }}
+        userAnswer={userAnswer}
+        showUserAnswer
+        result={checked.result}
+      />
+      {checked.explanation && (
+        <div className="p-3 bg-blue-50 rounded border border-blue-200">
+          <p className="text-sm font-medium text-blue-900 mb-1">Explanation:</p>
+          <p className="text-sm text-blue-800">{checked.explanation}</p>
+        </div>
+      )}
+      {checked.sourceRef && (
+        <div className="text-xs text-gray-500 space-y-1">
+          {checked.sourceRef.text && (
+            <div className="p-2 bg-gray-50 rounded">
+              <p className="font-medium mb-1">Source:</p>
+              <p className="text-xs">{checked.sourceRef.text}</p>
+            </div>
+          )}
+          <SourceLink documentId={documentId} sourceRef={checked.sourceRef} />
+        </div>
+      )}
+    </div>
+  );
 }
 
 function TakeQuiz() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const quizId = params.id as string;
   const { data: quiz, isLoading } = useSWR<Quiz>(
-    `/api/quizzes/${quizId}`,
+    `/api/quizzes/${quizId}?view=take`,
     fetcher
   );
 
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<Record<number, number>>({});
-  const [showResults, setShowResults] = useState(false);
-  const [attemptSaved, setAttemptSaved] = useState(false);
-  const [savingAttempt, setSavingAttempt] = useState(false);
+  const [answers, setAnswers] = useState<Record<number, SubmittedAnswer>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  // Practice mode state: the checked result per question, and the first answer given to each
+  const [checked, setChecked] = useState<Record<number, CheckedAnswer>>({});
+  const [firstAnswers, setFirstAnswers] = useState<Record<number, SubmittedAnswer>>({});
+  const [checking, setChecking] = useState(false);
+  const [checkError, setCheckError] = useState<string | null>(null);
+  // Graded attempts live on the server from the start: the in-progress attempt, whether local
+  // answers have unsaved changes, and the offset between server and local clocks
+  const [attempt, setAttempt] = useState<StartedAttempt | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'saving' | 'saved' | 'error' | null>(null);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [starting, setStarting] = useState(false);
+  const questionStartedAt = useRef(Date.now());
+  const dirty = useRef(false);
+  const beginAttemptRef = useRef<(() => void) | null>(null);
+  const autosaveRef = useRef<(() => void) | null>(null);
+  const finishAttemptRef = useRef<(() => void) | null>(null);
+  const autoStarted = useRef(false);
+  const autoSubmitted = useRef(false);
+
+  // Exam mode keeps the key hidden until grading, so it always takes the graded path
+  const practice = searchParams.get('mode') === 'practice' && quiz?.deliveryMode !== 'exam';
+  const tracked = quiz?.status === 'ready' && !practice;
+  const timed = tracked && (quiz.timeLimitMinutes !== null || quiz.forwardOnly);
+
+  // Timed quizzes show a start screen; an unfinished attempt there is offered for resuming
+  const { data: pastAttempts } = useSWR<AttemptSummary[]>(
+    timed ? `/api/quizzes/${quizId}/attempts` : null,
+    fetcher
+  );
+  const resumable = Array.isArray(pastAttempts)
+    ? pastAttempts.find((a) => a.status === 'in_progress')
+    : undefined;
+
+  // Untimed graded attempts start (or resume) as soon as the quiz loads
+  useEffect(() => {
+    if (tracked && !timed && !attempt && !autoStarted.current) {
+      autoStarted.current = true;
+      beginAttemptRef.current?.();
+    }
+  }, [tracked, timed, attempt]);
+
+  useEffect(() => {
+    if (!attempt || !dirty.current) return;
+    const timer = setTimeout(() => autosaveRef.current?.(), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [attempt, answers]);
+
+  useEffect(() => {
+    if (!attempt?.deadline) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [attempt?.deadline]);
+
+  const remainingMs = attempt?.deadline ? Date.parse(attempt.deadline) - (now + clockOffset) : null;
+
+  // Submit on expiry; the server would auto-submit anyway, this just gets the user to their results
+  useEffect(() => {
+    if (remainingMs !== null && remainingMs <= 0 && !autoSubmitted.current) {
+      autoSubmitted.current = true;
+      finishAttemptRef.current?.();
+    }
+  }, [remainingMs]);
 
   if (isLoading) {
     return (
@@ -74,223 +242,250 @@ function TakeQuiz() {
     );
   }
 
-  // Save attempt when results are shown
-  useEffect(() => {
-    if (showResults && !attemptSaved && !savingAttempt && quiz) {
-      const totalQuestions = quiz.questions.length;
-      let correctAnswers = 0;
-
-      quiz.questions.forEach((question) => {
-        const userAnswer = answers[question.id];
-        if (userAnswer !== undefined && question.answer !== null) {
-          if (userAnswer === question.answer) {
-            correctAnswers++;
-          }
-        }
-      });
-
-      const score = Math.round((correctAnswers / totalQuestions) * 100);
-
-      setSavingAttempt(true);
-      fetch(`/api/quizzes/${quizId}/attempts`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          answers,
-          score,
-        }),
-      })
-        .then((res) => res.json())
-        .then(() => {
-          setAttemptSaved(true);
-          setSavingAttempt(false);
-        })
-        .catch((error) => {
-          console.error('Error saving quiz attempt:', error);
-          setSavingAttempt(false);
-        });
-    }
-  }, [showResults, attemptSaved, savingAttempt, quiz, quizId, answers]);
-
-  if (showResults) {
-    // Calculate score
-    const totalQuestions = quiz.questions.length;
-    let correctAnswers = 0;
-
-    quiz.questions.forEach((question) => {
-      const userAnswer = answers[question.id];
-      if (userAnswer !== undefined && question.answer !== null) {
-        if (userAnswer === question.answer) {
-          correctAnswers++;
-        }
+  const beginAttempt = async () => {
+    setStarting(true);
+    setSubmitError(null);
+    try {
+      const res = await fetch(`/api/quizzes/${quizId}/attempts/start`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to start quiz');
       }
+      // Picks up where a running attempt left off
+      setAttempt(data);
+      setAnswers(data.answers || {});
+      setCurrentQuestionIndex(Math.min(data.currentQuestionIndex, data.questions.length - 1));
+      dirty.current = false;
+      setClockOffset(Date.parse(data.serverNow) - Date.now());
+      setNow(Date.now());
+      questionStartedAt.current = Date.now();
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : 'Failed to start quiz');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  beginAttemptRef.current = beginAttempt;
+
+  const questions = attempt ? attempt.questions : quiz.questions;
+
+  /**
+   * Saves the current question's answer and time spent on the in-progress attempt
+   * @returns False if the attempt expired and was submitted by the server
+   */
+  const saveCurrent = async (advance: boolean): Promise<boolean> => {
+    if (!attempt) return true;
+    const question = questions[currentQuestionIndex];
+    const timeSpentSeconds = (Date.now() - questionStartedAt.current) / 1000;
+    dirty.current = false;
+    setSaveStatus('saving');
+    const res = await fetch(`/api/quizzes/${quizId}/attempts/${attempt.id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        questionId: question.id,
+        answer: answers[question.id] ?? null,
+        timeSpentSeconds,
+        advance,
+      }),
     });
+    const data = await res.json();
+    if (res.status === 409 && data.expired) {
+      router.push(`/dashboard/quizzes/${quizId}/attempts/${attempt.id}`);
+      return false;
+    }
+    if (!res.ok) {
+      setSaveStatus('error');
+      throw new Error(data.error || 'Failed to save answer');
+    }
+    setSaveStatus('saved');
+    questionStartedAt.current = Date.now();
+    return true;
+  };
+
+  autosaveRef.current = () => {
+    saveCurrent(false).catch((error) => console.error('Error autosaving answer:', error));
+  };
+
+  const goToQuestion = async (index: number) => {
+    if (!tracked) {
+      setCurrentQuestionIndex(index);
+      return;
+    }
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      if (await saveCurrent(index > currentQuestionIndex)) {
+        setCurrentQuestionIndex(index);
+      }
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : 'Failed to save answer');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const finishAttempt = async () => {
+    if (!attempt) return;
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      // A save after the deadline is rejected; whatever was saved in time still counts
+      await saveCurrent(false).catch(() => true);
+      const res = await fetch(`/api/quizzes/${quizId}/attempts/${attempt.id}/submit`, {
+        method: 'POST',
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to submit quiz');
+      }
+      router.push(`/dashboard/quizzes/${quizId}/attempts/${attempt.id}`);
+    } catch (error) {
+      console.error('Error submitting quiz attempt:', error);
+      setSubmitError(error instanceof Error ? error.message : 'Failed to submit quiz');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+  finishAttemptRef.current = finishAttempt;
 
-    const score = Math.round((correctAnswers / totalQuestions) * 100);
-
+  if (timed && !attempt) {
     return (
-      <div className="space-y-6">
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-2xl">Quiz Complete!</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="text-center py-8">
-              <div className="text-6xl font-bold text-orange-500 mb-2">
-                {score}%
-              </div>
-              <p className="text-gray-600">
-                You got {correctAnswers} out of {totalQuestions} questions correct
-              </p>
-            </div>
-
-            <div className="flex space-x-4 justify-center pt-4">
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setShowResults(false);
-                  setCurrentQuestionIndex(0);
-                  setAnswers({});
-                }}
-              >
-                <RotateCcw className="mr-2 h-4 w-4" />
-                Retake Quiz
-              </Button>
-              <Button
-                className="bg-orange-500 hover:bg-orange-600 text-white"
-                asChild
-              >
-                <Link href={`/dashboard/quizzes/${quizId}`}>
-                  Back to Quiz
-                </Link>
-              </Button>
-            </div>
-
-            <div className="space-y-4">
-              {quiz.questions.map((question, index) => {
-                const userAnswer = answers[question.id];
-                const isCorrect =
-                  userAnswer !== undefined &&
-                  question.answer !== null &&
-                  userAnswer === question.answer;
-
-                return (
-                  <Card
-                    key={question.id}
-                    className={isCorrect ? 'border-green-200' : 'border-red-200'}
-                  >
-                    <CardHeader>
-                      <div className="flex items-center justify-between">
-                        <CardTitle className="text-base">
-                          Question {index + 1}
-                        </CardTitle>
-                        {isCorrect ? (
-                          <CheckCircle className="h-5 w-5 text-green-500" />
-                        ) : (
-                          <XCircle className="h-5 w-5 text-red-500" />
-                        )}
-                      </div>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <p className="text-gray-900 font-medium">{question.prompt}</p>
-
-                      {question.choices && question.choices.length > 0 && (
-                        <div className="space-y-2">
-                          {question.choices.map((choice, choiceIndex) => {
-                            const isUserAnswer = userAnswer === choiceIndex;
-                            const isCorrectAnswer = question.answer === choiceIndex;
-
-                            return (
-                              <div
-                                key={choiceIndex}
-                                className={`p-3 rounded border ${
-                                  isCorrectAnswer
-                                    ? 'bg-green-50 border-green-200'
-                                    : isUserAnswer && !isCorrectAnswer
-                                    ? 'bg-red-50 border-red-200'
-                                    : 'bg-gray-50 border-gray-200'
-                                }`}
-                              >
-                                <div className="flex items-start">
-                                  <span className="font-medium mr-2">
-                                    {String.fromCharCode(65 + choiceIndex)}.
-                                  </span>
-                                  <span>{choice}</span>
-                                  {isCorrectAnswer && (
-                                    <span className="ml-auto text-green-600 font-medium">
-                                      ✓ Correct
-                                    </span>
-                                  )}
-                                  {isUserAnswer && !isCorrectAnswer && (
-                                    <span className="ml-auto text-red-600 font-medium">
-                                      ✗ Your answer
-                                    </span>
-                                  )}
-                                </div>
-                              </div>
-                            );
-                          })}
-                        </div>
-                      )}
-
-                      {question.explanation && (
-                        <div className="p-3 bg-blue-50 rounded border border-blue-200">
-                          <p className="text-sm font-medium text-blue-900 mb-1">
-                            Explanation:
-                          </p>
-                          <p className="text-sm text-blue-800">
-                            {question.explanation}
-                          </p>
-                        </div>
-                      )}
-
-                      {question.sourceRef && question.sourceRef.text && (
-                        <div className="text-xs text-gray-500">
-                          <div className="mt-2 p-2 bg-gray-50 rounded">
-                            <p className="font-medium mb-1">Source:</p>
-                            <p className="text-xs">{question.sourceRef.text}</p>
-                          </div>
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                );
-              })}
-            </div>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center">
+            <Timer className="h-4 w-4 mr-2 text-orange-500" />
+            {quiz.title}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ul className="text-sm text-gray-600 list-disc pl-5 space-y-1">
+            <li>
+              {quiz.questions.length} question{quiz.questions.length !== 1 ? 's' : ''}
+            </li>
+            {quiz.timeLimitMinutes !== null && (
+              <li>
+                {quiz.timeLimitMinutes} minute time limit. The clock keeps running if you leave, and
+                the quiz is submitted automatically when time runs out.
+              </li>
+            )}
+            {quiz.forwardOnly && (
+              <li>One question at a time. You can't go back to a question once you move on.</li>
+            )}
+          </ul>
+          {resumable && (
+            <p className="text-sm text-orange-700">
+              You have an unfinished attempt on this quiz. Resuming picks up where you left off
+              {resumable.deadline ? ' with the time that is left' : ''}.
+            </p>
+          )}
+          {submitError && <p className="text-sm text-red-500">{submitError}</p>}
+          <div className="flex justify-between">
+            <Button variant="outline" asChild>
+              <Link href={`/dashboard/quizzes/${quizId}`}>Back to Quiz</Link>
+            </Button>
+            <Button
+              className="bg-orange-500 hover:bg-orange-600 text-white"
+              onClick={beginAttempt}
+              disabled={starting}
+            >
+              {starting ? 'Starting...' : resumable ? 'Resume' : 'Start'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
 
-            <div className="flex space-x-4 pt-4">
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setShowResults(false);
-                  setCurrentQuestionIndex(0);
-                  setAnswers({});
-                  setAttemptSaved(false);
-                }}
-              >
-                <RotateCcw className="mr-2 h-4 w-4" />
-                Retake Quiz
-              </Button>
-              <Button
-                className="bg-orange-500 hover:bg-orange-600 text-white"
-                asChild
-              >
-                <Link href={`/dashboard/quizzes/${quizId}`}>
-                  Back to Quiz
-                </Link>
+  if (tracked && !attempt) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          {submitError ? (
+            <>
+              <p className="text-sm text-red-500">{submitError}</p>
+              <Button variant="outline" className="mt-4" onClick={beginAttempt} disabled={starting}>
+                Try Again
               </Button>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+            </>
+          ) : (
+            <p className="flex items-center justify-center text-gray-500">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Loading your attempt...
+            </p>
+          )}
+        </CardContent>
+      </Card>
     );
   }
 
-  const currentQuestion = quiz.questions[currentQuestionIndex];
+  // Practice sessions are checked as they go and submitted in one request at the end
+  const submitAttempt = async () => {
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      const res = await fetch(`/api/quizzes/${quizId}/attempts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        // Each question's first answer is recorded, so retries don't inflate the score
+        body: JSON.stringify({ answers: { ...answers, ...firstAnswers }, mode: 'practice' }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to submit quiz');
+      }
+      // Answers and explanations are only revealed on the graded attempt's review page
+      router.push(`/dashboard/quizzes/${quizId}/attempts/${data.id}`);
+    } catch (error) {
+      console.error('Error saving quiz attempt:', error);
+      setSubmitError(error instanceof Error ? error.message : 'Failed to submit quiz');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const currentQuestion = questions[currentQuestionIndex];
   const userAnswer = answers[currentQuestion.id];
-  const isLastQuestion = currentQuestionIndex === quiz.questions.length - 1;
+  const isLastQuestion = currentQuestionIndex === questions.length - 1;
+  const currentCheck = checked[currentQuestion.id];
+
+  const checkAnswer = async () => {
+    setChecking(true);
+    setCheckError(null);
+    try {
+      const res = await fetch(`/api/quizzes/${quizId}/check`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ questionId: currentQuestion.id, answer: userAnswer ?? null }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to check answer');
+      }
+      setChecked({ ...checked, [currentQuestion.id]: data });
+      if (!(currentQuestion.id in firstAnswers) && userAnswer !== undefined) {
+        setFirstAnswers({ ...firstAnswers, [currentQuestion.id]: userAnswer });
+      }
+    } catch (error) {
+      setCheckError(error instanceof Error ? error.message : 'Failed to check answer');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const retry = () => {
+    const remaining = { ...checked };
+    delete remaining[currentQuestion.id];
+    setChecked(remaining);
+    setCheckError(null);
+  };
 
   return (
     <div className="space-y-6">
@@ -308,12 +503,35 @@ function TakeQuiz() {
               {quiz.title}
             </h1>
             <p className="text-sm text-gray-600 mt-1">
-              Question {currentQuestionIndex + 1} of {quiz.questions.length}
+              {practice && <>Practice mode • </>}
+              Question {currentQuestionIndex + 1} of {questions.length}
+              {saveStatus && (
+                <span className={saveStatus === 'error' ? 'text-red-500' : 'text-gray-400'}>
+                  {' • '}
+                  {saveStatus === 'saving'
+                    ? 'Saving...'
+                    : saveStatus === 'saved'
+                    ? 'All answers saved'
+                    : 'Answer not saved'}
+                </span>
+              )}
             </p>
           </div>
-          <div className="text-sm text-gray-500">
-            Progress: {Math.round(((currentQuestionIndex + 1) / quiz.questions.length) * 100)}%
-          </div>
+          {remainingMs !== null ? (
+            <div
+              className={`flex items-center text-lg font-medium tabular-nums ${
+                remainingMs < 60 * 1000 ? 'text-red-600' : 'text-gray-700'
+              }`}
+              aria-live="polite"
+            >
+              <Timer className="h-5 w-5 mr-2" />
+              {formatRemaining(remainingMs)}
+            </div>
+          ) : (
+            <div className="text-sm text-gray-500">
+              Progress: {Math.round(((currentQuestionIndex + 1) / questions.length) * 100)}%
+            </div>
+          )}
         </div>
       </div>
 
@@ -328,36 +546,29 @@ function TakeQuiz() {
             {currentQuestion.prompt}
           </p>
 
-          {currentQuestion.choices && currentQuestion.choices.length > 0 && (
-            <div className="space-y-2">
-              {currentQuestion.choices.map((choice, choiceIndex) => (
-                <button
-                  key={choiceIndex}
-                  type="button"
-                  onClick={() => {
-                    setAnswers({
-                      ...answers,
-                      [currentQuestion.id]: choiceIndex,
-                    });
-                  }}
-                  className={`w-full text-left p-4 rounded border transition-colors ${
-                    userAnswer === choiceIndex
-                      ? 'bg-orange-50 border-orange-500 ring-2 ring-orange-200'
-                      : 'bg-gray-50 border-gray-200 hover:border-orange-300'
-                  }`}
-                >
-                  <div className="flex items-start">
-                    <span className="font-medium mr-3">
-                      {String.fromCharCode(65 + choiceIndex)}.
-                    </span>
-                    <span>{choice}</span>
-                  </div>
-                </button>
-              ))}
-            </div>
+          <AnswerInput
+            question={currentQuestion}
+            value={userAnswer}
+            onChange={(value) => {
+              dirty.current = true;
+              setAnswers({
+                ...answers,
+                [currentQuestion.id]: value,
+              });
+            }}
+            disabled={practice && currentCheck !== undefined}
+          />
+
+          {practice && currentCheck && (
+            <PracticeFeedback
+              question={currentQuestion}
+              userAnswer={userAnswer}
+              checked={currentCheck}
+              documentId={quiz.documentId}
+            />
           )}
 
-          {currentQuestion.sourceRef && currentQuestion.sourceRef.text && (
+          {!practice && currentQuestion.sourceRef && currentQuestion.sourceRef.text && (
             <div className="mt-4 p-3 bg-gray-50 rounded border border-gray-200">
               <p className="text-xs font-medium text-gray-700 mb-1">Source:</p>
               <p className="text-xs text-gray-600">{currentQuestion.sourceRef.text}</p>
@@ -365,31 +576,69 @@ function TakeQuiz() {
           )}
 
           <div className="flex justify-between pt-4">
-            <Button
-              variant="outline"
-              onClick={() => {
-                if (currentQuestionIndex > 0) {
-                  setCurrentQuestionIndex(currentQuestionIndex - 1);
-                }
-              }}
-              disabled={currentQuestionIndex === 0}
-            >
-              Previous
-            </Button>
-            <Button
-              className="bg-orange-500 hover:bg-orange-600 text-white"
-              onClick={() => {
-                if (isLastQuestion) {
-                  setShowResults(true);
-                } else {
-                  setCurrentQuestionIndex(currentQuestionIndex + 1);
-                }
-              }}
-              disabled={userAnswer === undefined}
-            >
-              {isLastQuestion ? 'Finish Quiz' : 'Next'}
-            </Button>
+            {tracked && quiz.forwardOnly ? (
+              <span />
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  if (currentQuestionIndex > 0) {
+                    goToQuestion(currentQuestionIndex - 1);
+                  }
+                }}
+                disabled={currentQuestionIndex === 0 || submitting}
+              >
+                Previous
+              </Button>
+            )}
+            <div className="flex space-x-2">
+              {practice && currentCheck && !currentCheck.result.correct && (
+                <Button variant="outline" onClick={retry}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Try Again
+                </Button>
+              )}
+              {practice && !currentCheck ? (
+                <Button
+                  className="bg-orange-500 hover:bg-orange-600 text-white"
+                  onClick={checkAnswer}
+                  disabled={!hasAnswer(userAnswer) || checking}
+                >
+                  {checking ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Checking...
+                    </>
+                  ) : (
+                    'Check Answer'
+                  )}
+                </Button>
+              ) : (
+                <Button
+                  className="bg-orange-500 hover:bg-orange-600 text-white"
+                  onClick={() => {
+                    if (isLastQuestion) {
+                      if (tracked) {
+                        finishAttempt();
+                      } else {
+                        submitAttempt();
+                      }
+                    } else {
+                      goToQuestion(currentQuestionIndex + 1);
+                    }
+                  }}
+                  // Timed attempts may skip a question rather than run down the clock
+                  disabled={(!timed && !hasAnswer(userAnswer)) || submitting}
+                >
+                  {isLastQuestion ? (submitting ? 'Submitting...' : 'Finish Quiz') : 'Next'}
+                </Button>
+              )}
+            </div>
           </div>
+
+          {(submitError || checkError) && (
+            <p className="text-sm text-red-500 text-right">{submitError || checkError}</p>
+          )}
         </CardContent>
       </Card>
     </div>
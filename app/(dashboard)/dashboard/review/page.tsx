@@ -0,0 +1,347 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckCircle, Layers, ListChecks, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { Suspense, useState } from 'react';
+import { AnswerInput } from '@/components/quiz/answer-input';
+import { AnswerReview } from '@/components/quiz/answer-review';
+import { SourceLink } from '@/components/quiz/source-link';
+import type { AnswerKey, SubmittedAnswer } from '@/lib/questions';
+import { REVIEW_GRADES, REVIEW_GRADE_LABELS, type ReviewGrade } from '@/lib/scheduling';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+interface SourceRef {
+  page?: number;
+  slide?: number;
+  slideTitle?: string;
+  headingPath?: string[];
+  text?: string;
+  chunkId?: number;
+}
+
+// Questions arrive without their answer key; it comes back with the graded review
+type ReviewItem =
+  | {
+      itemType: 'question';
+      itemId: number;
+      documentId: number;
+      sourceTitle: string;
+      dueAt: string | null;
+      question: {
+        id: number;
+        type: string;
+        prompt: string;
+        choices: string[] | null;
+      };
+    }
+  | {
+      itemType: 'flashcard';
+      itemId: number;
+      documentId: number;
+      sourceTitle: string;
+      dueAt: string | null;
+      flashcard: { id: number; front: string; back: string; sourceRef: SourceRef | null };
+    };
+
+interface QuestionFeedback {
+  grade: ReviewGrade;
+  result: {
+    correct: boolean;
+    credit?: number;
+    feedback?: string;
+    rubricScores?: { criterion: string; points: number; awarded: number }[];
+  };
+  answer: AnswerKey | null;
+  explanation: string | null;
+  sourceRef: SourceRef | null;
+}
+
+const GRADE_BUTTON_STYLES: Record<ReviewGrade, string> = {
+  again: 'border-red-200 text-red-700 hover:bg-red-50',
+  hard: 'border-amber-200 text-amber-700 hover:bg-amber-50',
+  good: 'border-green-200 text-green-700 hover:bg-green-50',
+  easy: 'border-blue-200 text-blue-700 hover:bg-blue-50',
+};
+
+async function postReview(body: Record<string, unknown>) {
+  const res = await fetch('/api/review', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'Failed to record review');
+  }
+  return data;
+}
+
+function QuestionReview({
+  item,
+  onDone,
+}: {
+  item: Extract<ReviewItem, { itemType: 'question' }>;
+  onDone: () => void;
+}) {
+  const [answer, setAnswer] = useState<SubmittedAnswer | undefined>(undefined);
+  const [feedback, setFeedback] = useState<QuestionFeedback | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const check = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      setFeedback(await postReview({ itemType: 'question', itemId: item.itemId, answer: answer ?? null }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <CardContent className="space-y-4">
+      <p className="text-gray-900 font-medium text-lg">{item.question.prompt}</p>
+      <AnswerInput
+        question={item.question}
+        value={answer}
+        onChange={setAnswer}
+        disabled={feedback !== null || submitting}
+      />
+
+      {feedback ? (
+        <div className="space-y-3">
+          <p
+            className={`flex items-center text-sm font-medium ${
+              feedback.result.correct ? 'text-green-700' : 'text-red-700'
+            }`}
+          >
+            {feedback.result.correct ? (
+              <CheckCircle className="h-4 w-4 mr-2" />
+            ) : (
+              <XCircle className="h-4 w-4 mr-2" />
+            )}
+            {feedback.result.correct ? 'Correct' : 'Not quite'} · next review scheduled as{' '}
+            {REVIEW_GRADE_LABELS[feedback.grade]}
+          </p>
+          <AnswerReview
+            question={{ ...item.question, answer: feedback.answer }}
+            userAnswer={answer}
+            showUserAnswer
+            result={feedback.result}
+          />
+          {feedback.explanation && (
+            <p className="text-sm text-gray-600">{feedback.explanation}</p>
+          )}
+          {feedback.sourceRef && (
+            <div className="text-xs">
+              <SourceLink documentId={item.documentId} sourceRef={feedback.sourceRef} />
+            </div>
+          )}
+          <div className="flex justify-end">
+            <Button onClick={onDone} className="bg-orange-500 hover:bg-orange-600 text-white">
+              Next
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-end space-x-3">
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <Button
+            onClick={check}
+            disabled={submitting}
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+          >
+            {submitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Checking...
+              </>
+            ) : (
+              'Check answer'
+            )}
+          </Button>
+        </div>
+      )}
+    </CardContent>
+  );
+}
+
+function FlashcardReview({
+  item,
+  onDone,
+}: {
+  item: Extract<ReviewItem, { itemType: 'flashcard' }>;
+  onDone: () => void;
+}) {
+  const [revealed, setRevealed] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rate = async (grade: ReviewGrade) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await postReview({ itemType: 'flashcard', itemId: item.itemId, grade });
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record review');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <CardContent className="space-y-4">
+      <p className="text-gray-900 font-medium text-lg whitespace-pre-wrap">{item.flashcard.front}</p>
+
+      {revealed ? (
+        <>
+          <div className="p-4 rounded border border-orange-200 bg-orange-50/40">
+            <p className="text-gray-800 whitespace-pre-wrap">{item.flashcard.back}</p>
+            {item.flashcard.sourceRef && (
+              <div className="mt-2 text-xs">
+                <SourceLink documentId={item.documentId} sourceRef={item.flashcard.sourceRef} />
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">How well did you remember it?</p>
+            <div className="grid grid-cols-4 gap-2">
+              {REVIEW_GRADES.map((grade) => (
+                <Button
+                  key={grade}
+                  variant="outline"
+                  disabled={submitting}
+                  onClick={() => rate(grade)}
+                  className={GRADE_BUTTON_STYLES[grade]}
+                >
+                  {REVIEW_GRADE_LABELS[grade]}
+                </Button>
+              ))}
+            </div>
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+        </>
+      ) : (
+        <div className="flex justify-end">
+          <Button
+            onClick={() => setRevealed(true)}
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+          >
+            Show answer
+          </Button>
+        </div>
+      )}
+    </CardContent>
+  );
+}
+
+function ReviewSession() {
+  // The session is fixed once loaded so reviewed items don't reshuffle the queue
+  const { data: items, isLoading, mutate } = useSWR<ReviewItem[]>('/api/review', fetcher, {
+    revalidateOnFocus: false,
+    revalidateOnReconnect: false,
+  });
+  const [index, setIndex] = useState(0);
+
+  if (isLoading) {
+    return (
+      <Card className="animate-pulse">
+        <CardContent className="p-6">
+          <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+          <div className="h-32 bg-gray-200 rounded"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const restart = async () => {
+    await mutate();
+    setIndex(0);
+  };
+
+  if (!Array.isArray(items) || index >= items.length) {
+    const finished = Array.isArray(items) && items.length > 0;
+    return (
+      <Card>
+        <CardContent className="p-8 text-center">
+          <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            {finished ? 'Review complete' : 'Nothing due for review'}
+          </h3>
+          <p className="text-sm text-gray-500 mb-4">
+            {finished
+              ? `You reviewed ${items.length} item${items.length !== 1 ? 's' : ''}. Missed items come back in a few minutes.`
+              : 'Take a quiz or generate flashcards to start building your review queue.'}
+          </p>
+          <div className="flex justify-center space-x-2">
+            <Button variant="outline" onClick={restart}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Check for more
+            </Button>
+            <Button asChild className="bg-orange-500 hover:bg-orange-600 text-white">
+              <Link href="/dashboard/documents">Go to Documents</Link>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const item = items[index];
+  const next = () => setIndex((i) => i + 1);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>
+          Item {index + 1} of {items.length}
+        </span>
+        <span>{Math.round((index / items.length) * 100)}% done</span>
+      </div>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm font-normal text-gray-500 flex items-center">
+            {item.itemType === 'question' ? (
+              <ListChecks className="h-4 w-4 mr-2 text-orange-500" />
+            ) : (
+              <Layers className="h-4 w-4 mr-2 text-orange-500" />
+            )}
+            <span className="truncate">{item.sourceTitle}</span>
+            {item.dueAt === null && (
+              <span className="ml-2 px-2 py-0.5 rounded-full bg-orange-100 text-orange-700 text-xs">
+                New
+              </span>
+            )}
+          </CardTitle>
+        </CardHeader>
+        {item.itemType === 'question' ? (
+          <QuestionReview key={`question-${item.itemId}`} item={item} onDone={next} />
+        ) : (
+          <FlashcardReview key={`flashcard-${item.itemId}`} item={item} onDone={next} />
+        )}
+      </Card>
+    </div>
+  );
+}
+
+export default function ReviewPage() {
+  return (
+    <section className="flex-1 p-4 lg:p-8">
+      <div className="mb-6">
+        <h1 className="text-lg lg:text-2xl font-medium text-gray-900">Due for Review</h1>
+        <p className="text-sm text-gray-600 mt-1">
+          Questions and flashcards from all your documents, scheduled by how well you remember them
+        </p>
+      </div>
+      <Suspense fallback={<div className="h-24 bg-gray-100 rounded-lg animate-pulse" />}>
+        <ReviewSession />
+      </Suspense>
+    </section>
+  );
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentById, getStudyArtifactsForDocument, getUser } from '@/lib/db/queries';
+
+/**
+ * All study artifact versions for a document, newest version first per kind
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const documentId = parseInt(id);
+
+    if (isNaN(documentId)) {
+      return NextResponse.json(
+        { error: 'Invalid document ID' },
+        { status: 400 }
+      );
+    }
+
+    const document = await getDocumentById(documentId);
+    if (!document || document.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const artifacts = await getStudyArtifactsForDocument(documentId);
+
+    return NextResponse.json({ artifacts });
+  } catch (error) {
+    console.error('Error fetching study artifacts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch study artifacts' },
+      { status: 500 }
+    );
+  }
+}
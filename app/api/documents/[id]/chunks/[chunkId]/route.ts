@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChunkForDocument, getDocumentById } from '@/lib/db/queries';
+
+/**
+ * A single chunk of a document, used to show the passage a question came from
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; chunkId: string }> }
+) {
+  try {
+    const { id, chunkId } = await params;
+    const documentId = parseInt(id);
+    const chunkIdNum = parseInt(chunkId);
+
+    if (isNaN(documentId) || isNaN(chunkIdNum)) {
+      return NextResponse.json(
+        { error: 'Invalid document ID or chunk ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns the document
+    const document = await getDocumentById(documentId);
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const chunk = await getChunkForDocument(documentId, chunkIdNum);
+    if (!chunk) {
+      return NextResponse.json(
+        { error: 'Chunk not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(chunk);
+  } catch (error) {
+    console.error('Error fetching chunk:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch chunk' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentById, getExtractionForDocument } from '@/lib/db/queries';
+import { generatePresignedDownloadUrl, isR2Configured } from '@/lib/storage';
+import type { TextSegment } from '@/lib/chunking';
+
+/**
+ * Everything the document viewer needs: a short-lived link to the original file
+ * and the extracted text per page or slide
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const documentId = parseInt(id);
+
+    if (isNaN(documentId)) {
+      return NextResponse.json(
+        { error: 'Invalid document ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns the document
+    const document = await getDocumentById(documentId);
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const extraction = await getExtractionForDocument(documentId);
+    // Extractions from before page tracking only have the flat text
+    const segments: TextSegment[] = extraction
+      ? (extraction.segments as TextSegment[] | null) ?? [{ text: extraction.rawText }]
+      : [];
+
+    const url = isR2Configured()
+      ? await generatePresignedDownloadUrl(document.storageKey, 60 * 60)
+      : null;
+
+    return NextResponse.json({
+      url,
+      mimeType: document.mimeType,
+      filename: document.filename,
+      segments,
+    });
+  } catch (error) {
+    console.error('Error fetching document content:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch document content' },
+      { status: 500 }
+    );
+  }
+}
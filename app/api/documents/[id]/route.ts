@@ -33,6 +33,7 @@ export async function GET(
       ...document,
       quizId: quiz?.id || null,
       quizStatus: quiz?.status || null,
+      quizFocus: quiz?.focus || null,
     });
   } catch (error) {
     console.error('Error fetching document:', error);
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getFlashcardDeckWithCards } from '@/lib/db/queries';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const deckId = parseInt(id);
+
+    if (isNaN(deckId)) {
+      return NextResponse.json(
+        { error: 'Invalid deck ID' },
+        { status: 400 }
+      );
+    }
+
+    const deck = await getFlashcardDeckWithCards(deckId);
+
+    if (!deck) {
+      return NextResponse.json(
+        { error: 'Deck not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(deck);
+  } catch (error) {
+    console.error('Error fetching flashcard deck:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch flashcard deck' },
+      { status: 500 }
+    );
+  }
+}
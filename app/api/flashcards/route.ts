@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { getFlashcardDecksForUser } from '@/lib/db/queries';
+
+export async function GET() {
+  try {
+    const decks = await getFlashcardDecksForUser();
+    return NextResponse.json(decks);
+  } catch (error) {
+    console.error('Error fetching flashcard decks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch flashcard decks' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getQuestionsForQuiz, getQuizById, getUser } from '@/lib/db/queries';
+import { questionTopic } from '@/lib/adaptive';
+import { db } from '@/lib/db/drizzle';
+import { quizzes } from '@/lib/db/schema';
+import { enqueueQuestionGeneration } from '@/lib/sqs/client';
+import { checkQuestionGenerationLimit, getPlanConfig } from '@/lib/subscriptions/usage';
+import { eq, sql } from 'drizzle-orm';
+
+// Fresh questions requested at a time for a weak topic
+const WEAK_TOPIC_QUESTION_COUNT = 3;
+const MAX_EXAMPLE_QUESTIONS = 5;
+
+const generateTopicSchema = z.object({
+  topic: z.string().min(1),
+});
+
+/**
+ * Queues "more like these" questions for a weak topic, at the user's request
+ * Counts toward the plan's question generation limit like any other generation.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const quizId = parseInt(id);
+
+    if (isNaN(quizId)) {
+      return NextResponse.json(
+        { error: 'Invalid quiz ID' },
+        { status: 400 }
+      );
+    }
+
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify user owns the quiz
+    const quiz = await getQuizById(quizId);
+    if (!quiz) {
+      return NextResponse.json(
+        { error: 'Quiz not found' },
+        { status: 404 }
+      );
+    }
+
+    if (quiz.deliveryMode === 'exam') {
+      return NextResponse.json(
+        { error: 'Adaptive practice is not available in exam mode' },
+        { status: 400 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = generateTopicSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid topic' },
+        { status: 400 }
+      );
+    }
+
+    const { topic } = parsed.data;
+    const bank = (await getQuestionsForQuiz(quizId)).filter((q) => q.status === 'ready');
+    const exampleQuestionIds = bank
+      .filter((q) => questionTopic(q.sourceRef) === topic)
+      .slice(0, MAX_EXAMPLE_QUESTIONS)
+      .map((q) => q.id);
+
+    if (exampleQuestionIds.length === 0) {
+      return NextResponse.json(
+        { error: 'Topic not found in this quiz' },
+        { status: 400 }
+      );
+    }
+
+    if (quiz.pendingQuestionCount > 0) {
+      return NextResponse.json(
+        { error: 'New questions are already being generated for this quiz' },
+        { status: 400 }
+      );
+    }
+
+    const plan = getPlanConfig(user);
+    if (bank.length + WEAK_TOPIC_QUESTION_COUNT > plan.questionsPerQuiz) {
+      return NextResponse.json(
+        { error: `Quizzes on the ${plan.name} plan can have at most ${plan.questionsPerQuiz} questions.` },
+        { status: 400 }
+      );
+    }
+
+    const limitCheck = await checkQuestionGenerationLimit(user);
+    if (!limitCheck.allowed) {
+      return NextResponse.json(
+        { error: limitCheck.error || 'Quiz generation limit reached' },
+        { status: 403 }
+      );
+    }
+
+    await db
+      .update(quizzes)
+      .set({ pendingQuestionCount: sql`${quizzes.pendingQuestionCount} + ${WEAK_TOPIC_QUESTION_COUNT}` })
+      .where(eq(quizzes.id, quiz.id));
+
+    try {
+      await enqueueQuestionGeneration({
+        quizId: quiz.id,
+        mode: 'more',
+        count: WEAK_TOPIC_QUESTION_COUNT,
+        exampleQuestionIds,
+      });
+    } catch (error) {
+      console.error('Error enqueueing weak topic questions:', error);
+      await db
+        .update(quizzes)
+        .set({
+          pendingQuestionCount: sql`GREATEST(${quizzes.pendingQuestionCount} - ${WEAK_TOPIC_QUESTION_COUNT}, 0)`,
+        })
+        .where(eq(quizzes.id, quiz.id));
+      return NextResponse.json(
+        { error: 'Failed to queue question generation' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ generating: true, count: WEAK_TOPIC_QUESTION_COUNT });
+  } catch (error) {
+    console.error('Error generating weak topic questions:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate questions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getInProgressAttempt,
+  getPracticeOutcomes,
+  getQuestionsForQuiz,
+  getQuizById,
+  getUser,
+  redactQuestion,
+} from '@/lib/db/queries';
+import {
+  buildPracticeStats,
+  exhaustedWeakTopics,
+  pickNextQuestion,
+  questionTopic,
+  type PracticeOutcome,
+} from '@/lib/adaptive';
+import { recordServedQuestion, startAdaptiveSession } from '@/lib/attempts';
+
+const nextQuestionSchema = z.object({
+  // Outcomes checked so far this session, in the order served
+  session: z.array(z.object({ questionId: z.number().int(), credit: z.number().min(0).max(1) })),
+});
+
+/**
+ * Picks the next question of an adaptive session
+ * An empty session starts a new one. The body carries the session's outcomes so far; they
+ * only steer selection. Which questions were served is recorded here, on the session's
+ * in-progress attempt, and that is what the session is graded on when submitted. The weakest
+ * topic that has run out of questions is reported so the user can choose to generate more.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const quizId = parseInt(id);
+
+    if (isNaN(quizId)) {
+      return NextResponse.json(
+        { error: 'Invalid quiz ID' },
+        { status: 400 }
+      );
+    }
+
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify user owns the quiz
+    const quiz = await getQuizById(quizId);
+    if (!quiz) {
+      return NextResponse.json(
+        { error: 'Quiz not found' },
+        { status: 404 }
+      );
+    }
+
+    if (quiz.deliveryMode === 'exam') {
+      return NextResponse.json(
+        { error: 'Adaptive practice is not available in exam mode' },
+        { status: 400 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = nextQuestionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid session format' },
+        { status: 400 }
+      );
+    }
+
+    const { session } = parsed.data;
+    const attempt =
+      session.length === 0
+        ? await startAdaptiveSession(quizId, quiz.userId)
+        : await getInProgressAttempt(quizId, 'adaptive');
+    if (!attempt) {
+      return NextResponse.json(
+        { error: 'This adaptive session has ended. Start a new one.' },
+        { status: 409 }
+      );
+    }
+
+    const bank = (await getQuestionsForQuiz(quizId)).filter((q) => q.status === 'ready');
+    const outcomes: PracticeOutcome[] = [
+      ...(await getPracticeOutcomes(quizId, user.id)),
+      ...session,
+    ];
+    const stats = buildPracticeStats(bank, outcomes);
+    const servedIds = new Set((attempt.servedQuestionIds as number[] | null) || []);
+
+    const [weakestExhausted] = exhaustedWeakTopics(bank, stats, servedIds);
+    const next = pickNextQuestion(bank, stats, servedIds);
+    if (next) {
+      await recordServedQuestion(attempt, next.id);
+    }
+
+    return NextResponse.json({
+      question: next ? redactQuestion(next, quiz.deliveryMode) : null,
+      topic: next ? questionTopic(next.sourceRef) : null,
+      exhaustedTopic: weakestExhausted ?? null,
+      generating: quiz.pendingQuestionCount > 0,
+    });
+  } catch (error) {
+    console.error('Error picking adaptive question:', error);
+    return NextResponse.json(
+      { error: 'Failed to pick the next question' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getPracticeOutcomes, getQuestionsForQuiz, getQuizById } from '@/lib/db/queries';
+import { buildPracticeStats, topicMastery } from '@/lib/adaptive';
+
+/**
+ * Per-topic mastery estimated from every attempt on the quiz
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const quizId = parseInt(id);
+
+    if (isNaN(quizId)) {
+      return NextResponse.json(
+        { error: 'Invalid quiz ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns the quiz
+    const quiz = await getQuizById(quizId);
+    if (!quiz) {
+      return NextResponse.json(
+        { error: 'Quiz not found' },
+        { status: 404 }
+      );
+    }
+
+    const bank = (await getQuestionsForQuiz(quizId)).filter((q) => q.status === 'ready');
+    const outcomes = await getPracticeOutcomes(quizId, quiz.userId);
+
+    return NextResponse.json({
+      mastery: topicMastery(bank, buildPracticeStats(bank, outcomes)),
+      answeredCount: outcomes.length,
+    });
+  } catch (error) {
+    console.error('Error fetching topic mastery:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch topic mastery' },
+      { status: 500 }
+    );
+  }
+}
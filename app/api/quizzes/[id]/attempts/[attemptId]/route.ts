@@ -1,5 +1,38 @@
-import { NextResponse } from 'next/server';
-import { getQuizAttemptById, getQuizById } from '@/lib/db/queries';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getQuizAttemptById, getQuizById, getQuestionsForQuiz } from '@/lib/db/queries';
+import {
+  deliverAttempt,
+  finalizeAttempt,
+  isAnswerKeyLocked,
+  isPastDeadline,
+  saveAttemptAnswer,
+} from '@/lib/attempts';
+import { db } from '@/lib/db/drizzle';
+import { quizAttempts } from '@/lib/db/schema';
+import { enqueueAttemptGrading } from '@/lib/sqs/client';
+import type { QuestionResult } from '@/lib/grading';
+import type { SubmittedAnswer } from '@/lib/questions';
+import {
+  choiceOrderFor,
+  displayedAnswers,
+  orderQuestions,
+  permuteQuestion,
+  toDisplayedAnswer,
+  type AttemptPermutation,
+} from '@/lib/shuffle';
+import { eq } from 'drizzle-orm';
+
+const saveAnswerSchema = z.object({
+  questionId: z.number().int(),
+  // SubmittedAnswer, checked against the question's type when saved; null clears it
+  answer: z
+    .union([z.number(), z.boolean(), z.array(z.number()), z.string()])
+    .nullable()
+    .default(null),
+  timeSpentSeconds: z.number().default(0),
+  advance: z.boolean().default(false),
+});
 
 export async function GET(
   request: Request,
@@ -26,7 +59,7 @@ export async function GET(
       );
     }
 
-    const attempt = await getQuizAttemptById(attemptIdNum);
+    let attempt = await getQuizAttemptById(attemptIdNum);
     
     if (!attempt) {
       return NextResponse.json(
@@ -43,7 +76,72 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(attempt);
+    if (attempt.status === 'in_progress' && isPastDeadline(attempt)) {
+      attempt = await finalizeAttempt(attempt);
+    }
+
+    // Nothing is graded yet, so the answer key stays hidden
+    if (attempt.status === 'in_progress') {
+      return NextResponse.json({
+        ...deliverAttempt(attempt, quiz, await getQuestionsForQuiz(quizId)),
+        serverNow: new Date().toISOString(),
+      });
+    }
+
+    // Past attempts would give away the answers to a timed attempt that is still running
+    if (await isAnswerKeyLocked(quiz)) {
+      return NextResponse.json(
+        { error: 'Past attempts can be reviewed once your timed attempt is submitted', locked: true },
+        { status: 403 }
+      );
+    }
+
+    // The attempt has been graded server-side, so the answer key can be revealed.
+    // It is reviewed against the questions it was graded on, including ones since retired.
+    const quizQuestions = await getQuestionsForQuiz(quizId, { includeRetired: true });
+    const questionsById = new Map(quizQuestions.map((q) => [q.id, q]));
+    const results = (attempt.results as QuestionResult[] | null) || [];
+    const gradedIds = new Set(results.map((result) => result.questionId));
+
+    // Adaptive attempts only cover the questions served during the session, in serving order;
+    // legacy attempts without results show the quiz as it is now
+    let questions =
+      results.length > 0
+        ? quizQuestions.filter((q) => gradedIds.has(q.id))
+        : quizQuestions.filter((q) => q.status !== 'retired');
+    if (attempt.mode === 'adaptive') {
+      questions = results
+        .map((result) => questionsById.get(result.questionId))
+        .filter((question) => question !== undefined);
+    }
+
+    const permutation = attempt.permutation as AttemptPermutation | null;
+    if (!permutation) {
+      return NextResponse.json({
+        ...attempt,
+        questions,
+      });
+    }
+
+    // Shuffled attempts are reviewed in the order they were taken, with stored choice
+    // indices mapped to the choices as shown
+    return NextResponse.json({
+      ...attempt,
+      answers: displayedAnswers(
+        (attempt.answers as Record<string, SubmittedAnswer>) || {},
+        quizQuestions,
+        permutation
+      ),
+      results: attempt.results
+        ? results.map((result) => {
+            const question = questionsById.get(result.questionId);
+            return question && result.answer !== null
+              ? { ...result, answer: toDisplayedAnswer(result.answer, choiceOrderFor(question, permutation)) }
+              : result;
+          })
+        : null,
+      questions: orderQuestions(questions, permutation).map((q) => permuteQuestion(q, permutation)),
+    });
   } catch (error) {
     console.error('Error fetching quiz attempt:', error);
     return NextResponse.json(
@@ -52,3 +150,143 @@ export async function GET(
     );
   }
 }
+
+/**
+ * Save one answer on an in-progress attempt
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; attemptId: string }> }
+) {
+  try {
+    const { id, attemptId } = await params;
+    const quizId = parseInt(id);
+    const attemptIdNum = parseInt(attemptId);
+
+    if (isNaN(quizId) || isNaN(attemptIdNum)) {
+      return NextResponse.json(
+        { error: 'Invalid quiz ID or attempt ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns the quiz
+    const quiz = await getQuizById(quizId);
+    if (!quiz) {
+      return NextResponse.json(
+        { error: 'Quiz not found' },
+        { status: 404 }
+      );
+    }
+
+    const attempt = await getQuizAttemptById(attemptIdNum);
+    if (!attempt || attempt.quizId !== quizId) {
+      return NextResponse.json(
+        { error: 'Quiz attempt not found' },
+        { status: 404 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = saveAnswerSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid answer format' },
+        { status: 400 }
+      );
+    }
+
+    const quizQuestions = await getQuestionsForQuiz(quizId);
+    const saved = await saveAttemptAnswer(attempt, quiz, quizQuestions, parsed.data);
+
+    if ('error' in saved) {
+      return NextResponse.json(
+        { error: saved.error, expired: saved.expired ?? false },
+        { status: saved.expired ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      ...deliverAttempt(saved.attempt, quiz, quizQuestions),
+      serverNow: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error saving answer:', error);
+    return NextResponse.json(
+      { error: 'Failed to save answer' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Retry rubric grading for an attempt whose grading job failed
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; attemptId: string }> }
+) {
+  try {
+    const { id, attemptId } = await params;
+    const quizId = parseInt(id);
+    const attemptIdNum = parseInt(attemptId);
+
+    if (isNaN(quizId) || isNaN(attemptIdNum)) {
+      return NextResponse.json(
+        { error: 'Invalid quiz ID or attempt ID' },
+        { status: 400 }
+      );
+    }
+
+    const attempt = await getQuizAttemptById(attemptIdNum);
+    if (!attempt || attempt.quizId !== quizId) {
+      return NextResponse.json(
+        { error: 'Quiz attempt not found' },
+        { status: 404 }
+      );
+    }
+
+    if (attempt.status !== 'failed') {
+      return NextResponse.json(
+        { error: 'Only attempts whose grading failed can be regraded' },
+        { status: 400 }
+      );
+    }
+
+    await db
+      .update(quizAttempts)
+      .set({ status: 'grading' })
+      .where(eq(quizAttempts.id, attempt.id));
+
+    try {
+      await enqueueAttemptGrading(attempt.id);
+    } catch (sqsError) {
+      console.error('Error enqueueing attempt grading:', sqsError);
+      await db
+        .update(quizAttempts)
+        .set({ status: 'failed' })
+        .where(eq(quizAttempts.id, attempt.id));
+      return NextResponse.json(
+        { error: 'Failed to queue grading' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ ...attempt, status: 'grading' });
+  } catch (error) {
+    console.error('Error retrying attempt grading:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry grading' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getQuizAttemptById, getQuizById } from '@/lib/db/queries';
+import { finalizeAttempt } from '@/lib/attempts';
+
+/**
+ * Submits an in-progress attempt for grading
+ * Submitting an attempt that already expired returns the auto-submitted result.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; attemptId: string }> }
+) {
+  try {
+    const { id, attemptId } = await params;
+    const quizId = parseInt(id);
+    const attemptIdNum = parseInt(attemptId);
+
+    if (isNaN(quizId) || isNaN(attemptIdNum)) {
+      return NextResponse.json(
+        { error: 'Invalid quiz ID or attempt ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns the quiz
+    const quiz = await getQuizById(quizId);
+    if (!quiz) {
+      return NextResponse.json(
+        { error: 'Quiz not found' },
+        { status: 404 }
+      );
+    }
+
+    const attempt = await getQuizAttemptById(attemptIdNum);
+    if (!attempt || attempt.quizId !== quizId) {
+      return NextResponse.json(
+        { error: 'Quiz attempt not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await finalizeAttempt(attempt));
+  } catch (error) {
+    console.error('Error submitting quiz attempt:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit quiz attempt' },
+      { status: 500 }
+    );
+  }
+}
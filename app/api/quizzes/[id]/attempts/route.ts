@@ -1,6 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createQuizAttempt, getQuizAttempts, getQuizById } from '@/lib/db/queries';
+import { z } from 'zod';
+import {
+  createQuizAttempt,
+  getInProgressAttempt,
+  getQuizAttempts,
+  getQuizById,
+  getQuestionsForQuiz,
+} from '@/lib/db/queries';
+import { ATTEMPT_MODES, gradeAnswers, validateAnswers } from '@/lib/grading';
+import type { SubmittedAnswer } from '@/lib/questions';
+import {
+  attemptQuestions,
+  dispatchAttemptGrading,
+  finalizeAttempt,
+  finalizeExpiredAttempts,
+} from '@/lib/attempts';
 
+const recordSessionSchema = z.object({
+  mode: z.enum(ATTEMPT_MODES),
+  answers: z.record(z.string(), z.unknown()), // Validated against the questions when graded
+});
+
+/**
+ * Records a finished practice or adaptive session
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -25,26 +48,85 @@ export async function POST(
       );
     }
 
-    const body = await request.json();
-    const { answers, score } = body;
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
 
-    if (!answers || typeof answers !== 'object') {
+    const parsed = recordSessionSchema.safeParse(body);
+    if (!parsed.success) {
       return NextResponse.json(
         { error: 'Invalid answers format' },
         { status: 400 }
       );
     }
 
-    if (typeof score !== 'number' || score < 0 || score > 100) {
+    // Only the answers are accepted; the score is always computed server-side
+    const { mode, answers } = parsed.data;
+
+    // Graded attempts go through start/save/submit, so they all get autosave, deadlines and shuffling
+    if (mode === 'standard') {
+      return NextResponse.json(
+        { error: 'Graded attempts must be started before answering' },
+        { status: 400 }
+      );
+    }
+
+    if (quiz.deliveryMode === 'exam') {
+      return NextResponse.json(
+        { error: 'Exam-mode quizzes can only be taken as graded attempts' },
+        { status: 400 }
+      );
+    }
+
+    const quizQuestions = await getQuestionsForQuiz(quizId);
+
+    // Adaptive sessions are graded on the questions the server recorded serving
+    if (mode === 'adaptive') {
+      const session = await getInProgressAttempt(quizId, 'adaptive');
+      const served = session ? attemptQuestions(session, quizQuestions) : [];
+      if (!session || served.length === 0) {
+        return NextResponse.json(
+          { error: 'No adaptive session in progress' },
+          { status: 400 }
+        );
+      }
+
+      const validation = validateAnswers(served, answers);
+      if ('error' in validation) {
+        return NextResponse.json(
+          { error: validation.error },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(await finalizeAttempt({ ...session, answers }));
+    }
+
+    const grade = gradeAnswers(quizQuestions, answers);
+
+    if ('error' in grade) {
       return NextResponse.json(
-        { error: 'Invalid score. Must be a number between 0 and 100' },
+        { error: grade.error },
         { status: 400 }
       );
     }
 
-    const attempt = await createQuizAttempt(quizId, quiz.userId, answers, score);
+    // gradeAnswers has validated every answer
+    const attempt = await createQuizAttempt(
+      quizId,
+      quiz.userId,
+      answers as Record<number, SubmittedAnswer>,
+      grade,
+      mode
+    );
 
-    return NextResponse.json(attempt);
+    return NextResponse.json(await dispatchAttemptGrading(attempt));
   } catch (error) {
     console.error('Error creating quiz attempt:', error);
     return NextResponse.json(
@@ -78,6 +160,9 @@ export async function GET(
       );
     }
 
+    // Auto-submit timed attempts whose deadline passed while nobody was watching
+    await finalizeExpiredAttempts(quizId, quiz.userId);
+
     const attempts = await getQuizAttempts(quizId);
 
     return NextResponse.json(attempts);
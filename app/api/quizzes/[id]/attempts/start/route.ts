@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getInProgressAttempt, getQuestionsForQuiz, getQuizById } from '@/lib/db/queries';
+import { deliverAttempt, finalizeExpiredAttempts, startAttempt } from '@/lib/attempts';
+
+/**
+ * Starts an in-progress attempt, or picks up the one already running
+ * The response includes the questions in the attempt's order and the server clock, so the
+ * client can count down against the deadline.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const quizId = parseInt(id);
+
+    if (isNaN(quizId)) {
+      return NextResponse.json(
+        { error: 'Invalid quiz ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns the quiz
+    const quiz = await getQuizById(quizId);
+    if (!quiz) {
+      return NextResponse.json(
+        { error: 'Quiz not found' },
+        { status: 404 }
+      );
+    }
+
+    if (quiz.status !== 'ready') {
+      return NextResponse.json(
+        { error: 'Quiz is not ready' },
+        { status: 400 }
+      );
+    }
+
+    const quizQuestions = await getQuestionsForQuiz(quizId);
+    if (quizQuestions.length === 0) {
+      return NextResponse.json(
+        { error: 'Quiz has no questions to answer' },
+        { status: 400 }
+      );
+    }
+
+    await finalizeExpiredAttempts(quizId, quiz.userId);
+
+    const attempt =
+      (await getInProgressAttempt(quizId)) ??
+      (await startAttempt(quiz, quizQuestions, quiz.userId));
+
+    return NextResponse.json({
+      ...deliverAttempt(attempt, quiz, quizQuestions),
+      serverNow: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error starting quiz attempt:', error);
+    return NextResponse.json(
+      { error: 'Failed to start quiz attempt' },
+      { status: 500 }
+    );
+  }
+}
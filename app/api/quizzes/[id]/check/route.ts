@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getQuestionsForQuiz, getQuizById } from '@/lib/db/queries';
+import { completeRubricGrading, gradeAnswers } from '@/lib/grading';
+import { isAnswerKeyLocked } from '@/lib/attempts';
+
+const checkAnswerSchema = z.object({
+  questionId: z.number().int(),
+  answer: z.unknown(), // Validated against the question when graded
+});
+
+/**
+ * Grades a single answer and reveals the answer key, for practice and adaptive sessions
+ * Nothing is stored; the session's answers are recorded together when it is submitted.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const quizId = parseInt(id);
+
+    if (isNaN(quizId)) {
+      return NextResponse.json(
+        { error: 'Invalid quiz ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns the quiz
+    const quiz = await getQuizById(quizId);
+    if (!quiz) {
+      return NextResponse.json(
+        { error: 'Quiz not found' },
+        { status: 404 }
+      );
+    }
+
+    // Revealing answers mid-session would defeat exam mode
+    if (quiz.deliveryMode === 'exam') {
+      return NextResponse.json(
+        { error: 'Answers cannot be checked before submitting in exam mode' },
+        { status: 400 }
+      );
+    }
+
+    if (await isAnswerKeyLocked(quiz)) {
+      return NextResponse.json(
+        { error: 'Answers cannot be checked while a timed attempt is in progress' },
+        { status: 400 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = checkAnswerSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid question ID' },
+        { status: 400 }
+      );
+    }
+
+    const { questionId, answer } = parsed.data;
+    const question = (await getQuestionsForQuiz(quizId)).find((q) => q.id === questionId);
+    if (!question) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    const answers = answer === undefined || answer === null ? {} : { [question.id]: answer };
+    const graded = gradeAnswers([question], answers);
+    if ('error' in graded) {
+      return NextResponse.json(
+        { error: graded.error },
+        { status: 400 }
+      );
+    }
+
+    // Feedback is immediate, so short answers get the keyword grader rather than a model call;
+    // the submitted session is still graded by the worker
+    const { results } = await completeRubricGrading([question], graded.results, { local: true });
+    const result = results[0];
+
+    return NextResponse.json({
+      result,
+      credit: result.credit ?? (result.correct ? 1 : 0),
+      answer: question.answer,
+      explanation: question.explanation,
+      sourceRef: question.sourceRef,
+    });
+  } catch (error) {
+    console.error('Error checking answer:', error);
+    return NextResponse.json(
+      { error: 'Failed to check answer' },
+      { status: 500 }
+    );
+  }
+}
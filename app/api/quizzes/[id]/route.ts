@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getQuizWithQuestions } from '@/lib/db/queries';
+import { getQuizById, getQuizWithQuestions } from '@/lib/db/queries';
+import { isAnswerKeyLocked } from '@/lib/attempts';
 
 export async function GET(
   request: Request,
@@ -16,8 +17,24 @@ export async function GET(
       );
     }
 
-    const quiz = await getQuizWithQuestions(quizId);
-    
+    const found = await getQuizById(quizId);
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Quiz not found' },
+        { status: 404 }
+      );
+    }
+
+    // The take flow requests `?view=take` and never receives the answer key;
+    // graded answers are revealed through the attempt review endpoint instead.
+    // The key also stays hidden everywhere while a timed attempt is running.
+    const view = new URL(request.url).searchParams.get('view');
+    const answersHidden =
+      found.deliveryMode === 'exam' || view === 'take' || (await isAnswerKeyLocked(found));
+    const quiz = await getQuizWithQuestions(quizId, {
+      redactAnswers: answersHidden,
+    });
+
     if (!quiz) {
       return NextResponse.json(
         { error: 'Quiz not found' },
@@ -25,7 +42,7 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(quiz);
+    return NextResponse.json({ ...quiz, answersHidden });
   } catch (error) {
     console.error('Error fetching quiz:', error);
     return NextResponse.json(
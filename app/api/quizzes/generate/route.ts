@@ -6,9 +6,81 @@ import {
   type NewQuiz,
 } from '@/lib/db/schema';
 import { getUser, getDocumentById, hasChunksForDocument } from '@/lib/db/queries';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, desc } from 'drizzle-orm';
 import { checkQuizGenerationLimit, getPlanConfig } from '@/lib/subscriptions/usage';
 import { enqueueQuizGeneration } from '@/lib/sqs/client';
+import {
+  GENERATION_MODES,
+  MAX_FOCUS_LENGTH,
+  type GenerationMode,
+  type QuizGenerationOptions,
+} from '@/lib/generation';
+import { isBloomLevel, isDifficulty, isQuestionType } from '@/lib/questions';
+
+/**
+ * Parses generation options from untrusted input (request body or form data)
+ */
+export function parseQuizGenerationOptions(
+  input: {
+    questionTypes?: unknown;
+    difficulty?: unknown;
+    bloomLevels?: unknown;
+    focus?: unknown;
+    mode?: unknown;
+  }
+): QuizGenerationOptions | { error: string } {
+  const options: QuizGenerationOptions = {};
+
+  if (input.questionTypes !== undefined) {
+    if (!Array.isArray(input.questionTypes) || input.questionTypes.length === 0) {
+      return { error: 'questionTypes must be a non-empty array' };
+    }
+    const invalid = input.questionTypes.find((type) => !isQuestionType(type));
+    if (invalid !== undefined) {
+      return { error: `Unsupported question type: ${invalid}` };
+    }
+    options.questionTypes = input.questionTypes;
+  }
+
+  if (input.difficulty !== undefined) {
+    if (!isDifficulty(input.difficulty)) {
+      return { error: `Unsupported difficulty: ${input.difficulty}` };
+    }
+    options.difficulty = input.difficulty;
+  }
+
+  if (input.bloomLevels !== undefined) {
+    if (!Array.isArray(input.bloomLevels) || input.bloomLevels.length === 0) {
+      return { error: 'bloomLevels must be a non-empty array' };
+    }
+    const invalid = input.bloomLevels.find((level) => !isBloomLevel(level));
+    if (invalid !== undefined) {
+      return { error: `Unsupported cognitive level: ${invalid}` };
+    }
+    options.bloomLevels = input.bloomLevels;
+  }
+
+  // An empty focus explicitly clears the focus from earlier generations
+  if (input.focus !== undefined) {
+    if (input.focus !== null && typeof input.focus !== 'string') {
+      return { error: 'focus must be a string' };
+    }
+    const focus = input.focus?.trim() ?? '';
+    if (focus.length > MAX_FOCUS_LENGTH) {
+      return { error: `focus must be at most ${MAX_FOCUS_LENGTH} characters` };
+    }
+    options.focus = focus || null;
+  }
+
+  if (input.mode !== undefined) {
+    if (!(GENERATION_MODES as readonly unknown[]).includes(input.mode)) {
+      return { error: `Unsupported generation mode: ${input.mode}` };
+    }
+    options.mode = input.mode as GenerationMode;
+  }
+
+  return options;
+}
 
 /**
  * Start quiz generation with a user object (for background processing)
@@ -16,7 +88,8 @@ import { enqueueQuizGeneration } from '@/lib/sqs/client';
  */
 export async function startQuizGenerationForUser(
   documentId: number,
-  user: { id: number }
+  user: { id: number },
+  options: QuizGenerationOptions = {}
 ): Promise<{ quizId: number } | { error: string }> {
   // Fetch full user object from database
   const [fullUser] = await db
@@ -113,12 +186,25 @@ export async function startQuizGenerationForUser(
     return { error: limitCheck.error || 'Quiz generation limit reached' };
   }
 
+  // Regenerations without an explicit focus reuse the focus of the document's latest quiz
+  let focus = options.focus;
+  if (focus === undefined) {
+    const [latestQuiz] = await db
+      .select({ focus: quizzes.focus })
+      .from(quizzes)
+      .where(and(eq(quizzes.documentId, documentId), eq(quizzes.userId, fullUser.id)))
+      .orderBy(desc(quizzes.createdAt))
+      .limit(1);
+    focus = latestQuiz?.focus ?? null;
+  }
+
   // Create quiz record with status 'generating'
   const newQuiz: NewQuiz = {
     userId: fullUser.id,
     documentId,
     title: `Quiz: ${document.filename}`,
     status: 'generating',
+    focus,
   };
 
   const [createdQuiz] = await db
@@ -133,7 +219,7 @@ export async function startQuizGenerationForUser(
   // Enqueue quiz generation job to SQS
   const questionCount = plan.questionsPerQuiz;
   try {
-    await enqueueQuizGeneration(createdQuiz.id, documentId, questionCount);
+    await enqueueQuizGeneration(createdQuiz.id, documentId, questionCount, { ...options, focus });
   } catch (sqsError) {
     console.error('Error enqueueing quiz generation:', sqsError);
     // Update quiz status to failed if enqueueing fails
@@ -150,14 +236,17 @@ export async function startQuizGenerationForUser(
  * Start quiz generation - validates and creates quiz, returns quiz ID
  * This function can be called from both API routes and server actions
  */
-export async function startQuizGeneration(documentId: number): Promise<{ quizId: number } | { error: string }> {
+export async function startQuizGeneration(
+  documentId: number,
+  options: QuizGenerationOptions = {}
+): Promise<{ quizId: number } | { error: string }> {
   // Authenticate user
   const user = await getUser();
   if (!user) {
     return { error: 'Unauthorized' };
   }
 
-  return startQuizGenerationForUser(documentId, user);
+  return startQuizGenerationForUser(documentId, user, options);
 }
 
 export async function POST(request: NextRequest) {
@@ -173,7 +262,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await startQuizGeneration(documentId);
+    const options = parseQuizGenerationOptions(body);
+    if ('error' in options) {
+      return NextResponse.json(
+        { error: options.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await startQuizGeneration(documentId, options);
 
     if ('error' in result) {
       const statusCode = result.error === 'Unauthorized' ? 401 : 
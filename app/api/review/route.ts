@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getDueReviewItems,
+  getFlashcardForUser,
+  getQuestionForUser,
+  getReviewItem,
+  getUser,
+  hasGradedAttempt,
+  recordReviews,
+} from '@/lib/db/queries';
+import { completeRubricGrading, gradeAnswers } from '@/lib/grading';
+import { gradeFromResult, REVIEW_GRADES } from '@/lib/scheduling';
+import { isAnswerKeyLocked } from '@/lib/attempts';
+
+const recordReviewSchema = z.discriminatedUnion('itemType', [
+  z.object({
+    itemType: z.literal('flashcard'),
+    itemId: z.number().int(),
+    grade: z.enum(REVIEW_GRADES),
+  }),
+  z.object({
+    itemType: z.literal('question'),
+    itemId: z.number().int(),
+    answer: z.unknown(), // Validated against the question when graded
+  }),
+]);
+
+export async function GET() {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const items = await getDueReviewItems();
+
+    return NextResponse.json(items);
+  } catch (error) {
+    console.error('Error fetching review session:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch review session' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Records one review. Questions are graded here from the submitted answer;
+ * flashcards are self-rated, so the client sends the grade.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = recordReviewSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid review item' },
+        { status: 400 }
+      );
+    }
+
+    const review = parsed.data;
+    const { itemId } = review;
+
+    if (review.itemType === 'flashcard') {
+      const found = await getFlashcardForUser(itemId);
+      if (!found) {
+        return NextResponse.json(
+          { error: 'Flashcard not found' },
+          { status: 404 }
+        );
+      }
+
+      await recordReviews(user.id, [{ itemType: 'flashcard', itemId, grade: review.grade }]);
+      return NextResponse.json({ grade: review.grade });
+    }
+
+    // Questions join review through a graded attempt, so only scheduled ones can be reviewed
+    const found = await getQuestionForUser(itemId);
+    if (
+      !found ||
+      found.question.status !== 'ready' ||
+      !(await getReviewItem(user.id, 'question', itemId))
+    ) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    if (found.quiz.deliveryMode === 'exam' && !(await hasGradedAttempt(found.quiz.id, user.id))) {
+      return NextResponse.json(
+        { error: 'Exam questions can be reviewed once an attempt has been graded' },
+        { status: 400 }
+      );
+    }
+
+    // Reviewing would reveal the answer key of a quiz that is being taken under time limits
+    if (await isAnswerKeyLocked(found.quiz)) {
+      return NextResponse.json(
+        { error: 'This question can be reviewed once your timed attempt is submitted' },
+        { status: 400 }
+      );
+    }
+
+    const { question } = found;
+    const answers =
+      review.answer === undefined || review.answer === null ? {} : { [question.id]: review.answer };
+    const graded = gradeAnswers([question], answers);
+    if ('error' in graded) {
+      return NextResponse.json(
+        { error: graded.error },
+        { status: 400 }
+      );
+    }
+
+    // Short answers are scored right away so the session can move on with feedback; the keyword
+    // grader keeps model calls out of the request, which belong in the grading worker
+    const { results } = await completeRubricGrading([question], graded.results, { local: true });
+    const result = results[0];
+    const grade = gradeFromResult(result) ?? 'again';
+
+    await recordReviews(user.id, [{ itemType: 'question', itemId, grade }]);
+
+    return NextResponse.json({
+      grade,
+      result,
+      answer: question.answer,
+      explanation: question.explanation,
+      sourceRef: question.sourceRef,
+    });
+  } catch (error) {
+    console.error('Error recording review:', error);
+    return NextResponse.json(
+      { error: 'Failed to record review' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { getQuestionType, type SubmittedAnswer } from '@/lib/questions';
+
+interface AnswerInputQuestion {
+  id: number;
+  type: string;
+  choices: string[] | null;
+}
+
+/**
+ * Answer controls for a single question while taking a quiz
+ */
+export function AnswerInput({
+  question,
+  value,
+  onChange,
+  disabled = false,
+}: {
+  question: AnswerInputQuestion;
+  value: SubmittedAnswer | undefined;
+  onChange: (value: SubmittedAnswer) => void;
+  disabled?: boolean;
+}) {
+  const type = getQuestionType(question);
+
+  if (type === 'fill_blank') {
+    return (
+      <Input
+        value={typeof value === 'string' ? value : ''}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Type your answer"
+        disabled={disabled}
+        className="text-base"
+      />
+    );
+  }
+
+  if (type === 'short_answer') {
+    return (
+      <Textarea
+        value={typeof value === 'string' ? value : ''}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Write your answer in a few sentences"
+        disabled={disabled}
+        rows={5}
+        className="text-base"
+      />
+    );
+  }
+
+  if (type === 'true_false') {
+    return (
+      <div className="space-y-2">
+        {[true, false].map((option) => (
+          <ChoiceButton
+            key={String(option)}
+            label={option ? 'True' : 'False'}
+            selected={value === option}
+            disabled={disabled}
+            onClick={() => onChange(option)}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  const choices = question.choices || [];
+
+  if (type === 'multi_select') {
+    const selected = Array.isArray(value) ? value : [];
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-gray-500">Select all that apply</p>
+        {choices.map((choice, choiceIndex) => (
+          <ChoiceButton
+            key={choiceIndex}
+            marker={String.fromCharCode(65 + choiceIndex)}
+            label={choice}
+            selected={selected.includes(choiceIndex)}
+            disabled={disabled}
+            onClick={() =>
+              onChange(
+                selected.includes(choiceIndex)
+                  ? selected.filter((i) => i !== choiceIndex)
+                  : [...selected, choiceIndex].sort((a, b) => a - b)
+              )
+            }
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {choices.map((choice, choiceIndex) => (
+        <ChoiceButton
+          key={choiceIndex}
+          marker={String.fromCharCode(65 + choiceIndex)}
+          label={choice}
+          selected={value === choiceIndex}
+          disabled={disabled}
+          onClick={() => onChange(choiceIndex)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ChoiceButton({
+  marker,
+  label,
+  selected,
+  disabled,
+  onClick,
+}: {
+  marker?: string;
+  label: string;
+  selected: boolean;
+  disabled: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className={`w-full text-left p-4 rounded border transition-colors ${
+        selected
+          ? 'bg-orange-50 border-orange-500 ring-2 ring-orange-200'
+          : 'bg-gray-50 border-gray-200 hover:border-orange-300'
+      }`}
+    >
+      <div className="flex items-start">
+        {marker && <span className="font-medium mr-3">{marker}.</span>}
+        <span>{label}</span>
+      </div>
+    </button>
+  );
+}
@@ -0,0 +1,167 @@
+import {
+  getQuestionType,
+  type AnswerKey,
+  type FillBlankAnswer,
+  type ShortAnswerKey,
+  type SubmittedAnswer,
+} from '@/lib/questions';
+
+interface AnswerReviewQuestion {
+  type: string;
+  choices: string[] | null;
+  answer: AnswerKey | null;
+}
+
+interface AnswerReviewResult {
+  pending?: boolean;
+  feedback?: string;
+  rubricScores?: { criterion: string; points: number; awarded: number }[];
+}
+
+/**
+ * Shows a question's answer key, optionally alongside the answer a user submitted
+ * Used by the attempt review page and the quiz editor.
+ */
+export function AnswerReview({
+  question,
+  userAnswer,
+  showUserAnswer = false,
+  result,
+}: {
+  question: AnswerReviewQuestion;
+  userAnswer?: SubmittedAnswer | null;
+  showUserAnswer?: boolean;
+  result?: AnswerReviewResult;
+}) {
+  const type = getQuestionType(question);
+
+  if (type === 'short_answer') {
+    const key = question.answer as ShortAnswerKey | null;
+    // Prefer the graded breakdown; fall back to the bare rubric
+    const criteria = result?.rubricScores ?? key?.rubric.map((c) => ({ ...c, awarded: null }));
+    return (
+      <div className="space-y-2 text-sm">
+        {showUserAnswer && (
+          <div className="p-3 rounded border bg-gray-50 border-gray-200">
+            <p className="font-medium mb-1">Your answer:</p>
+            <p className="whitespace-pre-wrap">
+              {typeof userAnswer === 'string' && userAnswer.trim() ? userAnswer : '(no answer)'}
+            </p>
+          </div>
+        )}
+        {result?.pending && (
+          <p className="text-gray-500 italic">Grading your answer against the rubric...</p>
+        )}
+        {result?.feedback && (
+          <div className="p-3 rounded border bg-orange-50 border-orange-200">
+            <p className="font-medium mb-1">Feedback:</p>
+            <p>{result.feedback}</p>
+          </div>
+        )}
+        {key && (
+          <div className="p-3 rounded border bg-green-50 border-green-200">
+            <p className="font-medium mb-1 text-green-700">Model answer:</p>
+            <p>{key.modelAnswer}</p>
+          </div>
+        )}
+        {criteria && criteria.length > 0 && (
+          <div className="p-3 rounded border bg-gray-50 border-gray-200">
+            <p className="font-medium mb-1">Rubric:</p>
+            <ul className="space-y-1">
+              {criteria.map((c, index) => (
+                <li key={index} className="flex items-start justify-between">
+                  <span>{c.criterion}</span>
+                  <span className="ml-4 font-medium whitespace-nowrap">
+                    {c.awarded === null ? '' : `${c.awarded} / `}
+                    {c.points} pt{c.points === 1 ? '' : 's'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (type === 'fill_blank') {
+    const key = question.answer as FillBlankAnswer | null;
+    return (
+      <div className="space-y-2 text-sm">
+        {showUserAnswer && (
+          <div className="p-3 rounded border bg-gray-50 border-gray-200">
+            <span className="font-medium mr-2">Your answer:</span>
+            <span>{typeof userAnswer === 'string' && userAnswer ? userAnswer : '(no answer)'}</span>
+          </div>
+        )}
+        {key && (
+          <div className="p-3 rounded border bg-green-50 border-green-200">
+            <span className="font-medium mr-2 text-green-700">Accepted answers:</span>
+            <span>{key.accepted.join(', ')}</span>
+            <p className="text-xs text-gray-500 mt-1">
+              {key.caseSensitive ? 'Case-sensitive' : 'Case-insensitive'}
+              {key.ignorePunctuation ? ', punctuation ignored' : ''}
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const options: { label: string; marker?: string; isCorrect: boolean; isSelected: boolean }[] =
+    type === 'true_false'
+      ? [true, false].map((option) => ({
+          label: option ? 'True' : 'False',
+          isCorrect: question.answer === option,
+          isSelected: userAnswer === option,
+        }))
+      : (question.choices || []).map((choice, choiceIndex) => ({
+          label: choice,
+          marker: String.fromCharCode(65 + choiceIndex),
+          isCorrect:
+            type === 'multi_select'
+              ? Array.isArray(question.answer) && question.answer.includes(choiceIndex)
+              : question.answer === choiceIndex,
+          isSelected:
+            type === 'multi_select'
+              ? Array.isArray(userAnswer) && userAnswer.includes(choiceIndex)
+              : userAnswer === choiceIndex,
+        }));
+
+  return (
+    <div className="space-y-2">
+      {options.map((option, index) => {
+        const isWrongSelection = showUserAnswer && option.isSelected && !option.isCorrect;
+        return (
+          <div
+            key={index}
+            className={`p-3 rounded border ${
+              option.isCorrect
+                ? 'bg-green-50 border-green-200'
+                : isWrongSelection
+                ? 'bg-red-50 border-red-200'
+                : 'bg-gray-50 border-gray-200'
+            }`}
+          >
+            <div className="flex items-start">
+              {option.marker && (
+                <span className="font-medium mr-2">{option.marker}.</span>
+              )}
+              <span>{option.label}</span>
+              {option.isCorrect && (
+                <span className="ml-auto text-green-600 font-medium">
+                  ✓ Correct{showUserAnswer && option.isSelected ? ' (your answer)' : ''}
+                </span>
+              )}
+              {isWrongSelection && (
+                <span className="ml-auto text-red-600 font-medium">
+                  ✗ Your answer
+                </span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
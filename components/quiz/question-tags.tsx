@@ -0,0 +1,44 @@
+import {
+  BLOOM_LEVEL_LABELS,
+  DIFFICULTY_LABELS,
+  QUESTION_TYPE_LABELS,
+  getQuestionType,
+  isBloomLevel,
+  isDifficulty,
+} from '@/lib/questions';
+
+interface TaggedQuestion {
+  type: string;
+  difficulty: string | null;
+  bloomLevel: string | null;
+}
+
+const DIFFICULTY_STYLES: Record<string, string> = {
+  easy: 'bg-green-50 text-green-700 border-green-200',
+  medium: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  hard: 'bg-red-50 text-red-700 border-red-200',
+};
+
+/**
+ * Type, difficulty and Bloom level badges for a question
+ * Legacy questions without difficulty or Bloom tags only show their type.
+ */
+export function QuestionTags({ question }: { question: TaggedQuestion }) {
+  return (
+    <div className="flex flex-wrap gap-1 text-xs">
+      <span className="px-2 py-0.5 rounded border bg-gray-50 text-gray-600 border-gray-200">
+        {QUESTION_TYPE_LABELS[getQuestionType(question)]}
+      </span>
+      {isDifficulty(question.difficulty) && (
+        <span className={`px-2 py-0.5 rounded border ${DIFFICULTY_STYLES[question.difficulty]}`}>
+          {DIFFICULTY_LABELS[question.difficulty]}
+        </span>
+      )}
+      {isBloomLevel(question.bloomLevel) && (
+        <span className="px-2 py-0.5 rounded border bg-blue-50 text-blue-700 border-blue-200">
+          {BLOOM_LEVEL_LABELS[question.bloomLevel]}
+        </span>
+      )}
+    </div>
+  );
+}
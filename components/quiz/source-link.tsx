@@ -0,0 +1,71 @@
+import Link from 'next/link';
+import { BookOpen } from 'lucide-react';
+import { formatHeadingPath } from '@/lib/headings';
+
+interface SourceLinkRef {
+  page?: number;
+  slide?: number;
+  slideTitle?: string;
+  headingPath?: string[];
+  text?: string;
+  chunkId?: number;
+}
+
+const MAX_QUOTE_LENGTH = 300;
+
+/**
+ * Human-readable location of a question's source, e.g. "slide 12 (Cell division)" or "page 3"
+ */
+export function sourceLocationLabel(sourceRef: SourceLinkRef): string | null {
+  if (sourceRef.slide !== undefined) {
+    return sourceRef.slideTitle
+      ? `slide ${sourceRef.slide} (${sourceRef.slideTitle})`
+      : `slide ${sourceRef.slide}`;
+  }
+  if (sourceRef.page !== undefined) return `page ${sourceRef.page}`;
+  return null;
+}
+
+/**
+ * Link from a question to the passage it was generated from in the document viewer,
+ * followed by the section the passage sits in when the document has headings
+ */
+export function SourceLink({
+  documentId,
+  sourceRef,
+  label,
+}: {
+  documentId: number;
+  sourceRef: SourceLinkRef | null;
+  label?: string; // Defaults to "See page N" / "See slide N"
+}) {
+  if (!sourceRef) {
+    return null;
+  }
+
+  const location = sourceLocationLabel(sourceRef);
+  if (!location && sourceRef.chunkId === undefined && !sourceRef.text) {
+    return null;
+  }
+
+  const params = new URLSearchParams();
+  if (sourceRef.chunkId !== undefined) params.set('chunk', String(sourceRef.chunkId));
+  if (sourceRef.page !== undefined) params.set('page', String(sourceRef.page));
+  if (sourceRef.slide !== undefined) params.set('slide', String(sourceRef.slide));
+  if (sourceRef.text) params.set('quote', sourceRef.text.slice(0, MAX_QUOTE_LENGTH));
+
+  const section = formatHeadingPath(sourceRef.headingPath);
+
+  return (
+    <span className="inline-flex items-center flex-wrap gap-x-2">
+      <Link
+        href={`/dashboard/documents/${documentId}?${params.toString()}`}
+        className="inline-flex items-center text-xs font-medium text-orange-600 hover:text-orange-700 hover:underline"
+      >
+        <BookOpen className="h-3 w-3 mr-1" />
+        {label ?? `See ${location ?? 'source passage'}`}
+      </Link>
+      {section && <span className="text-xs text-gray-500">{section}</span>}
+    </span>
+  );
+}
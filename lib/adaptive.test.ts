@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  buildPracticeStats,
+  estimateMastery,
+  exhaustedWeakTopics,
+  masteryLabel,
+  pickNextQuestion,
+  questionTopic,
+  topicMastery,
+} from './adaptive';
+
+const bank = [
+  { id: 1, sourceRef: { headingPath: ['Cells', 'Membranes', 'Transport'], chunkId: 10 } },
+  { id: 2, sourceRef: { headingPath: ['Cells', 'Membranes'], chunkId: 10 } },
+  { id: 3, sourceRef: { slideTitle: 'Enzymes', chunkId: 20 } },
+  { id: 4, sourceRef: null },
+];
+
+// Missed both answers on membranes, got enzymes right twice
+const outcomes = [
+  { questionId: 1, credit: 0 },
+  { questionId: 1, credit: 0 },
+  { questionId: 3, credit: 1 },
+  { questionId: 3, credit: 1 },
+];
+
+describe('questionTopic', () => {
+  test('names topics by their top two headings, then the slide title', () => {
+    assert.equal(questionTopic(bank[0].sourceRef), 'Cells › Membranes');
+    assert.equal(questionTopic(bank[1].sourceRef), 'Cells › Membranes');
+    assert.equal(questionTopic(bank[2].sourceRef), 'Enzymes');
+    assert.equal(questionTopic(bank[3].sourceRef), 'General');
+  });
+});
+
+describe('mastery', () => {
+  test('starts untried topics at 50% and keeps one answer from reading as mastered', () => {
+    assert.equal(estimateMastery(0, 0), 0.5);
+    assert.equal(estimateMastery(1, 1), 2 / 3);
+    assert.equal(estimateMastery(0, 2), 0.25);
+    assert.equal(masteryLabel(estimateMastery(1, 1)), 'Developing');
+    assert.equal(masteryLabel(estimateMastery(10, 10)), 'Strong');
+  });
+
+  test('ranks topics weakest first, ignoring outcomes for questions no longer in the bank', () => {
+    const stats = buildPracticeStats(bank, [...outcomes, { questionId: 99, credit: 1 }]);
+
+    assert.deepEqual(
+      topicMastery(bank, stats).map((entry) => [entry.topic, entry.questionCount, entry.answered, entry.mastery]),
+      [
+        ['Cells › Membranes', 2, 2, 0.25],
+        ['General', 1, 0, 0.5],
+        ['Enzymes', 1, 2, 0.75],
+      ]
+    );
+  });
+
+  test('clamps credit to the 0-1 range', () => {
+    const stats = buildPracticeStats(bank, [{ questionId: 3, credit: 4 }]);
+    assert.equal(stats.topics.get('Enzymes')?.credit, 1);
+  });
+});
+
+describe('pickNextQuestion', () => {
+  const stats = buildPracticeStats(bank, outcomes);
+
+  test('serves the weakest ground first', () => {
+    const first = pickNextQuestion(bank, stats, new Set());
+    assert.equal(questionTopic(first?.sourceRef), 'Cells › Membranes');
+    assert.equal(pickNextQuestion(bank, stats, new Set([1, 2]))?.id, 4);
+  });
+
+  test('returns null once every question has been served', () => {
+    assert.equal(pickNextQuestion(bank, stats, new Set([1, 2, 3, 4])), null);
+  });
+});
+
+describe('exhaustedWeakTopics', () => {
+  const stats = buildPracticeStats(bank, outcomes);
+
+  test('lists weak topics only once all their questions have been served', () => {
+    assert.deepEqual(exhaustedWeakTopics(bank, stats, new Set([1])), []);
+    assert.deepEqual(exhaustedWeakTopics(bank, stats, new Set([1, 2])), ['Cells › Membranes']);
+  });
+
+  test('leaves out strong and untried topics', () => {
+    assert.deepEqual(exhaustedWeakTopics(bank, stats, new Set([1, 2, 3, 4])), ['Cells › Membranes']);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Adaptive practice: topic mastery from past answers and next-question selection
+ * Shared by the adaptive practice API and the practice page.
+ */
+
+export interface PracticeSourceRef {
+  page?: number;
+  slide?: number;
+  slideTitle?: string;
+  headingPath?: string[];
+  chunkId?: number;
+}
+
+export interface PracticeQuestion {
+  id: number;
+  sourceRef: unknown;
+}
+
+/**
+ * One graded answer: credit is the fraction earned (0-1)
+ */
+export interface PracticeOutcome {
+  questionId: number;
+  credit: number;
+}
+
+export interface TopicMastery {
+  topic: string;
+  questionCount: number; // Questions in the bank for this topic
+  answered: number;
+  credit: number; // Sum of credit over answered questions
+  mastery: number; // Estimated probability of answering a question on this topic correctly (0-1)
+}
+
+// Topics below this estimate are considered weak and offer fresh questions when the bank runs out
+export const MASTERY_THRESHOLD = 0.7;
+
+// Heading levels used to name a topic; deeper headings are folded into their parent
+const TOPIC_HEADING_DEPTH = 2;
+
+const GENERAL_TOPIC = 'General';
+
+/**
+ * Topic a question belongs to, taken from the section it was generated from
+ */
+export function questionTopic(sourceRef: unknown): string {
+  const ref = (sourceRef || {}) as PracticeSourceRef;
+  if (ref.headingPath && ref.headingPath.length > 0) {
+    return ref.headingPath.slice(0, TOPIC_HEADING_DEPTH).join(' › ');
+  }
+  if (ref.slideTitle) {
+    return ref.slideTitle;
+  }
+  return GENERAL_TOPIC;
+}
+
+/**
+ * Mastery estimate with a uniform prior, so one lucky answer doesn't read as mastered
+ * and untried topics start at 50%
+ */
+export function estimateMastery(credit: number, answered: number): number {
+  return (credit + 1) / (answered + 2);
+}
+
+export function masteryLabel(mastery: number): string {
+  if (mastery < 0.5) return 'Weak';
+  if (mastery < MASTERY_THRESHOLD) return 'Developing';
+  if (mastery < 0.85) return 'Good';
+  return 'Strong';
+}
+
+interface Tally {
+  answered: number;
+  credit: number;
+}
+
+function tally<K>(map: Map<K, Tally>, key: K, credit: number) {
+  const entry = map.get(key) ?? { answered: 0, credit: 0 };
+  entry.answered += 1;
+  entry.credit += credit;
+  map.set(key, entry);
+}
+
+function masteryOf<K>(map: Map<K, Tally>, key: K): number {
+  const entry = map.get(key);
+  return estimateMastery(entry?.credit ?? 0, entry?.answered ?? 0);
+}
+
+export interface PracticeStats {
+  topics: Map<string, Tally>;
+  chunks: Map<number, Tally>;
+  questions: Map<number, Tally>;
+}
+
+/**
+ * Tallies outcomes per topic, source chunk and question
+ * Outcomes for questions no longer in the bank are ignored.
+ */
+export function buildPracticeStats(
+  bank: PracticeQuestion[],
+  outcomes: PracticeOutcome[]
+): PracticeStats {
+  const byId = new Map(bank.map((q) => [q.id, q]));
+  const stats: PracticeStats = { topics: new Map(), chunks: new Map(), questions: new Map() };
+
+  for (const outcome of outcomes) {
+    const question = byId.get(outcome.questionId);
+    if (!question) {
+      continue;
+    }
+    const credit = Math.max(0, Math.min(1, outcome.credit));
+    tally(stats.topics, questionTopic(question.sourceRef), credit);
+    tally(stats.questions, question.id, credit);
+    const chunkId = (question.sourceRef as PracticeSourceRef | null)?.chunkId;
+    if (chunkId !== undefined) {
+      tally(stats.chunks, chunkId, credit);
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Per-topic mastery for every topic in the bank, weakest first
+ */
+export function topicMastery(bank: PracticeQuestion[], stats: PracticeStats): TopicMastery[] {
+  const counts = new Map<string, number>();
+  for (const question of bank) {
+    const topic = questionTopic(question.sourceRef);
+    counts.set(topic, (counts.get(topic) ?? 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .map(([topic, questionCount]) => {
+      const entry = stats.topics.get(topic);
+      return {
+        topic,
+        questionCount,
+        answered: entry?.answered ?? 0,
+        credit: entry?.credit ?? 0,
+        mastery: masteryOf(stats.topics, topic),
+      };
+    })
+    .sort((a, b) => a.mastery - b.mastery || a.topic.localeCompare(b.topic));
+}
+
+/**
+ * How much a question is worth asking next; higher means weaker ground
+ * Blends topic and chunk weakness with the question's own record, and favours questions
+ * the user has never seen over ones they keep getting right.
+ */
+function questionPriority(question: PracticeQuestion, stats: PracticeStats): number {
+  const topicWeakness = 1 - masteryOf(stats.topics, questionTopic(question.sourceRef));
+  const chunkId = (question.sourceRef as PracticeSourceRef | null)?.chunkId;
+  const chunkWeakness =
+    chunkId !== undefined ? 1 - masteryOf(stats.chunks, chunkId) : topicWeakness;
+  const questionWeakness = 1 - masteryOf(stats.questions, question.id);
+
+  return 0.5 * topicWeakness + 0.3 * chunkWeakness + 0.2 * questionWeakness;
+}
+
+/**
+ * Picks the next question for an adaptive session
+ * @param bank Questions available in the quiz
+ * @param stats Past outcomes merged with this session's
+ * @param servedIds Questions already asked this session
+ * @returns The chosen question, or null when every question has been served
+ */
+export function pickNextQuestion<T extends PracticeQuestion>(
+  bank: T[],
+  stats: PracticeStats,
+  servedIds: Set<number>
+): T | null {
+  let best: T | null = null;
+  let bestPriority = -Infinity;
+
+  for (const question of bank) {
+    if (servedIds.has(question.id)) {
+      continue;
+    }
+    // A little jitter keeps equally weak questions from always coming up in bank order
+    const priority = questionPriority(question, stats) + Math.random() * 0.05;
+    if (priority > bestPriority) {
+      best = question;
+      bestPriority = priority;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Weak topics with no questions left to serve, weakest first
+ * These are the topics worth generating fresh questions for.
+ */
+export function exhaustedWeakTopics(
+  bank: PracticeQuestion[],
+  stats: PracticeStats,
+  servedIds: Set<number>
+): string[] {
+  return topicMastery(bank, stats)
+    .filter((entry) => entry.mastery < MASTERY_THRESHOLD && entry.answered > 0)
+    .filter(
+      (entry) =>
+        !bank.some((q) => !servedIds.has(q.id) && questionTopic(q.sourceRef) === entry.topic)
+    )
+    .map((entry) => entry.topic);
+}
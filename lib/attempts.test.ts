@@ -0,0 +1,169 @@
+import assert from 'node:assert/strict';
+import { before, describe, test } from 'node:test';
+import type { Question, Quiz, QuizAttempt } from '@/lib/db/schema';
+
+// The attempt lifecycle imports the database client, which only needs a URL until a query runs
+let attempts: typeof import('./attempts');
+before(async () => {
+  process.env.POSTGRES_URL ??= 'postgres://localhost:5432/test';
+  attempts = await import('./attempts');
+});
+
+const now = new Date('2026-01-01T10:00:00Z');
+
+function question(overrides: Partial<Question> & Pick<Question, 'id' | 'type'>): Question {
+  return {
+    quizId: 1,
+    prompt: `Question ${overrides.id}`,
+    choices: null,
+    answer: null,
+    explanation: null,
+    sourceRef: null,
+    difficulty: null,
+    bloomLevel: null,
+    status: 'ready',
+    position: overrides.id,
+    verification: null,
+    createdAt: now,
+    ...overrides,
+  };
+}
+
+const quiz: Quiz = {
+  id: 1,
+  userId: 1,
+  documentId: 1,
+  title: 'Quiz',
+  status: 'ready',
+  focus: null,
+  coverage: null,
+  pendingQuestionCount: 0,
+  deliveryMode: 'standard',
+  timeLimitMinutes: null,
+  forwardOnly: false,
+  shuffleQuestions: false,
+  shuffleChoices: false,
+  createdAt: now,
+};
+
+const original = [
+  question({ id: 1, type: 'multiple_choice', choices: ['a', 'b', 'c', 'd'], answer: 3 }),
+  question({ id: 2, type: 'multi_select', choices: ['w', 'x', 'y', 'z'], answer: [0, 2] }),
+  question({ id: 3, type: 'multiple_choice', choices: ['yes', 'no'], answer: 0 }),
+];
+
+// Answers saved before the quiz owner edited it
+const attempt: QuizAttempt = {
+  id: 1,
+  quizId: 1,
+  userId: 1,
+  answers: { 1: 3, 2: [0, 2], 3: 0 },
+  score: 0,
+  status: 'in_progress',
+  mode: 'standard',
+  results: null,
+  gradingVersion: null,
+  startedAt: now,
+  deadline: null,
+  currentQuestionIndex: 2,
+  questionTimes: {},
+  permutation: null,
+  servedQuestionIds: null,
+  completedAt: null,
+  createdAt: now,
+};
+
+// Question 1 loses two choices and question 2 is regenerated as a true/false question
+const edited = [
+  question({ id: 1, type: 'multiple_choice', choices: ['a', 'b'], answer: 1 }),
+  question({ id: 2, type: 'true_false', choices: null, answer: true }),
+  original[2],
+];
+
+describe('editing a question mid-attempt', () => {
+  test('saved answers are valid before the edit', () => {
+    const { answers, grade } = attempts.gradeSavedAnswers(attempt, original);
+    assert.deepEqual(answers, attempt.answers);
+    assert.equal(grade.score, 100);
+  });
+
+  test('submitting grades invalidated answers as unanswered', () => {
+    const { answers, grade } = attempts.gradeSavedAnswers(attempt, edited);
+
+    assert.deepEqual(answers, { 3: 0 });
+    assert.equal(grade.status, 'graded');
+    assert.deepEqual(
+      grade.results.map((r) => [r.questionId, r.answer, r.correct]),
+      [
+        [1, null, false],
+        [2, null, false],
+        [3, 0, true],
+      ]
+    );
+    assert.equal(grade.score, 33);
+  });
+
+  test('submitting a quiz whose questions were all deleted scores nothing', () => {
+    const { answers, grade } = attempts.gradeSavedAnswers(attempt, []);
+    assert.deepEqual(answers, {});
+    assert.equal(grade.score, 0);
+    assert.equal(grade.status, 'graded');
+  });
+
+  test('resuming shows the edited questions without the stale answers', () => {
+    const resumed = attempts.deliverAttempt(attempt, quiz, edited);
+
+    assert.deepEqual(resumed.answers, { 3: 0 });
+    assert.deepEqual(
+      resumed.questions.map((q) => [q.id, q.choices, q.answer]),
+      [
+        [1, ['a', 'b'], null],
+        [2, null, null],
+        [3, ['yes', 'no'], null],
+      ]
+    );
+  });
+
+  test('resuming a shuffled attempt ignores choice orders that no longer fit', () => {
+    const shuffled: QuizAttempt = {
+      ...attempt,
+      answers: { 1: 3, 3: 0 },
+      permutation: { questionOrder: [3, 1, 2], choiceOrders: { 1: [3, 2, 1, 0], 3: [1, 0] } },
+    };
+    const resumed = attempts.deliverAttempt(shuffled, quiz, edited);
+
+    assert.deepEqual(
+      resumed.questions.map((q) => [q.id, q.choices]),
+      [
+        [3, ['no', 'yes']],
+        [1, ['a', 'b']],
+        [2, null],
+      ]
+    );
+    // Choice 0 of question 3 is shown second
+    assert.deepEqual(resumed.answers, { 3: 1 });
+  });
+});
+
+describe('adaptive sessions', () => {
+  const session: QuizAttempt = { ...attempt, mode: 'adaptive', servedQuestionIds: [3, 1] };
+
+  test('are graded on the questions served, in the order served', () => {
+    const served = attempts.attemptQuestions(session, original);
+    const { grade } = attempts.gradeSavedAnswers(session, served);
+
+    assert.deepEqual(grade.results.map((r) => r.questionId), [3, 1]);
+    assert.equal(grade.score, 100);
+  });
+
+  test('skip served questions deleted before submission', () => {
+    assert.deepEqual(
+      attempts.attemptQuestions(session, original.slice(1)).map((q) => q.id),
+      [3]
+    );
+  });
+
+  test('graded attempts cover the whole quiz', () => {
+    assert.equal(attempts.attemptQuestions(attempt, original), original);
+  });
+});
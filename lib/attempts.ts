@@ -0,0 +1,369 @@
+/**
+ * Attempt lifecycle for graded quiz attempts: start, autosave answers, submit or expire
+ * Attempts exist as 'in_progress' from the start so they can be resumed. For timed quizzes the
+ * server owns the deadline; answers saved after it are rejected and expired attempts are
+ * graded with whatever was saved in time. Adaptive sessions are also 'in_progress' attempts,
+ * recording each question as it is served so they are graded on exactly those.
+ */
+
+import { db } from '@/lib/db/drizzle';
+import { quizAttempts, type Question, type Quiz, type QuizAttempt } from '@/lib/db/schema';
+import {
+  getInProgressAttempt,
+  getQuestionsForQuiz,
+  recordAttemptReviews,
+  redactQuestion,
+} from '@/lib/db/queries';
+import {
+  gradeAnswers,
+  retainValidAnswers,
+  summarizeResults,
+  validateAnswers,
+  type GradedAttempt,
+  type QuestionResult,
+} from '@/lib/grading';
+import type { SubmittedAnswer } from '@/lib/questions';
+import {
+  choiceOrderFor,
+  createPermutation,
+  displayedAnswers,
+  orderQuestions,
+  permuteQuestion,
+  toOriginalAnswer,
+  type AttemptPermutation,
+} from '@/lib/shuffle';
+import { enqueueAttemptGrading } from '@/lib/sqs/client';
+import { and, eq, isNotNull, lt } from 'drizzle-orm';
+
+// Saves that arrive this soon after the deadline still count, to absorb network latency
+const DEADLINE_GRACE_MS = 5000;
+
+export function isPastDeadline(attempt: Pick<QuizAttempt, 'deadline'>, now = new Date()): boolean {
+  return attempt.deadline !== null && now.getTime() > attempt.deadline.getTime() + DEADLINE_GRACE_MS;
+}
+
+/**
+ * Whether the current user has a timed or forward-only attempt running on the quiz
+ * While one is, nothing reveals the quiz's answer key, so answers can't be looked up mid-attempt.
+ */
+export async function isAnswerKeyLocked(
+  quiz: Pick<Quiz, 'id' | 'forwardOnly'>,
+  now = new Date()
+): Promise<boolean> {
+  const attempt = await getInProgressAttempt(quiz.id);
+  return (
+    attempt !== null &&
+    !isPastDeadline(attempt, now) &&
+    (attempt.deadline !== null || quiz.forwardOnly)
+  );
+}
+
+/**
+ * Follow-up for a freshly graded attempt: schedules spaced repetition reviews and
+ * queues rubric grading when short answers are pending
+ * @returns The attempt, marked failed if grading could not be queued
+ */
+export async function dispatchAttemptGrading(attempt: QuizAttempt): Promise<QuizAttempt> {
+  // Scheduling is best-effort; a failure here shouldn't lose the attempt
+  try {
+    await recordAttemptReviews(attempt.userId, (attempt.results as QuestionResult[] | null) || []);
+  } catch (reviewError) {
+    console.error('Error scheduling reviews for attempt:', reviewError);
+  }
+
+  // Short answers are scored by the worker; the review page polls until grading finishes
+  if (attempt.status === 'grading') {
+    try {
+      await enqueueAttemptGrading(attempt.id);
+    } catch (sqsError) {
+      console.error('Error enqueueing attempt grading:', sqsError);
+      await db
+        .update(quizAttempts)
+        .set({ status: 'failed' })
+        .where(eq(quizAttempts.id, attempt.id));
+      return { ...attempt, status: 'failed' };
+    }
+  }
+
+  return attempt;
+}
+
+/**
+ * Creates an in-progress attempt; the deadline and any shuffled order are fixed at start
+ */
+export async function startAttempt(
+  quiz: Quiz,
+  quizQuestions: Question[],
+  userId: number,
+  now = new Date()
+): Promise<QuizAttempt> {
+  const [attempt] = await db
+    .insert(quizAttempts)
+    .values({
+      quizId: quiz.id,
+      userId,
+      answers: {},
+      score: 0,
+      status: 'in_progress',
+      startedAt: now,
+      deadline:
+        quiz.timeLimitMinutes !== null
+          ? new Date(now.getTime() + quiz.timeLimitMinutes * 60 * 1000)
+          : null,
+      questionTimes: {},
+      permutation: createPermutation(quizQuestions, quiz),
+    })
+    .returning();
+
+  return attempt;
+}
+
+/**
+ * Starts an adaptive session, replacing any the user left unfinished
+ */
+export async function startAdaptiveSession(
+  quizId: number,
+  userId: number,
+  now = new Date()
+): Promise<QuizAttempt> {
+  const abandoned = await getInProgressAttempt(quizId, 'adaptive');
+  if (abandoned) {
+    const [restarted] = await db
+      .update(quizAttempts)
+      .set({ answers: {}, servedQuestionIds: [], startedAt: now })
+      .where(eq(quizAttempts.id, abandoned.id))
+      .returning();
+    return restarted;
+  }
+
+  const [attempt] = await db
+    .insert(quizAttempts)
+    .values({
+      quizId,
+      userId,
+      answers: {},
+      score: 0,
+      status: 'in_progress',
+      mode: 'adaptive',
+      startedAt: now,
+      servedQuestionIds: [],
+    })
+    .returning();
+
+  return attempt;
+}
+
+/**
+ * Adds a question to the ones an adaptive session has served
+ */
+export async function recordServedQuestion(attempt: QuizAttempt, questionId: number): Promise<void> {
+  const served = (attempt.servedQuestionIds as number[] | null) || [];
+  await db
+    .update(quizAttempts)
+    .set({ servedQuestionIds: [...served, questionId] })
+    .where(and(eq(quizAttempts.id, attempt.id), eq(quizAttempts.status, 'in_progress')));
+}
+
+/**
+ * Questions an attempt is graded on: for adaptive sessions the ones served, in the order
+ * served (skipping any deleted since); otherwise the whole quiz
+ */
+export function attemptQuestions(
+  attempt: Pick<QuizAttempt, 'mode' | 'servedQuestionIds'>,
+  quizQuestions: Question[]
+): Question[] {
+  if (attempt.mode !== 'adaptive') {
+    return quizQuestions;
+  }
+  const questionsById = new Map(quizQuestions.map((q) => [q.id, q]));
+  return ((attempt.servedQuestionIds as number[] | null) || []).flatMap((questionId) => {
+    const question = questionsById.get(questionId);
+    return question ? [question] : [];
+  });
+}
+
+/**
+ * An in-progress attempt as the user sees it: redacted questions in the attempt's order,
+ * and saved answers against the choices as shown
+ * Answers that no longer fit an edited question are left out, as they won't be graded.
+ */
+export function deliverAttempt(attempt: QuizAttempt, quiz: Quiz, quizQuestions: Question[]) {
+  const permutation = attempt.permutation as AttemptPermutation | null;
+  return {
+    ...attempt,
+    answers: displayedAnswers(
+      retainValidAnswers(quizQuestions, (attempt.answers as Record<string, SubmittedAnswer>) || {}),
+      quizQuestions,
+      permutation
+    ),
+    questions: orderQuestions(quizQuestions, permutation).map((q) =>
+      permuteQuestion(redactQuestion(q, quiz.deliveryMode), permutation)
+    ),
+  };
+}
+
+export interface AnswerSave {
+  questionId: number;
+  answer: SubmittedAnswer | null; // Null clears the answer; choice indices refer to the choices as shown
+  timeSpentSeconds: number; // Time on the question since the last save
+  advance?: boolean; // Moving on to the next question
+}
+
+/**
+ * Records one answer on an in-progress attempt
+ * Forward-only quizzes reject changes to questions the user has already moved past.
+ */
+export async function saveAttemptAnswer(
+  attempt: QuizAttempt,
+  quiz: Quiz,
+  quizQuestions: Question[],
+  save: AnswerSave,
+  now = new Date()
+): Promise<{ attempt: QuizAttempt } | { error: string; expired?: boolean }> {
+  if (attempt.status !== 'in_progress') {
+    return { error: 'This attempt has already been submitted' };
+  }
+
+  if (isPastDeadline(attempt, now)) {
+    await finalizeAttempt(attempt, now);
+    return { error: 'Time is up. Your attempt was submitted automatically.', expired: true };
+  }
+
+  const permutation = attempt.permutation as AttemptPermutation | null;
+  const ordered = orderQuestions(quizQuestions, permutation);
+  const index = ordered.findIndex((q) => q.id === save.questionId);
+  if (index === -1) {
+    return { error: `Answer submitted for unknown question ${save.questionId}` };
+  }
+
+  if (quiz.forwardOnly && index < attempt.currentQuestionIndex) {
+    return { error: 'This quiz does not allow going back to earlier questions' };
+  }
+
+  const answers = { ...((attempt.answers as Record<string, SubmittedAnswer>) || {}) };
+  if (save.answer === null) {
+    delete answers[save.questionId];
+  } else {
+    const validation = validateAnswers(quizQuestions, { [save.questionId]: save.answer });
+    if ('error' in validation) {
+      return validation;
+    }
+    // Stored against the original choices so grading doesn't need the permutation
+    answers[save.questionId] = toOriginalAnswer(
+      save.answer,
+      choiceOrderFor(ordered[index], permutation)
+    );
+  }
+
+  // Client timings can't exceed the time since the attempt started
+  const elapsedSeconds = attempt.startedAt
+    ? Math.max(0, (now.getTime() - attempt.startedAt.getTime()) / 1000)
+    : 0;
+  const questionTimes = { ...((attempt.questionTimes as Record<string, number>) || {}) };
+  questionTimes[save.questionId] = Math.round(
+    (questionTimes[save.questionId] ?? 0) +
+      Math.min(Math.max(0, save.timeSpentSeconds), elapsedSeconds)
+  );
+
+  const reached = save.advance ? Math.min(index + 1, ordered.length - 1) : index;
+
+  const [updated] = await db
+    .update(quizAttempts)
+    .set({
+      answers,
+      questionTimes,
+      currentQuestionIndex: Math.max(attempt.currentQuestionIndex, reached),
+    })
+    .where(and(eq(quizAttempts.id, attempt.id), eq(quizAttempts.status, 'in_progress')))
+    .returning();
+
+  if (!updated) {
+    return { error: 'This attempt has already been submitted' };
+  }
+
+  return { attempt: updated };
+}
+
+/**
+ * Grades the answers saved on an attempt against the questions as they are now
+ * Answers to questions edited or deleted mid-attempt count as unanswered instead of failing.
+ * @returns The answers that were graded, and the grade
+ */
+export function gradeSavedAnswers(
+  attempt: Pick<QuizAttempt, 'answers'>,
+  quizQuestions: Question[]
+): { answers: Record<string, SubmittedAnswer>; grade: GradedAttempt } {
+  const answers = retainValidAnswers(
+    quizQuestions,
+    (attempt.answers as Record<string, SubmittedAnswer>) || {}
+  );
+
+  // Only an emptied quiz can still fail grading; it scores nothing
+  const graded = gradeAnswers(quizQuestions, answers);
+  return { answers, grade: 'error' in graded ? summarizeResults([]) : graded };
+}
+
+/**
+ * Grades an in-progress attempt from its saved answers
+ * Expired attempts are stamped as completed at their deadline.
+ */
+export async function finalizeAttempt(attempt: QuizAttempt, now = new Date()): Promise<QuizAttempt> {
+  if (attempt.status !== 'in_progress') {
+    return attempt;
+  }
+
+  const quizQuestions = attemptQuestions(attempt, await getQuestionsForQuiz(attempt.quizId));
+  const { answers, grade } = gradeSavedAnswers(attempt, quizQuestions);
+
+  const completedAt =
+    attempt.deadline && now.getTime() > attempt.deadline.getTime() ? attempt.deadline : now;
+
+  // Only the first of a racing submit and expiry gets to grade the attempt
+  const [updated] = await db
+    .update(quizAttempts)
+    .set({
+      answers,
+      score: grade.score,
+      status: grade.status,
+      results: grade.results,
+      gradingVersion: grade.gradingVersion,
+      completedAt,
+    })
+    .where(and(eq(quizAttempts.id, attempt.id), eq(quizAttempts.status, 'in_progress')))
+    .returning();
+
+  if (!updated) {
+    const [current] = await db
+      .select()
+      .from(quizAttempts)
+      .where(eq(quizAttempts.id, attempt.id))
+      .limit(1);
+    return current ?? attempt;
+  }
+
+  return dispatchAttemptGrading(updated);
+}
+
+/**
+ * Auto-submits a user's attempts on a quiz whose deadline has passed
+ * Called whenever attempts are read, so nothing depends on the client being around at expiry.
+ */
+export async function finalizeExpiredAttempts(quizId: number, userId: number, now = new Date()) {
+  const cutoff = new Date(now.getTime() - DEADLINE_GRACE_MS);
+  const expired = await db
+    .select()
+    .from(quizAttempts)
+    .where(
+      and(
+        eq(quizAttempts.quizId, quizId),
+        eq(quizAttempts.userId, userId),
+        eq(quizAttempts.status, 'in_progress'),
+        isNotNull(quizAttempts.deadline),
+        lt(quizAttempts.deadline, cutoff)
+      )
+    );
+
+  for (const attempt of expired) {
+    await finalizeAttempt(attempt, now);
+  }
+}
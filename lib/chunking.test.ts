@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  chunkDocument,
+  chunkSegments,
+  locateInChunk,
+  metadataForSegments,
+  type TextSegment,
+} from './chunking';
+
+const slides: TextSegment[] = [
+  { text: 'Cells are the basic unit of life.', slide: 1, title: 'Cells', headingPath: ['Cells'] },
+  { text: 'Mitochondria   produce\nATP for the cell.', slide: 2, title: 'Energy', headingPath: ['Energy'] },
+];
+
+describe('chunkSegments', () => {
+  test('records the slides a chunk covers and where each one begins', () => {
+    const [chunk, ...rest] = chunkSegments(slides);
+
+    assert.equal(rest.length, 0);
+    assert.equal(chunk.metadata?.slideStart, 1);
+    assert.equal(chunk.metadata?.slideEnd, 2);
+    assert.deepEqual(
+      chunk.metadata?.breaks?.map((b) => [b.slide, chunk.text.slice(b.offset, b.offset + 11)]),
+      [
+        [1, 'Cells are t'],
+        [2, 'Mitochondri'],
+      ]
+    );
+  });
+});
+
+describe('locateInChunk', () => {
+  const [chunk] = chunkSegments(slides);
+
+  test('finds the slide of a quoted passage, ignoring case and whitespace', () => {
+    assert.deepEqual(locateInChunk(chunk.text, chunk.metadata, 'mitochondria produce ATP'), {
+      slide: 2,
+      slideTitle: 'Energy',
+      headingPath: ['Energy'],
+    });
+  });
+
+  test('falls back to where the chunk starts when the passage is not in it', () => {
+    assert.deepEqual(locateInChunk(chunk.text, chunk.metadata, 'ribosomes build proteins'), {
+      slide: 1,
+      slideTitle: 'Cells',
+      headingPath: ['Cells'],
+    });
+  });
+
+  test('has nothing to report for chunks without location metadata', () => {
+    assert.deepEqual(locateInChunk('Plain text', null, 'Plain'), {});
+  });
+
+  test('locates pages in a chunk built from a whole short document', () => {
+    const pages: TextSegment[] = [
+      { text: 'First page text.', page: 1 },
+      { text: 'Second page text.', page: 2 },
+    ];
+    const text = pages.map((p) => p.text).join('\n\n');
+
+    assert.deepEqual(locateInChunk(text, metadataForSegments(pages), 'second page'), { page: 2 });
+  });
+});
+
+describe('table chunks', () => {
+  const header = '| Enzyme | Substrate | Product |\n| --- | --- | --- |';
+  const rows = Array.from(
+    { length: 40 },
+    (_, i) => `| enzyme ${i} | substrate ${i} | product ${i} |`
+  );
+  const table = [header, ...rows].join('\n');
+  const options = { chunkSize: 120, overlap: 30, minChunkSize: 1 };
+
+  test('splits a large table into whole rows that each repeat the header', () => {
+    const chunks = chunkDocument(table, options);
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(chunk.text.startsWith(header), `chunk ${chunk.index} should start with the header`);
+    }
+    assert.deepEqual(
+      chunks.flatMap((chunk) => chunk.text.split('\n').slice(2)),
+      rows
+    );
+  });
+
+  test('does not carry prose into a table chunk as overlap', () => {
+    const prose = Array.from({ length: 12 }, (_, i) => `Sentence ${i} about enzymes.`).join(' ');
+    const chunks = chunkDocument(`${prose}\n\n${table}`, options);
+
+    assert.ok(chunks[0].text.startsWith('Sentence 0'));
+    assert.ok(chunks.slice(1).every((chunk) => chunk.text.startsWith(header)));
+  });
+
+  test('keeps the page of every table part when chunking segments', () => {
+    const chunks = chunkSegments([{ text: table, page: 3 }], options);
+
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every((chunk) => chunk.metadata?.pageStart === 3));
+  });
+});
@@ -1,25 +1,87 @@
 /**
  * Document chunking utilities for splitting large documents into semantic chunks
+ * Sizes are measured in tokens of the generation model's encoding.
  */
 
+import { formatHeadingPath } from './headings';
+import { countTokens } from './tokens';
+
 export interface Chunk {
   text: string;
   index: number;
   startChar: number;
   endChar: number;
   tokenCount?: number;
+  metadata?: ChunkMetadata;
+}
+
+/**
+ * A run of extracted text from one page or slide of the source file
+ * Pages are split further where a new heading starts, so each segment sits under one heading path.
+ */
+export interface TextSegment {
+  text: string;
+  page?: number; // 1-based page number (PDF, and DOCX where Word recorded page breaks)
+  slide?: number; // 1-based slide number (PPTX)
+  title?: string; // Slide title (PPTX)
+  headingPath?: string[]; // Enclosing headings, outermost first (DOCX headings, PDF outline, slide title)
+}
+
+/**
+ * Where a chunk sits in the source file, stored as `document_chunks.metadata`
+ */
+export interface ChunkMetadata {
+  pageStart?: number;
+  pageEnd?: number;
+  slideStart?: number;
+  slideEnd?: number;
+  headingPath?: string[]; // Section the chunk belongs to, outermost heading first
+  // Character offsets within the chunk text where each page, slide or section begins
+  breaks?: ChunkBreak[];
+}
+
+export interface ChunkBreak {
+  offset: number;
+  page?: number;
+  slide?: number;
+  title?: string;
+  headingPath?: string[];
+}
+
+/**
+ * Text embedded for a chunk: the heading path (when known) followed by the chunk text,
+ * so retrieval can match on the section a passage sits in
+ */
+export function embeddingInput(chunk: { text: string; metadata?: ChunkMetadata | null }): string {
+  const path = formatHeadingPath(chunk.metadata?.headingPath);
+  return path ? `${path}\n\n${chunk.text}` : chunk.text;
+}
+
+/**
+ * Separator used between segments when they are joined into the extraction text
+ */
+export const SEGMENT_SEPARATOR = '\n\n';
+
+/**
+ * Joins segments into the plain extraction text that chunk offsets refer to
+ */
+export function joinSegments(segments: TextSegment[]): string {
+  return segments
+    .map((segment) => segment.text.trim())
+    .filter((text) => text.length > 0)
+    .join(SEGMENT_SEPARATOR);
 }
 
 export interface ChunkingOptions {
-  chunkSize?: number; // Target chunk size in characters (default: 4000)
-  overlap?: number; // Overlap between chunks in characters (default: 800)
-  minChunkSize?: number; // Minimum chunk size to avoid tiny chunks (default: 200)
+  chunkSize?: number; // Target chunk size in tokens (default: 1000)
+  overlap?: number; // Overlap between chunks in tokens (default: 200)
+  minChunkSize?: number; // Minimum chunk size in tokens to avoid tiny chunks (default: 50)
 }
 
 const DEFAULT_OPTIONS: Required<ChunkingOptions> = {
-  chunkSize: 4000, // ~1000 tokens assuming ~4 chars per token
-  overlap: 800, // ~200 tokens
-  minChunkSize: 200,
+  chunkSize: 1000,
+  overlap: 200,
+  minChunkSize: 50,
 };
 
 /**
@@ -44,40 +106,52 @@ export function chunkDocument(
   let chunkIndex = 0;
 
   for (let i = 0; i < paragraphs.length; i++) {
-    const paragraph = paragraphs[i].trim();
-    if (!paragraph) continue;
-
-    // If adding this paragraph would exceed chunk size, finalize current chunk
-    if (
-      currentChunk.length > 0 &&
-      currentChunk.length + paragraph.length + 2 > opts.chunkSize
-    ) {
-      // Finalize current chunk
-      const chunkText = currentChunk.trim();
-      if (chunkText.length >= opts.minChunkSize) {
-        chunks.push({
-          text: chunkText,
-          index: chunkIndex++,
-          startChar: currentStart,
-          endChar: currentStart + chunkText.length,
-        });
-      }
+    const trimmed = paragraphs[i].trim();
+    if (!trimmed) continue;
 
-      // Start new chunk with overlap
-      const overlapText = getOverlapText(
-        currentChunk,
-        opts.overlap,
-        opts.chunkSize
-      );
-      currentChunk = overlapText + '\n\n' + paragraph;
-      currentStart = currentStart + chunkText.length - overlapText.length;
-    } else {
-      // Add paragraph to current chunk
-      if (currentChunk.length > 0) {
-        currentChunk += '\n\n' + paragraph;
+    // Tables too large for one chunk are split into row groups that each repeat the header
+    const pieces =
+      isTable(trimmed) && countTokens(trimmed) > opts.chunkSize
+        ? splitTable(trimmed, opts.chunkSize)
+        : [trimmed];
+
+    for (const paragraph of pieces) {
+      // If adding this paragraph would exceed chunk size, finalize current chunk
+      if (
+        currentChunk.length > 0 &&
+        countTokens(currentChunk) + countTokens(paragraph) + 1 > opts.chunkSize
+      ) {
+        // Finalize current chunk
+        const chunkText = currentChunk.trim();
+        const chunkTokens = countTokens(chunkText);
+        if (chunkTokens >= opts.minChunkSize) {
+          chunks.push({
+            text: chunkText,
+            index: chunkIndex++,
+            startChar: currentStart,
+            endChar: currentStart + chunkText.length,
+          });
+        }
+
+        // Start new chunk with overlap, except across tables so no chunk holds part of one
+        // (text too short to be kept as its own chunk is still carried over)
+        const lastParagraph = currentChunk.split(/\n\s*\n/).pop() ?? '';
+        const overlapText =
+          isTable(paragraph) || isTable(lastParagraph)
+            ? chunkTokens < opts.minChunkSize
+              ? chunkText
+              : ''
+            : getOverlapText(currentChunk, opts.overlap, opts.chunkSize);
+        currentChunk = overlapText ? overlapText + '\n\n' + paragraph : paragraph;
+        currentStart = currentStart + chunkText.length - overlapText.length;
       } else {
-        currentChunk = paragraph;
-        currentStart = getAbsolutePosition(text, i, paragraphs);
+        // Add paragraph to current chunk
+        if (currentChunk.length > 0) {
+          currentChunk += '\n\n' + paragraph;
+        } else {
+          currentChunk = paragraph;
+          currentStart = getAbsolutePosition(text, i, paragraphs);
+        }
       }
     }
   }
@@ -88,7 +162,7 @@ export function chunkDocument(
   if (finalChunkText.length > 0) {
     // If this is the only chunk and it's smaller than minChunkSize, still include it
     // Otherwise, only include if it meets the minimum size
-    if (chunks.length === 0 || finalChunkText.length >= opts.minChunkSize) {
+    if (chunks.length === 0 || countTokens(finalChunkText) >= opts.minChunkSize) {
       chunks.push({
         text: finalChunkText,
         index: chunkIndex,
@@ -101,7 +175,8 @@ export function chunkDocument(
   // If we have very large paragraphs that couldn't be split, split by sentences
   const finalChunks: Chunk[] = [];
   for (const chunk of chunks) {
-    if (chunk.text.length <= opts.chunkSize) {
+    // Tables are kept whole even when a single row group runs over
+    if (countTokens(chunk.text) <= opts.chunkSize || containsTable(chunk.text)) {
       finalChunks.push(chunk);
     } else {
       // Split large chunks by sentences
@@ -117,14 +192,324 @@ export function chunkDocument(
   }));
 }
 
+/**
+ * Chunks extracted segments along the document's structure and records which pages,
+ * slides and section each chunk covers.
+ * Consecutive segments on the same slide and under the same heading form a section.
+ * Whole sections are packed into chunks; only sections larger than a chunk are split,
+ * so no chunk starts partway through a section or slide.
+ */
+export function chunkSegments(
+  segments: TextSegment[],
+  options: ChunkingOptions = {}
+): Chunk[] {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const nonEmpty = segments
+    .map((segment) => ({ ...segment, text: segment.text.trim() }))
+    .filter((segment) => segment.text.length > 0);
+
+  const pieces: { text: string; startChar: number }[] = [];
+  let packed: string[] = [];
+  let packedTokens = 0; // Includes one token per separator
+  let packedStart = 0;
+  let offset = 0;
+  const flush = () => {
+    if (packed.length > 0) {
+      pieces.push({ text: packed.join(SEGMENT_SEPARATOR), startChar: packedStart });
+      packed = [];
+      packedTokens = 0;
+    }
+  };
+
+  for (const section of groupSections(nonEmpty)) {
+    const text = joinSegments(section);
+    const tokens = countTokens(text);
+    if (tokens > opts.chunkSize) {
+      flush();
+      for (const chunk of chunkDocument(text, opts)) {
+        pieces.push({ text: chunk.text, startChar: offset + chunk.startChar });
+      }
+    } else {
+      if (packed.length > 0 && packedTokens + tokens + 1 > opts.chunkSize) {
+        flush();
+      }
+      if (packed.length === 0) packedStart = offset;
+      packed.push(text);
+      packedTokens += tokens + 1;
+    }
+    offset += text.length + SEGMENT_SEPARATOR.length;
+  }
+  flush();
+
+  const chunks: Chunk[] = pieces.map((piece, index) => ({
+    text: piece.text,
+    index,
+    startChar: piece.startChar,
+    endChar: piece.startChar + piece.text.length,
+  }));
+
+  // Locate chunks in whitespace-collapsed text, since chunking rejoins paragraphs and sentences
+  const bounds: { start: number; end: number; segment: TextSegment }[] = [];
+  let fullText = '';
+  for (const segment of nonEmpty) {
+    if (fullText) fullText += ' ';
+    const start = fullText.length;
+    fullText += collapseWhitespace(segment.text).text;
+    bounds.push({ start, end: fullText.length, segment });
+  }
+
+  let cursor = 0;
+  return chunks.map((chunk) => {
+    const { text: collapsed, rawOffsets } = collapseWhitespace(chunk.text);
+    const start = findChunkStart(fullText, collapsed, cursor);
+    if (start === -1) {
+      return chunk;
+    }
+    cursor = start + 1;
+    const end = start + collapsed.length;
+
+    const covered = bounds.filter((b) => b.start < end && b.end > start);
+    return { ...chunk, metadata: buildChunkMetadata(covered, start, end, rawOffsets) };
+  });
+}
+
+/**
+ * Groups consecutive segments that share a slide and heading path
+ */
+function groupSections(segments: TextSegment[]): TextSegment[][] {
+  const sections: TextSegment[][] = [];
+  let key: string | null = null;
+  for (const segment of segments) {
+    const segmentKey = JSON.stringify([segment.slide ?? null, segment.headingPath ?? []]);
+    if (segmentKey !== key) {
+      sections.push([]);
+      key = segmentKey;
+    }
+    sections[sections.length - 1].push(segment);
+  }
+  return sections;
+}
+
+/**
+ * Builds metadata for a chunk made of a single block of text, such as a whole short document
+ */
+export function metadataForSegments(segments: TextSegment[]): ChunkMetadata | undefined {
+  let offset = 0;
+  const covered = segments
+    .filter((segment) => segment.text.trim().length > 0)
+    .map((segment) => {
+      const bound = { start: offset, end: offset + segment.text.trim().length, segment };
+      offset = bound.end + SEGMENT_SEPARATOR.length;
+      return bound;
+    });
+  const rawOffsets = Array.from({ length: offset }, (_, i) => i);
+  return buildChunkMetadata(covered, 0, offset, rawOffsets);
+}
+
+function buildChunkMetadata(
+  covered: { start: number; end: number; segment: TextSegment }[],
+  chunkStart: number,
+  chunkEnd: number,
+  rawOffsets: number[]
+): ChunkMetadata | undefined {
+  const pages = covered.map((b) => b.segment.page).filter((p) => p !== undefined);
+  const slides = covered.map((b) => b.segment.slide).filter((s) => s !== undefined);
+  const headingPath = chunkHeadingPath(covered, chunkStart, chunkEnd);
+  if (pages.length === 0 && slides.length === 0 && !headingPath) {
+    return undefined;
+  }
+
+  return {
+    ...(pages.length > 0 ? { pageStart: Math.min(...pages), pageEnd: Math.max(...pages) } : {}),
+    ...(slides.length > 0 ? { slideStart: Math.min(...slides), slideEnd: Math.max(...slides) } : {}),
+    ...(headingPath ? { headingPath } : {}),
+    breaks: covered.map((b) => ({
+      offset: b.start <= chunkStart ? 0 : rawOffsets[b.start - chunkStart] ?? 0,
+      ...(b.segment.page !== undefined ? { page: b.segment.page } : {}),
+      ...(b.segment.slide !== undefined ? { slide: b.segment.slide } : {}),
+      ...(b.segment.title ? { title: b.segment.title } : {}),
+      ...(b.segment.headingPath?.length ? { headingPath: b.segment.headingPath } : {}),
+    })),
+  };
+}
+
+/**
+ * Heading path for a chunk: the headings shared by every section it covers, or when
+ * it spans unrelated sections, the path of the section it holds most of
+ */
+function chunkHeadingPath(
+  covered: { start: number; end: number; segment: TextSegment }[],
+  chunkStart: number,
+  chunkEnd: number
+): string[] | undefined {
+  const paths = covered.map((b) => b.segment.headingPath ?? []);
+  if (paths.every((path) => path.length === 0)) {
+    return undefined;
+  }
+
+  const shared: string[] = [];
+  for (let level = 0; paths.every((path) => level < path.length && path[level] === paths[0][level]); level++) {
+    shared.push(paths[0][level]);
+  }
+  if (shared.length > 0) {
+    return shared;
+  }
+
+  const overlap = (b: { start: number; end: number }) =>
+    Math.min(b.end, chunkEnd) - Math.max(b.start, chunkStart);
+  const largest = covered.reduce((best, b) => (overlap(b) > overlap(best) ? b : best));
+  return largest.segment.headingPath?.length ? largest.segment.headingPath : undefined;
+}
+
+/**
+ * Resolves the page or slide (and slide title and heading path) of a passage inside a chunk
+ * Falls back to where the chunk starts when the passage cannot be found.
+ */
+export function locateInChunk(
+  chunkText: string,
+  metadata: ChunkMetadata | null | undefined,
+  passage?: string
+): { page?: number; slide?: number; slideTitle?: string; headingPath?: string[] } {
+  if (!metadata?.breaks?.length) {
+    return {};
+  }
+
+  let offset = 0;
+  if (passage) {
+    const { text: collapsedChunk, rawOffsets } = collapseWhitespace(chunkText.toLowerCase());
+    const needle = collapseWhitespace(passage.toLowerCase()).text.slice(0, 80);
+    const found = needle ? collapsedChunk.indexOf(needle) : -1;
+    if (found !== -1) {
+      offset = rawOffsets[found];
+    }
+  }
+
+  const location = [...metadata.breaks].reverse().find((b) => b.offset <= offset) ?? metadata.breaks[0];
+  return {
+    ...(location.page !== undefined ? { page: location.page } : {}),
+    ...(location.slide !== undefined ? { slide: location.slide } : {}),
+    ...(location.title ? { slideTitle: location.title } : {}),
+    ...(location.headingPath ?? metadata.headingPath
+      ? { headingPath: location.headingPath ?? metadata.headingPath }
+      : {}),
+  };
+}
+
+/**
+ * Collapses whitespace runs to single spaces, keeping the raw offset of every output character
+ */
+function collapseWhitespace(text: string): { text: string; rawOffsets: number[] } {
+  let collapsed = '';
+  const rawOffsets: number[] = [];
+  let pendingSpace = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (collapsed.length > 0 && pendingSpace === -1) pendingSpace = i;
+      continue;
+    }
+    if (pendingSpace !== -1) {
+      collapsed += ' ';
+      rawOffsets.push(pendingSpace);
+      pendingSpace = -1;
+    }
+    collapsed += text[i];
+    rawOffsets.push(i);
+  }
+
+  return { text: collapsed, rawOffsets };
+}
+
+/**
+ * Finds where a chunk begins in the full text, falling back to its opening words
+ * if the chunk as a whole is not an exact substring
+ */
+function findChunkStart(fullText: string, chunkText: string, from: number): number {
+  const exact = fullText.indexOf(chunkText, from);
+  if (exact !== -1) {
+    return exact;
+  }
+  const prefix = fullText.indexOf(chunkText.slice(0, 60), from);
+  if (prefix !== -1) {
+    return prefix;
+  }
+
+  // Later parts of a split table start with a repeated header, so match on the rows after it
+  const separator = chunkText.match(TABLE_SEPARATOR_ROW);
+  if (separator?.index === undefined) {
+    return -1;
+  }
+  const rowsStart = separator.index + separator[0].length;
+  const rows = fullText.indexOf(chunkText.slice(rowsStart, rowsStart + 60).trim(), from);
+  return rows === -1 ? -1 : Math.max(0, rows - rowsStart - 1);
+}
+
+/**
+ * Markdown table separator row, e.g. "| --- | --- |"
+ */
+const TABLE_SEPARATOR_ROW = /\|(?:\s*:?-{3,}:?\s*\|)+/;
+
+/**
+ * Whether a paragraph is a Markdown table, as written by extraction
+ */
+function isTable(paragraph: string): boolean {
+  const lines = paragraph.trim().split('\n');
+  return (
+    lines.length >= 2 &&
+    TABLE_SEPARATOR_ROW.test(lines[1]) &&
+    lines.every((line) => line.trim().startsWith('|'))
+  );
+}
+
+function containsTable(text: string): boolean {
+  return text.split(/\n\s*\n/).some(isTable);
+}
+
+/**
+ * Splits a Markdown table into smaller tables of whole rows, each repeating the header
+ */
+function splitTable(table: string, maxTokens: number): string[] {
+  const [header, separator, ...rows] = table.trim().split('\n');
+  const head = `${header}\n${separator}`;
+  const headTokens = countTokens(head);
+  const parts: string[] = [];
+  let current: string[] = [];
+  let currentTokens = headTokens;
+
+  for (const row of rows) {
+    const rowTokens = countTokens(row) + 1;
+    if (current.length > 0 && currentTokens + rowTokens > maxTokens) {
+      parts.push([head, ...current].join('\n'));
+      current = [];
+      currentTokens = headTokens;
+    }
+    current.push(row);
+    currentTokens += rowTokens;
+  }
+  if (current.length > 0) {
+    parts.push([head, ...current].join('\n'));
+  }
+
+  return parts;
+}
+
 /**
  * Gets overlap text from the end of a chunk
+ * The token budget is converted to characters at the chunk's own characters-per-token rate.
  */
 function getOverlapText(
   text: string,
-  overlapSize: number,
+  overlapTokens: number,
   maxChunkSize: number
 ): string {
+  if (overlapTokens <= 0) {
+    return '';
+  }
+  const tokens = countTokens(text);
+  if (tokens <= overlapTokens) {
+    return text;
+  }
+  const overlapSize = Math.round((overlapTokens * text.length) / tokens);
   if (text.length <= overlapSize) {
     return text;
   }
@@ -168,8 +553,8 @@ function splitBySentences(
 
     if (!trimmedSentence) continue;
 
-    if (currentText.length + trimmedSentence.length > options.chunkSize) {
-      if (currentText.trim().length >= options.minChunkSize) {
+    if (countTokens(currentText) + countTokens(trimmedSentence) > options.chunkSize) {
+      if (countTokens(currentText.trim()) >= options.minChunkSize) {
         sentenceChunks.push({
           text: currentText.trim(),
           index: index++,
@@ -184,7 +569,7 @@ function splitBySentences(
         options.overlap,
         options.chunkSize
       );
-      currentText = overlapText + ' ' + trimmedSentence;
+      currentText = overlapText ? overlapText + ' ' + trimmedSentence : trimmedSentence;
       currentStart = currentStart + currentText.length - overlapText.length - trimmedSentence.length - 1;
     } else {
       if (currentText.length > 0) {
@@ -197,7 +582,7 @@ function splitBySentences(
   }
 
   // Add final chunk
-  if (currentText.trim().length >= options.minChunkSize) {
+  if (countTokens(currentText.trim()) >= options.minChunkSize) {
     sentenceChunks.push({
       text: currentText.trim(),
       index: index,
@@ -224,10 +609,3 @@ function getAbsolutePosition(
   return position;
 }
 
-/**
- * Estimates token count for a text (rough approximation: ~4 chars per token)
- */
-export function estimateTokenCount(text: string): number {
-  return Math.ceil(text.length / 4);
-}
-
@@ -0,0 +1,2 @@
+ALTER TABLE "quiz_attempts" ADD COLUMN "results" jsonb;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "grading_version" integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "quizzes" ADD COLUMN "delivery_mode" varchar(20) DEFAULT 'standard' NOT NULL;
\ No newline at end of file
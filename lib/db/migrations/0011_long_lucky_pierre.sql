@@ -0,0 +1 @@
+ALTER TABLE "quiz_attempts" ADD COLUMN "status" varchar(20) DEFAULT 'graded' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "questions" ADD COLUMN "difficulty" varchar(10);--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "bloom_level" varchar(20);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "quizzes" ADD COLUMN "focus" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "quizzes" ADD COLUMN "coverage" jsonb;
\ No newline at end of file
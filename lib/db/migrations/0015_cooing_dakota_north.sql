@@ -0,0 +1,2 @@
+ALTER TABLE "questions" ADD COLUMN "status" varchar(20) DEFAULT 'ready' NOT NULL;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "pending_question_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "questions" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE "questions" SET "position" = ordered."rn"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "quiz_id" ORDER BY "id") - 1 AS "rn"
+  FROM "questions"
+) AS ordered
+WHERE "questions"."id" = ordered."id";
@@ -0,0 +1 @@
+ALTER TABLE "questions" ADD COLUMN "verification" jsonb;
\ No newline at end of file
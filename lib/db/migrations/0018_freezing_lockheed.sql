@@ -0,0 +1 @@
+ALTER TABLE "document_chunks" ADD COLUMN "metadata" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "extractions" ADD COLUMN "segments" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "documents" ADD COLUMN "summary_status" varchar(20);
\ No newline at end of file
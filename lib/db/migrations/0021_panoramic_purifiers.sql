@@ -0,0 +1,12 @@
+CREATE TABLE "study_artifacts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"kind" varchar(30) NOT NULL,
+	"version" integer NOT NULL,
+	"status" varchar(20) DEFAULT 'generating' NOT NULL,
+	"content" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "study_artifacts" ADD CONSTRAINT "study_artifacts_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "study_artifacts_document_kind_version_idx" ON "study_artifacts" USING btree ("document_id","kind","version");
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "flashcard_decks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"document_id" integer NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"status" varchar(20) DEFAULT 'generating' NOT NULL,
+	"focus" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "flashcards" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"deck_id" integer NOT NULL,
+	"front" text NOT NULL,
+	"back" text NOT NULL,
+	"source_ref" jsonb,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "usage_tracking" ADD COLUMN "flashcard_generations" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "flashcard_decks" ADD CONSTRAINT "flashcard_decks_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "flashcard_decks" ADD CONSTRAINT "flashcard_decks_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "flashcards" ADD CONSTRAINT "flashcards_deck_id_flashcard_decks_id_fk" FOREIGN KEY ("deck_id") REFERENCES "public"."flashcard_decks"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
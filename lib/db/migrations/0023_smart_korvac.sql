@@ -0,0 +1,16 @@
+CREATE TABLE "review_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"item_type" varchar(20) NOT NULL,
+	"item_id" integer NOT NULL,
+	"ease" real NOT NULL,
+	"interval_days" integer DEFAULT 0 NOT NULL,
+	"repetitions" integer DEFAULT 0 NOT NULL,
+	"lapses" integer DEFAULT 0 NOT NULL,
+	"due_at" timestamp NOT NULL,
+	"last_reviewed_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "review_items" ADD CONSTRAINT "review_items_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "review_items_user_item_idx" ON "review_items" USING btree ("user_id","item_type","item_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "quiz_attempts" ADD COLUMN "mode" varchar(20) DEFAULT 'standard' NOT NULL;
\ No newline at end of file
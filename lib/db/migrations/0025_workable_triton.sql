@@ -0,0 +1,6 @@
+ALTER TABLE "quiz_attempts" ADD COLUMN "started_at" timestamp;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "deadline" timestamp;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "current_question_index" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "question_times" jsonb;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "time_limit_minutes" integer;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "forward_only" boolean DEFAULT false NOT NULL;
\ No newline at end of file
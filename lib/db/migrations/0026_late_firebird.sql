@@ -0,0 +1,3 @@
+ALTER TABLE "quiz_attempts" ADD COLUMN "permutation" jsonb;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "shuffle_questions" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "shuffle_choices" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "quiz_attempts" ALTER COLUMN "completed_at" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ALTER COLUMN "completed_at" DROP NOT NULL;--> statement-breakpoint
+UPDATE "quiz_attempts" SET "completed_at" = NULL WHERE "status" = 'in_progress';
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "quiz_attempts" ADD COLUMN "served_question_ids" jsonb;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { desc, and, eq, isNull } from 'drizzle-orm';
+import { asc, desc, and, eq, gte, inArray, isNull, lte, max, ne, or, sql } from 'drizzle-orm';
 import { db } from './drizzle';
 import {
   activityLogs,
@@ -9,9 +9,24 @@ import {
   extractions,
   documentChunks,
   quizAttempts,
+  studyArtifacts,
+  flashcardDecks,
+  flashcards,
+  reviewItems,
+  type Question,
 } from './schema';
 import { cookies } from 'next/headers';
 import { verifyToken } from '@/lib/auth/session';
+import type { AttemptMode, GradedAttempt, QuestionResult } from '@/lib/grading';
+import type { SubmittedAnswer } from '@/lib/questions';
+import type { PracticeOutcome } from '@/lib/adaptive';
+import {
+  gradeFromResult,
+  interleaveByDocument,
+  scheduleReview,
+  type ReviewGrade,
+  type ReviewItemType,
+} from '@/lib/scheduling';
 
 export async function getUser() {
   const sessionCookie = (await cookies()).get('session');
@@ -206,27 +221,147 @@ export async function getQuizById(quizId: number) {
   return result.length > 0 ? result[0] : null;
 }
 
-export async function getQuestionsForQuiz(quizId: number) {
+/**
+ * Filter for the questions currently in a quiz, leaving out retired ones
+ */
+export function currentQuestionsOf(quizId: number) {
+  return and(eq(questions.quizId, quizId), ne(questions.status, 'retired'));
+}
+
+/**
+ * Questions in a quiz in display order
+ * Retired questions are only needed to review attempts that answered them.
+ */
+export async function getQuestionsForQuiz(
+  quizId: number,
+  options: { includeRetired?: boolean } = {}
+) {
   return await db
     .select()
     .from(questions)
-    .where(eq(questions.quizId, quizId))
-    .orderBy(questions.id);
+    .where(options.includeRetired ? eq(questions.quizId, quizId) : currentQuestionsOf(quizId))
+    .orderBy(asc(questions.position), asc(questions.id));
+}
+
+/**
+ * Next free position at the end of a quiz's question list
+ */
+export async function getNextQuestionPosition(quizId: number): Promise<number> {
+  const [result] = await db
+    .select({ maxPosition: max(questions.position) })
+    .from(questions)
+    .where(currentQuestionsOf(quizId));
+
+  return result?.maxPosition === null || result?.maxPosition === undefined
+    ? 0
+    : result.maxPosition + 1;
 }
 
-export async function getQuizWithQuestions(quizId: number) {
+export type DeliveredQuestion = Omit<Question, 'answer' | 'explanation' | 'verification'> & {
+  answer: null;
+  explanation: null;
+  verification: null;
+};
+
+/**
+ * Strips the answer key from a question before it is sent to a quiz taker.
+ * Source excerpts are also withheld in exam mode since they often contain the answer.
+ * Verification notes are always withheld because they discuss the marked answer.
+ */
+export function redactQuestion(
+  question: Question,
+  deliveryMode: string
+): DeliveredQuestion {
+  return {
+    ...question,
+    answer: null,
+    explanation: null,
+    verification: null,
+    sourceRef: deliveryMode === 'exam' ? null : question.sourceRef,
+  };
+}
+
+export async function getQuizWithQuestions(
+  quizId: number,
+  options: { redactAnswers?: boolean } = {}
+) {
   const quiz = await getQuizById(quizId);
   if (!quiz) {
     return null;
   }
 
   const questionsList = await getQuestionsForQuiz(quizId);
+  // Exam-mode quizzes never expose the answer key outside of attempt review
+  const redact = options.redactAnswers || quiz.deliveryMode === 'exam';
+
   return {
     ...quiz,
-    questions: questionsList,
+    questions: redact
+      ? questionsList.map((q) => redactQuestion(q, quiz.deliveryMode))
+      : questionsList,
   };
 }
 
+// Flashcard queries
+export async function getFlashcardDecksForUser() {
+  const user = await getUser();
+  if (!user) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(flashcardDecks)
+    .where(eq(flashcardDecks.userId, user.id))
+    .orderBy(desc(flashcardDecks.createdAt));
+}
+
+export async function getFlashcardDeckById(deckId: number) {
+  const user = await getUser();
+  if (!user) {
+    return null;
+  }
+
+  const result = await db
+    .select()
+    .from(flashcardDecks)
+    .where(and(eq(flashcardDecks.id, deckId), eq(flashcardDecks.userId, user.id)))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function getFlashcardsForDeck(deckId: number) {
+  return await db
+    .select()
+    .from(flashcards)
+    .where(eq(flashcards.deckId, deckId))
+    .orderBy(asc(flashcards.position), asc(flashcards.id));
+}
+
+export async function getFlashcardDeckWithCards(deckId: number) {
+  const deck = await getFlashcardDeckById(deckId);
+  if (!deck) {
+    return null;
+  }
+
+  return { ...deck, cards: await getFlashcardsForDeck(deckId) };
+}
+
+/**
+ * Next free position at the end of a deck
+ */
+export async function getNextFlashcardPosition(deckId: number): Promise<number> {
+  const [result] = await db
+    .select({ maxPosition: max(flashcards.position) })
+    .from(flashcards)
+    .where(eq(flashcards.deckId, deckId));
+
+  return result?.maxPosition === null || result?.maxPosition === undefined
+    ? 0
+    : result.maxPosition + 1;
+}
+
 // Extraction queries
 export async function getExtractionForDocument(documentId: number) {
   const result = await db
@@ -239,6 +374,27 @@ export async function getExtractionForDocument(documentId: number) {
   return result.length > 0 ? result[0] : null;
 }
 
+// Study artifact queries
+/**
+ * Every version of every study artifact for a document, newest version first per kind
+ */
+export async function getStudyArtifactsForDocument(documentId: number) {
+  return await db
+    .select()
+    .from(studyArtifacts)
+    .where(eq(studyArtifacts.documentId, documentId))
+    .orderBy(asc(studyArtifacts.kind), desc(studyArtifacts.version));
+}
+
+export async function getNextStudyArtifactVersion(documentId: number, kind: string): Promise<number> {
+  const [result] = await db
+    .select({ maxVersion: max(studyArtifacts.version) })
+    .from(studyArtifacts)
+    .where(and(eq(studyArtifacts.documentId, documentId), eq(studyArtifacts.kind, kind)));
+
+  return (result?.maxVersion ?? 0) + 1;
+}
+
 // Document chunk queries
 export async function getChunksForDocument(documentId: number) {
   return await db
@@ -248,6 +404,24 @@ export async function getChunksForDocument(documentId: number) {
     .orderBy(documentChunks.chunkIndex);
 }
 
+/**
+ * A single chunk without its embedding, for display
+ */
+export async function getChunkForDocument(documentId: number, chunkId: number) {
+  const result = await db
+    .select({
+      id: documentChunks.id,
+      chunkIndex: documentChunks.chunkIndex,
+      text: documentChunks.text,
+      metadata: documentChunks.metadata,
+    })
+    .from(documentChunks)
+    .where(and(eq(documentChunks.id, chunkId), eq(documentChunks.documentId, documentId)))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
 export async function getChunksForExtraction(extractionId: number) {
   return await db
     .select()
@@ -280,8 +454,9 @@ export async function hasChunksForDocument(documentId: number): Promise<boolean>
 export async function createQuizAttempt(
   quizId: number,
   userId: number,
-  answers: Record<number, number>,
-  score: number
+  answers: Record<number, SubmittedAnswer>,
+  grade: GradedAttempt,
+  mode: AttemptMode = 'standard'
 ) {
   const result = await db
     .insert(quizAttempts)
@@ -289,7 +464,11 @@ export async function createQuizAttempt(
       quizId,
       userId,
       answers: answers as any,
-      score,
+      score: grade.score,
+      status: grade.status,
+      mode,
+      results: grade.results,
+      gradingVersion: grade.gradingVersion,
       completedAt: new Date(),
     })
     .returning();
@@ -309,13 +488,67 @@ export async function getQuizAttempts(quizId: number) {
     return [];
   }
 
+  // An adaptive session in progress only tracks what it served; it is listed once submitted
   return await db
     .select()
     .from(quizAttempts)
-    .where(and(eq(quizAttempts.quizId, quizId), eq(quizAttempts.userId, user.id)))
+    .where(
+      and(
+        eq(quizAttempts.quizId, quizId),
+        eq(quizAttempts.userId, user.id),
+        or(eq(quizAttempts.mode, 'standard'), ne(quizAttempts.status, 'in_progress'))
+      )
+    )
     .orderBy(desc(quizAttempts.completedAt));
 }
 
+/**
+ * Every graded answer a user has given on a quiz's questions, across all attempts
+ * Answers still waiting for rubric grading are left out.
+ */
+export async function getPracticeOutcomes(quizId: number, userId: number): Promise<PracticeOutcome[]> {
+  const attempts = await db
+    .select({ results: quizAttempts.results })
+    .from(quizAttempts)
+    .where(and(eq(quizAttempts.quizId, quizId), eq(quizAttempts.userId, userId)));
+
+  return attempts.flatMap(({ results }) =>
+    ((results as QuestionResult[] | null) || [])
+      .filter((result) => !result.pending)
+      .map((result) => ({
+        questionId: result.questionId,
+        credit: result.credit ?? (result.correct ? 1 : 0),
+      }))
+  );
+}
+
+/**
+ * The current user's unfinished attempt on a quiz, if any
+ * @param mode Graded attempts by default; adaptive sessions are tracked separately
+ */
+export async function getInProgressAttempt(quizId: number, mode: AttemptMode = 'standard') {
+  const user = await getUser();
+  if (!user) {
+    return null;
+  }
+
+  const result = await db
+    .select()
+    .from(quizAttempts)
+    .where(
+      and(
+        eq(quizAttempts.quizId, quizId),
+        eq(quizAttempts.userId, user.id),
+        eq(quizAttempts.mode, mode),
+        eq(quizAttempts.status, 'in_progress')
+      )
+    )
+    .orderBy(desc(quizAttempts.createdAt))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
 export async function getQuizAttemptById(attemptId: number) {
   const user = await getUser();
   if (!user) {
@@ -330,3 +563,289 @@ export async function getQuizAttemptById(attemptId: number) {
 
   return result.length > 0 ? result[0] : null;
 }
+
+/**
+ * Whether a user has a graded attempt on a quiz; exam mode reveals its answer key only after one
+ */
+export async function hasGradedAttempt(quizId: number, userId: number): Promise<boolean> {
+  const result = await db
+    .select({ id: quizAttempts.id })
+    .from(quizAttempts)
+    .where(
+      and(
+        eq(quizAttempts.quizId, quizId),
+        eq(quizAttempts.userId, userId),
+        eq(quizAttempts.status, 'graded')
+      )
+    )
+    .limit(1);
+
+  return result.length > 0;
+}
+
+// Spaced repetition queries
+export interface ReviewEntry {
+  itemType: ReviewItemType;
+  itemId: number;
+  grade: ReviewGrade;
+}
+
+/**
+ * Reschedules reviewed items for a user, creating review state on first review.
+ * Callers verify the items belong to the user.
+ */
+export async function recordReviews(userId: number, entries: ReviewEntry[], now = new Date()) {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const existing = await db
+    .select()
+    .from(reviewItems)
+    .where(
+      and(
+        eq(reviewItems.userId, userId),
+        inArray(
+          reviewItems.itemId,
+          entries.map((entry) => entry.itemId)
+        )
+      )
+    );
+  const byKey = new Map(existing.map((item) => [`${item.itemType}:${item.itemId}`, item]));
+
+  // The same item can appear once per batch; the last grade wins
+  const latest = new Map(entries.map((entry) => [`${entry.itemType}:${entry.itemId}`, entry]));
+  const values = [...latest.entries()].map(([key, entry]) => ({
+    userId,
+    itemType: entry.itemType,
+    itemId: entry.itemId,
+    ...scheduleReview(byKey.get(key) ?? null, entry.grade, now),
+    lastReviewedAt: now,
+  }));
+
+  await db
+    .insert(reviewItems)
+    .values(values)
+    .onConflictDoUpdate({
+      target: [reviewItems.userId, reviewItems.itemType, reviewItems.itemId],
+      set: {
+        ease: sql`excluded.ease`,
+        intervalDays: sql`excluded.interval_days`,
+        repetitions: sql`excluded.repetitions`,
+        lapses: sql`excluded.lapses`,
+        dueAt: sql`excluded.due_at`,
+        lastReviewedAt: sql`excluded.last_reviewed_at`,
+      },
+    });
+}
+
+/**
+ * Schedules the questions of a graded attempt; results still pending rubric grading are skipped
+ */
+export async function recordAttemptReviews(userId: number, results: QuestionResult[]) {
+  const entries: ReviewEntry[] = [];
+  for (const result of results) {
+    const grade = gradeFromResult(result);
+    if (grade) {
+      entries.push({ itemType: 'question', itemId: result.questionId, grade });
+    }
+  }
+  await recordReviews(userId, entries);
+}
+
+/**
+ * A user's review state for one item, or null if the item has never been scheduled
+ */
+export async function getReviewItem(userId: number, itemType: ReviewItemType, itemId: number) {
+  const result = await db
+    .select()
+    .from(reviewItems)
+    .where(
+      and(
+        eq(reviewItems.userId, userId),
+        eq(reviewItems.itemType, itemType),
+        eq(reviewItems.itemId, itemId)
+      )
+    )
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+// New flashcards introduced into review per day, on top of cards already due
+const NEW_FLASHCARDS_PER_DAY = 20;
+
+export type DueReviewItem =
+  | {
+      itemType: 'question';
+      itemId: number;
+      documentId: number;
+      sourceTitle: string;
+      dueAt: Date | null;
+      question: DeliveredQuestion;
+    }
+  | {
+      itemType: 'flashcard';
+      itemId: number;
+      documentId: number;
+      sourceTitle: string;
+      dueAt: Date | null; // Null for cards that have never been reviewed
+      flashcard: { id: number; front: string; back: string; sourceRef: unknown };
+    };
+
+/**
+ * Today's review session: due questions and flashcards from all of the user's documents,
+ * plus a daily allowance of new flashcards, interleaved across documents
+ */
+export async function getDueReviewItems(limit = 50): Promise<DueReviewItem[]> {
+  const user = await getUser();
+  if (!user) {
+    return [];
+  }
+
+  const now = new Date();
+
+  const dueQuestions = await db
+    .select({ review: reviewItems, question: questions, quiz: quizzes })
+    .from(reviewItems)
+    .innerJoin(questions, eq(questions.id, reviewItems.itemId))
+    .innerJoin(quizzes, eq(quizzes.id, questions.quizId))
+    .where(
+      and(
+        eq(reviewItems.userId, user.id),
+        eq(reviewItems.itemType, 'question'),
+        eq(quizzes.userId, user.id),
+        eq(questions.status, 'ready'),
+        lte(reviewItems.dueAt, now)
+      )
+    )
+    .orderBy(asc(reviewItems.dueAt))
+    .limit(limit);
+
+  const dueFlashcards = await db
+    .select({ review: reviewItems, card: flashcards, deck: flashcardDecks })
+    .from(reviewItems)
+    .innerJoin(flashcards, eq(flashcards.id, reviewItems.itemId))
+    .innerJoin(flashcardDecks, eq(flashcardDecks.id, flashcards.deckId))
+    .where(
+      and(
+        eq(reviewItems.userId, user.id),
+        eq(reviewItems.itemType, 'flashcard'),
+        eq(flashcardDecks.userId, user.id),
+        lte(reviewItems.dueAt, now)
+      )
+    )
+    .orderBy(asc(reviewItems.dueAt))
+    .limit(limit);
+
+  // Cards seen for the first time today count against the new-card allowance
+  const startOfDay = new Date(now);
+  startOfDay.setHours(0, 0, 0, 0);
+  const [introduced] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(reviewItems)
+    .where(
+      and(
+        eq(reviewItems.userId, user.id),
+        eq(reviewItems.itemType, 'flashcard'),
+        gte(reviewItems.createdAt, startOfDay)
+      )
+    );
+  const newAllowance = Math.max(0, NEW_FLASHCARDS_PER_DAY - (introduced?.count ?? 0));
+
+  const newFlashcards =
+    newAllowance > 0
+      ? await db
+          .select({ card: flashcards, deck: flashcardDecks })
+          .from(flashcards)
+          .innerJoin(flashcardDecks, eq(flashcardDecks.id, flashcards.deckId))
+          .leftJoin(
+            reviewItems,
+            and(
+              eq(reviewItems.userId, user.id),
+              eq(reviewItems.itemType, 'flashcard'),
+              eq(reviewItems.itemId, flashcards.id)
+            )
+          )
+          .where(
+            and(
+              eq(flashcardDecks.userId, user.id),
+              eq(flashcardDecks.status, 'ready'),
+              isNull(reviewItems.id)
+            )
+          )
+          .orderBy(asc(flashcardDecks.createdAt), asc(flashcards.position), asc(flashcards.id))
+          .limit(newAllowance)
+      : [];
+
+  const items: DueReviewItem[] = [
+    ...dueQuestions.map(({ review, question, quiz }) => ({
+      itemType: 'question' as const,
+      itemId: question.id,
+      documentId: quiz.documentId,
+      sourceTitle: quiz.title,
+      dueAt: review.dueAt,
+      question: redactQuestion(question, quiz.deliveryMode),
+    })),
+    ...dueFlashcards.map(({ review, card, deck }) => ({
+      itemType: 'flashcard' as const,
+      itemId: card.id,
+      documentId: deck.documentId,
+      sourceTitle: deck.title,
+      dueAt: review.dueAt,
+      flashcard: { id: card.id, front: card.front, back: card.back, sourceRef: card.sourceRef },
+    })),
+  ];
+  // Overdue items first, then new cards, before mixing documents
+  items.sort((a, b) => (a.dueAt?.getTime() ?? 0) - (b.dueAt?.getTime() ?? 0));
+  items.push(
+    ...newFlashcards.map(({ card, deck }) => ({
+      itemType: 'flashcard' as const,
+      itemId: card.id,
+      documentId: deck.documentId,
+      sourceTitle: deck.title,
+      dueAt: null,
+      flashcard: { id: card.id, front: card.front, back: card.back, sourceRef: card.sourceRef },
+    }))
+  );
+
+  return interleaveByDocument(items.slice(0, limit));
+}
+
+/**
+ * A question with its quiz, if the quiz belongs to the current user
+ */
+export async function getQuestionForUser(questionId: number) {
+  const user = await getUser();
+  if (!user) {
+    return null;
+  }
+
+  const result = await db
+    .select({ question: questions, quiz: quizzes })
+    .from(questions)
+    .innerJoin(quizzes, eq(quizzes.id, questions.quizId))
+    .where(and(eq(questions.id, questionId), eq(quizzes.userId, user.id)))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+/**
+ * A flashcard with its deck, if the deck belongs to the current user
+ */
+export async function getFlashcardForUser(cardId: number) {
+  const user = await getUser();
+  if (!user) {
+    return null;
+  }
+
+  const result = await db
+    .select({ card: flashcards, deck: flashcardDecks })
+    .from(flashcards)
+    .innerJoin(flashcardDecks, eq(flashcardDecks.id, flashcards.deckId))
+    .where(and(eq(flashcards.id, cardId), eq(flashcardDecks.userId, user.id)))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
@@ -5,8 +5,11 @@ import {
   text,
   timestamp,
   integer,
+  boolean,
   jsonb,
+  real,
   customType,
+  uniqueIndex,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
@@ -107,6 +110,7 @@ export const documents = pgTable('documents', {
     .default('uploaded'),
   pageCount: integer('page_count'),
   summary: jsonb('summary'), // Array of summary sections with title and points, or legacy flat array of strings
+  summaryStatus: varchar('summary_status', { length: 20 }), // 'generating' | 'ready' | 'failed', null for older documents
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
@@ -117,6 +121,7 @@ export const extractions = pgTable('extractions', {
     .references(() => documents.id),
   rawText: text('raw_text').notNull(),
   method: varchar('method', { length: 50 }).notNull(),
+  segments: jsonb('segments'), // TextSegment[]: text per page or slide, null for older extractions
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
@@ -130,6 +135,7 @@ export const documentChunks = pgTable('document_chunks', {
   text: text('text').notNull(),
   embedding: vector('embedding').notNull(),
   tokenCount: integer('token_count'),
+  metadata: jsonb('metadata'), // ChunkMetadata: pages or slides covered, null for older chunks
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
@@ -145,6 +151,17 @@ export const quizzes = pgTable('quizzes', {
   status: varchar('status', { length: 20 })
     .notNull()
     .default('generating'),
+  focus: text('focus'), // Topic focus used for retrieval, reused by regenerations
+  coverage: jsonb('coverage'), // CoverageReport for full-coverage generations, null otherwise
+  pendingQuestionCount: integer('pending_question_count').notNull().default(0), // Extra questions queued for generation
+  // 'standard' or 'exam' (exam hides the answer key until an attempt is graded)
+  deliveryMode: varchar('delivery_mode', { length: 20 })
+    .notNull()
+    .default('standard'),
+  timeLimitMinutes: integer('time_limit_minutes'), // Null for untimed quizzes
+  forwardOnly: boolean('forward_only').notNull().default(false), // One question at a time, no going back
+  shuffleQuestions: boolean('shuffle_questions').notNull().default(false), // Each graded attempt gets its own question order
+  shuffleChoices: boolean('shuffle_choices').notNull().default(false), // Each graded attempt gets its own choice order
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
@@ -159,6 +176,61 @@ export const questions = pgTable('questions', {
   answer: jsonb('answer'),
   explanation: text('explanation'),
   sourceRef: jsonb('source_ref'),
+  difficulty: varchar('difficulty', { length: 10 }), // 'easy' | 'medium' | 'hard', null for legacy questions
+  bloomLevel: varchar('bloom_level', { length: 20 }), // 'recall' | 'apply' | 'analyze', null for legacy questions
+  // 'ready' | 'regenerating' | 'retired' (replaced or deleted, kept so past attempts can be reviewed)
+  status: varchar('status', { length: 20 }).notNull().default('ready'),
+  position: integer('position').notNull().default(0), // Display order within the quiz (0-based)
+  verification: jsonb('verification'), // QuestionVerification from the post-generation check, null if unchecked
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Alternative study formats generated from a document; each regeneration adds a new version
+export const studyArtifacts = pgTable(
+  'study_artifacts',
+  {
+    id: serial('id').primaryKey(),
+    documentId: integer('document_id')
+      .notNull()
+      .references(() => documents.id),
+    kind: varchar('kind', { length: 30 }).notNull(), // 'tldr' | 'outline' | 'glossary' | 'exam_questions'
+    version: integer('version').notNull(), // 1-based, per document and kind
+    status: varchar('status', { length: 20 }).notNull().default('generating'), // 'generating' | 'ready' | 'failed'
+    content: jsonb('content'), // StudyArtifactContent, null until generated
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('study_artifacts_document_kind_version_idx').on(
+      table.documentId,
+      table.kind,
+      table.version
+    ),
+  ]
+);
+
+export const flashcardDecks = pgTable('flashcard_decks', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id),
+  documentId: integer('document_id')
+    .notNull()
+    .references(() => documents.id),
+  title: varchar('title', { length: 255 }).notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('generating'), // 'generating' | 'ready' | 'failed'
+  focus: text('focus'), // Topic focus used for retrieval, null for the whole document
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+export const flashcards = pgTable('flashcards', {
+  id: serial('id').primaryKey(),
+  deckId: integer('deck_id')
+    .notNull()
+    .references(() => flashcardDecks.id),
+  front: text('front').notNull(),
+  back: text('back').notNull(),
+  sourceRef: jsonb('source_ref'), // SourceRef of the chunk the card was generated from, null for hand-written cards
+  position: integer('position').notNull().default(0), // Display order within the deck (0-based)
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
@@ -171,6 +243,8 @@ export const documentsRelations = relations(documents, ({ one, many }) => ({
   extractions: many(extractions),
   quizzes: many(quizzes),
   chunks: many(documentChunks),
+  studyArtifacts: many(studyArtifacts),
+  flashcardDecks: many(flashcardDecks),
 }));
 
 export const extractionsRelations = relations(extractions, ({ one, many }) => ({
@@ -212,6 +286,32 @@ export const questionsRelations = relations(questions, ({ one }) => ({
   }),
 }));
 
+export const studyArtifactsRelations = relations(studyArtifacts, ({ one }) => ({
+  document: one(documents, {
+    fields: [studyArtifacts.documentId],
+    references: [documents.id],
+  }),
+}));
+
+export const flashcardDecksRelations = relations(flashcardDecks, ({ one, many }) => ({
+  user: one(users, {
+    fields: [flashcardDecks.userId],
+    references: [users.id],
+  }),
+  document: one(documents, {
+    fields: [flashcardDecks.documentId],
+    references: [documents.id],
+  }),
+  cards: many(flashcards),
+}));
+
+export const flashcardsRelations = relations(flashcards, ({ one }) => ({
+  deck: one(flashcardDecks, {
+    fields: [flashcards.deckId],
+    references: [flashcardDecks.id],
+  }),
+}));
+
 export const quizAttempts = pgTable('quiz_attempts', {
   id: serial('id').primaryKey(),
   quizId: integer('quiz_id')
@@ -221,8 +321,19 @@ export const quizAttempts = pgTable('quiz_attempts', {
     .notNull()
     .references(() => users.id),
   answers: jsonb('answers').notNull(), // Record<questionId, answerIndex>
-  score: integer('score').notNull(), // Percentage (0-100)
-  completedAt: timestamp('completed_at').notNull().defaultNow(),
+  score: integer('score').notNull(), // Percentage (0-100), computed server-side
+  status: varchar('status', { length: 20 }).notNull().default('graded'), // 'in_progress' | 'grading' | 'graded' | 'failed'
+  mode: varchar('mode', { length: 20 }).notNull().default('standard'), // AttemptMode: 'standard' | 'adaptive' | 'practice'
+  results: jsonb('results'), // Per-question correctness breakdown (QuestionResult[])
+  gradingVersion: integer('grading_version'), // Null for legacy client-scored attempts
+  // Timed attempts are created 'in_progress' when started and graded on submit or expiry
+  startedAt: timestamp('started_at'), // Null for attempts submitted in one request
+  deadline: timestamp('deadline'), // Null when the quiz has no time limit
+  currentQuestionIndex: integer('current_question_index').notNull().default(0), // Furthest question reached
+  questionTimes: jsonb('question_times'), // Record<questionId, seconds spent>, null when not tracked
+  permutation: jsonb('permutation'), // AttemptPermutation shown to the user, null when nothing was shuffled
+  servedQuestionIds: jsonb('served_question_ids'), // Adaptive sessions: question IDs served, in order; null for whole-quiz attempts
+  completedAt: timestamp('completed_at'), // Null until the attempt is graded
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
@@ -237,6 +348,36 @@ export const quizAttemptsRelations = relations(quizAttempts, ({ one }) => ({
   }),
 }));
 
+// Spaced repetition state per user and item (a question or a flashcard)
+export const reviewItems = pgTable(
+  'review_items',
+  {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => users.id),
+    itemType: varchar('item_type', { length: 20 }).notNull(), // 'question' | 'flashcard'
+    itemId: integer('item_id').notNull(), // questions.id or flashcards.id, depending on itemType
+    ease: real('ease').notNull(), // SM-2 ease factor
+    intervalDays: integer('interval_days').notNull().default(0),
+    repetitions: integer('repetitions').notNull().default(0), // Successful reviews in a row
+    lapses: integer('lapses').notNull().default(0),
+    dueAt: timestamp('due_at').notNull(),
+    lastReviewedAt: timestamp('last_reviewed_at').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('review_items_user_item_idx').on(table.userId, table.itemType, table.itemId),
+  ]
+);
+
+export const reviewItemsRelations = relations(reviewItems, ({ one }) => ({
+  user: one(users, {
+    fields: [reviewItems.userId],
+    references: [users.id],
+  }),
+}));
+
 // Usage tracking table
 export const usageTracking = pgTable('usage_tracking', {
   id: serial('id').primaryKey(),
@@ -246,6 +387,7 @@ export const usageTracking = pgTable('usage_tracking', {
   periodStart: timestamp('period_start').notNull(),
   periodEnd: timestamp('period_end').notNull(),
   quizGenerations: integer('quiz_generations').notNull().default(0),
+  flashcardGenerations: integer('flashcard_generations').notNull().default(0),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
@@ -268,7 +410,15 @@ export type Quiz = typeof quizzes.$inferSelect;
 export type NewQuiz = typeof quizzes.$inferInsert;
 export type Question = typeof questions.$inferSelect;
 export type NewQuestion = typeof questions.$inferInsert;
+export type FlashcardDeck = typeof flashcardDecks.$inferSelect;
+export type NewFlashcardDeck = typeof flashcardDecks.$inferInsert;
+export type Flashcard = typeof flashcards.$inferSelect;
+export type NewFlashcard = typeof flashcards.$inferInsert;
+export type StudyArtifact = typeof studyArtifacts.$inferSelect;
+export type NewStudyArtifact = typeof studyArtifacts.$inferInsert;
 export type UsageTracking = typeof usageTracking.$inferSelect;
 export type NewUsageTracking = typeof usageTracking.$inferInsert;
 export type QuizAttempt = typeof quizAttempts.$inferSelect;
-export type NewQuizAttempt = typeof quizAttempts.$inferInsert;
\ No newline at end of file
+export type NewQuizAttempt = typeof quizAttempts.$inferInsert;
+export type ReviewItem = typeof reviewItems.$inferSelect;
+export type NewReviewItem = typeof reviewItems.$inferInsert;
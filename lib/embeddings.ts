@@ -3,6 +3,7 @@
  */
 
 import OpenAI from 'openai';
+import { truncateToTokens } from './tokens';
 
 let cachedOpenAI: OpenAI | null = null;
 
@@ -40,6 +41,12 @@ function getEmbeddingDimensions(model: string): number {
   return 1536; // default for text-embedding-3-small
 }
 
+/**
+ * Embedding models accept 8191 tokens per input; counted in the generation model's
+ * encoding, so a margin is left for the two encodings splitting text differently
+ */
+const MAX_EMBEDDING_INPUT_TOKENS = 7500;
+
 /**
  * Generates embeddings for a batch of texts using OpenAI's embedding API
  * @param texts Array of texts to embed
@@ -60,7 +67,9 @@ export async function generateEmbeddings(
   const embeddings: number[][] = [];
 
   for (let i = 0; i < texts.length; i += batchSize) {
-    const batch = texts.slice(i, i + batchSize);
+    const batch = texts
+      .slice(i, i + batchSize)
+      .map((text) => truncateToTokens(text, MAX_EMBEDDING_INPUT_TOKENS));
     
     try {
       const response = await openai.embeddings.create({
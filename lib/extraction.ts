@@ -1,12 +1,13 @@
 import { unlink, readFile } from 'fs/promises';
 import { spawn } from 'child_process';
 import { platform, tmpdir } from 'os';
-import { join } from 'path';
+import { join, posix } from 'path';
 import { existsSync } from 'fs';
 import { randomBytes } from 'crypto';
 import JSZip from 'jszip';
 import { XMLParser } from 'fast-xml-parser';
 import { downloadFileFromR2, isR2Configured } from './storage';
+import { joinSegments, type TextSegment } from './chunking';
 
 const MIME = {
   pdf: 'application/pdf',
@@ -21,6 +22,8 @@ const MIME = {
 export interface ExtractionResult {
   text: string;
   method: string;
+  segments: TextSegment[]; // Text per page or slide, in document order
+  pageCount?: number; // Pages or slides, for formats that have a fixed count (PDF, PPTX)
 }
 
 /**
@@ -75,6 +78,8 @@ export async function extractTextFromDocument(
     return {
       text: result.text.trim(),
       method: result.method,
+      segments: result.segments,
+      pageCount: result.pageCount,
     };
   } finally {
     // Clean up temporary file
@@ -111,19 +116,21 @@ async function extractTextNative(
       return await extractPdf(filePath);
     }
 
+    // Word documents have no fixed page count; their pages depend on how they are laid out
     if (mimeType === MIME.docx || ext === 'docx') {
-      const text = await extractDocx(filePath);
-      return { text, method: 'node-word' };
+      const segments = await extractDocx(filePath);
+      return { text: joinSegments(segments), method: 'node-word', segments };
     }
 
     if (mimeType === MIME.pptx || ext === 'pptx') {
-      const text = await extractPptx(filePath);
-      return { text, method: 'node-pptx' };
+      const { slides, slideCount } = await extractPptx(filePath);
+      return { text: joinSegments(slides), method: 'node-pptx', segments: slides, pageCount: slideCount };
     }
 
     if (mimeType === MIME.doc || ext === 'doc') {
+      // Legacy .doc converters only produce plain text, so there are no page markers
       const text = await extractDoc(filePath);
-      return { text, method: 'node-word' };
+      return { text, method: 'node-word', segments: [{ text }] };
     }
 
     throw new Error(`Unsupported file type: ${mimeType} (ext: ${ext})`);
@@ -151,8 +158,9 @@ async function hasCommand(cmd: string): Promise<boolean> {
 /**
  * Extracts text from PDF using OCR by converting pages to images
  * and running Tesseract OCR on each page using system commands
+ * @returns Text per page, skipping pages OCR could not read, and the number of pages rendered
  */
-async function extractPdfWithOCR(filePath: string): Promise<string> {
+async function extractPdfWithOCR(filePath: string): Promise<{ pages: TextSegment[]; pageCount: number }> {
   const startedAt = Date.now();
   console.log('[extraction] OCR: starting PDF OCR extraction');
   
@@ -201,7 +209,7 @@ async function extractPdfWithOCR(filePath: string): Promise<string> {
     
     console.log('[extraction] OCR: found', files.length, 'pages to process');
     
-    const pageTexts: string[] = [];
+    const pageTexts: TextSegment[] = [];
     
     // Run OCR on each page image
     for (let i = 0; i < files.length; i++) {
@@ -227,7 +235,8 @@ async function extractPdfWithOCR(filePath: string): Promise<string> {
         
         const trimmedText = ocrText.trim();
         if (trimmedText.length > 0) {
-          pageTexts.push(trimmedText);
+          // pdftoppm names images after their page number (page-01.png, ...)
+          pageTexts.push({ text: trimmedText, page: parseInt(file.replace(/[^0-9]/g, '')) || i + 1 });
           console.log('[extraction] OCR: page extracted', { 
             pageNum: i + 1, 
             textLength: trimmedText.length 
@@ -244,7 +253,7 @@ async function extractPdfWithOCR(filePath: string): Promise<string> {
       }
     }
     
-    const combinedText = pageTexts.join('\n\n');
+    const combinedText = joinSegments(pageTexts);
     const durationMs = Date.now() - startedAt;
     console.log('[extraction] OCR: completed', { 
       durationMs, 
@@ -253,7 +262,7 @@ async function extractPdfWithOCR(filePath: string): Promise<string> {
       totalTextLength: combinedText.length 
     });
     
-    return combinedText;
+    return { pages: pageTexts, pageCount: files.length };
   } catch (error) {
     console.error('[extraction] OCR: failed', { error });
     throw error;
@@ -337,54 +346,55 @@ async function extractPdf(filePath: string): Promise<ExtractionResult> {
   
   // Try pdf-parse first (fast, works for text-based PDFs)
   console.log('[extraction] pdf: attempting pdf-parse');
-  let text = '';
+  let segments: TextSegment[] = [];
+  let pageCount: number | undefined;
   let extractionMethod = 'node-pdf';
   
   try {
-    // pdf-parse ESM module: PDFParse is a class constructor, not a default export
-    const mod = await import('pdf-parse');
-    
-    let data;
-    // Check if default exists and is a function
-    if ('default' in mod && typeof (mod as any).default === 'function') {
-      data = await (mod as any).default(buffer);
-    } else if (mod.PDFParse) {
-      // PDFParse is a class constructor - create a wrapper function that uses it correctly
-      const pdfParseWrapper = async (buf: Buffer) => {
-        const instance = new mod.PDFParse(buf);
-        // Check if instance is a promise (some constructors return promises)
-        if (instance instanceof Promise) {
-          return await instance;
-        }
-        // Check if instance has text property directly
-        if (instance && typeof instance === 'object' && 'text' in instance) {
-          return instance;
-        }
-        // Check if instance has a method to get data
-        if (typeof (instance as any).getData === 'function') {
-          return await (instance as any).getData();
-        }
-        if (typeof (instance as any).parse === 'function') {
-          return await (instance as any).parse();
-        }
-        // Fallback: return instance as-is
-        return instance;
-      };
-      data = await pdfParseWrapper(buffer);
-    } else if (typeof (mod as any) === 'function') {
-      data = await (mod as any)(buffer);
-    } else {
-      throw new Error(`pdf-parse module does not export usable function. Keys: ${Object.keys(mod).join(', ')}`);
-    }
+    const { PDFParse } = await import('pdf-parse');
+    const parser = new PDFParse({ data: buffer });
 
-    // pdf-parse returns all text in the text property
-    text = data.text || '';
-    const trimmedText = text.trim();
+    let result;
+    let tablesByPage = new Map<number, string[][][]>();
+    let outline: OutlineHeading[] = [];
+    try {
+      result = await parser.getText();
+      // Table detection is best-effort; the page text still has the cell contents without it
+      try {
+        const tableResult = await parser.getTable();
+        tablesByPage = new Map(tableResult.pages.map((page) => [page.num, page.tables]));
+      } catch (tableError) {
+        console.warn('[extraction] pdf: table detection failed', { error: tableError });
+      }
+      // Bookmarks give the section structure; without them the pages are left undivided
+      try {
+        const info = await parser.getInfo();
+        outline = flattenOutline(info.outline ?? []);
+      } catch (outlineError) {
+        console.warn('[extraction] pdf: outline read failed', { error: outlineError });
+      }
+    } finally {
+      await parser.destroy();
+    }
+    pageCount = result.total;
+
+    // Keep pages separate so chunks can cite the page they came from
+    segments = splitByOutline(
+      result.pages.map((page) => ({
+        text: insertPdfTables(page.text, tablesByPage.get(page.num) ?? []).trim(),
+        page: page.num,
+      })),
+      outline
+    );
+    const trimmedText = joinSegments(segments);
 
     // Check if extraction quality is good
     if (trimmedText && isExtractionQualityGood(trimmedText)) {
-      console.log('[extraction] pdf: pdf-parse succeeded', { textLength: trimmedText.length });
-      return { text: trimmedText, method: 'node-pdf' };
+      console.log('[extraction] pdf: pdf-parse succeeded', {
+        textLength: trimmedText.length,
+        pageCount: result.total,
+      });
+      return { text: trimmedText, method: 'node-pdf', segments, pageCount };
     }
 
     // Quality check failed - fallback to OCR
@@ -399,25 +409,137 @@ async function extractPdf(filePath: string): Promise<ExtractionResult> {
   // Fallback to OCR
   try {
     console.log('[extraction] pdf: starting OCR extraction');
-    const ocrText = await extractPdfWithOCR(filePath);
+    const ocr = await extractPdfWithOCR(filePath);
+    const ocrText = joinSegments(ocr.pages);
     extractionMethod = 'node-pdf+ocr';
     
     // If OCR also fails or returns empty, return the original pdf-parse result if available
-    if (!ocrText || ocrText.trim().length === 0) {
+    if (!ocrText) {
       console.warn('[extraction] pdf: OCR returned empty text, using pdf-parse result');
-      return { text: text || '', method: 'node-pdf' };
+      return { text: joinSegments(segments), method: 'node-pdf', segments, pageCount };
     }
     
-    console.log('[extraction] pdf: OCR succeeded', { textLength: ocrText.trim().length });
-    return { text: ocrText.trim(), method: extractionMethod };
+    console.log('[extraction] pdf: OCR succeeded', { textLength: ocrText.length });
+    return { text: ocrText, method: extractionMethod, segments: ocr.pages, pageCount: ocr.pageCount };
   } catch (ocrError) {
     console.error('[extraction] pdf: OCR failed', { error: ocrError });
     // Return whatever we got from pdf-parse, even if it's empty or poor quality
-    return { text: text || '', method: 'node-pdf' };
+    return { text: joinSegments(segments), method: 'node-pdf', segments, pageCount };
+  }
+}
+
+/**
+ * A PDF bookmark flattened in reading order, with its depth in the outline (1 = top level)
+ */
+interface OutlineHeading {
+  title: string;
+  level: number;
+}
+
+function flattenOutline(
+  nodes: { title: string; items?: unknown[] }[],
+  level = 1,
+  headings: OutlineHeading[] = []
+): OutlineHeading[] {
+  for (const node of nodes) {
+    const title = String(node.title ?? '').replace(/\s+/g, ' ').trim();
+    if (title) headings.push({ title, level });
+    flattenOutline((node.items ?? []) as { title: string; items?: unknown[] }[], level + 1, headings);
+  }
+  return headings;
+}
+
+/**
+ * How many bookmarks past an unmatched one to look for the next heading line
+ */
+const OUTLINE_LOOKAHEAD = 5;
+
+/**
+ * Splits PDF pages where outline headings start, giving each piece its heading path
+ * Bookmark destinations are not resolved to pages by pdf-parse, so headings are placed by
+ * finding a line that is exactly the bookmark title, in outline order. Contents pages don't
+ * match because their lines carry page numbers.
+ */
+function splitByOutline(pages: TextSegment[], outline: OutlineHeading[]): TextSegment[] {
+  if (outline.length === 0) {
+    return pages;
+  }
+
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+  const segments: TextSegment[] = [];
+  let next = 0;
+  let headingPath: string[] = [];
+
+  for (const page of pages) {
+    let lines: string[] = [];
+    const flush = () => {
+      const text = lines.join('\n').trim();
+      if (text) {
+        segments.push({ text, page: page.page, ...(headingPath.length > 0 ? { headingPath } : {}) });
+      }
+      lines = [];
+    };
+
+    for (const line of page.text.split('\n')) {
+      const key = normalize(line);
+      const match = key
+        ? outline
+            .slice(next, next + OUTLINE_LOOKAHEAD)
+            .findIndex((heading) => normalize(heading.title) === key)
+        : -1;
+      if (match !== -1) {
+        flush();
+        const heading = outline[next + match];
+        headingPath = [...headingPath.slice(0, heading.level - 1), heading.title];
+        next += match + 1;
+      }
+      lines.push(line);
+    }
+    flush();
+  }
+
+  return segments;
+}
+
+/**
+ * Replaces the flattened lines of each detected table in a PDF page's text with a Markdown table
+ * Tables whose lines cannot be found are appended to the end of the page instead.
+ */
+function insertPdfTables(pageText: string, tables: string[][][]): string {
+  const key = (text: string) => text.replace(/\s+/g, '').toLowerCase();
+  let lines = pageText.split('\n');
+  const appended: string[] = [];
+
+  for (const table of tables) {
+    const markdown = formatMarkdownTable(table);
+    if (!markdown) continue;
+
+    // Cells on a row are separated by tabs in the page text, so whole rows match a line
+    const rowKeys = table.map((row) => key(row.join(''))).filter(Boolean);
+    const first = rowKeys.length > 0 ? lines.findIndex((line) => key(line).includes(rowKeys[0])) : -1;
+    const last =
+      first === -1
+        ? -1
+        : lines.findIndex((line, i) => i >= first && key(line).includes(rowKeys[rowKeys.length - 1]));
+
+    // Only replace when the span is plausibly just the table
+    if (first === -1 || last === -1 || last - first > table.length * 4) {
+      appended.push(markdown);
+      continue;
+    }
+    lines = [...lines.slice(0, first), '', markdown, '', ...lines.slice(last + 1)];
   }
+
+  return [lines.join('\n'), ...appended].join('\n\n');
 }
 
-async function extractDocx(filePath: string): Promise<string> {
+/**
+ * Extracts DOCX paragraphs and tables grouped by page and heading
+ * DOCX files have no fixed pages, so pages come from the page breaks Word recorded the
+ * last time it laid out the document, or from explicit page breaks if it recorded none.
+ * Headings are paragraphs whose style (or direct formatting) has an outline level.
+ */
+async function extractDocx(filePath: string): Promise<TextSegment[]> {
   const buffer = await readFile(filePath);
   const zip = await JSZip.loadAsync(buffer);
 
@@ -427,104 +549,258 @@ async function extractDocx(filePath: string): Promise<string> {
   }
 
   const xmlContent = await documentXml.async('string');
+  // Keep element order so tables stay where they appear between paragraphs
   const parser = new XMLParser({
     ignoreAttributes: false,
     textNodeName: '_text',
-    isArray: (name) => {
-      // Handle arrays for common Word elements
-      return ['w:p', 'w:r', 'w:t'].includes(name);
-    },
+    preserveOrder: true,
   });
-  const parsed = parser.parse(xmlContent);
-
-  const paragraphs: string[] = [];
-
-  // Find all paragraph nodes (w:p)
-  const findAllParagraphs = (node: any): any[] => {
-    const results: any[] = [];
-    
-    if (!node || typeof node !== 'object') {
-      return results;
+  const parsed: OrderedNode[] = parser.parse(xmlContent);
+
+  const blocks: DocxBlock[] = [];
+  collectDocxBlocks(parsed, blocks, await readDocxHeadingStyles(zip));
+
+  const useRendered = blocks.some((b) => b.renderedBreaks > 0);
+  const hasPages = useRendered || blocks.some((b) => b.explicitBreaks > 0);
+
+  // Block-level precision: a paragraph or table containing a break is counted on the new page
+  const sections: { page?: number; headingPath: string[]; blocks: DocxBlock[] }[] = [];
+  let page = 1;
+  let headingPath: string[] = [];
+  for (const block of blocks) {
+    page += useRendered ? block.renderedBreaks : block.explicitBreaks;
+    if (!block.text) continue;
+    if (block.headingLevel !== undefined) {
+      headingPath = [...headingPath.slice(0, block.headingLevel - 1), block.text.replace(/\s+/g, ' ')];
     }
 
-    // Check if this node itself is a paragraph or contains paragraphs
-    if (node['w:p']) {
-      const paras = Array.isArray(node['w:p']) ? node['w:p'] : [node['w:p']];
-      results.push(...paras);
+    const current = sections[sections.length - 1];
+    if (current && (!hasPages || current.page === page) && current.headingPath === headingPath) {
+      current.blocks.push(block);
+    } else {
+      sections.push({ ...(hasPages ? { page } : {}), headingPath, blocks: [block] });
     }
+  }
 
-    // Recursively search children
-    for (const key in node) {
-      if (key !== '_text' && typeof node[key] === 'object') {
-        if (Array.isArray(node[key])) {
-          node[key].forEach((item: any) => {
-            results.push(...findAllParagraphs(item));
-          });
-        } else {
-          results.push(...findAllParagraphs(node[key]));
-        }
-      }
-    }
+  return sections.map((section) => ({
+    text: joinBlocks(section.blocks),
+    ...(section.page !== undefined ? { page: section.page } : {}),
+    ...(section.headingPath.length > 0 ? { headingPath: section.headingPath } : {}),
+  }));
+}
 
-    return results;
+/**
+ * Maps paragraph style IDs to heading levels (1 = top level) using word/styles.xml
+ * A style is a heading if it is named "heading N", sets an outline level, or is based on a heading style.
+ */
+async function readDocxHeadingStyles(zip: JSZip): Promise<Map<string, number>> {
+  const levels = new Map<string, number>();
+  const stylesXml = zip.file('word/styles.xml');
+  if (!stylesXml) {
+    return levels;
+  }
+
+  const parser = new XMLParser({ ignoreAttributes: false, textNodeName: '_text' });
+  const parsed = parser.parse(await stylesXml.async('string'));
+  const styles = parsed?.['w:styles']?.['w:style'];
+  const list: any[] = Array.isArray(styles) ? styles : styles ? [styles] : [];
+
+  const byId = new Map(list.map((style) => [String(style['@_w:styleId']), style]));
+  const resolve = (id: string, depth: number): number | undefined => {
+    const style = byId.get(id);
+    if (!style || depth > 10) return undefined;
+    const named = /^heading\s*(\d)$/i.exec(String(style['w:name']?.['@_w:val'] ?? ''));
+    if (named) return Number(named[1]);
+    const outline = Number(style['w:pPr']?.['w:outlineLvl']?.['@_w:val']);
+    if (Number.isInteger(outline) && outline < 9) return outline + 1;
+    const basedOn = style['w:basedOn']?.['@_w:val'];
+    return basedOn ? resolve(String(basedOn), depth + 1) : undefined;
   };
 
-  const paragraphNodes = findAllParagraphs(parsed);
+  for (const id of byId.keys()) {
+    const level = resolve(id, 0);
+    if (level !== undefined) levels.set(id, level);
+  }
+  return levels;
+}
 
-  // Extract text from each paragraph
-  for (const para of paragraphNodes) {
-    const parts: string[] = [];
+/**
+ * Heading level of a paragraph from its direct outline level or its style, if it is a heading
+ */
+function docxHeadingLevel(paragraph: OrderedNode, headingStyles: Map<string, number>): number | undefined {
+  const properties = childNodes(paragraph).find((n) => tagName(n) === 'w:pPr');
+  if (!properties) return undefined;
+
+  const outline = childNodes(properties).find((n) => tagName(n) === 'w:outlineLvl');
+  const outlineLevel = Number(outline?.[':@']?.['@_w:val']);
+  if (Number.isInteger(outlineLevel)) {
+    return outlineLevel < 9 ? outlineLevel + 1 : undefined;
+  }
 
-    // Recursively extract text from all nodes in the paragraph
-    const extractFromNode = (n: any): void => {
-      if (!n || typeof n !== 'object') return;
+  const style = childNodes(properties).find((n) => tagName(n) === 'w:pStyle');
+  const styleId = style?.[':@']?.['@_w:val'];
+  return styleId !== undefined ? headingStyles.get(String(styleId)) : undefined;
+}
 
-      // Text node (w:t)
-      if (n['w:t']) {
-        const textNodes = Array.isArray(n['w:t']) ? n['w:t'] : [n['w:t']];
-        textNodes.forEach((t: any) => {
-          if (t && t._text) {
-            parts.push(String(t._text));
-          } else if (typeof t === 'string') {
-            parts.push(t);
-          }
-        });
-      }
+/**
+ * Node from a `preserveOrder` XML parse: `{ [tagName]: children, ':@': attributes }`
+ */
+type OrderedNode = Record<string, any>;
 
-      // Tab node
-      if (n['w:tab']) {
-        parts.push('\t');
-      }
+function tagName(node: OrderedNode): string | undefined {
+  return Object.keys(node).find((key) => key !== ':@');
+}
 
-      // Break nodes
-      if (n['w:br'] || n['w:cr']) {
-        parts.push('\n');
-      }
+function childNodes(node: OrderedNode): OrderedNode[] {
+  const name = tagName(node);
+  return name && Array.isArray(node[name]) ? node[name] : [];
+}
 
-      // Recursively process children
-      for (const key in n) {
-        if (key !== '_text' && typeof n[key] === 'object') {
-          if (Array.isArray(n[key])) {
-            n[key].forEach((item: any) => extractFromNode(item));
-          } else {
-            extractFromNode(n[key]);
-          }
-        }
-      }
-    };
+/**
+ * A top-level paragraph or table in a DOCX body
+ */
+interface DocxBlock {
+  text: string;
+  table: boolean;
+  headingLevel?: number; // Set on heading paragraphs, 1 = top level
+  renderedBreaks: number; // w:lastRenderedPageBreak markers inside the block
+  explicitBreaks: number; // w:br type="page" markers inside the block
+}
 
-    extractFromNode(para);
+/**
+ * Collects paragraphs and tables in document order
+ * Wrappers such as content controls (w:sdt) are searched for the blocks they contain.
+ */
+function collectDocxBlocks(
+  nodes: OrderedNode[],
+  blocks: DocxBlock[],
+  headingStyles: Map<string, number>
+): void {
+  for (const node of nodes) {
+    const name = tagName(node);
+    if (name === 'w:p') {
+      const block: DocxBlock = { text: '', table: false, renderedBreaks: 0, explicitBreaks: 0 };
+      const parts: string[] = [];
+      readDocxRuns(childNodes(node), parts, block);
+      block.text = parts.join('').trim();
+      const headingLevel = docxHeadingLevel(node, headingStyles);
+      if (headingLevel !== undefined) block.headingLevel = headingLevel;
+      blocks.push(block);
+    } else if (name === 'w:tbl') {
+      blocks.push(readDocxTable(node));
+    } else {
+      collectDocxBlocks(childNodes(node), blocks, headingStyles);
+    }
+  }
+}
+
+/**
+ * Reads the text of a paragraph's runs, counting any page breaks on the block
+ */
+function readDocxRuns(nodes: OrderedNode[], parts: string[], block: DocxBlock): void {
+  for (const node of nodes) {
+    switch (tagName(node)) {
+      case 'w:t':
+        childNodes(node).forEach((t) => {
+          if (t._text !== undefined) parts.push(String(t._text));
+        });
+        break;
+      case 'w:tab':
+        parts.push('\t');
+        break;
+      case 'w:br':
+        parts.push('\n');
+        if (node[':@']?.['@_w:type'] === 'page') block.explicitBreaks++;
+        break;
+      case 'w:cr':
+        parts.push('\n');
+        break;
+      case 'w:lastRenderedPageBreak':
+        block.renderedBreaks++;
+        break;
+      default:
+        readDocxRuns(childNodes(node), parts, block);
+    }
+  }
+}
 
-    const paragraphText = parts.join('').trim();
-    if (paragraphText) {
-      paragraphs.push(paragraphText);
+/**
+ * Reads a w:tbl as a Markdown table
+ * Each cell's paragraphs (and any nested table) are flattened onto one line.
+ */
+function readDocxTable(table: OrderedNode): DocxBlock {
+  const block: DocxBlock = { text: '', table: true, renderedBreaks: 0, explicitBreaks: 0 };
+  const rows: string[][] = [];
+
+  for (const row of childNodes(table).filter((n) => tagName(n) === 'w:tr')) {
+    const cells: string[] = [];
+    for (const cell of childNodes(row).filter((n) => tagName(n) === 'w:tc')) {
+      // Headings inside table cells are treated as cell text
+      const cellBlocks: DocxBlock[] = [];
+      collectDocxBlocks(childNodes(cell), cellBlocks, new Map());
+      cellBlocks.forEach((b) => {
+        block.renderedBreaks += b.renderedBreaks;
+        block.explicitBreaks += b.explicitBreaks;
+      });
+      cells.push(cellBlocks.map((b) => b.text).filter(Boolean).join(' '));
+
+      // Horizontally merged cells keep the grid aligned with empty cells
+      const properties = childNodes(cell).find((n) => tagName(n) === 'w:tcPr');
+      const gridSpan = properties && childNodes(properties).find((n) => tagName(n) === 'w:gridSpan');
+      const span = Number(gridSpan?.[':@']?.['@_w:val']) || 1;
+      for (let i = 1; i < span; i++) cells.push('');
     }
+    rows.push(cells);
+  }
+
+  block.text = formatMarkdownTable(rows);
+  return block;
+}
+
+/**
+ * Joins paragraphs with line breaks, setting tables apart with blank lines so they
+ * are chunked as their own paragraphs
+ */
+function joinBlocks(blocks: { text: string; table: boolean }[]): string {
+  return blocks
+    .filter((block) => block.text)
+    .reduce((text, block, index, all) => {
+      if (index === 0) return block.text;
+      const separator = block.table || all[index - 1].table ? '\n\n' : '\n';
+      return text + separator + block.text;
+    }, '');
+}
+
+/**
+ * Formats table rows as a Markdown table, using the first row as the header
+ * Single-cell tables (often used as text boxes) are returned as plain text.
+ */
+function formatMarkdownTable(rows: string[][]): string {
+  const cleaned = rows
+    .map((row) => row.map((cell) => cell.replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|')))
+    .filter((row) => row.some((cell) => cell.length > 0));
+  if (cleaned.length === 0) {
+    return '';
   }
 
-  return paragraphs.join('\n').trim();
+  const columns = Math.max(...cleaned.map((row) => row.length));
+  if (columns === 1 && cleaned.length === 1) {
+    return cleaned[0][0];
+  }
+
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  return [
+    line(cleaned[0]),
+    line(Array(columns).fill('---')),
+    ...cleaned.slice(1).map(line),
+  ].join('\n');
 }
 
-async function extractPptx(filePath: string): Promise<string> {
+/**
+ * Extracts slide text in deck order; slides without text are skipped but still counted
+ */
+async function extractPptx(filePath: string): Promise<{ slides: TextSegment[]; slideCount: number }> {
   const buffer = await readFile(filePath);
   const zip = await JSZip.loadAsync(buffer);
 
@@ -547,53 +823,183 @@ async function extractPptx(filePath: string): Promise<string> {
     textNodeName: '_text',
   });
 
-  const slideTexts: string[] = [];
+  // File numbers follow creation order; the deck's own slide list gives the displayed order
+  const orderedSlides = (await readSlideOrder(zip, parser)) ?? slideFiles;
+
+  const slideTexts: TextSegment[] = [];
 
-  for (const slideName of slideFiles) {
+  for (const [position, slideName] of orderedSlides.entries()) {
     const slideFile = zip.file(slideName);
     if (!slideFile) continue;
 
     const xmlContent = await slideFile.async('string');
     const parsed = parser.parse(xmlContent);
 
+    // Title placeholders become the slide title instead of body text
+    const titleTexts: string[] = [];
     const texts: string[] = [];
+    collectDrawingText(parsed, texts, (shape) => {
+      if (!TITLE_PLACEHOLDERS.includes(placeholderType(shape) ?? '')) {
+        return true;
+      }
+      collectDrawingText(shape, titleTexts);
+      return false;
+    });
 
-    const collectText = (node: any): void => {
-      if (!node || typeof node !== 'object') return;
+    const title = titleTexts.join(' ').replace(/\s+/g, ' ').trim();
+    const notes = await readSpeakerNotes(zip, parser, slideName);
+    const parts = [
+      title,
+      texts.join('\n').trim(),
+      notes ? `Speaker notes:\n${notes}` : '',
+    ].filter((part) => part.length > 0);
+
+    if (parts.length > 0) {
+      slideTexts.push({
+        text: parts.join('\n\n'),
+        slide: position + 1,
+        ...(title ? { title, headingPath: [title] } : {}),
+      });
+    }
+  }
 
-      // Check for text nodes in drawing namespace
-      if (node['a:t']) {
-        if (Array.isArray(node['a:t'])) {
-          node['a:t'].forEach((t: any) => {
-            if (t._text) texts.push(String(t._text));
-            else if (typeof t === 'string') texts.push(t);
-          });
-        } else {
-          if (node['a:t']._text) texts.push(String(node['a:t']._text));
-          else if (typeof node['a:t'] === 'string') texts.push(node['a:t']);
-        }
-      }
+  return { slides: slideTexts, slideCount: orderedSlides.length };
+}
 
-      // Recursively process children
-      for (const key in node) {
-        if (key !== '_text' && typeof node[key] === 'object') {
-          if (Array.isArray(node[key])) {
-            node[key].forEach((item: any) => collectText(item));
-          } else {
-            collectText(node[key]);
-          }
+const TITLE_PLACEHOLDERS = ['title', 'ctrTitle'];
+
+/**
+ * Placeholder type of a p:sp shape (title, body, sldNum, ...), if it is a placeholder
+ */
+function placeholderType(shape: any): string | undefined {
+  return shape?.['p:nvSpPr']?.['p:nvPr']?.['p:ph']?.['@_type'];
+}
+
+/**
+ * Collects a:t text runs under a node
+ * @param onShape Called for each p:sp shape; return false to skip the shape's text
+ */
+function collectDrawingText(
+  node: any,
+  texts: string[],
+  onShape?: (shape: any) => boolean
+): void {
+  if (!node || typeof node !== 'object') return;
+
+  // Check for text nodes in drawing namespace
+  if (node['a:t'] !== undefined) {
+    const textNodes = Array.isArray(node['a:t']) ? node['a:t'] : [node['a:t']];
+    textNodes.forEach((t: any) => {
+      if (t?._text !== undefined) texts.push(String(t._text));
+      else if (typeof t === 'string' || typeof t === 'number') texts.push(String(t));
+    });
+  }
+
+  // Recursively process children
+  for (const key in node) {
+    if (key !== '_text' && typeof node[key] === 'object') {
+      const children = Array.isArray(node[key]) ? node[key] : [node[key]];
+      children.forEach((child: any) => {
+        if (key === 'p:sp' && onShape && !onShape(child)) return;
+        if (key === 'a:tbl') {
+          // Blank lines keep the table a paragraph of its own
+          const table = readDrawingTable(child);
+          if (table) texts.push(`\n${table}\n`);
+          return;
         }
-      }
-    };
+        collectDrawingText(child, texts, onShape);
+      });
+    }
+  }
+}
+
+/**
+ * Reads an a:tbl (PowerPoint table) as a Markdown table
+ */
+function readDrawingTable(table: any): string {
+  const toArray = (value: any): any[] => (Array.isArray(value) ? value : value ? [value] : []);
+  const rows = toArray(table?.['a:tr']).map((row: any) =>
+    toArray(row?.['a:tc']).map((cell: any) => {
+      const texts: string[] = [];
+      collectDrawingText(cell, texts);
+      return texts.join(' ');
+    })
+  );
+  return formatMarkdownTable(rows);
+}
+
+/**
+ * Reads the speaker notes attached to a slide
+ * Only the notes body placeholder is used; the slide thumbnail and slide number are skipped.
+ */
+async function readSpeakerNotes(zip: JSZip, parser: XMLParser, slidePath: string): Promise<string> {
+  const notesRel = (await readRelationships(zip, parser, slidePath)).find((rel) =>
+    rel.type.endsWith('/notesSlide')
+  );
+  const notesFile = notesRel ? zip.file(notesRel.target) : null;
+  if (!notesFile) {
+    return '';
+  }
 
-    collectText(parsed);
+  const parsed = parser.parse(await notesFile.async('string'));
+  const texts: string[] = [];
+  collectDrawingText(parsed, texts, (shape) => placeholderType(shape) === 'body');
+
+  return texts.join('\n').trim();
+}
+
+/**
+ * Reads a package part's relationships, with targets resolved to zip paths
+ */
+async function readRelationships(
+  zip: JSZip,
+  parser: XMLParser,
+  partPath: string
+): Promise<{ id: string; type: string; target: string }[]> {
+  const relsPath = posix.join(posix.dirname(partPath), '_rels', `${posix.basename(partPath)}.rels`);
+  const relsFile = zip.file(relsPath);
+  if (!relsFile) {
+    return [];
+  }
 
-    if (texts.length > 0) {
-      slideTexts.push(texts.join('\n').trim());
+  const rels = parser.parse(await relsFile.async('string'));
+  const relationships = rels?.Relationships?.Relationship;
+  return (Array.isArray(relationships) ? relationships : relationships ? [relationships] : []).map(
+    (rel: any) => {
+      // Targets are relative to the part's folder unless absolute within the package
+      const target = String(rel['@_Target']);
+      return {
+        id: String(rel['@_Id']),
+        type: String(rel['@_Type'] ?? ''),
+        target: target.startsWith('/')
+          ? target.slice(1)
+          : posix.normalize(posix.join(posix.dirname(partPath), target)),
+      };
     }
+  );
+}
+
+/**
+ * Reads slide file paths in presentation order from ppt/presentation.xml
+ * @returns Ordered paths, or null if the deck's slide list cannot be resolved
+ */
+async function readSlideOrder(zip: JSZip, parser: XMLParser): Promise<string[] | null> {
+  const presentationFile = zip.file('ppt/presentation.xml');
+  if (!presentationFile) {
+    return null;
   }
 
-  return slideTexts.join('\n\n').trim();
+  const presentation = parser.parse(await presentationFile.async('string'));
+  const targets = new Map(
+    (await readRelationships(zip, parser, 'ppt/presentation.xml')).map((rel) => [rel.id, rel.target])
+  );
+
+  const slideIds = presentation?.['p:presentation']?.['p:sldIdLst']?.['p:sldId'];
+  const slides = (Array.isArray(slideIds) ? slideIds : slideIds ? [slideIds] : [])
+    .map((slide: any) => targets.get(slide['@_r:id']))
+    .filter((path): path is string => !!path && !!zip.file(path));
+
+  return slides.length > 0 ? slides : null;
 }
 
 async function extractDoc(filePath: string): Promise<string> {
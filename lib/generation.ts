@@ -4,20 +4,82 @@
 
 import OpenAI from 'openai';
 import { findChunksForQuestionGeneration } from './vector-search';
-import { estimateTokenCount } from './chunking';
+import {
+  chunkSegments,
+  joinSegments,
+  locateInChunk,
+  type Chunk,
+  type ChunkMetadata,
+  type TextSegment,
+} from './chunking';
+import { formatHeadingPath } from './headings';
+import { countTokens } from './tokens';
+import type { DocumentChunk } from './db/schema';
+import {
+  BLOOM_LEVELS,
+  QUESTION_TYPES,
+  isBloomLevel,
+  isDifficulty,
+  isQuestionType,
+  isVerificationVerdict,
+  type AnswerKey,
+  type BloomLevel,
+  type Difficulty,
+  type FillBlankAnswer,
+  type QuestionType,
+  type QuestionVerification,
+  type ShortAnswerKey,
+} from './questions';
+import type { RubricScore } from './grading';
+import type {
+  GlossaryEntry,
+  OutlineNode,
+  StudyArtifactContent,
+  StudyArtifactKind,
+} from './study-artifacts';
 
 export interface GeneratedQuestion {
+  type: QuestionType;
   prompt: string;
-  choices: string[];
-  answer: number; // Index of correct answer
+  choices: string[] | null; // Null for true_false, fill_blank and short_answer
+  answer: AnswerKey; // Shape depends on type, see lib/questions.ts
   explanation: string;
-  sourceRef?: {
-    page?: number;
-    slide?: number;
-    text?: string;
-  };
+  difficulty: Difficulty;
+  bloomLevel: BloomLevel;
+  sourceRef?: SourceRef;
+}
+
+export interface SourceRef {
+  page?: number;
+  slide?: number;
+  slideTitle?: string;
+  headingPath?: string[]; // Section the excerpt sits in, outermost heading first
+  text?: string;
+  chunkId?: number; // Chunk the question was generated from
+  chunkIndex?: number;
+}
+
+export interface QuizGenerationOptions {
+  questionTypes?: QuestionType[]; // Type mix, defaults to multiple choice only
+  difficulty?: Difficulty; // Target difficulty, defaults to medium
+  bloomLevels?: BloomLevel[]; // Cognitive-level mix, defaults to all levels
+  focus?: string | null; // Topic focus; undefined reuses the document's previous focus, null clears it
+  mode?: GenerationMode; // Defaults to standard
 }
 
+/**
+ * standard: one call over the most relevant chunks that fit the context budget
+ * full_coverage: map-reduce over every section of the document
+ */
+export const GENERATION_MODES = ['standard', 'full_coverage'] as const;
+
+export type GenerationMode = (typeof GENERATION_MODES)[number];
+
+export const MAX_FOCUS_LENGTH = 200;
+
+export const DEFAULT_QUESTION_TYPES: QuestionType[] = ['multiple_choice'];
+export const DEFAULT_DIFFICULTY: Difficulty = 'medium';
+
 let cachedOpenAI: OpenAI | null = null;
 
 function getOpenAIClient(): OpenAI {
@@ -39,17 +101,19 @@ function getOpenAIClient(): OpenAI {
  * Generate questions using RAG - retrieves relevant chunks from the document
  * @param documentId Document ID to generate questions for
  * @param count Number of questions to generate
+ * @param options Generation options such as the question type mix
  * @returns Array of generated questions
  */
 export async function generateQuestions(
   documentId: number,
-  count: number = 8
+  count: number = 8,
+  options: QuizGenerationOptions = {}
 ): Promise<GeneratedQuestion[]> {
   const openai = getOpenAIClient();
 
   // Retrieve relevant chunks using RAG
   console.log('[rag] Retrieving chunks for document', documentId);
-  const chunks = await findChunksForQuestionGeneration(documentId, count);
+  const chunks = await findChunksForQuestionGeneration(documentId, count, { focus: options.focus });
   console.log('[rag] Retrieved', chunks.length, 'chunks');
 
   if (chunks.length === 0) {
@@ -59,11 +123,11 @@ export async function generateQuestions(
   // Combine chunks into text, respecting token limits
   // Target: ~20-25k tokens for content (leaving room for prompt/response)
   const maxTokens = 25000;
-  const combinedChunks: string[] = [];
+  const combinedChunks: DocumentChunk[] = [];
   let totalTokens = 0;
 
   for (const chunk of chunks) {
-    const chunkTokens = chunk.tokenCount || estimateTokenCount(chunk.text);
+    const chunkTokens = chunk.tokenCount || countTokens(chunk.text);
     
     if (totalTokens + chunkTokens > maxTokens) {
       // If adding this chunk would exceed limit, stop
@@ -73,30 +137,405 @@ export async function generateQuestions(
       }
     }
 
-    combinedChunks.push(chunk.text);
+    combinedChunks.push(chunk);
     totalTokens += chunkTokens;
   }
 
-  const combinedText = combinedChunks.join('\n\n');
   console.log('[rag] Combined', combinedChunks.length, 'chunks into', totalTokens, 'tokens');
 
-  const systemPrompt = `You are an expert educator creating high-quality multiple-choice quiz questions from educational content. 
+  return requestQuestions(openai, combinedChunks, count, options);
+}
+
+export interface ExampleQuestion {
+  type: QuestionType;
+  prompt: string;
+  difficulty: Difficulty | null;
+  bloomLevel: BloomLevel | null;
+}
+
+/**
+ * Generate a replacement for one question from the same source chunk, keeping its type
+ * @param sourceChunk Chunk the original question was generated from
+ * @param original The question being replaced
+ * @param focus Quiz topic focus, if any
+ * @returns A new question that differs from the original
+ */
+export async function generateReplacementQuestion(
+  sourceChunk: DocumentChunk,
+  original: ExampleQuestion,
+  focus?: string | null
+): Promise<GeneratedQuestion> {
+  const openai = getOpenAIClient();
+
+  const [question] = await requestQuestions(
+    openai,
+    [sourceChunk],
+    1,
+    {
+      questionTypes: [original.type],
+      difficulty: original.difficulty ?? undefined,
+      bloomLevels: original.bloomLevel ? [original.bloomLevel] : undefined,
+      focus,
+    },
+    { avoidPrompts: [original.prompt] }
+  );
+
+  return question;
+}
+
+/**
+ * Generate more questions in the style of existing ones
+ * The type mix, difficulty and cognitive levels follow the examples.
+ * @param chunks Chunks to generate from (usually the examples' source chunks and their neighbours)
+ * @param examples Questions to imitate
+ * @param count Number of new questions
+ * @param existingPrompts Prompts already in the quiz, which must not be repeated
+ * @param focus Quiz topic focus, if any
+ */
+export async function generateSimilarQuestions(
+  chunks: DocumentChunk[],
+  examples: ExampleQuestion[],
+  count: number,
+  existingPrompts: string[],
+  focus?: string | null
+): Promise<GeneratedQuestion[]> {
+  const openai = getOpenAIClient();
+
+  if (chunks.length === 0) {
+    throw new Error('No chunks found for document. Please ensure the document has been processed.');
+  }
+
+  // Use the most common difficulty among the examples
+  const difficultyCounts = new Map<Difficulty, number>();
+  for (const example of examples) {
+    if (example.difficulty) {
+      difficultyCounts.set(example.difficulty, (difficultyCounts.get(example.difficulty) ?? 0) + 1);
+    }
+  }
+  const difficulty = [...difficultyCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const bloomLevels = [...new Set(examples.map((e) => e.bloomLevel).filter((l) => l !== null))];
+
+  const questions = await requestQuestions(
+    openai,
+    chunks,
+    count,
+    {
+      questionTypes: [...new Set(examples.map((e) => e.type))],
+      difficulty,
+      bloomLevels: bloomLevels.length > 0 ? bloomLevels : undefined,
+      focus,
+    },
+    { avoidPrompts: existingPrompts, examplePrompts: examples.map((e) => e.prompt) }
+  );
+
+  // The model sometimes paraphrases an existing question despite the instructions
+  const unique = questions.filter(
+    (question) => !existingPrompts.some((prompt) => isNearDuplicate(prompt, question.prompt))
+  );
+
+  if (unique.length === 0) {
+    throw new Error('No new questions generated: every candidate duplicated an existing question');
+  }
+
+  return unique;
+}
+
+// Map-reduce generation settings
+const SECTION_MAX_TOKENS = 12000;
+const MAX_SECTIONS = 24;
+const MAX_PARALLEL_SECTIONS = 4;
+const CANDIDATE_MULTIPLIER = 1.5; // Over-generate so dedupe and balancing have room
+const DUPLICATE_SIMILARITY = 0.6;
+
+export interface CoverageSection {
+  chunkStart: number; // First chunk index in the section
+  chunkEnd: number; // Last chunk index in the section
+  chunkCount: number; // Chunks sent to the model (may be sampled for very long documents)
+  candidates: number; // Candidate questions after dedupe
+  selected: number; // Questions kept in the final quiz
+  failed?: boolean; // Candidate generation failed for this section
+}
+
+export interface CoverageReport {
+  mode: 'full_coverage';
+  totalChunks: number;
+  coveredChunks: number; // Distinct chunks at least one selected question came from
+  sections: CoverageSection[];
+}
+
+interface ChunkSection {
+  chunks: DocumentChunk[];
+  chunkStart: number;
+  chunkEnd: number;
+}
+
+/**
+ * Generate questions across the whole document with map-reduce
+ * Map: splits the document into sections and generates candidates per section in parallel.
+ * Reduce: drops near-duplicate questions and picks a set balanced across sections and types.
+ * @param documentId Document ID to generate questions for
+ * @param count Number of questions to generate
+ * @param options Generation options such as the question type mix
+ * @returns Selected questions in document order plus a coverage report
+ */
+export async function generateQuestionsWithFullCoverage(
+  documentId: number,
+  count: number = 8,
+  options: QuizGenerationOptions = {}
+): Promise<{ questions: GeneratedQuestion[]; coverage: CoverageReport }> {
+  const openai = getOpenAIClient();
+
+  console.log('[rag] Retrieving all chunks for document', documentId);
+  const chunks = await findChunksForQuestionGeneration(documentId, count, {
+    focus: options.focus,
+    fullCoverage: true,
+  });
+
+  if (chunks.length === 0) {
+    throw new Error('No chunks found for document. Please ensure the document has been processed.');
+  }
+
+  const sections = splitIntoSections(chunks);
+  const candidatesPerSection = Math.max(
+    2,
+    Math.ceil((count * CANDIDATE_MULTIPLIER) / sections.length)
+  );
+  console.log('[rag] Split', chunks.length, 'chunks into', sections.length, 'sections');
+
+  // Map: a failed section is reported in the coverage instead of failing the whole quiz
+  const sectionResults = await mapWithConcurrency(sections, MAX_PARALLEL_SECTIONS, async (section) => {
+    try {
+      return await requestQuestions(openai, section.chunks, candidatesPerSection, options);
+    } catch (error) {
+      console.error('[rag] Section generation failed', {
+        chunkStart: section.chunkStart,
+        chunkEnd: section.chunkEnd,
+        error: error instanceof Error ? error.message : error,
+      });
+      return null;
+    }
+  });
+
+  if (sectionResults.every((result) => !result || result.length === 0)) {
+    throw new Error('Failed to generate questions: no section produced valid questions');
+  }
+
+  // Reduce: dedupe across the whole document, earlier sections win ties
+  const kept: GeneratedQuestion[] = [];
+  const candidates = sectionResults.map((result) =>
+    (result || []).filter((question) => {
+      if (kept.some((other) => isNearDuplicate(other.prompt, question.prompt))) {
+        return false;
+      }
+      kept.push(question);
+      return true;
+    })
+  );
+
+  const selection = selectBalanced(candidates, count, allocateTypeCounts(count, options.questionTypes));
+
+  const coverage: CoverageReport = {
+    mode: 'full_coverage',
+    totalChunks: chunks.length,
+    coveredChunks: new Set(
+      selection.map(({ question }) => question.sourceRef?.chunkId).filter((id) => id !== undefined)
+    ).size,
+    sections: sections.map((section, index) => ({
+      chunkStart: section.chunkStart,
+      chunkEnd: section.chunkEnd,
+      chunkCount: section.chunks.length,
+      candidates: candidates[index].length,
+      selected: selection.filter((s) => s.section === index).length,
+      ...(sectionResults[index] === null ? { failed: true } : {}),
+    })),
+  };
+
+  console.log('[rag] Selected', selection.length, 'of', kept.length, 'candidate questions');
+
+  return { questions: selection.map(({ question }) => question), coverage };
+}
+
+/**
+ * Groups chunks (in document order) into sections that fit the per-call token budget
+ * Very long documents are capped at MAX_SECTIONS by evenly sampling chunks within each section.
+ */
+function splitIntoSections(chunks: DocumentChunk[]): ChunkSection[] {
+  const tokensOf = (chunk: DocumentChunk) => chunk.tokenCount || countTokens(chunk.text);
+  const totalTokens = chunks.reduce((sum, chunk) => sum + tokensOf(chunk), 0);
+  const sectionCount = Math.min(MAX_SECTIONS, Math.max(1, Math.ceil(totalTokens / SECTION_MAX_TOKENS)));
+  const chunksPerSection = Math.ceil(chunks.length / sectionCount);
+  const sections: ChunkSection[] = [];
+
+  for (let start = 0; start < chunks.length; start += chunksPerSection) {
+    const group = chunks.slice(start, start + chunksPerSection);
+    const groupTokens = group.reduce((sum, chunk) => sum + tokensOf(chunk), 0);
+
+    // Keep every nth chunk when the group is over budget
+    const keepEvery = Math.ceil(groupTokens / SECTION_MAX_TOKENS);
+    const sampled = keepEvery > 1 ? group.filter((_, i) => i % keepEvery === 0) : group;
+
+    sections.push({
+      chunks: sampled,
+      chunkStart: group[0].chunkIndex,
+      chunkEnd: group[group.length - 1].chunkIndex,
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * Picks questions round-robin across sections, honouring the requested type mix first
+ * and then filling any shortfall with whatever candidates remain
+ * @returns Selected questions with their section index, in document order
+ */
+function selectBalanced(
+  candidates: GeneratedQuestion[][],
+  count: number,
+  typeCounts: Partial<Record<QuestionType, number>>
+): { question: GeneratedQuestion; section: number; order: number }[] {
+  const remaining = { ...typeCounts };
+  const queues = candidates.map((sectionCandidates) =>
+    sectionCandidates.map((question, order) => ({ question, order }))
+  );
+  const selected: { question: GeneratedQuestion; section: number; order: number }[] = [];
+
+  for (const respectTypes of [true, false]) {
+    let progress = true;
+    while (selected.length < count && progress) {
+      progress = false;
+      for (let section = 0; section < queues.length && selected.length < count; section++) {
+        const queue = queues[section];
+        const index = queue.findIndex(
+          ({ question }) => !respectTypes || (remaining[question.type] ?? 0) > 0
+        );
+        if (index === -1) {
+          continue;
+        }
+        const [{ question, order }] = queue.splice(index, 1);
+        remaining[question.type] = (remaining[question.type] ?? 0) - 1;
+        selected.push({ question, section, order });
+        progress = true;
+      }
+    }
+  }
+
+  return selected.sort((a, b) => a.section - b.section || a.order - b.order);
+}
+
+function promptWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length >= 3)
+  );
+}
+
+/**
+ * Treats two prompts as duplicates when their word sets overlap heavily (Jaccard similarity)
+ */
+function isNearDuplicate(a: string, b: string): boolean {
+  const wordsA = promptWords(a);
+  const wordsB = promptWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared) >= DUPLICATE_SIMILARITY;
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+// Malformed questions are dropped; the request only fails when fewer than this share are usable
+const MIN_VALID_QUESTION_FRACTION = 0.5;
+
+/**
+ * Asks the model for questions about a set of chunks and attributes each question to its source chunk
+ */
+async function requestQuestions(
+  openai: OpenAI,
+  chunks: DocumentChunk[],
+  count: number,
+  options: QuizGenerationOptions,
+  guidance: { avoidPrompts?: string[]; examplePrompts?: string[] } = {}
+): Promise<GeneratedQuestion[]> {
+  const typeCounts = allocateTypeCounts(count, options.questionTypes);
+  const bloomCounts = allocateBloomCounts(count, options.bloomLevels);
+  const difficulty = options.difficulty ?? DEFAULT_DIFFICULTY;
+
+  // Label chunks so the model can cite which one a question came from
+  const combinedText = chunks
+    .map(formatChunkForPrompt)
+    .join('\n\n');
+
+  const requestedTypes = Object.keys(typeCounts) as QuestionType[];
+  const typeBreakdown = requestedTypes
+    .map((type) => `- ${typeCounts[type]} ${type} question(s)`)
+    .join('\n');
+  const requestedLevels = Object.keys(bloomCounts) as BloomLevel[];
+  const bloomBreakdown = requestedLevels
+    .map((level) => `- ${bloomCounts[level]} ${level} question(s)`)
+    .join('\n');
+
+  const systemPrompt = `You are an expert educator creating high-quality quiz questions from educational content. 
 Generate questions that:
 - Test understanding of key concepts
 - Are clear and unambiguous
-- Have exactly 4 answer choices
-- Include one clearly correct answer and 3 plausible distractors
 - Provide detailed explanations for the correct answer
 - Reference the source material when possible
+- Treat text under "Speaker notes:" as the presenter's explanation of that slide; it is valid source material
+- Content in Markdown tables (rows of "| cell | cell |") comes from tables in the document; use them for questions that compare rows or ask which row matches a column value (e.g. "Which enzyme breaks down starch?"), and quote the relevant row as the sourceRef text
 
 Return your response as a JSON object with a "questions" array. Each question must have:
+- "type": string (one of: ${requestedTypes.join(', ')})
 - "prompt": string (the question text)
-- "choices": string[] (exactly 4 answer choices)
-- "answer": number (0-3 index of the correct answer)
 - "explanation": string (detailed explanation of why the answer is correct)
-- "sourceRef": object (optional, with "page", "slide", or "text" fields if available)`;
+- "difficulty": string (one of: easy, medium, hard)
+- "bloomLevel": string (one of: ${requestedLevels.join(', ')})
+- "sourceRef": object with "chunk" (the number N of the [Chunk N] label the question is based on) and "text" (a short verbatim excerpt from that chunk)
+
+Type-specific fields:
+${requestedTypes.map((type) => QUESTION_TYPE_INSTRUCTIONS[type]).join('\n')}
+
+Difficulty:
+${DIFFICULTY_INSTRUCTIONS[difficulty]}
 
-  const userPrompt = `Generate ${count} multiple-choice questions based on the following content:
+Cognitive levels (Bloom's taxonomy):
+${requestedLevels.map((level) => BLOOM_LEVEL_INSTRUCTIONS[level]).join('\n')}`;
+
+  const focusInstruction = options.focus
+    ? `Only ask about content matching this focus: "${options.focus}". Skip anything in the content that is unrelated to it.\n\n`
+    : '';
+  const exampleInstruction = guidance.examplePrompts?.length
+    ? `Match the style, scope and depth of these example questions:\n${guidance.examplePrompts.map((p) => `- ${p}`).join('\n')}\n\n`
+    : '';
+  const avoidInstruction = guidance.avoidPrompts?.length
+    ? `Do not repeat or paraphrase any of these existing questions; ask about something different:\n${guidance.avoidPrompts.map((p) => `- ${p}`).join('\n')}\n\n`
+    : '';
+
+  const userPrompt = `${focusInstruction}${exampleInstruction}${avoidInstruction}Generate ${count} ${difficulty} questions based on the following content, with exactly this type mix:
+${typeBreakdown}
+
+and exactly this cognitive-level mix:
+${bloomBreakdown}
 
 ${combinedText}
 
@@ -104,11 +543,14 @@ Return the questions as a JSON object with this exact structure:
 {
   "questions": [
     {
+      "type": "${requestedTypes[0]}",
       "prompt": "Question text here?",
-      "choices": ["Choice A", "Choice B", "Choice C", "Choice D"],
-      "answer": 0,
+      ${QUESTION_TYPE_EXAMPLES[requestedTypes[0]]}
       "explanation": "Detailed explanation here",
+      "difficulty": "${difficulty}",
+      "bloomLevel": "${requestedLevels[0]}",
       "sourceRef": {
+        "chunk": ${chunks[0].chunkIndex},
         "text": "Relevant source text excerpt"
       }
     }
@@ -150,42 +592,32 @@ Return the questions as a JSON object with this exact structure:
       throw new Error('Invalid response format: missing questions array');
     }
 
-    // Validate and clean up each question
-    const questions: GeneratedQuestion[] = parsedResponse.questions
-      .slice(0, count) // Ensure we don't exceed requested count
-      .map((q: any, index: number) => {
-        // Validate required fields
-        if (!q.prompt || !Array.isArray(q.choices) || typeof q.answer !== 'number') {
-          throw new Error(
-            `Invalid question format at index ${index}: missing required fields`
-          );
-        }
-
-        // Ensure exactly 4 choices
-        if (q.choices.length !== 4) {
-          throw new Error(
-            `Question at index ${index} must have exactly 4 choices, got ${q.choices.length}`
-          );
-        }
-
-        // Validate answer index
-        if (q.answer < 0 || q.answer >= 4) {
-          throw new Error(
-            `Question at index ${index} has invalid answer index: ${q.answer} (must be 0-3)`
-          );
-        }
+    // Validate and clean up each question, dropping the ones that don't fit their type
+    const valid: GeneratedQuestion[] = [];
+    const invalid: string[] = [];
+    parsedResponse.questions.forEach((q: any, index: number) => {
+      try {
+        valid.push(
+          attachSourceChunk(
+            normalizeGeneratedQuestion(q, index, requestedTypes, difficulty, requestedLevels),
+            chunks
+          )
+        );
+      } catch (validationError) {
+        invalid.push(validationError instanceof Error ? validationError.message : String(validationError));
+      }
+    });
 
-        return {
-          prompt: String(q.prompt).trim(),
-          choices: q.choices.map((c: any) => String(c).trim()),
-          answer: Number(q.answer),
-          explanation: q.explanation ? String(q.explanation).trim() : '',
-          sourceRef: q.sourceRef || undefined,
-        };
-      });
+    if (invalid.length > 0) {
+      console.warn('[rag] Dropped', invalid.length, 'invalid generated questions', invalid);
+    }
 
-    if (questions.length === 0) {
-      throw new Error('No valid questions generated');
+    const questions = valid.slice(0, count); // Ensure we don't exceed requested count
+    const expected = Math.min(count, parsedResponse.questions.length);
+    if (questions.length === 0 || questions.length < Math.ceil(expected * MIN_VALID_QUESTION_FRACTION)) {
+      throw new Error(
+        `Too few valid questions generated: ${questions.length} usable, ${invalid.length} invalid`
+      );
     }
 
     return questions;
@@ -211,78 +643,339 @@ Return the questions as a JSON object with this exact structure:
   }
 }
 
-export interface SummarySection {
-  title: string;
-  points: string[];
+/**
+ * Labels a chunk with its index, so the model can cite it, and the section it belongs to
+ */
+function formatChunkForPrompt(chunk: DocumentChunk): string {
+  const section = formatHeadingPath((chunk.metadata as ChunkMetadata | null)?.headingPath);
+  return `[Chunk ${chunk.chunkIndex}]${section ? ` (Section: ${section})` : ''}\n${chunk.text}`;
 }
 
 /**
- * Generate summary as organized sections with bullet points from extracted text
- * @param extractedText The extracted text from the document
- * @returns Array of summary sections with titles and bullet points
+ * Resolves the model's chunk citation (or, failing that, its excerpt) to a stored chunk,
+ * then the page or slide of the excerpt within that chunk
+ * Page and slide numbers always come from extraction, never from the model.
  */
-export async function generateSummary(
-  extractedText: string
-): Promise<SummarySection[]> {
-  const openai = getOpenAIClient();
+function attachSourceChunk<T extends { sourceRef?: SourceRef }>(question: T, chunks: DocumentChunk[]): T {
+  const cited = (question.sourceRef || {}) as SourceRef & { chunk?: unknown };
+  const text = typeof cited.text === 'string' && cited.text.trim() ? cited.text.trim() : undefined;
+  const excerpt = text ? text.toLowerCase().slice(0, 80) : '';
 
-  if (!extractedText || extractedText.trim().length === 0) {
-    throw new Error('Extracted text is empty. Cannot generate summary.');
+  const source =
+    chunks.find((chunk) => chunk.chunkIndex === Number(cited.chunk)) ??
+    (excerpt ? chunks.find((chunk) => chunk.text.toLowerCase().includes(excerpt)) : undefined);
+
+  if (!source) {
+    return { ...question, sourceRef: text ? { text } : undefined };
   }
 
-  // Limit text length to avoid token limits
-  // Target: ~20-25k tokens for content (leaving room for prompt/response)
-  const maxTokens = 25000;
-  let textToSummarize = extractedText;
-  
-  // Rough estimate: 1 token ≈ 4 characters
-  const estimatedTokens = Math.ceil(textToSummarize.length / 4);
-  if (estimatedTokens > maxTokens) {
-    // Truncate to approximately maxTokens
-    const maxChars = maxTokens * 4;
-    textToSummarize = textToSummarize.substring(0, maxChars);
-    console.log('[summary] Truncated text to fit token limit', { 
-      originalLength: extractedText.length,
-      truncatedLength: textToSummarize.length 
-    });
+  return {
+    ...question,
+    sourceRef: {
+      ...(text ? { text } : {}),
+      ...locateInChunk(source.text, source.metadata as ChunkMetadata | null, text),
+      chunkId: source.id,
+      chunkIndex: source.chunkIndex,
+    },
+  };
+}
+
+const QUESTION_TYPE_INSTRUCTIONS: Record<QuestionType, string> = {
+  multiple_choice:
+    '- multiple_choice: "choices" (exactly 4 strings: one clearly correct answer and 3 plausible distractors) and "answer" (0-3 index of the correct choice)',
+  true_false:
+    '- true_false: "prompt" is a statement to judge, "answer" is a boolean (true or false); omit "choices"',
+  multi_select:
+    '- multi_select: "choices" (4-6 strings) and "answer" (array of the 0-based indices of ALL correct choices, at least 2); the prompt should say to select all that apply',
+  fill_blank:
+    '- fill_blank: "prompt" contains a blank written as "_____", "acceptedAnswers" (array of short acceptable answers including common synonyms or spellings) and optional "caseSensitive" (boolean, default false); omit "choices"',
+  short_answer:
+    '- short_answer: an open question answerable in 1-3 sentences, "modelAnswer" (string, an ideal answer) and "rubric" (array of 2-4 objects with "criterion" describing one thing a good answer must contain and "points" as a whole number 1-5); omit "choices"',
+};
+
+const QUESTION_TYPE_EXAMPLES: Record<QuestionType, string> = {
+  multiple_choice: '"choices": ["Choice A", "Choice B", "Choice C", "Choice D"],\n      "answer": 0,',
+  true_false: '"answer": true,',
+  multi_select: '"choices": ["Choice A", "Choice B", "Choice C", "Choice D"],\n      "answer": [0, 2],',
+  fill_blank: '"acceptedAnswers": ["answer", "alternate answer"],',
+  short_answer:
+    '"modelAnswer": "Ideal answer here",\n      "rubric": [{ "criterion": "Names the key concept", "points": 2 }],',
+};
+
+const DIFFICULTY_INSTRUCTIONS: Record<Difficulty, string> = {
+  easy: '- easy: one concept per question, answerable directly from a single statement in the content; distractors are clearly wrong to a student who read the material',
+  medium: '- medium: requires understanding rather than spotting a phrase; distractors reflect common misconceptions',
+  hard: '- hard: combines two or more concepts or requires multi-step reasoning; distractors are plausible even to a prepared student',
+};
+
+const BLOOM_LEVEL_INSTRUCTIONS: Record<BloomLevel, string> = {
+  recall: '- recall: remember facts, definitions and terms stated in the content',
+  apply: '- apply: use a concept or procedure from the content in a new concrete situation or example',
+  analyze: '- analyze: compare, contrast, break down or infer relationships between ideas in the content',
+};
+
+/**
+ * Splits the question count evenly across the requested types
+ * Earlier types receive the remainder so the total always matches `count`.
+ */
+export function allocateTypeCounts(
+  count: number,
+  types: QuestionType[] = DEFAULT_QUESTION_TYPES
+): Partial<Record<QuestionType, number>> {
+  const selected = QUESTION_TYPES.filter((type) => types.includes(type));
+  return splitCount(count, selected.length > 0 ? selected : DEFAULT_QUESTION_TYPES);
+}
+
+/**
+ * Splits the question count evenly across the requested cognitive levels
+ */
+export function allocateBloomCounts(
+  count: number,
+  levels: BloomLevel[] = [...BLOOM_LEVELS]
+): Partial<Record<BloomLevel, number>> {
+  const selected = BLOOM_LEVELS.filter((level) => levels.includes(level));
+  return splitCount(count, selected.length > 0 ? selected : [...BLOOM_LEVELS]);
+}
+
+function splitCount<T extends string>(count: number, keys: readonly T[]): Partial<Record<T, number>> {
+  const counts: Partial<Record<T, number>> = {};
+
+  keys.forEach((key, index) => {
+    const share = Math.floor(count / keys.length) + (index < count % keys.length ? 1 : 0);
+    if (share > 0) {
+      counts[key] = share;
+    }
+  });
+
+  return counts;
+}
+
+/**
+ * Validates a question returned by the model and converts it to the stored answer shape
+ */
+function normalizeGeneratedQuestion(
+  q: any,
+  index: number,
+  allowedTypes: QuestionType[],
+  targetDifficulty: Difficulty,
+  allowedLevels: BloomLevel[]
+): GeneratedQuestion {
+  // Older prompts did not return a type, so default to multiple choice
+  const type = q?.type ?? 'multiple_choice';
+  if (!isQuestionType(type) || !allowedTypes.includes(type)) {
+    throw new Error(`Question at index ${index} has unsupported type: ${type}`);
   }
 
-  const systemPrompt = `You are an expert educator creating well-organized summaries of educational content. 
-Generate a structured summary organized into logical sections with clear titles and bullet points.
-- Organize content into 3-6 thematic sections (e.g., "Key Concepts", "Important Definitions", "Main Takeaways", "Applications", etc.)
-- Each section should have a clear, descriptive title
-- Include 2-5 bullet points per section
-- Use bold formatting for key terms within bullet points (use **term** syntax)
-- Focus on the most important concepts and information
-- Use clear, concise language
-- Each bullet point should be a complete, meaningful statement
+  if (!q.prompt) {
+    throw new Error(`Invalid question format at index ${index}: missing prompt`);
+  }
 
-Return your response as a JSON object with a "sections" array. Each section must have a "title" and "points" array.`;
+  const base = {
+    type,
+    prompt: String(q.prompt).trim(),
+    explanation: q.explanation ? String(q.explanation).trim() : '',
+    // Tags are advisory, so fall back to the requested values instead of rejecting the question
+    difficulty: isDifficulty(q.difficulty) ? q.difficulty : targetDifficulty,
+    bloomLevel:
+      isBloomLevel(q.bloomLevel) && allowedLevels.includes(q.bloomLevel)
+        ? q.bloomLevel
+        : allowedLevels[index % allowedLevels.length],
+    sourceRef: q.sourceRef || undefined,
+  };
 
-  const userPrompt = `Create a well-organized summary with labeled sections from the following lecture slide content:
+  switch (type) {
+    case 'multiple_choice': {
+      if (!Array.isArray(q.choices) || typeof q.answer !== 'number') {
+        throw new Error(
+          `Invalid question format at index ${index}: missing required fields`
+        );
+      }
 
-${textToSummarize}
+      // Ensure exactly 4 choices
+      if (q.choices.length !== 4) {
+        throw new Error(
+          `Question at index ${index} must have exactly 4 choices, got ${q.choices.length}`
+        );
+      }
 
-Return the summary as a JSON object with this exact structure:
-{
-  "sections": [
-    {
-      "title": "Section Title Here",
-      "points": [
-        "First key point with **important term** highlighted",
-        "Second important point",
-        "Third main idea"
-      ]
-    },
-    {
-      "title": "Another Section",
-      "points": [
-        "Point one",
-        "Point two"
-      ]
+      // Validate answer index
+      if (!Number.isInteger(q.answer) || q.answer < 0 || q.answer >= 4) {
+        throw new Error(
+          `Question at index ${index} has invalid answer index: ${q.answer} (must be 0-3)`
+        );
+      }
+
+      return {
+        ...base,
+        choices: q.choices.map((c: any) => String(c).trim()),
+        answer: Number(q.answer),
+      };
     }
-  ]
-}`;
+    case 'true_false': {
+      const answer =
+        typeof q.answer === 'boolean'
+          ? q.answer
+          : q.answer === 'true' || q.answer === 'false'
+          ? q.answer === 'true'
+          : null;
+      if (answer === null) {
+        throw new Error(
+          `True/false question at index ${index} must have a boolean answer, got ${JSON.stringify(q.answer)}`
+        );
+      }
+
+      return { ...base, choices: null, answer };
+    }
+    case 'multi_select': {
+      if (!Array.isArray(q.choices) || q.choices.length < 4 || q.choices.length > 6) {
+        throw new Error(
+          `Multi-select question at index ${index} must have 4-6 choices`
+        );
+      }
+
+      const choiceCount = q.choices.length;
+      const indices = Array.isArray(q.answer) ? q.answer : [];
+      const answer = Array.from(new Set<number>(indices)).sort((a, b) => a - b);
+      if (
+        answer.length === 0 ||
+        !answer.every((i) => Number.isInteger(i) && i >= 0 && i < choiceCount)
+      ) {
+        throw new Error(
+          `Multi-select question at index ${index} has invalid answer indices: ${JSON.stringify(q.answer)}`
+        );
+      }
+
+      return {
+        ...base,
+        choices: q.choices.map((c: any) => String(c).trim()),
+        answer,
+      };
+    }
+    case 'fill_blank': {
+      const accepted: string[] = (Array.isArray(q.acceptedAnswers) ? q.acceptedAnswers : [])
+        .map((a: any) => String(a).trim())
+        .filter((a: string) => a.length > 0);
+      if (accepted.length === 0) {
+        throw new Error(
+          `Fill-in-the-blank question at index ${index} has no accepted answers`
+        );
+      }
+
+      return {
+        ...base,
+        choices: null,
+        answer: {
+          accepted,
+          caseSensitive: q.caseSensitive === true,
+          ignorePunctuation: true,
+        },
+      };
+    }
+    case 'short_answer': {
+      const modelAnswer = typeof q.modelAnswer === 'string' ? q.modelAnswer.trim() : '';
+      const rubric = (Array.isArray(q.rubric) ? q.rubric : [])
+        .map((c: any) => ({
+          criterion: String(c?.criterion ?? '').trim(),
+          points: Math.round(Number(c?.points)),
+        }))
+        .filter((c: { criterion: string; points: number }) => c.criterion.length > 0 && c.points > 0);
+      if (!modelAnswer || rubric.length === 0) {
+        throw new Error(
+          `Short-answer question at index ${index} needs a model answer and at least one rubric criterion`
+        );
+      }
+
+      return { ...base, choices: null, answer: { modelAnswer, rubric } };
+    }
+  }
+}
+
+const VERIFICATION_BATCH_SIZE = 8;
+
+export interface VerificationItem {
+  question: GeneratedQuestion;
+  sources: DocumentChunk[]; // Chunks to check the answer against, usually the cited source chunk
+}
+
+/**
+ * Re-check generated questions against their source chunks
+ * Each question is answered independently from the source and compared with the marked answer.
+ * Batches that fail are left unverified (null) rather than failing generation.
+ * @param items Questions with the chunks they should be checked against
+ * @returns One verification per item, in order
+ */
+export async function verifyQuestions(
+  items: VerificationItem[]
+): Promise<(QuestionVerification | null)[]> {
+  const openai = getOpenAIClient();
+
+  const batches: VerificationItem[][] = [];
+  for (let i = 0; i < items.length; i += VERIFICATION_BATCH_SIZE) {
+    batches.push(items.slice(i, i + VERIFICATION_BATCH_SIZE));
+  }
+
+  const results = await mapWithConcurrency(batches, MAX_PARALLEL_SECTIONS, async (batch, batchIndex) => {
+    try {
+      return await requestVerification(openai, batch);
+    } catch (error) {
+      console.error('[verify] Batch failed, leaving questions unverified', {
+        batch: batchIndex,
+        error: error instanceof Error ? error.message : error,
+      });
+      return batch.map(() => null);
+    }
+  });
+
+  return results.flat();
+}
+
+async function requestVerification(
+  openai: OpenAI,
+  batch: VerificationItem[]
+): Promise<(QuestionVerification | null)[]> {
+  const chunks = new Map<number, DocumentChunk>();
+  for (const item of batch) {
+    for (const chunk of item.sources) {
+      chunks.set(chunk.id, chunk);
+    }
+  }
+
+  const sourceText = [...chunks.values()]
+    .sort((a, b) => a.chunkIndex - b.chunkIndex)
+    .map(formatChunkForPrompt)
+    .join('\n\n');
+
+  const questionText = batch
+    .map(({ question, sources }, index) =>
+      [
+        `Question ${index}: ${question.prompt}`,
+        `Source: ${sources.length > 0 ? sources.map((c) => `Chunk ${c.chunkIndex}`).join(', ') : 'any chunk'}`,
+        describeAnswerKey(question),
+      ].join('\n')
+    )
+    .join('\n\n');
+
+  const systemPrompt = `You are a careful fact-checker reviewing quiz questions written from source material.
+For each question:
+1. Answer it yourself using only its source chunks, without looking at the marked answer first
+2. Compare your answer with the marked answer
+3. Choose a verdict:
+   - "supported": the source clearly backs the marked answer and no other option is defensible
+   - "ambiguous": the marked answer is defensible but another option could also be argued, or the question is unclear
+   - "unsupported": the source does not contain enough information to answer the question
+   - "incorrect": the source contradicts the marked answer
+4. Give a confidence between 0 and 1 that the marked answer is correct according to the source
+5. If the verdict is not "supported", explain the problem in one sentence
+
+Return your response as a JSON object with a "results" array of { "question": number, "verdict": string, "confidence": number, "issue": string }.`;
+
+  const userPrompt = `Source chunks:
+
+${sourceText}
+
+Questions to check:
+
+${questionText}`;
 
   try {
     const response = await openai.responses.create({
@@ -291,7 +984,7 @@ Return the summary as a JSON object with this exact structure:
       input: userPrompt,
       text: { format: { type: 'json_object' } },
       reasoning: { effort: "low" },
-      max_output_tokens: 6000, // Enough for multiple sections with bullet points
+      max_output_tokens: 4000,
     });
 
     if (response.error) {
@@ -305,8 +998,7 @@ Return the summary as a JSON object with this exact structure:
       throw new Error('No response content from OpenAI API');
     }
 
-    // Parse the JSON response
-    let parsedResponse: { sections?: Array<{ title: string; points: string[] }> };
+    let parsedResponse: { results?: unknown };
     try {
       parsedResponse = JSON.parse(content);
     } catch (parseError) {
@@ -314,60 +1006,377 @@ Return the summary as a JSON object with this exact structure:
       throw new Error('Invalid JSON response from OpenAI API');
     }
 
-    // Validate response structure
-    if (!parsedResponse.sections || !Array.isArray(parsedResponse.sections)) {
-      throw new Error('Invalid response format: missing sections array');
+    if (!Array.isArray(parsedResponse.results)) {
+      throw new Error('Invalid response format: missing results array');
     }
 
-    // Validate and clean up each section
-    const sections: SummarySection[] = parsedResponse.sections
-      .map((section: any, sectionIndex: number) => {
-        if (!section || typeof section !== 'object') {
-          throw new Error(
-            `Invalid section at index ${sectionIndex}: must be an object`
-          );
-        }
-        if (!section.title || typeof section.title !== 'string') {
-          throw new Error(
-            `Invalid section title at index ${sectionIndex}: must be a string`
-          );
-        }
-        if (!Array.isArray(section.points)) {
-          throw new Error(
-            `Invalid section points at index ${sectionIndex}: must be an array`
-          );
-        }
-
-        const points = section.points
-          .map((point: any, pointIndex: number) => {
-            if (!point || typeof point !== 'string') {
-              throw new Error(
-                `Invalid point at section ${sectionIndex}, point ${pointIndex}: must be a string`
-              );
-            }
-            return String(point).trim();
-          })
-          .filter((point: string) => point.length > 0); // Remove empty points
-
-        if (points.length === 0) {
-          throw new Error(
-            `Section "${section.title}" has no valid points`
-          );
-        }
-
-        return {
-          title: String(section.title).trim(),
-          points,
-        };
-      })
-      .filter((section: SummarySection) => section.points.length > 0); // Remove sections with no points
-
-    if (sections.length === 0) {
-      throw new Error('No valid summary sections generated');
+    // Questions the model skipped stay unverified
+    const byIndex = new Map<number, QuestionVerification>();
+    for (const r of parsedResponse.results as any[]) {
+      const index = Number(r?.question);
+      const confidence = Number(r?.confidence);
+      if (!Number.isInteger(index) || !isVerificationVerdict(r?.verdict) || !Number.isFinite(confidence)) {
+        continue;
+      }
+      byIndex.set(index, {
+        verdict: r.verdict,
+        confidence: Math.max(0, Math.min(1, confidence)),
+        ...(typeof r.issue === 'string' && r.issue.trim() && r.verdict !== 'supported'
+          ? { issue: r.issue.trim() }
+          : {}),
+      });
     }
 
-    const totalPoints = sections.reduce((sum, section) => sum + section.points.length, 0);
-    console.log('[summary] Generated summary', { sectionCount: sections.length, totalPointCount: totalPoints });
+    return batch.map((_, index) => byIndex.get(index) ?? null);
+  } catch (error) {
+    if (error instanceof OpenAI.APIError) {
+      console.error('OpenAI API Error:', error.status, error.message);
+      throw new Error(
+        `OpenAI API error: ${error.message}. Please check your API key and try again.`
+      );
+    }
+
+    throw new Error(
+      `Failed to verify questions: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Spells out a question's choices and marked answer for the verifier
+ */
+function describeAnswerKey(question: GeneratedQuestion): string {
+  const choices = (question.choices || [])
+    .map((choice, index) => `  ${String.fromCharCode(65 + index)}. ${choice}`)
+    .join('\n');
+  const letter = (index: number) => String.fromCharCode(65 + index);
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return `Choices:\n${choices}\nMarked answer: ${letter(question.answer as number)}`;
+    case 'multi_select':
+      return `Choices (select all that apply):\n${choices}\nMarked answers: ${(question.answer as number[]).map(letter).join(', ')}`;
+    case 'true_false':
+      return `Marked answer: ${question.answer ? 'True' : 'False'}`;
+    case 'fill_blank':
+      return `Accepted answers: ${(question.answer as FillBlankAnswer).accepted.join(' | ')}`;
+    case 'short_answer': {
+      const key = question.answer as ShortAnswerKey;
+      return `Model answer: ${key.modelAnswer}\nRubric: ${key.rubric.map((c) => c.criterion).join('; ')}`;
+    }
+  }
+}
+
+/**
+ * Score a student's short answer against a rubric using the LLM
+ * @param prompt The question text
+ * @param key Model answer and rubric
+ * @param answer The student's answer
+ * @returns Points awarded per rubric criterion plus feedback for the student
+ */
+export async function gradeShortAnswerWithModel(
+  prompt: string,
+  key: ShortAnswerKey,
+  answer: string
+): Promise<{ rubricScores: RubricScore[]; feedback: string }> {
+  const openai = getOpenAIClient();
+
+  const systemPrompt = `You are a fair, consistent grader scoring a student's short answer against a rubric.
+- Award each criterion between 0 and its maximum points (whole numbers); give partial credit when a criterion is partly met
+- Judge meaning, not wording: paraphrases of the model answer earn full credit
+- Ignore spelling and grammar unless they change the meaning
+- Write 1-3 sentences of feedback addressed to the student explaining what was missing or well done
+
+Return your response as a JSON object with "scores" (array of { "criterion": number index, "awarded": number }) and "feedback" (string).`;
+
+  const userPrompt = `Question: ${prompt}
+
+Model answer: ${key.modelAnswer}
+
+Rubric:
+${key.rubric.map((c, i) => `${i}. (${c.points} point${c.points === 1 ? '' : 's'}) ${c.criterion}`).join('\n')}
+
+Student answer:
+${answer}`;
+
+  try {
+    const response = await openai.responses.create({
+      model: process.env.OPENAI_MODEL || 'gpt-5-nano', // Use gpt-5-nano by default for cost efficiency
+      instructions: systemPrompt,
+      input: userPrompt,
+      text: { format: { type: 'json_object' } },
+      reasoning: { effort: "low" },
+      max_output_tokens: 2000,
+    });
+
+    if (response.error) {
+      throw new Error(
+        `OpenAI response error: ${response.error.message || response.error.code || 'Unknown error'}`
+      );
+    }
+
+    const content = response.output_text;
+    if (!content) {
+      throw new Error('No response content from OpenAI API');
+    }
+
+    let parsedResponse: { scores?: Array<{ criterion: number; awarded: number }>; feedback?: string };
+    try {
+      parsedResponse = JSON.parse(content);
+    } catch (parseError) {
+      console.error('Failed to parse OpenAI response:', content);
+      throw new Error('Invalid JSON response from OpenAI API');
+    }
+
+    if (!Array.isArray(parsedResponse.scores)) {
+      throw new Error('Invalid response format: missing scores array');
+    }
+
+    // Clamp awarded points to each criterion's range; missing criteria earn nothing
+    const awardedByIndex = new Map(
+      parsedResponse.scores.map((s: any) => [Number(s?.criterion), Number(s?.awarded)])
+    );
+    const rubricScores: RubricScore[] = key.rubric.map((c, i) => {
+      const awarded = awardedByIndex.get(i);
+      return {
+        criterion: c.criterion,
+        points: c.points,
+        awarded:
+          awarded !== undefined && Number.isFinite(awarded)
+            ? Math.max(0, Math.min(c.points, Math.round(awarded)))
+            : 0,
+      };
+    });
+
+    return {
+      rubricScores,
+      feedback: typeof parsedResponse.feedback === 'string' ? parsedResponse.feedback.trim() : '',
+    };
+  } catch (error) {
+    if (error instanceof OpenAI.APIError) {
+      console.error('OpenAI API Error:', error.status, error.message);
+      throw new Error(
+        `OpenAI API error: ${error.message}. Please check your API key and try again.`
+      );
+    }
+
+    console.error('Error grading short answer:', error);
+    throw new Error(
+      `Failed to grade short answer: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+export interface GeneratedFlashcard {
+  front: string; // Term, concept or question
+  back: string; // Definition, explanation or answer
+  sourceRef?: SourceRef;
+}
+
+/**
+ * Generate flashcards using RAG over the same chunks quiz generation would use
+ * @param documentId Document ID to generate cards for
+ * @param count Number of cards to generate
+ * @param options Topic focus, as for quizzes
+ */
+export async function generateFlashcards(
+  documentId: number,
+  count: number,
+  options: { focus?: string | null } = {}
+): Promise<GeneratedFlashcard[]> {
+  const openai = getOpenAIClient();
+
+  const chunks = await findChunksForQuestionGeneration(documentId, count, { focus: options.focus });
+  if (chunks.length === 0) {
+    throw new Error('No chunks found for document. Please ensure the document has been processed.');
+  }
+
+  // Same context budget as quiz generation
+  const maxTokens = 25000;
+  const combinedChunks: DocumentChunk[] = [];
+  let totalTokens = 0;
+  for (const chunk of chunks) {
+    const chunkTokens = chunk.tokenCount || countTokens(chunk.text);
+    if (totalTokens + chunkTokens > maxTokens && combinedChunks.length >= 5) {
+      break;
+    }
+    combinedChunks.push(chunk);
+    totalTokens += chunkTokens;
+  }
+  console.log('[flashcards] Combined', combinedChunks.length, 'chunks into', totalTokens, 'tokens');
+
+  const systemPrompt = `You are an expert educator creating flashcards for spaced-repetition study.
+Generate flashcards that:
+- Each test exactly one fact, term or idea
+- Have a short front (a term, a concept name or a direct question) and a concise back (1-3 sentences)
+- Can be answered from memory without seeing the other cards
+- Cover the most important material rather than trivia
+- Treat text under "Speaker notes:" as the presenter's explanation of that slide; it is valid source material
+
+Return your response as a JSON object with a "cards" array. Each card must have:
+- "front": string
+- "back": string
+- "sourceRef": object with "chunk" (the number N of the [Chunk N] label the card is based on) and "text" (a short verbatim excerpt from that chunk)`;
+
+  const focusInstruction = options.focus
+    ? `Only make cards about content matching this focus: "${options.focus}". Skip anything in the content that is unrelated to it.\n\n`
+    : '';
+
+  const userPrompt = `${focusInstruction}Generate ${count} flashcards based on the following content:
+
+${combinedChunks.map(formatChunkForPrompt).join('\n\n')}
+
+Return the cards as a JSON object with this exact structure:
+{
+  "cards": [
+    {
+      "front": "Term or question",
+      "back": "Definition or answer",
+      "sourceRef": {
+        "chunk": ${combinedChunks[0].chunkIndex},
+        "text": "Relevant source text excerpt"
+      }
+    }
+  ]
+}`;
+
+  try {
+    const response = await openai.responses.create({
+      model: process.env.OPENAI_MODEL || 'gpt-5-nano', // Use gpt-5-nano by default for cost efficiency
+      instructions: systemPrompt,
+      input: userPrompt,
+      text: { format: { type: 'json_object' } },
+      reasoning: { effort: "low" },
+      max_output_tokens: 8000,
+    });
+
+    if (response.error) {
+      throw new Error(
+        `OpenAI response error: ${response.error.message || response.error.code || 'Unknown error'}`
+      );
+    }
+
+    const content = response.output_text;
+    if (!content) {
+      throw new Error('No response content from OpenAI API');
+    }
+
+    let parsedResponse: { cards?: any[] };
+    try {
+      parsedResponse = JSON.parse(content);
+    } catch (parseError) {
+      console.error('Failed to parse OpenAI response:', content);
+      throw new Error('Invalid JSON response from OpenAI API');
+    }
+
+    if (!parsedResponse.cards || !Array.isArray(parsedResponse.cards)) {
+      throw new Error('Invalid response format: missing cards array');
+    }
+
+    // Drop malformed cards rather than failing the whole deck
+    const cards: GeneratedFlashcard[] = parsedResponse.cards
+      .filter(
+        (card: any) =>
+          typeof card?.front === 'string' &&
+          card.front.trim() &&
+          typeof card?.back === 'string' &&
+          card.back.trim()
+      )
+      .slice(0, count)
+      .map((card: any) =>
+        attachSourceChunk<GeneratedFlashcard>(
+          { front: card.front.trim(), back: card.back.trim(), sourceRef: card.sourceRef },
+          combinedChunks
+        )
+      );
+
+    if (cards.length === 0) {
+      throw new Error('No valid flashcards generated');
+    }
+
+    return cards;
+  } catch (error) {
+    // Re-throw if it's already our custom error
+    if (error instanceof Error && error.message.includes('OPENAI_API_KEY')) {
+      throw error;
+    }
+
+    // Handle OpenAI API errors
+    if (error instanceof OpenAI.APIError) {
+      console.error('OpenAI API Error:', error.status, error.message);
+      throw new Error(
+        `OpenAI API error: ${error.message}. Please check your API key and try again.`
+      );
+    }
+
+    // Handle other errors
+    console.error('Error generating flashcards:', error);
+    throw new Error(
+      `Failed to generate flashcards: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * A summary section; the page or slide range comes from extraction, not the model
+ */
+export interface SummarySection {
+  title: string;
+  points: string[];
+  pageStart?: number;
+  pageEnd?: number;
+  slideStart?: number;
+  slideEnd?: number;
+}
+
+const SUMMARY_GROUP_MAX_TOKENS = 8000;
+const MAX_SUMMARY_GROUPS = 40; // Larger documents get larger groups instead of more calls
+
+/**
+ * Range of pages or slides a group of text (or a section summarizing it) covers
+ */
+interface LocationRange {
+  unit: 'page' | 'slide';
+  start: number;
+  end: number;
+}
+
+interface SummaryGroup {
+  text: string; // Group text with [Page N] / [Slide N] markers where each one begins
+  range: LocationRange | null;
+}
+
+/**
+ * Generate summary as organized sections with bullet points from extracted segments
+ * Map-reduce: the document is split into groups of consecutive sections, each group is
+ * summarized on its own, and the group summaries are merged into the final sections.
+ * Short documents fit in one group and are summarized in a single call.
+ * @param segments Extracted text per page or slide
+ * @returns Array of summary sections with titles, bullet points and page ranges
+ */
+export async function generateSummary(segments: TextSegment[]): Promise<SummarySection[]> {
+  const openai = getOpenAIClient();
+
+  const extractedText = joinSegments(segments);
+  if (!extractedText) {
+    throw new Error('Extracted text is empty. Cannot generate summary.');
+  }
+
+  const groups = splitIntoSummaryGroups(segments, extractedText);
+  console.log('[summary] Summarizing document', { groupCount: groups.length });
+
+  try {
+    if (groups.length === 1) {
+      return await summarizeGroup(openai, groups[0], 'document');
+    }
+
+    const partials = await mapWithConcurrency(groups, MAX_PARALLEL_SECTIONS, (group) =>
+      summarizeGroup(openai, group, 'part')
+    );
+    const sections = await mergeSummaries(openai, partials.flat());
+
+    const totalPoints = sections.reduce((sum, section) => sum + section.points.length, 0);
+    console.log('[summary] Generated summary', { sectionCount: sections.length, totalPointCount: totalPoints });
     return sections;
   } catch (error) {
     // Re-throw if it's already our custom error
@@ -390,3 +1399,497 @@ Return the summary as a JSON object with this exact structure:
     );
   }
 }
+
+/**
+ * Splits a document into groups of consecutive sections small enough to summarize in one call
+ */
+function splitIntoSummaryGroups(segments: TextSegment[], extractedText: string): SummaryGroup[] {
+  const groupTokens = Math.max(
+    SUMMARY_GROUP_MAX_TOKENS,
+    Math.ceil(countTokens(extractedText) / MAX_SUMMARY_GROUPS)
+  );
+  const chunks = chunkSegments(segments, { chunkSize: groupTokens, overlap: 0, minChunkSize: 0 });
+  return chunks.length > 0 ? chunks.map(toSummaryGroup) : [{ text: extractedText, range: null }];
+}
+
+/**
+ * Labels where each page or slide begins in a chunk so the model can cite them
+ */
+function toSummaryGroup(chunk: Chunk): SummaryGroup {
+  const metadata = chunk.metadata;
+  const unit = metadata?.slideStart !== undefined ? 'slide' : metadata?.pageStart !== undefined ? 'page' : null;
+  if (!metadata || !unit) {
+    return { text: chunk.text, range: null };
+  }
+
+  const label = unit === 'slide' ? 'Slide' : 'Page';
+  let text = '';
+  let cursor = 0;
+  let previous: number | undefined;
+  for (const brk of metadata.breaks ?? []) {
+    const location = unit === 'slide' ? brk.slide : brk.page;
+    if (location === undefined || location === previous) continue;
+    text += chunk.text.slice(cursor, brk.offset) + `[${label} ${location}]\n`;
+    cursor = brk.offset;
+    previous = location;
+  }
+  text += chunk.text.slice(cursor);
+
+  const range: LocationRange =
+    unit === 'slide'
+      ? { unit, start: metadata.slideStart!, end: metadata.slideEnd ?? metadata.slideStart! }
+      : { unit, start: metadata.pageStart!, end: metadata.pageEnd ?? metadata.pageStart! };
+  return { text, range };
+}
+
+/**
+ * Summarizes one group: the whole document when it fits in one call, otherwise one part of it
+ */
+async function summarizeGroup(
+  openai: OpenAI,
+  group: SummaryGroup,
+  scope: 'document' | 'part'
+): Promise<SummarySection[]> {
+  const unitLabel = group.range?.unit === 'slide' ? 'Slide' : 'Page';
+  const citation = group.range
+    ? `\n- Give each section a "${group.range.unit}s" array of [first, last] ${group.range.unit} numbers it draws on, taken from the [${unitLabel} N] markers`
+    : '';
+
+  const systemPrompt = `You are an expert educator creating well-organized summaries of educational content. 
+Generate a structured summary organized into logical sections with clear titles and bullet points.
+- ${
+    scope === 'document'
+      ? 'Organize content into 3-6 thematic sections (e.g., "Key Concepts", "Important Definitions", "Main Takeaways", "Applications", etc.)'
+      : 'This is one part of a longer document; organize it into 2-5 sections covering what this part teaches'
+  }
+- Each section should have a clear, descriptive title
+- Include 2-5 bullet points per section
+- Use bold formatting for key terms within bullet points (use **term** syntax)
+- Focus on the most important concepts and information
+- Use clear, concise language
+- Each bullet point should be a complete, meaningful statement${citation}
+
+Return your response as a JSON object with a "sections" array. Each section must have a "title" and "points" array.`;
+
+  const userPrompt = `Create a well-organized summary with labeled sections from the following lecture slide content:
+
+${group.text}
+
+Return the summary as a JSON object with this exact structure:
+{
+  "sections": [
+    {
+      "title": "Section Title Here",
+      "points": [
+        "First key point with **important term** highlighted",
+        "Second important point",
+        "Third main idea"
+      ]${group.range ? `,\n      "${group.range.unit}s": [3, 5]` : ''}
+    }
+  ]
+}`;
+
+  const parsed = await requestSummarySections(openai, systemPrompt, userPrompt);
+  return parsed.map(({ section, raw }) => ({
+    ...section,
+    ...rangeFields(citedRange(raw, group.range)),
+  }));
+}
+
+/**
+ * Merges per-part summaries into the final sections
+ * The model lists which parts each section draws on; its page range is the union of theirs.
+ */
+async function mergeSummaries(openai: OpenAI, partials: SummarySection[]): Promise<SummarySection[]> {
+  const partText = formatPartialSummaries(partials);
+
+  const systemPrompt = `You are an expert educator combining partial summaries of a long document into one well-organized summary.
+- Organize the whole document into 3-8 thematic sections, merging overlapping parts and keeping the document's order where possible
+- Each section should have a clear, descriptive title
+- Include 2-6 bullet points per section, keeping the most important concepts from every part
+- Use bold formatting for key terms within bullet points (use **term** syntax)
+- Each bullet point should be a complete, meaningful statement
+- Give each section a "parts" array of the [Part N] numbers it draws on
+
+Return your response as a JSON object with a "sections" array. Each section must have a "title", a "points" array and a "parts" array.`;
+
+  const userPrompt = `Combine these partial summaries, given in document order, into one summary:
+
+${partText}
+
+Return the summary as a JSON object with this exact structure:
+{
+  "sections": [
+    {
+      "title": "Section Title Here",
+      "points": ["First key point with **important term** highlighted", "Second important point"],
+      "parts": [0, 1, 4]
+    }
+  ]
+}`;
+
+  const parsed = await requestSummarySections(openai, systemPrompt, userPrompt);
+  return parsed.map(({ section, raw }) => {
+    const parts = (Array.isArray(raw.parts) ? raw.parts : [])
+      .map((part: unknown) => partials[Number(part)])
+      .filter((part: SummarySection | undefined): part is SummarySection => part !== undefined);
+    return { ...section, ...mergeRanges(parts) };
+  });
+}
+
+/**
+ * Lists per-part summaries as numbered notes for a follow-up prompt
+ */
+function formatPartialSummaries(partials: SummarySection[]): string {
+  return partials
+    .map((section, index) => {
+      const location = sectionRangeLabel(section);
+      return [
+        `[Part ${index}] ${section.title}${location ? ` (${location})` : ''}`,
+        ...section.points.map((point) => `- ${point}`),
+      ].join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Sends a summary prompt and validates the "sections" array in the response
+ * @returns Cleaned sections alongside the raw objects, for any extra fields the caller asked for
+ */
+async function requestSummarySections(
+  openai: OpenAI,
+  systemPrompt: string,
+  userPrompt: string
+): Promise<{ section: SummarySection; raw: any }[]> {
+  const response = await openai.responses.create({
+    model: process.env.OPENAI_MODEL || 'gpt-5-nano', // Use gpt-5-nano by default for cost efficiency
+    instructions: systemPrompt,
+    input: userPrompt,
+    text: { format: { type: 'json_object' } },
+    reasoning: { effort: "low" },
+    max_output_tokens: 6000, // Enough for multiple sections with bullet points
+  });
+
+  if (response.error) {
+    throw new Error(
+      `OpenAI response error: ${response.error.message || response.error.code || 'Unknown error'}`
+    );
+  }
+
+  const content = response.output_text;
+  if (!content) {
+    throw new Error('No response content from OpenAI API');
+  }
+
+  // Parse the JSON response
+  let parsedResponse: { sections?: any[] };
+  try {
+    parsedResponse = JSON.parse(content);
+  } catch (parseError) {
+    console.error('Failed to parse OpenAI response:', content);
+    throw new Error('Invalid JSON response from OpenAI API');
+  }
+
+  // Validate response structure
+  if (!parsedResponse.sections || !Array.isArray(parsedResponse.sections)) {
+    throw new Error('Invalid response format: missing sections array');
+  }
+
+  // Validate and clean up each section
+  const sections = parsedResponse.sections
+    .map((section: any, sectionIndex: number) => {
+      if (!section || typeof section !== 'object') {
+        throw new Error(
+          `Invalid section at index ${sectionIndex}: must be an object`
+        );
+      }
+      if (!section.title || typeof section.title !== 'string') {
+        throw new Error(
+          `Invalid section title at index ${sectionIndex}: must be a string`
+        );
+      }
+      if (!Array.isArray(section.points)) {
+        throw new Error(
+          `Invalid section points at index ${sectionIndex}: must be an array`
+        );
+      }
+
+      const points = section.points
+        .map((point: any, pointIndex: number) => {
+          if (!point || typeof point !== 'string') {
+            throw new Error(
+              `Invalid point at section ${sectionIndex}, point ${pointIndex}: must be a string`
+            );
+          }
+          return String(point).trim();
+        })
+        .filter((point: string) => point.length > 0); // Remove empty points
+
+      if (points.length === 0) {
+        throw new Error(
+          `Section "${section.title}" has no valid points`
+        );
+      }
+
+      return {
+        section: { title: String(section.title).trim(), points },
+        raw: section,
+      };
+    })
+    .filter(({ section }) => section.points.length > 0); // Remove sections with no points
+
+  if (sections.length === 0) {
+    throw new Error('No valid summary sections generated');
+  }
+
+  return sections;
+}
+
+/**
+ * Reads the model's [first, last] citation, clamped to the group it summarized
+ * Falls back to the whole group when the citation is missing or outside it.
+ */
+function citedRange(raw: any, groupRange: LocationRange | null): LocationRange | null {
+  if (!groupRange) {
+    return null;
+  }
+
+  const cited = raw?.[`${groupRange.unit}s`];
+  const [first, last] = Array.isArray(cited) ? cited.map(Number) : [];
+  if (!Number.isInteger(first)) {
+    return groupRange;
+  }
+
+  const clamp = (n: number) => Math.min(groupRange.end, Math.max(groupRange.start, n));
+  const start = clamp(first);
+  const end = clamp(Number.isInteger(last) ? last : first);
+  return { unit: groupRange.unit, start: Math.min(start, end), end: Math.max(start, end) };
+}
+
+function rangeFields(range: LocationRange | null): Partial<SummarySection> {
+  if (!range) return {};
+  return range.unit === 'slide'
+    ? { slideStart: range.start, slideEnd: range.end }
+    : { pageStart: range.start, pageEnd: range.end };
+}
+
+function mergeRanges(sections: SummarySection[]): Partial<SummarySection> {
+  const pages = sections.flatMap((s) => (s.pageStart !== undefined ? [s.pageStart, s.pageEnd ?? s.pageStart] : []));
+  const slides = sections.flatMap((s) => (s.slideStart !== undefined ? [s.slideStart, s.slideEnd ?? s.slideStart] : []));
+  if (slides.length > 0) return { slideStart: Math.min(...slides), slideEnd: Math.max(...slides) };
+  if (pages.length > 0) return { pageStart: Math.min(...pages), pageEnd: Math.max(...pages) };
+  return {};
+}
+
+/**
+ * Human-readable range of a summary section, e.g. "pages 3-7" or "slide 4"
+ */
+function sectionRangeLabel(section: SummarySection): string | null {
+  const [unit, start, end] =
+    section.slideStart !== undefined
+      ? ['slide', section.slideStart, section.slideEnd ?? section.slideStart]
+      : section.pageStart !== undefined
+      ? ['page', section.pageStart, section.pageEnd ?? section.pageStart]
+      : [null, 0, 0];
+  if (!unit) return null;
+  return start === end ? `${unit} ${start}` : `${unit}s ${start}-${end}`;
+}
+
+const STUDY_ARTIFACT_INSTRUCTIONS: Record<StudyArtifactKind, { task: string; format: string }> = {
+  tldr: {
+    task: `Write a one-paragraph TL;DR of the whole document.
+- 3-5 sentences a student could read in under a minute
+- Cover the main topic, the key ideas and why they matter
+- Plain prose, no bullet points or headings`,
+    format: `{
+  "paragraph": "The document covers ..."
+}`,
+  },
+  outline: {
+    task: `Write a detailed hierarchical outline of the document.
+- Follow the document's own order and structure
+- Use up to three levels: main topics, subtopics, and specific points
+- Keep each entry short, like a line in lecture notes
+- Use bold formatting for key terms (use **term** syntax)`,
+    format: `{
+  "items": [
+    {
+      "title": "Main topic",
+      "children": [
+        { "title": "Subtopic", "children": [{ "title": "Specific point", "children": [] }] }
+      ]
+    }
+  ]
+}`,
+  },
+  glossary: {
+    task: `Write a glossary of the key terms a student needs to know from the document.
+- 8-30 terms, in alphabetical order
+- Define each term in one or two sentences, as the document uses it
+- Only include terms the document actually covers`,
+    format: `{
+  "entries": [
+    { "term": "Term", "definition": "What the term means in this document" }
+  ]
+}`,
+  },
+  exam_questions: {
+    task: `List the questions most likely to appear on an exam about the document.
+- 8-15 open-ended questions covering the most important material
+- Mix recall, explanation and application questions
+- Give each a brief model answer (1-3 sentences) based on the document`,
+    format: `{
+  "questions": [
+    { "question": "Explain ...", "answer": "Brief model answer" }
+  ]
+}`,
+  },
+};
+
+const MAX_OUTLINE_DEPTH = 3;
+
+/**
+ * Generate a study artifact (TL;DR, outline, glossary or likely exam questions) from extracted segments
+ * Long documents are first condensed into per-part notes, as for summaries.
+ * @param kind Which artifact to generate
+ * @param segments Extracted text per page or slide
+ */
+export async function generateStudyArtifact(
+  kind: StudyArtifactKind,
+  segments: TextSegment[]
+): Promise<StudyArtifactContent> {
+  const openai = getOpenAIClient();
+
+  const extractedText = joinSegments(segments);
+  if (!extractedText) {
+    throw new Error('Extracted text is empty. Cannot generate study artifact.');
+  }
+
+  const groups = splitIntoSummaryGroups(segments, extractedText);
+  console.log('[study-artifact] Generating artifact', { kind, groupCount: groups.length });
+
+  try {
+    let source = groups[0].text;
+    if (groups.length > 1) {
+      const partials = await mapWithConcurrency(groups, MAX_PARALLEL_SECTIONS, (group) =>
+        summarizeGroup(openai, group, 'part')
+      );
+      source = `Notes on each part of the document, in order:\n\n${formatPartialSummaries(partials.flat())}`;
+    }
+
+    const instructions = STUDY_ARTIFACT_INSTRUCTIONS[kind];
+    const systemPrompt = `You are an expert educator creating study materials from educational content.
+${instructions.task}
+
+Return your response as a JSON object.`;
+
+    const userPrompt = `Create the study material from the following document content:
+
+${source}
+
+Return it as a JSON object with this exact structure:
+${instructions.format}`;
+
+    const response = await openai.responses.create({
+      model: process.env.OPENAI_MODEL || 'gpt-5-nano', // Use gpt-5-nano by default for cost efficiency
+      instructions: systemPrompt,
+      input: userPrompt,
+      text: { format: { type: 'json_object' } },
+      reasoning: { effort: "low" },
+      max_output_tokens: 8000,
+    });
+
+    if (response.error) {
+      throw new Error(
+        `OpenAI response error: ${response.error.message || response.error.code || 'Unknown error'}`
+      );
+    }
+
+    const content = response.output_text;
+    if (!content) {
+      throw new Error('No response content from OpenAI API');
+    }
+
+    let parsedResponse: any;
+    try {
+      parsedResponse = JSON.parse(content);
+    } catch (parseError) {
+      console.error('Failed to parse OpenAI response:', content);
+      throw new Error('Invalid JSON response from OpenAI API');
+    }
+
+    return parseStudyArtifact(kind, parsedResponse);
+  } catch (error) {
+    // Re-throw if it's already our custom error
+    if (error instanceof Error && error.message.includes('OPENAI_API_KEY')) {
+      throw error;
+    }
+
+    // Handle OpenAI API errors
+    if (error instanceof OpenAI.APIError) {
+      console.error('OpenAI API Error:', error.status, error.message);
+      throw new Error(
+        `OpenAI API error: ${error.message}. Please check your API key and try again.`
+      );
+    }
+
+    // Handle other errors
+    console.error('Error generating study artifact:', error);
+    throw new Error(
+      `Failed to generate study artifact: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Validates the model's JSON for a study artifact and drops malformed entries
+ */
+function parseStudyArtifact(kind: StudyArtifactKind, parsed: any): StudyArtifactContent {
+  const nonEmpty = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim().length > 0;
+
+  switch (kind) {
+    case 'tldr': {
+      if (!nonEmpty(parsed?.paragraph)) {
+        throw new Error('Invalid response format: missing paragraph');
+      }
+      return { kind, paragraph: parsed.paragraph.trim() };
+    }
+    case 'outline': {
+      const parseNodes = (nodes: unknown, depth: number): OutlineNode[] =>
+        (Array.isArray(nodes) ? nodes : [])
+          .filter((node: any) => nonEmpty(node?.title))
+          .map((node: any) => ({
+            title: node.title.trim(),
+            children: depth < MAX_OUTLINE_DEPTH ? parseNodes(node.children, depth + 1) : [],
+          }));
+      const items = parseNodes(parsed?.items, 1);
+      if (items.length === 0) {
+        throw new Error('Invalid response format: outline has no items');
+      }
+      return { kind, items };
+    }
+    case 'glossary': {
+      const entries = (Array.isArray(parsed?.entries) ? parsed.entries : [])
+        .filter((entry: any) => nonEmpty(entry?.term) && nonEmpty(entry?.definition))
+        .map((entry: any) => ({ term: entry.term.trim(), definition: entry.definition.trim() }))
+        .sort((a: GlossaryEntry, b: GlossaryEntry) => a.term.localeCompare(b.term));
+      if (entries.length === 0) {
+        throw new Error('Invalid response format: glossary has no entries');
+      }
+      return { kind, entries };
+    }
+    case 'exam_questions': {
+      const questions = (Array.isArray(parsed?.questions) ? parsed.questions : [])
+        .filter((item: any) => nonEmpty(item?.question))
+        .map((item: any) => ({
+          question: item.question.trim(),
+          answer: nonEmpty(item.answer) ? item.answer.trim() : '',
+        }));
+      if (questions.length === 0) {
+        throw new Error('Invalid response format: no exam questions');
+      }
+      return { kind, questions };
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { before, describe, test } from 'node:test';
+import type { QuestionResult } from './grading';
+
+// Grading imports the generation module, whose retrieval helpers load the database client
+let grading: typeof import('./grading');
+before(async () => {
+  process.env.POSTGRES_URL ??= 'postgres://localhost:5432/test';
+  grading = await import('./grading');
+});
+
+describe('completeRubricGrading', () => {
+  test('resolves pending answers to deleted questions with no credit', async () => {
+    const results: QuestionResult[] = [
+      { questionId: 7, answer: 'Photosynthesis needs light', correct: false, credit: 0, pending: true },
+    ];
+
+    const grade = await grading.completeRubricGrading([], results);
+
+    assert.equal(grade.status, 'graded');
+    assert.equal(grade.score, 0);
+    assert.equal(grade.results[0].pending, undefined);
+    assert.equal(grade.results[0].credit, 0);
+    assert.equal(grade.results[0].correct, false);
+  });
+});
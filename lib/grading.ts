@@ -0,0 +1,305 @@
+/**
+ * Server-side grading for quiz attempts
+ */
+
+import type { Question } from './db/schema';
+import { gradeShortAnswerWithModel } from './generation';
+import {
+  getQuestionType,
+  isAnswerCorrect,
+  isRubricGraded,
+  rubricTotalPoints,
+  validateSubmittedAnswer,
+  type AnswerKey,
+  type ShortAnswerKey,
+  type SubmittedAnswer,
+} from './questions';
+
+/**
+ * Bump whenever grading rules change so stored attempts record which rules scored them
+ */
+export const GRADING_VERSION = 3;
+
+export type AttemptStatus = 'in_progress' | 'grading' | 'graded' | 'failed';
+
+/**
+ * How an attempt was taken:
+ * - standard: the whole quiz, graded on submission
+ * - adaptive: only the questions served in an adaptive session
+ * - practice: the whole quiz with answers checked as they were given
+ */
+export const ATTEMPT_MODES = ['standard', 'adaptive', 'practice'] as const;
+
+export type AttemptMode = (typeof ATTEMPT_MODES)[number];
+
+export interface RubricScore {
+  criterion: string;
+  points: number; // Points available
+  awarded: number; // Points earned
+}
+
+export interface RubricGrade {
+  rubricScores: RubricScore[];
+  feedback: string;
+}
+
+export interface QuestionResult {
+  questionId: number;
+  answer: SubmittedAnswer | null; // Submitted answer, null if unanswered
+  correct: boolean;
+  credit?: number; // Fraction earned (0-1), set for rubric-graded questions
+  pending?: boolean; // Waiting for the grading worker
+  feedback?: string;
+  rubricScores?: RubricScore[];
+}
+
+export interface GradedAttempt {
+  status: AttemptStatus; // 'grading' while rubric-graded answers are pending
+  score: number; // Percentage (0-100), provisional while grading
+  correctCount: number;
+  totalQuestions: number;
+  results: QuestionResult[];
+  gradingVersion: number;
+}
+
+/**
+ * Validates submitted answers against the quiz questions
+ * @param quizQuestions Questions belonging to the quiz
+ * @param answers Raw answers from the request body (Record<questionId, SubmittedAnswer>)
+ * @returns Parsed answers keyed by question ID, or an error message
+ */
+export function validateAnswers(
+  quizQuestions: Question[],
+  answers: unknown
+): { answers: Map<number, SubmittedAnswer> } | { error: string } {
+  if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+    return { error: 'Invalid answers format. Expected an object of questionId to answer' };
+  }
+
+  const questionsById = new Map(quizQuestions.map((q) => [q.id, q]));
+  const parsed = new Map<number, SubmittedAnswer>();
+
+  for (const [key, value] of Object.entries(answers as Record<string, unknown>)) {
+    const questionId = Number(key);
+    const question = Number.isInteger(questionId) ? questionsById.get(questionId) : undefined;
+    if (!question) {
+      return { error: `Answer submitted for unknown question ${key}` };
+    }
+
+    const choices = Array.isArray(question.choices) ? (question.choices as string[]) : null;
+    const answerError = validateSubmittedAnswer(getQuestionType(question), choices, value);
+    if (answerError) {
+      return { error: `Invalid answer for question ${questionId}. ${answerError}` };
+    }
+
+    parsed.set(questionId, value as SubmittedAnswer);
+  }
+
+  return { answers: parsed };
+}
+
+/**
+ * Keeps the saved answers that are still valid for the current questions
+ * Questions can be edited, regenerated or deleted while an attempt is open; answers that no
+ * longer fit their question are dropped so they count as unanswered rather than failing grading.
+ * @param quizQuestions Questions belonging to the quiz as they are now
+ * @param answers Answers saved on the attempt (Record<questionId, SubmittedAnswer>)
+ */
+export function retainValidAnswers(
+  quizQuestions: Question[],
+  answers: Record<string, SubmittedAnswer>
+): Record<string, SubmittedAnswer> {
+  const questionsById = new Map(quizQuestions.map((q) => [q.id, q]));
+
+  return Object.fromEntries(
+    Object.entries(answers).filter(([key, value]) => {
+      const question = questionsById.get(Number(key));
+      if (!question) {
+        return false;
+      }
+      const choices = Array.isArray(question.choices) ? (question.choices as string[]) : null;
+      return validateSubmittedAnswer(getQuestionType(question), choices, value) === null;
+    })
+  );
+}
+
+/**
+ * Grades answers against the stored answer key
+ * Unanswered questions count as incorrect.
+ * @param quizQuestions Questions belonging to the quiz
+ * @param answers Raw answers from the request body
+ * @returns Computed score and per-question breakdown, or a validation error
+ */
+export function gradeAnswers(
+  quizQuestions: Question[],
+  answers: unknown
+): GradedAttempt | { error: string } {
+  if (quizQuestions.length === 0) {
+    return { error: 'Quiz has no questions to grade' };
+  }
+
+  const validation = validateAnswers(quizQuestions, answers);
+  if ('error' in validation) {
+    return validation;
+  }
+
+  const results: QuestionResult[] = quizQuestions.map((question) => {
+    const answer = validation.answers.get(question.id);
+    const type = getQuestionType(question);
+
+    if (isRubricGraded(type)) {
+      const hasText = typeof answer === 'string' && answer.trim().length > 0;
+      return hasText
+        ? { questionId: question.id, answer, correct: false, credit: 0, pending: true }
+        : {
+            questionId: question.id,
+            answer: answer ?? null,
+            correct: false,
+            credit: 0,
+            feedback: 'No answer submitted.',
+          };
+    }
+
+    return {
+      questionId: question.id,
+      answer: answer ?? null,
+      correct:
+        answer !== undefined &&
+        isAnswerCorrect(type, question.answer as AnswerKey | null, answer),
+    };
+  });
+
+  return summarizeResults(results);
+}
+
+/**
+ * Computes the attempt score from per-question results
+ * Rubric-graded questions contribute partial credit; everything else is all or nothing.
+ */
+export function summarizeResults(results: QuestionResult[]): GradedAttempt {
+  const earned = results.reduce((sum, r) => sum + (r.credit ?? (r.correct ? 1 : 0)), 0);
+
+  return {
+    status: results.some((r) => r.pending) ? 'grading' : 'graded',
+    score: results.length > 0 ? Math.round((earned / results.length) * 100) : 0,
+    correctCount: results.filter((r) => r.correct).length,
+    totalQuestions: results.length,
+    results,
+    gradingVersion: GRADING_VERSION,
+  };
+}
+
+/**
+ * Scores every pending rubric-graded result and recomputes the attempt score
+ * Model grading runs in the grading worker because calls can take several seconds each;
+ * request handlers that need a score right away pass `local` to use the keyword grader.
+ * @param quizQuestions Questions belonging to the quiz (with answer keys)
+ * @param results Stored results from the initial grading pass
+ */
+export async function completeRubricGrading(
+  quizQuestions: Question[],
+  results: QuestionResult[],
+  options: { local?: boolean } = {}
+): Promise<GradedAttempt> {
+  const questionsById = new Map(quizQuestions.map((q) => [q.id, q]));
+  const completed: QuestionResult[] = [];
+
+  for (const result of results) {
+    if (!result.pending) {
+      completed.push(result);
+      continue;
+    }
+
+    // A question deleted or changed type before grading can't be scored; it earns nothing
+    // rather than leaving the attempt waiting forever
+    const question = questionsById.get(result.questionId);
+    if (!question || !isRubricGraded(getQuestionType(question)) || typeof result.answer !== 'string') {
+      completed.push({
+        questionId: result.questionId,
+        answer: result.answer,
+        correct: false,
+        credit: 0,
+        feedback: 'This question was removed before your answer could be graded.',
+      });
+      continue;
+    }
+
+    const key = question.answer as ShortAnswerKey;
+    const grade = options.local
+      ? gradeShortAnswerLocally(key, result.answer)
+      : await gradeShortAnswer(question.prompt, key, result.answer);
+    const total = rubricTotalPoints(key);
+    const awarded = grade.rubricScores.reduce((sum, c) => sum + c.awarded, 0);
+    const credit = total > 0 ? Math.min(1, awarded / total) : 0;
+
+    completed.push({
+      questionId: result.questionId,
+      answer: result.answer,
+      correct: credit >= 1,
+      credit,
+      feedback: grade.feedback,
+      rubricScores: grade.rubricScores,
+    });
+  }
+
+  return summarizeResults(completed);
+}
+
+/**
+ * Scores a short answer against its rubric
+ * Uses the model when OPENAI_API_KEY is set, otherwise the deterministic local grader.
+ */
+export async function gradeShortAnswer(
+  prompt: string,
+  key: ShortAnswerKey,
+  answer: string
+): Promise<RubricGrade> {
+  if (!process.env.OPENAI_API_KEY) {
+    return gradeShortAnswerLocally(key, answer);
+  }
+
+  return gradeShortAnswerWithModel(prompt, key, answer);
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'that', 'with', 'this', 'from', 'are', 'was', 'were', 'has', 'have',
+  'its', 'their', 'they', 'not', 'but', 'how', 'why', 'what', 'which', 'when', 'into',
+  'answer', 'mentions', 'explains', 'describes', 'states', 'identifies', 'correctly', 'notes',
+]);
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .normalize('NFKC')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length >= 3 && !STOP_WORDS.has(word))
+  );
+}
+
+/**
+ * Deterministic keyword-overlap grader used when no OpenAI API key is configured
+ * Each criterion earns points in proportion to how many of its content words appear in the answer.
+ */
+export function gradeShortAnswerLocally(key: ShortAnswerKey, answer: string): RubricGrade {
+  const answerWords = contentWords(answer);
+
+  const rubricScores = key.rubric.map((c) => {
+    const keywords = [...contentWords(c.criterion)];
+    const matched = keywords.filter((word) => answerWords.has(word)).length;
+    const fraction = keywords.length > 0 ? matched / keywords.length : 0;
+    return {
+      criterion: c.criterion,
+      points: c.points,
+      awarded: Math.round(c.points * fraction),
+    };
+  });
+
+  const metCount = rubricScores.filter((c) => c.awarded === c.points).length;
+
+  return {
+    rubricScores,
+    feedback: `Scored by keyword matching against the rubric: ${metCount} of ${rubricScores.length} criteria fully met.`,
+  };
+}
+
@@ -0,0 +1,13 @@
+/**
+ * Heading paths: the headings enclosing a passage, outermost first
+ * Kept apart from chunking so client components can format them without the tokenizer.
+ */
+
+/**
+ * Separator shown between headings, e.g. "Unit 2 > Photosynthesis > Light reactions"
+ */
+export const HEADING_PATH_SEPARATOR = ' > ';
+
+export function formatHeadingPath(headingPath: string[] | null | undefined): string | null {
+  return headingPath && headingPath.length > 0 ? headingPath.join(HEADING_PATH_SEPARATOR) : null;
+}
@@ -0,0 +1,331 @@
+/**
+ * Question types, answer key shapes and answer checking
+ * Shared by generation, grading and the quiz UIs.
+ */
+
+export const QUESTION_TYPES = [
+  'multiple_choice',
+  'true_false',
+  'multi_select',
+  'fill_blank',
+  'short_answer',
+] as const;
+
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: 'Multiple choice',
+  true_false: 'True / false',
+  multi_select: 'Multi-select',
+  fill_blank: 'Fill in the blank',
+  short_answer: 'Short answer',
+};
+
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+/**
+ * Cognitive levels from Bloom's taxonomy, collapsed to the three we generate for
+ */
+export const BLOOM_LEVELS = ['recall', 'apply', 'analyze'] as const;
+
+export type BloomLevel = (typeof BLOOM_LEVELS)[number];
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+export const BLOOM_LEVEL_LABELS: Record<BloomLevel, string> = {
+  recall: 'Recall',
+  apply: 'Apply',
+  analyze: 'Analyze',
+};
+
+/**
+ * Outcome of checking a generated question's answer key against its source:
+ * - supported: the source backs the marked answer
+ * - ambiguous: more than one answer could be defended, or the wording is unclear
+ * - unsupported: the source does not cover the question
+ * - incorrect: the source contradicts the marked answer
+ */
+export const VERIFICATION_VERDICTS = ['supported', 'ambiguous', 'unsupported', 'incorrect'] as const;
+
+export type VerificationVerdict = (typeof VERIFICATION_VERDICTS)[number];
+
+export interface QuestionVerification {
+  verdict: VerificationVerdict;
+  confidence: number; // 0-1, how sure the verifier is that the marked answer is right
+  issue?: string; // What the verifier found wrong, if anything
+}
+
+/**
+ * Supported questions below this confidence are flagged for review
+ */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export interface FillBlankAnswer {
+  accepted: string[]; // Accepted answers, compared after normalization
+  caseSensitive: boolean;
+  ignorePunctuation: boolean;
+}
+
+export interface RubricCriterion {
+  criterion: string; // What a full-credit answer must include
+  points: number; // Positive integer
+}
+
+export interface ShortAnswerKey {
+  modelAnswer: string;
+  rubric: RubricCriterion[];
+}
+
+/**
+ * Shape of `questions.answer` per question type:
+ * - multiple_choice: index of the correct choice
+ * - true_false: boolean
+ * - multi_select: sorted indices of every correct choice
+ * - fill_blank: accepted answers plus normalization rules
+ * - short_answer: model answer plus grading rubric
+ */
+export type AnswerKey = number | boolean | number[] | FillBlankAnswer | ShortAnswerKey;
+
+/**
+ * Shape of a submitted answer per question type:
+ * choice index, boolean, array of choice indices, or free text
+ */
+export type SubmittedAnswer = number | boolean | number[] | string;
+
+const MAX_FILL_BLANK_LENGTH = 500;
+const MAX_SHORT_ANSWER_LENGTH = 4000;
+
+export function isQuestionType(value: unknown): value is QuestionType {
+  return typeof value === 'string' && (QUESTION_TYPES as readonly string[]).includes(value);
+}
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return typeof value === 'string' && (DIFFICULTIES as readonly string[]).includes(value);
+}
+
+export function isBloomLevel(value: unknown): value is BloomLevel {
+  return typeof value === 'string' && (BLOOM_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolves a stored question's type, treating legacy or unknown values as multiple choice
+ */
+export function getQuestionType(question: { type: string }): QuestionType {
+  return isQuestionType(question.type) ? question.type : 'multiple_choice';
+}
+
+export function isVerificationVerdict(value: unknown): value is VerificationVerdict {
+  return typeof value === 'string' && (VERIFICATION_VERDICTS as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a verified question should be shown to the quiz owner for review
+ */
+export function isFlaggedForReview(verification: QuestionVerification | null): boolean {
+  if (!verification) return false;
+  return verification.verdict !== 'supported' || verification.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Whether verification found the question unusable, so generation should drop it
+ */
+export function isRejectedByVerification(verification: QuestionVerification | null): boolean {
+  return verification?.verdict === 'unsupported' || verification?.verdict === 'incorrect';
+}
+
+/**
+ * Whether answers to this type are scored against a rubric by the grading worker
+ * rather than checked directly against the answer key
+ */
+export function isRubricGraded(type: QuestionType): boolean {
+  return type === 'short_answer';
+}
+
+/**
+ * Total points available in a short-answer rubric
+ */
+export function rubricTotalPoints(key: ShortAnswerKey): number {
+  return key.rubric.reduce((sum, c) => sum + c.points, 0);
+}
+
+/**
+ * Normalizes a fill-in-the-blank response according to the answer's rules
+ */
+export function normalizeFillBlank(
+  text: string,
+  rules: Pick<FillBlankAnswer, 'caseSensitive' | 'ignorePunctuation'>
+): string {
+  let normalized = text.normalize('NFKC').trim().replace(/\s+/g, ' ');
+  if (rules.ignorePunctuation) {
+    normalized = normalized.replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+  }
+  if (!rules.caseSensitive) {
+    normalized = normalized.toLowerCase();
+  }
+  return normalized;
+}
+
+/**
+ * Validates an answer key for a question type
+ * @returns Error message, or null if the answer key is valid
+ */
+export function validateAnswerKey(
+  type: QuestionType,
+  choices: string[] | null,
+  answer: unknown
+): string | null {
+  const choiceCount = choices ? choices.length : 0;
+
+  switch (type) {
+    case 'multiple_choice':
+      if (choiceCount < 2) return 'Multiple choice questions need at least 2 choices';
+      if (!isChoiceIndex(answer, choiceCount)) {
+        return `Answer must be a choice index between 0 and ${choiceCount - 1}`;
+      }
+      return null;
+    case 'true_false':
+      return typeof answer === 'boolean' ? null : 'Answer must be true or false';
+    case 'multi_select':
+      if (choiceCount < 2) return 'Multi-select questions need at least 2 choices';
+      if (!isChoiceIndexList(answer, choiceCount)) {
+        return 'Answer must be a non-empty list of distinct choice indices';
+      }
+      return null;
+    case 'fill_blank': {
+      const key = answer as FillBlankAnswer | null;
+      if (
+        !key ||
+        typeof key !== 'object' ||
+        !Array.isArray(key.accepted) ||
+        key.accepted.length === 0 ||
+        !key.accepted.every((a) => typeof a === 'string' && a.trim().length > 0)
+      ) {
+        return 'Fill-in-the-blank questions need at least one accepted answer';
+      }
+      if (typeof key.caseSensitive !== 'boolean' || typeof key.ignorePunctuation !== 'boolean') {
+        return 'Fill-in-the-blank normalization rules must be booleans';
+      }
+      return null;
+    }
+    case 'short_answer': {
+      const key = answer as ShortAnswerKey | null;
+      if (!key || typeof key !== 'object' || typeof key.modelAnswer !== 'string' || !key.modelAnswer.trim()) {
+        return 'Short-answer questions need a model answer';
+      }
+      if (!Array.isArray(key.rubric) || key.rubric.length === 0) {
+        return 'Short-answer questions need at least one rubric criterion';
+      }
+      const invalid = key.rubric.find(
+        (c) =>
+          !c ||
+          typeof c.criterion !== 'string' ||
+          !c.criterion.trim() ||
+          !Number.isInteger(c.points) ||
+          c.points <= 0
+      );
+      if (invalid) {
+        return 'Each rubric criterion needs a description and a positive whole number of points';
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Validates a submitted answer against the question's type and choices
+ * @returns Error message, or null if the answer is well-formed
+ */
+export function validateSubmittedAnswer(
+  type: QuestionType,
+  choices: string[] | null,
+  value: unknown
+): string | null {
+  const choiceCount = choices ? choices.length : 0;
+
+  switch (type) {
+    case 'multiple_choice':
+      return isChoiceIndex(value, choiceCount)
+        ? null
+        : `Must be a choice index between 0 and ${choiceCount - 1}`;
+    case 'true_false':
+      return typeof value === 'boolean' ? null : 'Must be true or false';
+    case 'multi_select':
+      return isChoiceIndexList(value, choiceCount)
+        ? null
+        : `Must be a non-empty list of distinct choice indices between 0 and ${choiceCount - 1}`;
+    case 'fill_blank':
+      if (typeof value !== 'string') return 'Must be a string';
+      if (value.length > MAX_FILL_BLANK_LENGTH) {
+        return `Must be at most ${MAX_FILL_BLANK_LENGTH} characters`;
+      }
+      return null;
+    case 'short_answer':
+      if (typeof value !== 'string') return 'Must be a string';
+      if (value.length > MAX_SHORT_ANSWER_LENGTH) {
+        return `Must be at most ${MAX_SHORT_ANSWER_LENGTH} characters`;
+      }
+      return null;
+  }
+}
+
+/**
+ * Checks a well-formed submitted answer against the answer key
+ * Rubric-graded types are never correct here; the grading worker scores them.
+ */
+export function isAnswerCorrect(
+  type: QuestionType,
+  answerKey: AnswerKey | null,
+  submitted: SubmittedAnswer
+): boolean {
+  if (answerKey === null || answerKey === undefined) {
+    return false;
+  }
+
+  switch (type) {
+    case 'multiple_choice':
+    case 'true_false':
+      return submitted === answerKey;
+    case 'multi_select': {
+      if (!Array.isArray(answerKey) || !Array.isArray(submitted)) return false;
+      const expected = new Set(answerKey);
+      return submitted.length === expected.size && submitted.every((i) => expected.has(i));
+    }
+    case 'fill_blank': {
+      const key = answerKey as FillBlankAnswer;
+      if (typeof submitted !== 'string' || !Array.isArray(key.accepted)) return false;
+      const response = normalizeFillBlank(submitted, key);
+      return response.length > 0 && key.accepted.some((a) => normalizeFillBlank(a, key) === response);
+    }
+    case 'short_answer':
+      return false;
+  }
+}
+
+/**
+ * Whether a submitted value counts as an answer (used to gate navigation in the take UI)
+ */
+export function hasAnswer(value: SubmittedAnswer | undefined): boolean {
+  if (value === undefined) return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim().length > 0;
+  return true;
+}
+
+function isChoiceIndex(value: unknown, choiceCount: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < choiceCount;
+}
+
+function isChoiceIndexList(value: unknown, choiceCount: number): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((v) => isChoiceIndex(v, choiceCount)) &&
+    new Set(value).size === value.length
+  );
+}
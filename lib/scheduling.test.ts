@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  gradeFromResult,
+  INITIAL_EASE,
+  interleaveByDocument,
+  scheduleReview,
+  type ReviewSchedule,
+} from './scheduling';
+
+const now = new Date('2026-01-01T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function learned(overrides: Partial<ReviewSchedule> = {}): ReviewSchedule {
+  return { ease: INITIAL_EASE, intervalDays: 6, repetitions: 2, lapses: 0, dueAt: now, ...overrides };
+}
+
+function assertEase(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `ease ${actual} should be ${expected}`);
+}
+
+describe('scheduleReview', () => {
+  test('a first correct review comes back the next day at the starting ease', () => {
+    const schedule = scheduleReview(null, 'good', now);
+
+    assert.equal(schedule.intervalDays, 1);
+    assert.equal(schedule.repetitions, 1);
+    assertEase(schedule.ease, INITIAL_EASE);
+    assert.equal(schedule.dueAt.getTime(), now.getTime() + DAY_MS);
+  });
+
+  test('first reviews graded hard and easy move the ease and interval apart', () => {
+    const hard = scheduleReview(null, 'hard', now);
+    const easy = scheduleReview(null, 'easy', now);
+
+    assert.equal(hard.intervalDays, 1);
+    assertEase(hard.ease, 2.36);
+    assert.equal(easy.intervalDays, 4);
+    assertEase(easy.ease, 2.6);
+  });
+
+  test('the second success waits six days, later ones multiply by the ease', () => {
+    const second = scheduleReview(scheduleReview(null, 'good', now), 'good', now);
+    assert.equal(second.intervalDays, 6);
+
+    const third = scheduleReview(second, 'good', now);
+    assert.equal(third.intervalDays, 15);
+    assert.equal(third.repetitions, 3);
+  });
+
+  test('hard on a learned item grows the interval slowly and lowers the ease', () => {
+    const schedule = scheduleReview(learned({ intervalDays: 10 }), 'hard', now);
+
+    assert.equal(schedule.intervalDays, 12);
+    assertEase(schedule.ease, 2.36);
+  });
+
+  test('again relearns the item in the same session and counts a lapse', () => {
+    const schedule = scheduleReview(learned({ intervalDays: 15, repetitions: 3 }), 'again', now);
+
+    assert.equal(schedule.intervalDays, 0);
+    assert.equal(schedule.repetitions, 0);
+    assert.equal(schedule.lapses, 1);
+    assertEase(schedule.ease, 1.96);
+    assert.equal(schedule.dueAt.getTime(), now.getTime() + 10 * 60 * 1000);
+  });
+
+  test('missing an item that was never learned is not a lapse', () => {
+    assert.equal(scheduleReview(null, 'again', now).lapses, 0);
+  });
+
+  test('the ease never drops below its floor', () => {
+    const schedule = scheduleReview(learned({ ease: 1.4 }), 'again', now);
+    assertEase(schedule.ease, 1.3);
+    assertEase(scheduleReview(schedule, 'again', now).ease, 1.3);
+  });
+
+  test('intervals are capped at a year and never shrink after a success', () => {
+    assert.equal(scheduleReview(learned({ intervalDays: 300 }), 'good', now).intervalDays, 365);
+    assert.equal(
+      scheduleReview(learned({ ease: 1.3, intervalDays: 1 }), 'hard', now).intervalDays,
+      2
+    );
+  });
+});
+
+describe('gradeFromResult', () => {
+  test('maps graded questions to review grades', () => {
+    assert.equal(gradeFromResult({ questionId: 1, answer: 0, correct: true }), 'good');
+    assert.equal(gradeFromResult({ questionId: 1, answer: 1, correct: false }), 'again');
+    assert.equal(gradeFromResult({ questionId: 1, answer: 'x', correct: false, credit: 0.5 }), 'hard');
+    assert.equal(gradeFromResult({ questionId: 1, answer: 'x', correct: false, credit: 0.25 }), 'again');
+  });
+
+  test('leaves answers waiting for rubric grading unscheduled', () => {
+    assert.equal(
+      gradeFromResult({ questionId: 1, answer: 'x', correct: false, credit: 0, pending: true }),
+      null
+    );
+  });
+});
+
+describe('interleaveByDocument', () => {
+  test('takes turns between documents, keeping each one in order', () => {
+    const items = [
+      { documentId: 1, id: 'a1' },
+      { documentId: 1, id: 'a2' },
+      { documentId: 1, id: 'a3' },
+      { documentId: 2, id: 'b1' },
+    ];
+
+    assert.deepEqual(
+      interleaveByDocument(items).map((item) => item.id),
+      ['a1', 'b1', 'a2', 'a3']
+    );
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Spaced repetition scheduling (SM-2 with Anki-style grades)
+ * Shared by attempt grading, the review session API and the review page.
+ */
+
+import type { QuestionResult } from './grading';
+
+export const REVIEW_ITEM_TYPES = ['question', 'flashcard'] as const;
+
+export type ReviewItemType = (typeof REVIEW_ITEM_TYPES)[number];
+
+/**
+ * How well an item was recalled:
+ * - again: forgotten or wrong; the item is relearned from the start
+ * - hard: recalled with difficulty or partly right
+ * - good: recalled correctly
+ * - easy: recalled without effort
+ */
+export const REVIEW_GRADES = ['again', 'hard', 'good', 'easy'] as const;
+
+export type ReviewGrade = (typeof REVIEW_GRADES)[number];
+
+export const REVIEW_GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+export interface ReviewSchedule {
+  ease: number; // Interval multiplier, starts at INITIAL_EASE and never drops below MIN_EASE
+  intervalDays: number; // 0 while relearning
+  repetitions: number; // Successful reviews in a row
+  lapses: number; // Times the item was forgotten after being learned
+  dueAt: Date;
+}
+
+export const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const RELEARN_DELAY_MINUTES = 10; // "Again" brings the item back later in the same session
+const HARD_INTERVAL_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+const MAX_INTERVAL_DAYS = 365;
+
+// SM-2 response quality (0-5) for each grade
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export function isReviewGrade(value: unknown): value is ReviewGrade {
+  return typeof value === 'string' && (REVIEW_GRADES as readonly string[]).includes(value);
+}
+
+export function isReviewItemType(value: unknown): value is ReviewItemType {
+  return typeof value === 'string' && (REVIEW_ITEM_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Next schedule for an item after a review
+ * @param previous Current schedule, or null the first time the item is reviewed
+ * @param grade How well the item was recalled
+ * @param now Review time
+ */
+export function scheduleReview(
+  previous: ReviewSchedule | null,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ReviewSchedule {
+  const ease = previous?.ease ?? INITIAL_EASE;
+  const repetitions = previous?.repetitions ?? 0;
+  const lapses = previous?.lapses ?? 0;
+  const interval = previous?.intervalDays ?? 0;
+
+  const quality = GRADE_QUALITY[grade];
+  const nextEase = Math.max(
+    MIN_EASE,
+    ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (grade === 'again') {
+    return {
+      ease: nextEase,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: repetitions > 0 ? lapses + 1 : lapses,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MINUTES * 60 * 1000),
+    };
+  }
+
+  let nextInterval: number;
+  if (repetitions === 0) {
+    nextInterval = grade === 'easy' ? 4 : 1;
+  } else if (repetitions === 1) {
+    nextInterval = grade === 'hard' ? 3 : grade === 'easy' ? 8 : 6;
+  } else if (grade === 'hard') {
+    nextInterval = interval * HARD_INTERVAL_FACTOR;
+  } else {
+    nextInterval = interval * nextEase * (grade === 'easy' ? EASY_BONUS : 1);
+  }
+  // Always move forward at least a day so a success never shortens the gap
+  nextInterval = Math.min(MAX_INTERVAL_DAYS, Math.max(interval + 1, Math.round(nextInterval)));
+
+  return {
+    ease: nextEase,
+    intervalDays: nextInterval,
+    repetitions: repetitions + 1,
+    lapses,
+    dueAt: new Date(now.getTime() + nextInterval * 24 * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Review grade implied by a graded question
+ * Partial rubric credit counts as "hard"; results still waiting for the grading worker have none.
+ */
+export function gradeFromResult(result: QuestionResult): ReviewGrade | null {
+  if (result.pending) {
+    return null;
+  }
+  if (result.correct) {
+    return 'good';
+  }
+  return result.credit !== undefined && result.credit >= 0.5 ? 'hard' : 'again';
+}
+
+/**
+ * Round-robin items across documents so a review session doesn't run through one document at a time
+ * Keeps each document's own order (most overdue first) and the order documents first appear in.
+ */
+export function interleaveByDocument<T extends { documentId: number }>(items: T[]): T[] {
+  const queues = new Map<number, T[]>();
+  for (const item of items) {
+    const queue = queues.get(item.documentId);
+    if (queue) {
+      queue.push(item);
+    } else {
+      queues.set(item.documentId, [item]);
+    }
+  }
+
+  const mixed: T[] = [];
+  const lists = [...queues.values()];
+  for (let round = 0; mixed.length < items.length; round++) {
+    for (const list of lists) {
+      if (round < list.length) {
+        mixed.push(list[round]);
+      }
+    }
+  }
+  return mixed;
+}
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  choiceOrderFor,
+  createPermutation,
+  displayedAnswers,
+  orderQuestions,
+  permuteQuestion,
+  toDisplayedAnswer,
+  toOriginalAnswer,
+  type AttemptPermutation,
+} from './shuffle';
+
+const questions = [
+  { id: 1, type: 'multiple_choice', choices: ['a', 'b', 'c', 'd'], answer: 2 },
+  { id: 2, type: 'multi_select', choices: ['w', 'x', 'y', 'z'], answer: [0, 3] },
+  { id: 3, type: 'true_false', choices: null, answer: true },
+  { id: 4, type: 'short_answer', choices: null, answer: null },
+];
+
+const permutation: AttemptPermutation = {
+  questionOrder: [3, 1, 4, 2],
+  choiceOrders: { 1: [3, 2, 1, 0], 2: [1, 3, 0, 2] },
+};
+
+describe('createPermutation', () => {
+  test('shuffles nothing unless the quiz asks for it', () => {
+    assert.equal(createPermutation(questions, { shuffleQuestions: false, shuffleChoices: false }), null);
+  });
+
+  test('orders every question once and leaves choices alone when only questions shuffle', () => {
+    const created = createPermutation(questions, { shuffleQuestions: true, shuffleChoices: false });
+
+    assert.deepEqual([...created!.questionOrder!].sort(), [1, 2, 3, 4]);
+    assert.deepEqual(created!.choiceOrders, {});
+  });
+
+  test('shuffles choices only for questions that have a list of them', () => {
+    const created = createPermutation(questions, { shuffleQuestions: false, shuffleChoices: true });
+
+    assert.equal(created!.questionOrder, null);
+    assert.deepEqual(Object.keys(created!.choiceOrders).sort(), ['1', '2']);
+    assert.deepEqual([...created!.choiceOrders[1]].sort(), [0, 1, 2, 3]);
+  });
+});
+
+describe('orderQuestions', () => {
+  test('follows the attempt order and puts questions added later last', () => {
+    const added = { id: 5, type: 'true_false', choices: null, answer: false };
+
+    assert.deepEqual(
+      orderQuestions([...questions, added], permutation).map((q) => q.id),
+      [3, 1, 4, 2, 5]
+    );
+  });
+
+  test('keeps quiz order without a permutation', () => {
+    assert.equal(orderQuestions(questions, null), questions);
+  });
+});
+
+describe('answer mapping', () => {
+  test('an answer given against the shown choices is stored against the originals', () => {
+    const order = choiceOrderFor(questions[0], permutation);
+
+    // Shown: d, c, b, a, so the user picks the second choice to answer "c"
+    assert.equal(toOriginalAnswer(1, order), 2);
+    assert.equal(toDisplayedAnswer(2, order), 1);
+  });
+
+  test('multi-select answers round trip and come back sorted', () => {
+    const order = choiceOrderFor(questions[1], permutation);
+    const shown = toDisplayedAnswer([0, 3], order);
+
+    assert.deepEqual(shown, [1, 2]);
+    assert.deepEqual(toOriginalAnswer(shown, order), [0, 3]);
+  });
+
+  test('the shown answer key marks the same choices the user sees', () => {
+    const single = permuteQuestion(questions[0], permutation);
+    assert.deepEqual(single.choices, ['d', 'c', 'b', 'a']);
+    assert.equal(single.choices![single.answer as number], 'c');
+
+    const multi = permuteQuestion(questions[1], permutation);
+    assert.deepEqual(multi.choices, ['x', 'z', 'w', 'y']);
+    assert.deepEqual(
+      (multi.answer as number[]).map((index) => multi.choices![index]).sort(),
+      ['w', 'z']
+    );
+  });
+
+  test('true/false and text answers pass through unchanged', () => {
+    assert.equal(choiceOrderFor(questions[2], permutation), null);
+    assert.equal(toOriginalAnswer(true, null), true);
+    assert.equal(toOriginalAnswer('osmosis', [1, 0]), 'osmosis');
+  });
+
+  test('choice orders that no longer fit an edited question are ignored', () => {
+    const edited = { ...questions[0], choices: ['a', 'b'] };
+
+    assert.equal(choiceOrderFor(edited, permutation), null);
+    assert.deepEqual(permuteQuestion(edited, permutation), edited);
+  });
+
+  test('stored answers are shown against the shuffled choices', () => {
+    assert.deepEqual(displayedAnswers({ 1: 2, 2: [0, 3], 3: true }, questions, permutation), {
+      1: 1,
+      2: [1, 2],
+      3: true,
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Per-attempt question and choice order for quizzes that shuffle
+ * Only graded attempts are shuffled; practice and adaptive sessions pick their own question
+ * order and show choices as stored. Answers are stored against the original choice indices,
+ * so grading never sees the shuffle; these helpers translate between what the user was shown
+ * and what is stored.
+ */
+
+import { getQuestionType, type AnswerKey, type SubmittedAnswer } from './questions';
+
+export interface AttemptPermutation {
+  questionOrder: number[] | null; // Question IDs in the order shown, null when questions keep quiz order
+  choiceOrders: Record<string, number[]>; // Per question ID: the original index of each choice as shown
+}
+
+interface ShuffledQuestion {
+  id: number;
+  type: string;
+  choices: unknown;
+}
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+function shuffled<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// True/false answers are booleans and keep their order
+function hasShuffleableChoices(question: ShuffledQuestion): question is ShuffledQuestion & { choices: string[] } {
+  const type = getQuestionType(question);
+  return (
+    (type === 'multiple_choice' || type === 'multi_select') &&
+    Array.isArray(question.choices) &&
+    question.choices.length > 1
+  );
+}
+
+/**
+ * Draws a fresh order for a new attempt
+ * @returns The permutation, or null when the quiz shuffles nothing
+ */
+export function createPermutation(
+  questions: ShuffledQuestion[],
+  options: { shuffleQuestions: boolean; shuffleChoices: boolean }
+): AttemptPermutation | null {
+  if (!options.shuffleQuestions && !options.shuffleChoices) {
+    return null;
+  }
+
+  const choiceOrders: Record<string, number[]> = {};
+  if (options.shuffleChoices) {
+    for (const question of questions) {
+      if (hasShuffleableChoices(question)) {
+        choiceOrders[question.id] = shuffled(question.choices.map((_, index) => index));
+      }
+    }
+  }
+
+  return {
+    questionOrder: options.shuffleQuestions ? shuffled(questions.map((q) => q.id)) : null,
+    choiceOrders,
+  };
+}
+
+/**
+ * Questions in the order the attempt shows them
+ * Questions added after the attempt started come last, in quiz order.
+ */
+export function orderQuestions<T extends { id: number }>(
+  questions: T[],
+  permutation: AttemptPermutation | null
+): T[] {
+  if (!permutation?.questionOrder) {
+    return questions;
+  }
+  const rank = new Map(permutation.questionOrder.map((id, index) => [id, index]));
+  return questions
+    .map((question, index) => ({ question, index }))
+    .sort(
+      (a, b) =>
+        (rank.get(a.question.id) ?? Infinity) - (rank.get(b.question.id) ?? Infinity) ||
+        a.index - b.index
+    )
+    .map(({ question }) => question);
+}
+
+/**
+ * Choice order for one question, or null when its choices are shown as stored
+ * An order that no longer fits the question (its choices were edited) is ignored.
+ */
+export function choiceOrderFor(
+  question: ShuffledQuestion,
+  permutation: AttemptPermutation | null
+): number[] | null {
+  const order = permutation?.choiceOrders[question.id];
+  if (!order || !hasShuffleableChoices(question) || order.length !== question.choices.length) {
+    return null;
+  }
+  return order;
+}
+
+/**
+ * Maps an answer given against the shown choices back to the stored choice indices
+ */
+export function toOriginalAnswer<T extends SubmittedAnswer | AnswerKey>(answer: T, order: number[] | null): T {
+  if (!order) return answer;
+  if (typeof answer === 'number') {
+    return (order[answer] ?? answer) as T;
+  }
+  if (Array.isArray(answer)) {
+    return answer.map((index) => order[index] ?? index).sort((a, b) => a - b) as T;
+  }
+  return answer;
+}
+
+/**
+ * Maps an answer or answer key from stored choice indices to the shown choices
+ */
+export function toDisplayedAnswer<T extends SubmittedAnswer | AnswerKey>(answer: T, order: number[] | null): T {
+  if (!order) return answer;
+  if (typeof answer === 'number') {
+    return order.indexOf(answer) as T;
+  }
+  if (Array.isArray(answer)) {
+    return answer.map((index) => order.indexOf(index)).sort((a, b) => a - b) as T;
+  }
+  return answer;
+}
+
+/**
+ * A question as the attempt shows it: choices in shown order, with the answer key
+ * (when present) pointing at the shown choices
+ */
+export function permuteQuestion<T extends ShuffledQuestion & { answer?: unknown }>(
+  question: T,
+  permutation: AttemptPermutation | null
+): T {
+  const order = choiceOrderFor(question, permutation);
+  if (!order) {
+    return question;
+  }
+  const choices = question.choices as string[];
+  return {
+    ...question,
+    choices: order.map((index) => choices[index]),
+    ...(question.answer !== undefined && question.answer !== null
+      ? { answer: toDisplayedAnswer(question.answer as AnswerKey, order) }
+      : {}),
+  };
+}
+
+/**
+ * Stored answers keyed by question ID, mapped to the shown choices
+ */
+export function displayedAnswers(
+  answers: Record<string, SubmittedAnswer>,
+  questions: ShuffledQuestion[],
+  permutation: AttemptPermutation | null
+): Record<string, SubmittedAnswer> {
+  if (!permutation) {
+    return answers;
+  }
+  const questionsById = new Map(questions.map((q) => [String(q.id), q]));
+  return Object.fromEntries(
+    Object.entries(answers).map(([questionId, answer]) => {
+      const question = questionsById.get(questionId);
+      return [
+        questionId,
+        question ? toDisplayedAnswer(answer, choiceOrderFor(question, permutation)) : answer,
+      ];
+    })
+  );
+}
@@ -7,6 +7,7 @@ import {
   ChangeMessageVisibilityCommand,
   type Message,
 } from '@aws-sdk/client-sqs';
+import type { QuizGenerationOptions } from '@/lib/generation';
 
 // SQS Configuration
 const AWS_REGION = process.env.AWS_REGION || 'us-east-2';
@@ -66,15 +67,93 @@ export interface DocumentProcessingMessage {
   timestamp: string;
 }
 
+/**
+ * Regenerate a document's summary from its stored extraction (sent on the document processing queue)
+ */
+export interface SummaryGenerationMessage {
+  type: 'summary-generation';
+  documentId: number;
+  timestamp: string;
+}
+
+/**
+ * Generate a study artifact version already created as 'generating' (sent on the document processing queue)
+ */
+export interface StudyArtifactGenerationMessage {
+  type: 'study-artifact-generation';
+  artifactId: number;
+  documentId: number;
+  timestamp: string;
+}
+
 export interface QuizGenerationMessage {
   type: 'quiz-generation';
   quizId: number;
   documentId: number;
   questionCount: number;
+  options?: QuizGenerationOptions;
   timestamp: string;
 }
 
-export type SQSJobMessage = DocumentProcessingMessage | QuizGenerationMessage;
+/**
+ * Fill a flashcard deck created as 'generating' (sent on the quiz generation queue)
+ */
+export interface FlashcardGenerationMessage {
+  type: 'flashcard-generation';
+  deckId: number;
+  documentId: number;
+  cardCount: number;
+  timestamp: string;
+}
+
+/**
+ * Rubric grading for a submitted attempt (sent on the quiz generation queue)
+ */
+export interface AttemptGradingMessage {
+  type: 'attempt-grading';
+  attemptId: number;
+  timestamp: string;
+}
+
+/**
+ * Regenerate one question, or add more questions like existing ones (sent on the quiz generation queue)
+ */
+export type QuestionGenerationJob = { quizId: number } & (
+  | { mode: 'regenerate'; questionId: number }
+  | { mode: 'more'; count: number; exampleQuestionIds: number[] }
+);
+
+export type QuestionGenerationMessage = QuestionGenerationJob & {
+  type: 'question-generation';
+  timestamp: string;
+};
+
+export type SQSJobMessage =
+  | DocumentProcessingMessage
+  | SummaryGenerationMessage
+  | StudyArtifactGenerationMessage
+  | QuizGenerationMessage
+  | AttemptGradingMessage
+  | QuestionGenerationMessage
+  | FlashcardGenerationMessage;
+
+/**
+ * Jobs handled by the document processor; everything else goes to the quiz generator
+ */
+export type DocumentQueueMessage =
+  | DocumentProcessingMessage
+  | SummaryGenerationMessage
+  | StudyArtifactGenerationMessage;
+
+export type QuizQueueMessage = Exclude<SQSJobMessage, DocumentQueueMessage>;
+
+export function isDocumentQueueMessage(message: SQSJobMessage): message is DocumentQueueMessage {
+  return (
+    message.type === 'document-processing' ||
+    message.type === 'summary-generation' ||
+    message.type === 'study-artifact-generation'
+  );
+}
 
 /**
  * Send a document processing job to SQS
@@ -126,7 +205,8 @@ export async function enqueueDocumentProcessing(
 export async function enqueueQuizGeneration(
   quizId: number,
   documentId: number,
-  questionCount: number
+  questionCount: number,
+  options: QuizGenerationOptions = {}
 ): Promise<string> {
   const client = getSQSClient();
   const queueUrl = await getQueueUrl(QUIZ_GENERATION_QUEUE);
@@ -136,6 +216,7 @@ export async function enqueueQuizGeneration(
     quizId,
     documentId,
     questionCount,
+    options,
     timestamp: new Date().toISOString(),
   };
 
@@ -163,6 +244,201 @@ export async function enqueueQuizGeneration(
   return response.MessageId || '';
 }
 
+/**
+ * Send a flashcard deck generation job to SQS
+ * Shares the quiz generation queue and worker; ordered per deck.
+ */
+export async function enqueueFlashcardGeneration(
+  deckId: number,
+  documentId: number,
+  cardCount: number
+): Promise<string> {
+  const client = getSQSClient();
+  const queueUrl = await getQueueUrl(QUIZ_GENERATION_QUEUE);
+
+  const message: FlashcardGenerationMessage = {
+    type: 'flashcard-generation',
+    deckId,
+    documentId,
+    cardCount,
+    timestamp: new Date().toISOString(),
+  };
+
+  const command = new SendMessageCommand({
+    QueueUrl: queueUrl,
+    MessageBody: JSON.stringify(message),
+    MessageAttributes: {
+      MessageType: {
+        DataType: 'String',
+        StringValue: 'flashcard-generation',
+      },
+    },
+    MessageDeduplicationId: `flashcards-${deckId}-${Date.now()}`,
+    MessageGroupId: `flashcards-${deckId}`,
+  });
+
+  const response = await client.send(command);
+  console.log('[sqs] Enqueued flashcard generation job', {
+    deckId,
+    documentId,
+    messageId: response.MessageId
+  });
+
+  return response.MessageId || '';
+}
+
+/**
+ * Send an attempt grading job to SQS
+ * Shares the quiz generation queue and worker; ordered per attempt.
+ */
+export async function enqueueAttemptGrading(attemptId: number): Promise<string> {
+  const client = getSQSClient();
+  const queueUrl = await getQueueUrl(QUIZ_GENERATION_QUEUE);
+
+  const message: AttemptGradingMessage = {
+    type: 'attempt-grading',
+    attemptId,
+    timestamp: new Date().toISOString(),
+  };
+
+  const command = new SendMessageCommand({
+    QueueUrl: queueUrl,
+    MessageBody: JSON.stringify(message),
+    MessageAttributes: {
+      MessageType: {
+        DataType: 'String',
+        StringValue: 'attempt-grading',
+      },
+    },
+    MessageDeduplicationId: `attempt-${attemptId}-${Date.now()}`,
+    MessageGroupId: `attempt-${attemptId}`,
+  });
+
+  const response = await client.send(command);
+  console.log('[sqs] Enqueued attempt grading job', {
+    attemptId,
+    messageId: response.MessageId
+  });
+
+  return response.MessageId || '';
+}
+
+/**
+ * Send a summary regeneration job to SQS
+ * Grouped with the document so it never runs alongside the document's own processing.
+ */
+export async function enqueueSummaryGeneration(documentId: number): Promise<string> {
+  const client = getSQSClient();
+  const queueUrl = await getQueueUrl(DOCUMENT_PROCESSING_QUEUE);
+
+  const message: SummaryGenerationMessage = {
+    type: 'summary-generation',
+    documentId,
+    timestamp: new Date().toISOString(),
+  };
+
+  const command = new SendMessageCommand({
+    QueueUrl: queueUrl,
+    MessageBody: JSON.stringify(message),
+    MessageAttributes: {
+      MessageType: {
+        DataType: 'String',
+        StringValue: 'summary-generation',
+      },
+    },
+    MessageDeduplicationId: `summary-${documentId}-${Date.now()}`,
+    MessageGroupId: `document-${documentId}`,
+  });
+
+  const response = await client.send(command);
+  console.log('[sqs] Enqueued summary generation job', {
+    documentId,
+    messageId: response.MessageId
+  });
+
+  return response.MessageId || '';
+}
+
+/**
+ * Send a study artifact generation job to SQS
+ * Grouped with the document, like summary regeneration.
+ */
+export async function enqueueStudyArtifactGeneration(
+  artifactId: number,
+  documentId: number
+): Promise<string> {
+  const client = getSQSClient();
+  const queueUrl = await getQueueUrl(DOCUMENT_PROCESSING_QUEUE);
+
+  const message: StudyArtifactGenerationMessage = {
+    type: 'study-artifact-generation',
+    artifactId,
+    documentId,
+    timestamp: new Date().toISOString(),
+  };
+
+  const command = new SendMessageCommand({
+    QueueUrl: queueUrl,
+    MessageBody: JSON.stringify(message),
+    MessageAttributes: {
+      MessageType: {
+        DataType: 'String',
+        StringValue: 'study-artifact-generation',
+      },
+    },
+    MessageDeduplicationId: `study-artifact-${artifactId}`,
+    MessageGroupId: `document-${documentId}`,
+  });
+
+  const response = await client.send(command);
+  console.log('[sqs] Enqueued study artifact generation job', {
+    artifactId,
+    documentId,
+    messageId: response.MessageId
+  });
+
+  return response.MessageId || '';
+}
+
+/**
+ * Send a question regeneration or "more like these" job to SQS
+ * Grouped with the quiz so jobs for one quiz run in order.
+ */
+export async function enqueueQuestionGeneration(
+  job: QuestionGenerationJob
+): Promise<string> {
+  const client = getSQSClient();
+  const queueUrl = await getQueueUrl(QUIZ_GENERATION_QUEUE);
+
+  const message: QuestionGenerationMessage = {
+    ...job,
+    type: 'question-generation',
+    timestamp: new Date().toISOString(),
+  };
+
+  const command = new SendMessageCommand({
+    QueueUrl: queueUrl,
+    MessageBody: JSON.stringify(message),
+    MessageAttributes: {
+      MessageType: {
+        DataType: 'String',
+        StringValue: 'question-generation',
+      },
+    },
+    MessageDeduplicationId: `questions-${job.quizId}-${Date.now()}`,
+    MessageGroupId: `quiz-${job.quizId}`,
+  });
+
+  const response = await client.send(command);
+  console.log('[sqs] Enqueued question generation job', {
+    quizId: job.quizId,
+    mode: job.mode,
+    messageId: response.MessageId
+  });
+
+  return response.MessageId || '';
+}
+
 /**
  * Receive messages from a queue (for workers)
  */
@@ -230,7 +506,15 @@ export async function changeMessageVisibility(
 export function parseMessage(body: string): SQSJobMessage | null {
   try {
     const parsed = JSON.parse(body);
-    if (parsed.type === 'document-processing' || parsed.type === 'quiz-generation') {
+    if (
+      parsed.type === 'document-processing' ||
+      parsed.type === 'summary-generation' ||
+      parsed.type === 'study-artifact-generation' ||
+      parsed.type === 'quiz-generation' ||
+      parsed.type === 'attempt-grading' ||
+      parsed.type === 'question-generation' ||
+      parsed.type === 'flashcard-generation'
+    ) {
       return parsed as SQSJobMessage;
     }
     return null;
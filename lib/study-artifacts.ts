@@ -0,0 +1,60 @@
+/**
+ * Study artifact kinds and content shapes
+ * Shared by generation, the document worker and the document page.
+ */
+
+export const STUDY_ARTIFACT_KINDS = ['tldr', 'outline', 'glossary', 'exam_questions'] as const;
+
+export type StudyArtifactKind = (typeof STUDY_ARTIFACT_KINDS)[number];
+
+export const STUDY_ARTIFACT_LABELS: Record<StudyArtifactKind, string> = {
+  tldr: 'TL;DR',
+  outline: 'Outline',
+  glossary: 'Glossary',
+  exam_questions: 'Exam questions',
+};
+
+export interface TldrContent {
+  kind: 'tldr';
+  paragraph: string;
+}
+
+export interface OutlineNode {
+  title: string;
+  children: OutlineNode[];
+}
+
+export interface OutlineContent {
+  kind: 'outline';
+  items: OutlineNode[];
+}
+
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+}
+
+export interface GlossaryContent {
+  kind: 'glossary';
+  entries: GlossaryEntry[];
+}
+
+export interface ExamQuestion {
+  question: string;
+  answer: string; // Brief model answer to check against
+}
+
+export interface ExamQuestionsContent {
+  kind: 'exam_questions';
+  questions: ExamQuestion[];
+}
+
+export type StudyArtifactContent =
+  | TldrContent
+  | OutlineContent
+  | GlossaryContent
+  | ExamQuestionsContent;
+
+export function isStudyArtifactKind(value: unknown): value is StudyArtifactKind {
+  return typeof value === 'string' && (STUDY_ARTIFACT_KINDS as readonly string[]).includes(value);
+}
@@ -4,6 +4,8 @@ export type Plan = {
   quizGenerations: number;
   canRegenerateQuizzes: boolean;
   questionsPerQuiz: number;
+  flashcardDeckGenerations: number; // Same period rules as quizGenerations
+  cardsPerDeck: number;
 };
 
 export const PLANS = {
@@ -13,6 +15,8 @@ export const PLANS = {
     quizGenerations: 2, // lifetime, no period
     canRegenerateQuizzes: false,
     questionsPerQuiz: 10,
+    flashcardDeckGenerations: 2, // lifetime, no period
+    cardsPerDeck: 20,
   },
   plus: {
     name: 'Plus',
@@ -20,6 +24,8 @@ export const PLANS = {
     quizGenerations: 30, // per period
     canRegenerateQuizzes: true,
     questionsPerQuiz: 20, // 10 base + 10 additional
+    flashcardDeckGenerations: 30, // per period
+    cardsPerDeck: 50,
   },
   pro: {
     name: 'Pro',
@@ -27,6 +33,8 @@ export const PLANS = {
     quizGenerations: 200, // per period
     canRegenerateQuizzes: true,
     questionsPerQuiz: 20, // 10 base + 10 additional
+    flashcardDeckGenerations: 200, // per period
+    cardsPerDeck: 50,
   },
 } as const satisfies Record<string, Plan>;
 
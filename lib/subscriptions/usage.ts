@@ -1,5 +1,5 @@
 import { db } from '@/lib/db/drizzle';
-import { users, usageTracking, documents, quizzes } from '@/lib/db/schema';
+import { users, usageTracking, documents, quizzes, flashcardDecks } from '@/lib/db/schema';
 import { eq, and, gte, lte, desc } from 'drizzle-orm';
 import { PLANS, type Plan, type PlanName } from './plans';
 import type { User } from '@/lib/db/schema';
@@ -27,6 +27,7 @@ export async function getCurrentUsagePeriod(user: User) {
     // We'll count directly from quizzes table when needed
     return {
       quizGenerations: 0,
+      flashcardGenerations: 0,
       periodStart: user.createdAt,
       periodEnd: null,
     };
@@ -167,6 +168,67 @@ export async function checkQuizGenerationLimit(user: User): Promise<{ allowed: b
   return { allowed: true };
 }
 
+/**
+ * Check if user can regenerate a question or add generated questions to an existing quiz
+ * Paid plans only; each job counts as one quiz generation.
+ */
+export async function checkQuestionGenerationLimit(user: User): Promise<{ allowed: boolean; error?: string }> {
+  const plan = getPlanConfig(user);
+
+  if (!plan.canRegenerateQuizzes) {
+    return {
+      allowed: false,
+      error: 'Regenerating questions is available on paid plans. Upgrade to regenerate questions.',
+    };
+  }
+
+  return checkQuizGenerationLimit(user);
+}
+
+/**
+ * Check if user can generate a flashcard deck
+ * Counted separately from quizzes, with the same free-lifetime and paid-period rules.
+ */
+export async function checkFlashcardGenerationLimit(user: User): Promise<{ allowed: boolean; error?: string }> {
+  const plan = getPlanConfig(user);
+
+  if (plan.flashcardDeckGenerations === -1) {
+    return { allowed: true };
+  }
+
+  // Free plan: count only successful decks (status='ready')
+  if (getUserPlan(user) === 'free') {
+    const successfulDecks = await db
+      .select()
+      .from(flashcardDecks)
+      .where(
+        and(
+          eq(flashcardDecks.userId, user.id),
+          eq(flashcardDecks.status, 'ready')
+        )
+      );
+
+    if (successfulDecks.length >= plan.flashcardDeckGenerations) {
+      return {
+        allowed: false,
+        error: `You've reached your limit of ${plan.flashcardDeckGenerations} flashcard deck generations. Upgrade to continue.`,
+      };
+    }
+    return { allowed: true };
+  }
+
+  // Paid plans: check period usage (only counts successful decks)
+  const usage = await getCurrentUsagePeriod(user);
+  if (usage.flashcardGenerations >= plan.flashcardDeckGenerations) {
+    return {
+      allowed: false,
+      error: `You've reached your limit of ${plan.flashcardDeckGenerations} flashcard deck generations for this period. Your limit will reset on ${usage.periodEnd ? new Date(usage.periodEnd).toLocaleDateString() : 'your next billing date'}.`,
+    };
+  }
+
+  return { allowed: true };
+}
+
 /**
  * Increment quiz generation count
  */
@@ -191,6 +253,30 @@ export async function incrementQuizGeneration(user: User) {
     .where(eq(usageTracking.id, usage.id));
 }
 
+/**
+ * Increment flashcard deck generation count
+ */
+export async function incrementFlashcardGeneration(user: User) {
+  const plan = getUserPlan(user);
+
+  if (plan === 'free') {
+    // Free plan: no tracking needed, just count from flashcard_decks table
+    return;
+  }
+
+  const usage = await getCurrentUsagePeriod(user);
+  if (!('id' in usage)) {
+    return;
+  }
+  await db
+    .update(usageTracking)
+    .set({
+      flashcardGenerations: usage.flashcardGenerations + 1,
+      updatedAt: new Date(),
+    })
+    .where(eq(usageTracking.id, usage.id));
+}
+
 /**
  * Reset usage period (called on subscription renewal)
  */
@@ -242,6 +328,16 @@ export async function getUserUsageStats(user: User) {
         )
       );
 
+    const successfulDecks = await db
+      .select()
+      .from(flashcardDecks)
+      .where(
+        and(
+          eq(flashcardDecks.userId, user.id),
+          eq(flashcardDecks.status, 'ready')
+        )
+      );
+
     return {
       plan: planName,
       quizGenerations: {
@@ -249,6 +345,11 @@ export async function getUserUsageStats(user: User) {
         limit: plan.quizGenerations,
         remaining: Math.max(0, plan.quizGenerations - successfulQuizzes.length),
       },
+      flashcardGenerations: {
+        used: successfulDecks.length,
+        limit: plan.flashcardDeckGenerations,
+        remaining: Math.max(0, plan.flashcardDeckGenerations - successfulDecks.length),
+      },
       periodEnd: null,
     };
   }
@@ -261,6 +362,11 @@ export async function getUserUsageStats(user: User) {
       limit: plan.quizGenerations,
       remaining: Math.max(0, plan.quizGenerations - (usage.quizGenerations || 0)),
     },
+    flashcardGenerations: {
+      used: usage.flashcardGenerations || 0,
+      limit: plan.flashcardDeckGenerations,
+      remaining: Math.max(0, plan.flashcardDeckGenerations - (usage.flashcardGenerations || 0)),
+    },
     periodEnd: usage.periodEnd,
   };
 }
@@ -0,0 +1,25 @@
+/**
+ * Token counting with the o200k_base BPE encoding used by the gpt-4o and gpt-5 model families
+ * The encoding ships with gpt-tokenizer, so counting needs no network call.
+ * Server-only: the encoding tables are several megabytes.
+ */
+
+import { countTokens as countEncodedTokens, decode, encode } from 'gpt-tokenizer/encoding/o200k_base';
+
+export function countTokens(text: string): number {
+  return text ? countEncodedTokens(text) : 0;
+}
+
+/**
+ * Cuts text down to at most maxTokens tokens, ending on a whole line where possible
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const tokens = encode(text);
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+
+  const truncated = decode(tokens.slice(0, maxTokens));
+  const lastLine = truncated.lastIndexOf('\n');
+  return lastLine > truncated.length / 2 ? truncated.slice(0, lastLine) : truncated;
+}
@@ -5,7 +5,7 @@
 import { sql } from 'drizzle-orm';
 import { db, client } from './db/drizzle';
 import { documentChunks } from './db/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import type { DocumentChunk } from './db/schema';
 import { generateEmbedding } from './embeddings';
 
@@ -29,7 +29,7 @@ export async function findSimilarChunks(
   // Using postgres client directly for raw SQL with pgvector
   const results = await client.unsafe(
     `SELECT 
-      id, document_id, extraction_id, chunk_index, text, embedding, token_count, created_at
+      id, document_id, extraction_id, chunk_index, text, embedding, token_count, metadata, created_at
     FROM document_chunks
     WHERE document_id = $1
     ORDER BY embedding <=> $2::vector
@@ -48,6 +48,7 @@ export async function findSimilarChunks(
       ? row.embedding.replace(/[\[\]]/g, '').split(',').map(Number)
       : row.embedding,
     tokenCount: row.token_count,
+    metadata: row.metadata,
     createdAt: row.created_at,
   })) as DocumentChunk[];
 }
@@ -95,12 +96,35 @@ export async function findDiverseChunks(
  * Uses a hybrid approach: combines similarity search with diversity
  * @param documentId Document ID
  * @param questionCount Number of questions to generate (affects chunk selection)
+ * @param options.focus Optional topic focus; when set, retrieval is restricted to chunks relevant to it
+ * @param options.fullCoverage Return every chunk (or every focus match) in document order for map-reduce generation
  * @returns Array of chunks to use for question generation
  */
 export async function findChunksForQuestionGeneration(
   documentId: number,
-  questionCount: number = 8
+  questionCount: number = 8,
+  options: { focus?: string | null; fullCoverage?: boolean } = {}
 ): Promise<DocumentChunk[]> {
+  if (options.fullCoverage) {
+    if (options.focus) {
+      const [headingMatches, similar] = await Promise.all([
+        findChunksByHeading(documentId, options.focus),
+        findChunksByQuery(documentId, options.focus, questionCount * 6),
+      ]);
+      const matches = new Map([...similar, ...headingMatches].map((chunk) => [chunk.id, chunk]));
+      return [...matches.values()].sort((a, b) => a.chunkIndex - b.chunkIndex);
+    }
+    return db
+      .select()
+      .from(documentChunks)
+      .where(eq(documentChunks.documentId, documentId))
+      .orderBy(documentChunks.chunkIndex);
+  }
+
+  if (options.focus) {
+    return findFocusedChunks(documentId, options.focus, questionCount);
+  }
+
   // Strategy: Generate a general query embedding and find diverse similar chunks
   // For quiz generation, we want to cover the entire document, so we'll use
   // a combination of similarity and diversity
@@ -151,6 +175,86 @@ export async function findChunksForQuestionGeneration(
   return combinedChunks.slice(0, targetChunks);
 }
 
+/**
+ * Find chunks relevant to a topic focus, spread across the parts of the document that match
+ * Over-fetches by similarity, then skips chunks adjacent to ones already picked so the
+ * questions don't all come from one passage.
+ * @param documentId Document ID
+ * @param focus Topic focus text, e.g. "chapter 3 enzymes"
+ * @param questionCount Number of questions to generate
+ * @returns Array of chunks in document order
+ */
+export async function findFocusedChunks(
+  documentId: number,
+  focus: string,
+  questionCount: number = 8
+): Promise<DocumentChunk[]> {
+  // Chunks in a section whose heading names the focus come first, then the closest matches
+  const [headingMatches, similar] = await Promise.all([
+    findChunksByHeading(documentId, focus),
+    findChunksByQuery(documentId, focus, questionCount * 4),
+  ]);
+  const headingIds = new Set(headingMatches.map((chunk) => chunk.id));
+  const candidates = [...headingMatches, ...similar.filter((chunk) => !headingIds.has(chunk.id))];
+  const targetChunks = Math.min(candidates.length, questionCount * 2);
+
+  const selected: DocumentChunk[] = [];
+  const skipped: DocumentChunk[] = [];
+
+  // Candidates arrive most similar first, so earlier picks are the most relevant
+  for (const chunk of candidates) {
+    if (selected.length >= targetChunks) {
+      break;
+    }
+    const isAdjacent = selected.some(
+      (picked) => Math.abs(picked.chunkIndex - chunk.chunkIndex) <= 1
+    );
+    if (isAdjacent) {
+      skipped.push(chunk);
+    } else {
+      selected.push(chunk);
+    }
+  }
+
+  // Narrow focuses may only match one passage; fill up with the best remaining matches
+  for (const chunk of skipped) {
+    if (selected.length >= targetChunks) {
+      break;
+    }
+    selected.push(chunk);
+  }
+
+  return selected.sort((a, b) => a.chunkIndex - b.chunkIndex);
+}
+
+/**
+ * Find chunks with a heading in their path that contains the given text, e.g. a focus of
+ * "light reactions" matches chunks under "Unit 2 > Photosynthesis > Light reactions"
+ * @param documentId Document ID
+ * @param headingText Text to look for in each heading (case-insensitive, taken literally)
+ * @returns Array of chunks in document order
+ */
+export async function findChunksByHeading(
+  documentId: number,
+  headingText: string
+): Promise<DocumentChunk[]> {
+  // Escaped so % and _ in the focus match themselves rather than acting as wildcards
+  const pattern = `%${headingText.trim().replace(/[\\%_]/g, '\\$&')}%`;
+  return db
+    .select()
+    .from(documentChunks)
+    .where(
+      and(
+        eq(documentChunks.documentId, documentId),
+        sql`EXISTS (
+          SELECT 1 FROM jsonb_array_elements_text(${documentChunks.metadata}->'headingPath') AS heading
+          WHERE heading ILIKE ${pattern} ESCAPE '\\'
+        )`
+      )
+    )
+    .orderBy(documentChunks.chunkIndex);
+}
+
 /**
  * Find chunks by custom query text
  * @param documentId Document ID
@@ -0,0 +1,78 @@
+/**
+ * Attempt Grading Worker
+ * Scores rubric-graded (short answer) responses for submitted attempts
+ */
+
+import { db } from '@/lib/db/drizzle';
+import { quizAttempts, questions } from '@/lib/db/schema';
+import { completeRubricGrading, type QuestionResult } from '@/lib/grading';
+import { recordAttemptReviews } from '@/lib/db/queries';
+import { eq } from 'drizzle-orm';
+import type { AttemptGradingMessage } from '@/lib/sqs/client';
+
+/**
+ * Process a single attempt grading job
+ */
+export async function processAttemptGrading(message: AttemptGradingMessage): Promise<void> {
+  const { attemptId } = message;
+
+  try {
+    console.log('[attempt-grader] Starting attempt grading', { attemptId });
+
+    const [attempt] = await db
+      .select()
+      .from(quizAttempts)
+      .where(eq(quizAttempts.id, attemptId))
+      .limit(1);
+
+    if (!attempt) {
+      console.warn('[attempt-grader] Attempt not found, skipping', { attemptId });
+      return;
+    }
+
+    if (attempt.status === 'graded') {
+      console.log('[attempt-grader] Attempt already graded, skipping', { attemptId });
+      return;
+    }
+
+    // Includes retired questions, which attempts submitted before a regeneration still answered
+    const quizQuestions = await db
+      .select()
+      .from(questions)
+      .where(eq(questions.quizId, attempt.quizId));
+
+    const previousResults = (attempt.results as QuestionResult[] | null) || [];
+    const grade = await completeRubricGrading(quizQuestions, previousResults);
+
+    await db
+      .update(quizAttempts)
+      .set({
+        score: grade.score,
+        status: grade.status,
+        results: grade.results,
+        gradingVersion: grade.gradingVersion,
+      })
+      .where(eq(quizAttempts.id, attemptId));
+
+    // Objective answers were scheduled at submission; only the newly graded ones are left
+    const pendingIds = new Set(previousResults.filter((r) => r.pending).map((r) => r.questionId));
+    try {
+      await recordAttemptReviews(
+        attempt.userId,
+        grade.results.filter((r) => pendingIds.has(r.questionId))
+      );
+    } catch (reviewError) {
+      console.error('[attempt-grader] Error scheduling reviews:', reviewError);
+    }
+
+    console.log('[attempt-grader] Attempt grading complete', { attemptId, score: grade.score });
+  } catch (error) {
+    console.error('[attempt-grader] Error grading attempt:', error);
+    // Marked failed so the review page stops waiting; a retry that succeeds overwrites this
+    await db
+      .update(quizAttempts)
+      .set({ status: 'failed' })
+      .where(eq(quizAttempts.id, attemptId));
+    throw error;
+  }
+}
@@ -4,11 +4,21 @@
  */
 
 import { db } from '@/lib/db/drizzle';
-import { documents, extractions, documentChunks, type NewExtraction, type NewDocumentChunk } from '@/lib/db/schema';
+import {
+  documents,
+  extractions,
+  documentChunks,
+  studyArtifacts,
+  type NewExtraction,
+  type NewDocumentChunk,
+} from '@/lib/db/schema';
 import { extractTextFromDocument } from '@/lib/extraction';
-import { chunkDocument, estimateTokenCount } from '@/lib/chunking';
+import { chunkSegments, embeddingInput, metadataForSegments, type TextSegment } from '@/lib/chunking';
+import { countTokens } from '@/lib/tokens';
 import { generateEmbeddings } from '@/lib/embeddings';
-import { generateSummary } from '@/lib/generation';
+import { generateStudyArtifact, generateSummary } from '@/lib/generation';
+import { isStudyArtifactKind } from '@/lib/study-artifacts';
+import { getExtractionForDocument } from '@/lib/db/queries';
 import { eq } from 'drizzle-orm';
 import {
   receiveMessages,
@@ -16,8 +26,12 @@ import {
   parseMessage,
   enqueueQuizGeneration,
   changeMessageVisibility,
+  isDocumentQueueMessage,
   QUEUES,
   type DocumentProcessingMessage,
+  type DocumentQueueMessage,
+  type StudyArtifactGenerationMessage,
+  type SummaryGenerationMessage,
 } from '@/lib/sqs/client';
 
 /**
@@ -44,6 +58,7 @@ export async function processDocument(message: DocumentProcessingMessage): Promi
       documentId,
       rawText: extractedText,
       method: extractionMethod,
+      segments: extractionResult.segments,
     };
 
     const [extraction] = await db
@@ -66,7 +81,7 @@ export async function processDocument(message: DocumentProcessingMessage): Promi
     try {
       console.log('[document-processor] Generating summary', { documentId, textLength: extractedText.length });
       if (extractedText && extractedText.trim().length > 0) {
-        summary = await generateSummary(extractedText);
+        summary = await generateSummary(extractionResult.segments);
         console.log('[document-processor] Generated summary', { documentId, sectionCount: summary.length });
       }
     } catch (error) {
@@ -76,7 +91,7 @@ export async function processDocument(message: DocumentProcessingMessage): Promi
 
     // Chunk the document
     console.log('[document-processor] Starting chunking', { documentId });
-    const chunks = chunkDocument(extractedText);
+    const chunks = chunkSegments(extractionResult.segments);
     console.log('[document-processor] Created chunks', { documentId, chunkCount: chunks.length });
 
     if (chunks.length === 0) {
@@ -87,10 +102,11 @@ export async function processDocument(message: DocumentProcessingMessage): Promi
           index: 0,
           startChar: 0,
           endChar: extractedText.trim().length,
+          metadata: metadataForSegments(extractionResult.segments),
         }];
         console.log('[document-processor] Creating single chunk for short document');
 
-        const embeddings = await generateEmbeddings([singleChunk[0].text]);
+        const embeddings = await generateEmbeddings([embeddingInput(singleChunk[0])]);
 
         const newChunks: NewDocumentChunk[] = [{
           documentId,
@@ -98,7 +114,8 @@ export async function processDocument(message: DocumentProcessingMessage): Promi
           chunkIndex: 0,
           text: singleChunk[0].text,
           embedding: embeddings[0] as any,
-          tokenCount: estimateTokenCount(singleChunk[0].text),
+          tokenCount: countTokens(singleChunk[0].text),
+          metadata: singleChunk[0].metadata ?? null,
         }];
 
         await db.insert(documentChunks).values(newChunks);
@@ -106,8 +123,8 @@ export async function processDocument(message: DocumentProcessingMessage): Promi
         throw new Error('Extracted text is empty. Cannot create chunks.');
       }
     } else {
-      // Generate embeddings for all chunks
-      const chunkTexts = chunks.map((chunk) => chunk.text);
+      // Generate embeddings for all chunks, prefixed with their heading path
+      const chunkTexts = chunks.map(embeddingInput);
       console.log('[document-processor] Generating embeddings', { documentId, chunkCount: chunkTexts.length });
       const embeddings = await generateEmbeddings(chunkTexts);
       console.log('[document-processor] Generated embeddings', { documentId, embeddingCount: embeddings.length });
@@ -119,7 +136,8 @@ export async function processDocument(message: DocumentProcessingMessage): Promi
         chunkIndex: chunk.index,
         text: chunk.text,
         embedding: embeddings[index] as any,
-        tokenCount: estimateTokenCount(chunk.text),
+        tokenCount: countTokens(chunk.text),
+        metadata: chunk.metadata ?? null,
       }));
 
       await db.insert(documentChunks).values(newChunks);
@@ -131,7 +149,9 @@ export async function processDocument(message: DocumentProcessingMessage): Promi
       .update(documents)
       .set({
         status: 'ready',
-        summary: summary ? summary : null
+        summary: summary ? summary : null,
+        summaryStatus: summary ? 'ready' : 'failed',
+        pageCount: extractionResult.pageCount ?? null, // Null for Word documents
       })
       .where(eq(documents.id, documentId));
 
@@ -195,6 +215,116 @@ export async function processDocument(message: DocumentProcessingMessage): Promi
   }
 }
 
+/**
+ * Extracted segments saved for a document, for jobs that run after processing
+ */
+async function loadExtractedSegments(documentId: number): Promise<TextSegment[]> {
+  const extraction = await getExtractionForDocument(documentId);
+  if (!extraction) {
+    throw new Error('No extraction found for document');
+  }
+
+  // Extractions saved before segments existed only have the raw text
+  return (extraction.segments as TextSegment[] | null)?.length
+    ? (extraction.segments as TextSegment[])
+    : [{ text: extraction.rawText }];
+}
+
+/**
+ * Regenerate the summary of an already processed document from its saved extraction
+ */
+export async function processSummaryGeneration(message: SummaryGenerationMessage): Promise<void> {
+  const { documentId } = message;
+
+  try {
+    console.log('[document-processor] Regenerating summary', { documentId });
+
+    await db
+      .update(documents)
+      .set({ summaryStatus: 'generating' })
+      .where(eq(documents.id, documentId));
+
+    const segments = await loadExtractedSegments(documentId);
+    const summary = await generateSummary(segments);
+
+    await db
+      .update(documents)
+      .set({ summary, summaryStatus: 'ready' })
+      .where(eq(documents.id, documentId));
+
+    console.log('[document-processor] Regenerated summary', { documentId, sectionCount: summary.length });
+  } catch (error) {
+    console.error('[document-processor] Failed to regenerate summary:', error);
+    // Keep the previous summary; only the status records the failure
+    await db
+      .update(documents)
+      .set({ summaryStatus: 'failed' })
+      .where(eq(documents.id, documentId));
+    throw error;
+  }
+}
+
+/**
+ * Generate the content of a study artifact version created by the document page
+ */
+export async function processStudyArtifactGeneration(
+  message: StudyArtifactGenerationMessage
+): Promise<void> {
+  const { artifactId, documentId } = message;
+
+  const [artifact] = await db
+    .select()
+    .from(studyArtifacts)
+    .where(eq(studyArtifacts.id, artifactId))
+    .limit(1);
+
+  if (!artifact || artifact.status === 'ready') {
+    console.log('[document-processor] Skipping study artifact', { artifactId, status: artifact?.status });
+    return;
+  }
+
+  try {
+    if (!isStudyArtifactKind(artifact.kind)) {
+      throw new Error(`Unknown study artifact kind: ${artifact.kind}`);
+    }
+
+    console.log('[document-processor] Generating study artifact', { artifactId, documentId, kind: artifact.kind });
+    const segments = await loadExtractedSegments(documentId);
+    const content = await generateStudyArtifact(artifact.kind, segments);
+
+    await db
+      .update(studyArtifacts)
+      .set({ content, status: 'ready' })
+      .where(eq(studyArtifacts.id, artifactId));
+
+    console.log('[document-processor] Generated study artifact', { artifactId, kind: artifact.kind });
+  } catch (error) {
+    console.error('[document-processor] Failed to generate study artifact:', error);
+    await db
+      .update(studyArtifacts)
+      .set({ status: 'failed' })
+      .where(eq(studyArtifacts.id, artifactId));
+    throw error;
+  }
+}
+
+/**
+ * Process a single message from the document processing queue based on its type
+ */
+export async function processDocumentQueueJob(message: DocumentQueueMessage): Promise<void> {
+  switch (message.type) {
+    case 'document-processing':
+      await processDocument(message);
+      break;
+    case 'summary-generation':
+      await processSummaryGeneration(message);
+      break;
+    case 'study-artifact-generation':
+      await processStudyArtifactGeneration(message);
+      break;
+  }
+}
+
 /**
  * Poll and process messages from the document processing queue
  */
@@ -209,7 +339,7 @@ export async function pollDocumentQueue(): Promise<void> {
     }
 
     const parsed = parseMessage(message.Body);
-    if (!parsed || parsed.type !== 'document-processing') {
+    if (!parsed || !isDocumentQueueMessage(parsed)) {
       console.warn('[document-processor] Received invalid message:', message.Body);
       continue;
     }
@@ -221,7 +351,11 @@ export async function pollDocumentQueue(): Promise<void> {
       .where(eq(documents.id, parsed.documentId))
       .limit(1);
 
-    if (existingDoc && (existingDoc.status === 'ready' || existingDoc.status === 'failed')) {
+    if (
+      parsed.type === 'document-processing' &&
+      existingDoc &&
+      (existingDoc.status === 'ready' || existingDoc.status === 'failed')
+    ) {
       console.log('[document-processor] Skipping already processed document', {
         documentId: parsed.documentId,
         status: existingDoc.status,
@@ -247,7 +381,7 @@ export async function pollDocumentQueue(): Promise<void> {
     }, 4 * 60 * 1000); // every 4 minutes
 
     try {
-      await processDocument(parsed);
+      await processDocumentQueueJob(parsed);
       // Delete message on success
       await deleteMessage(QUEUES.DOCUMENT_PROCESSING, message.ReceiptHandle);
       console.log('[document-processor] Message processed and deleted');
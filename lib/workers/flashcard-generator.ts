@@ -0,0 +1,65 @@
+/**
+ * Flashcard Generation Worker
+ * Fills flashcard decks created from the document page
+ */
+
+import { db } from '@/lib/db/drizzle';
+import { flashcardDecks, flashcards, users, type NewFlashcard } from '@/lib/db/schema';
+import { generateFlashcards } from '@/lib/generation';
+import { incrementFlashcardGeneration } from '@/lib/subscriptions/usage';
+import { eq } from 'drizzle-orm';
+import type { FlashcardGenerationMessage } from '@/lib/sqs/client';
+
+/**
+ * Process a single flashcard generation job
+ */
+export async function processFlashcardGeneration(message: FlashcardGenerationMessage): Promise<void> {
+  const { deckId, documentId, cardCount } = message;
+
+  const [deck] = await db.select().from(flashcardDecks).where(eq(flashcardDecks.id, deckId)).limit(1);
+  if (!deck) {
+    console.warn('[flashcard-generator] Deck not found, skipping', { deckId });
+    return;
+  }
+
+  // Idempotency guard: a redelivered message must not add the cards twice
+  if (deck.status === 'ready') {
+    console.log('[flashcard-generator] Skipping already generated deck', { deckId });
+    return;
+  }
+
+  try {
+    console.log('[flashcard-generator] Starting flashcard generation', { deckId, documentId });
+
+    const generated = await generateFlashcards(documentId, cardCount, { focus: deck.focus });
+    console.log('[flashcard-generator] Generated flashcards', { deckId, cardCount: generated.length });
+
+    const newCards: NewFlashcard[] = generated.map((card, index) => ({
+      deckId,
+      position: index,
+      front: card.front,
+      back: card.back,
+      sourceRef: card.sourceRef ?? null,
+    }));
+
+    await db.transaction(async (tx) => {
+      await tx.insert(flashcards).values(newCards);
+      await tx.update(flashcardDecks).set({ status: 'ready' }).where(eq(flashcardDecks.id, deckId));
+    });
+
+    // Increment usage count only on successful completion
+    const [user] = await db.select().from(users).where(eq(users.id, deck.userId)).limit(1);
+    if (user) {
+      await incrementFlashcardGeneration(user);
+    }
+
+    console.log('[flashcard-generator] Flashcard generation complete', { deckId });
+  } catch (error) {
+    console.error('[flashcard-generator] Error generating flashcards:', error);
+    await db
+      .update(flashcardDecks)
+      .set({ status: 'failed' })
+      .where(eq(flashcardDecks.id, deckId));
+    throw error;
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Question Generation Worker
+ * Regenerates single questions and adds "more like these" questions to existing quizzes
+ */
+
+import { db } from '@/lib/db/drizzle';
+import {
+  documentChunks,
+  questions,
+  quizzes,
+  users,
+  type DocumentChunk,
+  type Question,
+} from '@/lib/db/schema';
+import {
+  generateReplacementQuestion,
+  generateSimilarQuestions,
+  type ExampleQuestion,
+  type SourceRef,
+} from '@/lib/generation';
+import { getQuestionType, isBloomLevel, isDifficulty } from '@/lib/questions';
+import { currentQuestionsOf } from '@/lib/db/queries';
+import { incrementQuizGeneration } from '@/lib/subscriptions/usage';
+import { findChunksByQuery, findChunksForQuestionGeneration } from '@/lib/vector-search';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import type { QuestionGenerationMessage } from '@/lib/sqs/client';
+import { verifyGeneratedQuestions } from './question-verifier';
+
+function toExample(question: Question): ExampleQuestion {
+  return {
+    type: getQuestionType(question),
+    prompt: question.prompt,
+    difficulty: isDifficulty(question.difficulty) ? question.difficulty : null,
+    bloomLevel: isBloomLevel(question.bloomLevel) ? question.bloomLevel : null,
+  };
+}
+
+/**
+ * Resolve the chunk a question was generated from
+ * Questions generated before chunk attribution fall back to the chunk closest to their excerpt or prompt.
+ */
+async function findSourceChunk(documentId: number, question: Question): Promise<DocumentChunk | null> {
+  const ref = question.sourceRef as SourceRef | null;
+
+  if (ref?.chunkId) {
+    const [chunk] = await db
+      .select()
+      .from(documentChunks)
+      .where(and(eq(documentChunks.id, ref.chunkId), eq(documentChunks.documentId, documentId)))
+      .limit(1);
+    if (chunk) {
+      return chunk;
+    }
+  }
+
+  const [nearest] = await findChunksByQuery(documentId, ref?.text || question.prompt, 1);
+  return nearest ?? null;
+}
+
+/**
+ * Source chunks of the example questions plus their immediate neighbours
+ */
+async function findExampleChunks(documentId: number, examples: Question[]): Promise<DocumentChunk[]> {
+  const indices = new Set<number>();
+  for (const example of examples) {
+    const chunkIndex = (example.sourceRef as SourceRef | null)?.chunkIndex;
+    if (chunkIndex !== undefined) {
+      indices.add(chunkIndex - 1);
+      indices.add(chunkIndex);
+      indices.add(chunkIndex + 1);
+    }
+  }
+
+  if (indices.size === 0) {
+    return [];
+  }
+
+  return db
+    .select()
+    .from(documentChunks)
+    .where(
+      and(
+        eq(documentChunks.documentId, documentId),
+        inArray(documentChunks.chunkIndex, [...indices])
+      )
+    )
+    .orderBy(documentChunks.chunkIndex);
+}
+
+/**
+ * Process a single question generation job
+ */
+export async function processQuestionGeneration(message: QuestionGenerationMessage): Promise<void> {
+  const { quizId } = message;
+
+  const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, quizId)).limit(1);
+  if (!quiz) {
+    console.warn('[question-generator] Quiz not found, skipping', { quizId });
+    return;
+  }
+
+  try {
+    console.log('[question-generator] Starting question generation', { quizId, mode: message.mode });
+
+    const quizQuestions = await db.select().from(questions).where(currentQuestionsOf(quizId));
+
+    if (message.mode === 'regenerate') {
+      const original = quizQuestions.find((q) => q.id === message.questionId);
+      if (!original) {
+        console.warn('[question-generator] Question not found, skipping', { quizId, questionId: message.questionId });
+        return;
+      }
+
+      const sourceChunk = await findSourceChunk(quiz.documentId, original);
+      if (!sourceChunk) {
+        throw new Error('No source chunk found for question');
+      }
+
+      const generated = await generateReplacementQuestion(sourceChunk, toExample(original), quiz.focus);
+      const [checked] = await verifyGeneratedQuestions(quiz.documentId, [generated]);
+      if (!checked) {
+        throw new Error('Replacement question was contradicted by the source document');
+      }
+      const { question: replacement, verification } = checked;
+
+      // The replacement takes the original's position under a new ID; the original is retired
+      // rather than overwritten so past attempts still review the question they answered
+      const [saved] = await db.transaction(async (tx) => {
+        await tx
+          .update(questions)
+          .set({ status: 'retired' })
+          .where(eq(questions.id, original.id));
+
+        return tx
+          .insert(questions)
+          .values({
+            quizId,
+            position: original.position,
+            type: replacement.type,
+            prompt: replacement.prompt,
+            choices: replacement.choices,
+            answer: replacement.answer,
+            explanation: replacement.explanation,
+            difficulty: replacement.difficulty,
+            bloomLevel: replacement.bloomLevel,
+            sourceRef: replacement.sourceRef,
+            verification,
+          })
+          .returning({ id: questions.id });
+      });
+
+      console.log('[question-generator] Question regenerated', {
+        quizId,
+        questionId: original.id,
+        replacementId: saved.id,
+      });
+    } else {
+      const examples = quizQuestions.filter((q) => message.exampleQuestionIds.includes(q.id));
+      if (examples.length === 0) {
+        throw new Error('No example questions found');
+      }
+
+      let chunks = await findExampleChunks(quiz.documentId, examples);
+      if (chunks.length === 0) {
+        chunks = await findChunksForQuestionGeneration(quiz.documentId, message.count, {
+          focus: quiz.focus,
+        });
+      }
+
+      const generated = await verifyGeneratedQuestions(
+        quiz.documentId,
+        await generateSimilarQuestions(
+          chunks,
+          examples.map(toExample),
+          message.count,
+          quizQuestions.map((q) => q.prompt),
+          quiz.focus
+        )
+      );
+      if (generated.length === 0) {
+        throw new Error('Every generated question was contradicted by the source document');
+      }
+
+      // Append after the current last question
+      const nextPosition = Math.max(-1, ...quizQuestions.map((q) => q.position)) + 1;
+
+      await db.insert(questions).values(
+        generated.map(({ question: q, verification }, index) => ({
+          quizId,
+          position: nextPosition + index,
+          type: q.type,
+          prompt: q.prompt,
+          choices: q.choices,
+          answer: q.answer,
+          explanation: q.explanation,
+          difficulty: q.difficulty,
+          bloomLevel: q.bloomLevel,
+          sourceRef: q.sourceRef,
+          verification,
+        }))
+      );
+
+      await db
+        .update(quizzes)
+        .set({ pendingQuestionCount: sql`GREATEST(${quizzes.pendingQuestionCount} - ${message.count}, 0)` })
+        .where(eq(quizzes.id, quizId));
+
+      console.log('[question-generator] Added questions', { quizId, questionCount: generated.length });
+    }
+
+    // Increment usage count only on successful completion
+    const [user] = await db.select().from(users).where(eq(users.id, quiz.userId)).limit(1);
+    if (user) {
+      await incrementQuizGeneration(user);
+    }
+  } catch (error) {
+    console.error('[question-generator] Error generating questions:', error);
+    // Clear the pending state so the editor stops waiting; the original question is left untouched
+    if (message.mode === 'regenerate') {
+      await db
+        .update(questions)
+        .set({ status: 'ready' })
+        .where(and(eq(questions.id, message.questionId), eq(questions.status, 'regenerating')));
+    } else {
+      await db
+        .update(quizzes)
+        .set({ pendingQuestionCount: sql`GREATEST(${quizzes.pendingQuestionCount} - ${message.count}, 0)` })
+        .where(eq(quizzes.id, quizId));
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Post-generation verification shared by the quiz and question generation workers
+ */
+
+import { db } from '@/lib/db/drizzle';
+import { documentChunks, type DocumentChunk } from '@/lib/db/schema';
+import { verifyQuestions, type GeneratedQuestion } from '@/lib/generation';
+import {
+  isFlaggedForReview,
+  isRejectedByVerification,
+  type QuestionVerification,
+} from '@/lib/questions';
+import { findChunksByQuery } from '@/lib/vector-search';
+import { and, eq, inArray } from 'drizzle-orm';
+
+/**
+ * Check each generated question against its source chunk and drop the ones the source
+ * does not back up. Questions that cannot be checked are kept unverified.
+ * If the source backs none of them, unsupported questions are kept for review, but
+ * questions the source contradicts are always dropped, so the result may be empty.
+ */
+export async function verifyGeneratedQuestions(
+  documentId: number,
+  generated: GeneratedQuestion[]
+): Promise<{ question: GeneratedQuestion; verification: QuestionVerification | null }[]> {
+  let verifications: (QuestionVerification | null)[];
+  try {
+    const chunkIds = [
+      ...new Set(generated.map((q) => q.sourceRef?.chunkId).filter((id) => id !== undefined)),
+    ];
+    const cited: DocumentChunk[] =
+      chunkIds.length > 0
+        ? await db
+            .select()
+            .from(documentChunks)
+            .where(and(eq(documentChunks.documentId, documentId), inArray(documentChunks.id, chunkIds)))
+        : [];
+    const chunksById = new Map(cited.map((chunk) => [chunk.id, chunk]));
+
+    // Questions the model did not attribute are checked against the closest chunk
+    const items = await Promise.all(
+      generated.map(async (question) => {
+        const source = question.sourceRef?.chunkId
+          ? chunksById.get(question.sourceRef.chunkId)
+          : undefined;
+        const sources = source
+          ? [source]
+          : await findChunksByQuery(documentId, question.sourceRef?.text || question.prompt, 1);
+        return { question, sources };
+      })
+    );
+
+    verifications = await verifyQuestions(items);
+  } catch (error) {
+    console.error('[question-verifier] Verification failed, saving questions unverified:', error);
+    verifications = generated.map(() => null);
+  }
+
+  const verified = generated.map((question, index) => ({
+    question,
+    verification: verifications[index],
+  }));
+
+  let kept = verified.filter(({ verification }) => !isRejectedByVerification(verification));
+  // An all-flagged quiz is still reviewable, but never with answer keys the source contradicts
+  if (kept.length === 0) {
+    kept = verified.filter(({ verification }) => verification?.verdict !== 'incorrect');
+  }
+
+  console.log('[question-verifier] Verified questions', {
+    documentId,
+    checked: verifications.filter((v) => v !== null).length,
+    dropped: verified.length - kept.length,
+    flagged: kept.filter(({ verification }) => isFlaggedForReview(verification)).length,
+  });
+
+  return kept;
+}
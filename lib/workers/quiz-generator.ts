@@ -1,43 +1,73 @@
 /**
  * Quiz Generation Worker
- * Processes quiz generation jobs from SQS queue
+ * Processes quiz generation jobs from SQS queue, plus other jobs that share the queue
  */
 
 import { db } from '@/lib/db/drizzle';
 import { quizzes, questions, users, type NewQuestion } from '@/lib/db/schema';
-import { generateQuestions } from '@/lib/generation';
+import {
+  generateQuestions,
+  generateQuestionsWithFullCoverage,
+  type CoverageReport,
+} from '@/lib/generation';
 import { incrementQuizGeneration } from '@/lib/subscriptions/usage';
 import { eq } from 'drizzle-orm';
+import { processAttemptGrading } from './attempt-grader';
+import { processQuestionGeneration } from './question-generator';
+import { processFlashcardGeneration } from './flashcard-generator';
+import { verifyGeneratedQuestions } from './question-verifier';
 import {
   receiveMessages,
   deleteMessage,
+  changeMessageVisibility,
   parseMessage,
+  isDocumentQueueMessage,
   QUEUES,
   type QuizGenerationMessage,
+  type QuizQueueMessage,
 } from '@/lib/sqs/client';
 
 /**
  * Process a single quiz generation job
  */
 export async function processQuizGeneration(message: QuizGenerationMessage): Promise<void> {
-  const { quizId, documentId, questionCount } = message;
+  const { quizId, documentId, questionCount, options } = message;
 
   try {
     console.log('[quiz-generator] Starting quiz generation', { quizId, documentId });
 
     // Generate questions using LLM
-    const generatedQuestions = await generateQuestions(documentId, questionCount);
+    let generatedQuestions;
+    let coverage: CoverageReport | null = null;
+    if (options?.mode === 'full_coverage') {
+      ({ questions: generatedQuestions, coverage } = await generateQuestionsWithFullCoverage(
+        documentId,
+        questionCount,
+        options
+      ));
+    } else {
+      generatedQuestions = await generateQuestions(documentId, questionCount, options);
+    }
     console.log('[quiz-generator] Generated questions', { quizId, questionCount: generatedQuestions.length });
 
+    const verifiedQuestions = await verifyGeneratedQuestions(documentId, generatedQuestions);
+    if (verifiedQuestions.length === 0) {
+      throw new Error('Every generated question was contradicted by the source document');
+    }
+
     // Create questions
-    const newQuestions: NewQuestion[] = generatedQuestions.map((q) => ({
+    const newQuestions: NewQuestion[] = verifiedQuestions.map(({ question: q, verification }, index) => ({
       quizId,
-      type: 'multiple_choice',
+      position: index,
+      type: q.type,
       prompt: q.prompt,
       choices: q.choices,
       answer: q.answer,
       explanation: q.explanation,
+      difficulty: q.difficulty,
+      bloomLevel: q.bloomLevel,
       sourceRef: q.sourceRef,
+      verification,
     }));
 
     await db.insert(questions).values(newQuestions);
@@ -46,7 +76,7 @@ export async function processQuizGeneration(message: QuizGenerationMessage): Pro
     // Update quiz status to ready
     await db
       .update(quizzes)
-      .set({ status: 'ready' })
+      .set({ status: 'ready', coverage })
       .where(eq(quizzes.id, quizId));
 
     // Increment usage count only on successful completion
@@ -80,6 +110,22 @@ export async function processQuizGeneration(message: QuizGenerationMessage): Pro
   }
 }
 
+/**
+ * Route a quiz queue message to its handler
+ */
+async function processQuizQueueJob(message: QuizQueueMessage): Promise<void> {
+  switch (message.type) {
+    case 'quiz-generation':
+      return processQuizGeneration(message);
+    case 'attempt-grading':
+      return processAttemptGrading(message);
+    case 'question-generation':
+      return processQuestionGeneration(message);
+    case 'flashcard-generation':
+      return processFlashcardGeneration(message);
+  }
+}
+
 /**
  * Poll and process messages from the quiz generation queue
  */
@@ -94,13 +140,27 @@ export async function pollQuizQueue(): Promise<void> {
     }
 
     const parsed = parseMessage(message.Body);
-    if (!parsed || parsed.type !== 'quiz-generation') {
+    if (!parsed || isDocumentQueueMessage(parsed)) {
       console.warn('[quiz-generator] Received invalid message:', message.Body);
       continue;
     }
 
+    // Heartbeat: full-coverage generation can outlast the 10 minute visibility timeout
+    const heartbeatInterval = setInterval(async () => {
+      try {
+        await changeMessageVisibility(
+          QUEUES.QUIZ_GENERATION,
+          message.ReceiptHandle!,
+          600 // extend by 10 minutes
+        );
+        console.log('[quiz-generator] Extended message visibility', { type: parsed.type });
+      } catch (err) {
+        console.error('[quiz-generator] Failed to extend visibility:', err);
+      }
+    }, 4 * 60 * 1000); // every 4 minutes
+
     try {
-      await processQuizGeneration(parsed);
+      await processQuizQueueJob(parsed);
       // Delete message on success
       await deleteMessage(QUEUES.QUIZ_GENERATION, message.ReceiptHandle);
       console.log('[quiz-generator] Message processed and deleted');
@@ -108,6 +168,8 @@ export async function pollQuizQueue(): Promise<void> {
       console.error('[quiz-generator] Failed to process message:', error);
       // Message will become visible again after visibility timeout
       // and will be moved to DLQ after max retries
+    } finally {
+      clearInterval(heartbeatInterval);
     }
   }
 }